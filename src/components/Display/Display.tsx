@@ -13,9 +13,11 @@ import {
   Animated,
   Dimensions,
   Platform,
+  Pressable,
 } from 'react-native';
 
 import { ValidationUtils } from '@/utils/validation';
+import { Diagnostic, DiagnosticFix } from '@/types';
 
 interface DisplayProps {
   value: string;
@@ -26,6 +28,8 @@ interface DisplayProps {
   showHistory?: boolean;
   maxHistoryItems?: number;
   animated?: boolean;
+  diagnostics?: Diagnostic[]; // 表达式的诊断信息，在表达式中标出出错区间
+  onApplyFix?: (fix: DiagnosticFix) => void;
 }
 
 interface DisplayState {
@@ -49,6 +53,8 @@ export const Display: React.FC<DisplayProps> = ({
   showHistory = false,
   maxHistoryItems = 5,
   animated = true,
+  diagnostics = [],
+  onApplyFix,
 }) => {
   const [state, setState] = useState<DisplayState>({
     displayHeight: 80,
@@ -168,6 +174,7 @@ export const Display: React.FC<DisplayProps> = ({
         expression: { color: '#8e8e93' },
         history: { backgroundColor: '#2c2c2e' },
         historyItem: { color: '#8e8e93' },
+        diagnostic: { color: '#ff453a' },
       };
     } else {
       return {
@@ -176,6 +183,7 @@ export const Display: React.FC<DisplayProps> = ({
         expression: { color: '#666666' },
         history: { backgroundColor: '#f2f2f7' },
         historyItem: { color: '#666666' },
+        diagnostic: { color: '#d70015' },
       };
     }
   };
@@ -201,11 +209,57 @@ export const Display: React.FC<DisplayProps> = ({
 
   const themeStyles = getThemeStyles();
   const modeStyles = getModeStyles();
+  const primaryDiagnostic = diagnostics.find(diagnostic => diagnostic.severity === 'error') ?? diagnostics[0];
+
+  // 在表达式中下划线标出出错区间，区间为空（如缺少操作数）时在该处插入插入符
+  const renderExpressionText = () => {
+    const span = primaryDiagnostic?.span;
+    if (!span) {
+      return formatExpression(expression);
+    }
+
+    const marked = expression.slice(span.start, span.end);
+    return (
+      <>
+        {formatExpression(expression.slice(0, span.start))}
+        <Text style={[styles.diagnosticSpan, themeStyles.diagnostic]}>
+          {marked ? formatExpression(marked) : '‸'}
+        </Text>
+        {formatExpression(expression.slice(span.end))}
+      </>
+    );
+  };
+
+  const renderDiagnostics = () => {
+    if (!primaryDiagnostic) return null;
+
+    return (
+      <View style={styles.diagnostics}>
+        <Text style={[styles.diagnosticMessage, themeStyles.diagnostic]} numberOfLines={2}>
+          {primaryDiagnostic.message}
+        </Text>
+        {onApplyFix && (
+          <View style={styles.fixes}>
+            {diagnostics.flatMap(diagnostic => diagnostic.fixes).map((fix, index) => (
+              <Pressable
+                key={`${fix.label}-${index}`}
+                style={styles.fixButton}
+                onPress={() => onApplyFix(fix)}
+                accessibilityLabel={fix.label}
+              >
+                <Text style={styles.fixText}>{fix.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
 
   const renderMainDisplay = () => (
     <View style={[styles.mainDisplay, modeStyles.container]}>
       {/* 表达式显示 */}
-      {expression && expression !== value && (
+      {expression && (expression !== value || primaryDiagnostic) && (
         <Animated.View style={{ opacity: fadeAnim }}>
           <Text
             style={[
@@ -216,11 +270,14 @@ export const Display: React.FC<DisplayProps> = ({
             numberOfLines={1}
             adjustsFontSizeToFit
           >
-            {formatExpression(expression)}
+            {renderExpressionText()}
           </Text>
         </Animated.View>
       )}
 
+      {/* 诊断信息与一键修复 */}
+      {renderDiagnostics()}
+
       {/* 主要数值显示 */}
       <Animated.View style={{ opacity: fadeAnim }}>
         <Text
@@ -328,6 +385,42 @@ const styles = StyleSheet.create({
     letterSpacing: 1,
   },
 
+  diagnosticSpan: {
+    textDecorationLine: 'underline',
+    textDecorationStyle: 'solid',
+  },
+
+  diagnostics: {
+    alignSelf: 'stretch',
+    marginBottom: 8,
+  },
+
+  diagnosticMessage: {
+    fontSize: 13,
+    textAlign: 'right',
+  },
+
+  fixes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginTop: 6,
+  },
+
+  fixButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginLeft: 6,
+    marginTop: 4,
+    borderRadius: 12,
+    backgroundColor: '#007aff',
+  },
+
+  fixText: {
+    fontSize: 13,
+    color: '#ffffff',
+  },
+
   additionalInfo: {
     marginTop: 8,
     alignSelf: 'flex-start',
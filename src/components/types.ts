@@ -5,6 +5,7 @@
  */
 
 import { ViewStyle, TextStyle } from 'react-native';
+import { Diagnostic, DiagnosticFix } from '@/types';
 
 // Display组件属性
 export interface DisplayProps {
@@ -16,6 +17,8 @@ export interface DisplayProps {
   showHistory?: boolean;
   maxHistoryItems?: number;
   animated?: boolean;
+  diagnostics?: Diagnostic[];
+  onApplyFix?: (fix: DiagnosticFix) => void;
 }
 
 // Button组件属性
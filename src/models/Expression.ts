@@ -13,12 +13,57 @@ import {
   ExpressionState,
   ValidationRule,
   ParseOptions,
+  SourceSpan,
 } from '@/types';
+import { MathNotation, NotationFormat } from '@/utils/notation';
 // 简化的UUID生成器，避免外部依赖
 const generateUUID = (): string => {
   return 'expr-' + Date.now().toString(36) + '-' + Math.random().toString(36).substr(2, 9);
 };
 
+// 可识别的函数名，与 CalculatorService.getSupportedFunctions 保持一致
+const FUNCTION_NAMES = [
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan',
+  'ln', 'log', 'sqrt', 'abs', 'ceil', 'floor', 'round',
+  'exp', 'pow', 'max', 'min',
+  'sum', 'prod', 'count', 'mean', 'median', 'var', 'stdev', 'sort',
+  'det', 'inv', 'transpose', 'trace', 'rank', 'limit', 'series', 'if', 'piecewise',
+];
+
+// 同时是单位符号的函数名（min 为分钟），后面没有左括号时按单位解析，如 1 h to min
+const UNIT_FUNCTION_NAMES = ['min'];
+
+// 可识别的常数名（π 和 ∞ 在词法分析中单独处理），inf 用作无穷级数的上限
+const CONSTANT_NAMES = ['pi', 'e', 'inf'];
+
+// sum 和 prod 有四个参数时为求和与求积 sum(expr, k, a, b)，第二个参数是约束变量
+const SERIES_FUNCTIONS = ['sum', 'prod'];
+
+// 单位换算运算符，如 60 mph to m/s、3 ft in cm
+const CONVERSION_OPERATORS = ['to', 'in'];
+
+// 同时是单位符号的换算运算符（in 为英寸），紧跟数字且后面没有换算目标时，或紧跟换算运算符时按单位解析，
+// 如 12 in to cm、3 ft to in
+const UNIT_OPERATOR_NAMES = ['in'];
+
+// 逻辑运算符，以单词书写：not 为一元运算符
+const LOGICAL_OPERATORS = ['and', 'or', 'not'];
+
+// 比较运算符，结果为 1（成立）或 0（不成立）
+const COMPARISON_OPERATORS = ['<', '<=', '>', '>=', '==', '!='];
+
+// 左括号与对应的右括号：() 为分组，{} 和 [] 为列表
+const CLOSING_BRACKETS: Record<string, string> = { '(': ')', '{': '}', '[': ']' };
+
+// 带位置信息的语法错误，由 parse() 转换为 errorMessage/errorPosition/errorSpan；
+// length 为出错符号的长度，在表达式末尾出错时为 0
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number, public length: number = 0) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
 export class ExpressionModel implements Expression {
   public readonly id: string;
   public readonly input: string;
@@ -26,10 +71,13 @@ export class ExpressionModel implements Expression {
   public ast: ASTNode | null;
   public isValid: boolean;
   public errorMessage: string | null;
+  public errorPosition: number | null;
+  public errorSpan: SourceSpan | null;
   public readonly type: ExpressionType;
   public readonly createdAt: Date;
   public variables: Map<string, number>;
   private state: ExpressionState;
+  private cursor: number;
 
   constructor(
     input: string,
@@ -42,6 +90,8 @@ export class ExpressionModel implements Expression {
     this.ast = null;
     this.isValid = false;
     this.errorMessage = null;
+    this.errorPosition = null;
+    this.errorSpan = null;
     this.type = type;
     this.createdAt = new Date();
     this.variables = new Map();
@@ -49,6 +99,7 @@ export class ExpressionModel implements Expression {
       phase: 'created',
       timestamp: new Date(),
     };
+    this.cursor = 0;
 
     this.validate();
   }
@@ -63,6 +114,8 @@ export class ExpressionModel implements Expression {
       if (!rule.check(this)) {
         this.isValid = false;
         this.errorMessage = rule.errorMessage;
+        this.errorSpan = rule.locate?.(this) ?? null;
+        this.errorPosition = this.errorSpan?.start ?? null;
         this.updateState('invalid');
         return;
       }
@@ -89,10 +142,12 @@ export class ExpressionModel implements Expression {
       {
         check: (expr) => this.hasValidCharacters(expr.input),
         errorMessage: '表达式包含无效字符',
+        locate: (expr) => this.findInvalidCharacter(expr.input),
       },
       {
         check: (expr) => this.hasBalancedParentheses(expr.input),
         errorMessage: '括号不匹配',
+        locate: (expr) => this.findUnmatchedParenthesis(expr.input),
       },
     ];
   }
@@ -101,21 +156,43 @@ export class ExpressionModel implements Expression {
    * 检查是否包含有效字符
    */
   private hasValidCharacters(input: string): boolean {
-    const validPattern = /^[0-9a-zA-Z+\-*/().,\s\^πe sin cos tan ln log sqrt abs]+$/;
+    const validPattern = /^[0-9a-zA-Z+\-*/%().,=<>!:\s\^±π∞e sin cos tan ln log sqrt abs{}[\]]+$/;
     return validPattern.test(input);
   }
 
   /**
-   * 检查括号是否平衡
+   * 定位第一个无效字符
+   */
+  private findInvalidCharacter(input: string): SourceSpan | null {
+    const index = Array.from(input).findIndex(char => !this.hasValidCharacters(char));
+    return index < 0 ? null : { start: index, end: index + 1 };
+  }
+
+  /**
+   * 检查括号是否平衡，各类括号须成对嵌套
    */
   private hasBalancedParentheses(input: string): boolean {
-    let count = 0;
-    for (const char of input) {
-      if (char === '(') count++;
-      if (char === ')') count--;
-      if (count < 0) return false;
+    return this.findUnmatchedParenthesis(input) === null;
+  }
+
+  /**
+   * 定位第一个多余或类型不匹配的右括号，或最后一个未闭合的左括号
+   */
+  private findUnmatchedParenthesis(input: string): SourceSpan | null {
+    const open: number[] = [];
+    for (let i = 0; i < input.length; i++) {
+      const char = input.charAt(i);
+      if (CLOSING_BRACKETS[char]) {
+        open.push(i);
+      } else if (Object.values(CLOSING_BRACKETS).includes(char)) {
+        const start = open.pop();
+        if (start === undefined || CLOSING_BRACKETS[input.charAt(start)] !== char) {
+          return { start: i, end: i + 1 };
+        }
+      }
     }
-    return count === 0;
+    const last = open[open.length - 1];
+    return last === undefined ? null : { start: last, end: last + 1 };
   }
 
   /**
@@ -133,7 +210,7 @@ export class ExpressionModel implements Expression {
     const input = this.input;
 
     while (position < input.length) {
-      const char = input[position];
+      const char = input.charAt(position);
 
       // 跳过空白字符
       if (/\s/.test(char)) {
@@ -141,16 +218,29 @@ export class ExpressionModel implements Expression {
         continue;
       }
 
-      // 数字
-      if (/\d/.test(char)) {
+      // 数字（包括 .5 和 1e-3 形式）
+      const isDecimalStart =
+        char === '.' && /\d/.test(input.charAt(position + 1));
+      if (/\d/.test(char) || isDecimalStart) {
         const token = this.parseNumber(input, position);
         this.tokens.push(token);
         position = token.position + token.value.length;
         continue;
       }
 
-      // 操作符
-      if (/[+\-*/^]/.test(char)) {
+      // 操作符（** 等同于 ^，:= 为赋值，== 为相等比较）
+      const compoundOperator = ['**', ':=', '<=', '>=', '==', '!='].find(op => input.startsWith(op, position));
+      if (compoundOperator) {
+        this.tokens.push({
+          type: TokenType.OPERATOR,
+          value: compoundOperator,
+          position,
+        });
+        position += 2;
+        continue;
+      }
+
+      if (/[+\-*/%^=±<>]/.test(char)) {
         this.tokens.push({
           type: TokenType.OPERATOR,
           value: char,
@@ -161,7 +251,7 @@ export class ExpressionModel implements Expression {
       }
 
       // 括号
-      if (/[()]/.test(char)) {
+      if (/[()[\]{}]/.test(char)) {
         this.tokens.push({
           type: TokenType.PARENTHESIS,
           value: char,
@@ -171,16 +261,27 @@ export class ExpressionModel implements Expression {
         continue;
       }
 
-      // 函数和变量
+      // 函数参数分隔符
+      if (char === ',') {
+        this.tokens.push({
+          type: TokenType.SEPARATOR,
+          value: char,
+          position,
+        });
+        position++;
+        continue;
+      }
+
+      // 函数、变量和常数
       if (/[a-zA-Z]/.test(char)) {
-        const token = this.parseIdentifier(input, position);
+        const token = this.parseIdentifier(input, position, options);
         this.tokens.push(token);
         position = token.position + token.value.length;
         continue;
       }
 
       // 常数
-      if (char === 'π' || char === 'e') {
+      if (char === 'π' || char === '∞') {
         this.tokens.push({
           type: TokenType.CONSTANT,
           value: char,
@@ -206,37 +307,43 @@ export class ExpressionModel implements Expression {
    * 解析数字
    */
   private parseNumber(input: string, startPos: number): Token {
-    let value = '';
-    let position = startPos;
-
-    while (position < input.length && /[\d.]/.test(input[position])) {
-      value += input[position];
-      position++;
-    }
+    const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(input.slice(startPos));
 
     return {
       type: TokenType.NUMBER,
-      value,
+      value: match ? match[0] : input.charAt(startPos),
       position: startPos,
     };
   }
 
   /**
-   * 解析标识符（函数名或变量名）
+   * 解析标识符（函数名、常数名或变量名）
    */
-  private parseIdentifier(input: string, startPos: number): Token {
-    let value = '';
-    let position = startPos;
+  private parseIdentifier(
+    input: string,
+    startPos: number,
+    options: ParseOptions
+  ): Token {
+    const match = /^[a-zA-Z][a-zA-Z0-9]*/.exec(input.slice(startPos));
+    const value = match ? match[0] : input.charAt(startPos);
 
-    while (position < input.length && /[a-zA-Z]/.test(input[position])) {
-      value += input[position];
-      position++;
-    }
+    const rest = input.slice(startPos + value.length).trimStart();
+    const isCall = rest.startsWith('(');
+
+    const isConversion = CONVERSION_OPERATORS.includes(value) &&
+      !(UNIT_OPERATOR_NAMES.includes(value) && this.isUnitOperatorName(rest));
 
-    const functions = ['sin', 'cos', 'tan', 'ln', 'log', 'sqrt', 'abs'];
-    const type = functions.includes(value.toLowerCase())
-      ? TokenType.FUNCTION
-      : TokenType.VARIABLE;
+    let type = TokenType.VARIABLE;
+    if (isConversion || LOGICAL_OPERATORS.includes(value)) {
+      type = TokenType.OPERATOR;
+    } else if (
+      (FUNCTION_NAMES.includes(value.toLowerCase()) && (isCall || !UNIT_FUNCTION_NAMES.includes(value))) ||
+      (options.functions ?? []).includes(value)
+    ) {
+      type = TokenType.FUNCTION;
+    } else if (CONSTANT_NAMES.includes(value) || (options.complexMode && value === 'i')) {
+      type = TokenType.CONSTANT;
+    }
 
     return {
       type,
@@ -245,12 +352,28 @@ export class ExpressionModel implements Expression {
     };
   }
 
+  /**
+   * 换算运算符名称是否应按单位解析：紧跟换算运算符（作为换算目标），
+   * 或紧跟数字且后面不是换算目标（结尾、运算符、右括号或下一个换算运算符）
+   */
+  private isUnitOperatorName(rest: string): boolean {
+    const previous = this.tokens[this.tokens.length - 1];
+    if (previous && previous.type === TokenType.OPERATOR && CONVERSION_OPERATORS.includes(previous.value)) {
+      return true;
+    }
+    const nextWord = /^[a-zA-Z]+/.exec(rest)?.[0];
+    return (
+      previous?.type === TokenType.NUMBER &&
+      (nextWord ? CONVERSION_OPERATORS.includes(nextWord) : !/^[\d.(π∞]/.test(rest))
+    );
+  }
+
   /**
    * 语法分析，构建AST
    */
-  public parse(): ASTNode | null {
+  public parse(options: ParseOptions = {}): ASTNode | null {
     if (this.tokens.length === 0) {
-      this.tokenize();
+      this.tokenize(options);
     }
 
     if (this.tokens.length === 0) {
@@ -258,39 +381,468 @@ export class ExpressionModel implements Expression {
     }
 
     try {
-      this.ast = this.parseExpression(0);
+      this.cursor = 0;
+      let ast: ASTNode;
+      if (this.isFunctionDefinition()) {
+        ast = this.parseFunctionDefinition();
+      } else if (this.isAssignment()) {
+        ast = this.parseAssignment();
+      } else {
+        ast = this.parseStatement();
+      }
+
+      // 所有token都必须被消耗
+      const leftover = this.peek();
+      if (leftover) {
+        throw new ExpressionSyntaxError(
+          leftover.type === TokenType.NUMBER
+            ? `缺少运算符: ${leftover.value}`
+            : `意外的符号: ${leftover.value}`,
+          leftover.position,
+          leftover.value.length
+        );
+      }
+
+      this.ast = ast;
+      this.errorPosition = null;
+      this.errorSpan = null;
       this.updateState('valid');
       return this.ast;
     } catch (error) {
       this.isValid = false;
       this.errorMessage = error instanceof Error ? error.message : '语法分析失败';
+      this.errorSpan =
+        error instanceof ExpressionSyntaxError
+          ? { start: error.position, end: error.position + error.length }
+          : null;
+      this.errorPosition = this.errorSpan?.start ?? null;
       this.updateState('invalid');
       return null;
     }
   }
 
+  /**
+   * 判断是否为 f(x, y) = ... 形式的函数定义
+   */
+  private isFunctionDefinition(): boolean {
+    const [name, open] = this.tokens;
+    if (!name || !open || open.value !== '(') {
+      return false;
+    }
+
+    const isUserName =
+      name.type === TokenType.VARIABLE ||
+      (name.type === TokenType.FUNCTION &&
+        !FUNCTION_NAMES.includes(name.value.toLowerCase()));
+    if (!isUserName) {
+      return false;
+    }
+
+    // 参数列表必须是以逗号分隔的变量名
+    let index = 2;
+    for (;;) {
+      const parameter = this.tokens[index];
+      const next = this.tokens[index + 1];
+      if (!parameter || parameter.type !== TokenType.VARIABLE || !next) {
+        return false;
+      }
+      if (next.value === ')') {
+        break;
+      }
+      if (next.type !== TokenType.SEPARATOR) {
+        return false;
+      }
+      index += 2;
+    }
+
+    const equals = this.tokens[index + 2];
+    return equals !== undefined && this.isOperator(equals, '=');
+  }
+
+  /**
+   * 解析函数定义，生成 definition 节点：children 依次为参数变量节点和函数体
+   */
+  private parseFunctionDefinition(): ASTNode {
+    const nameToken = this.tokens[0] as Token;
+    const parameters: ASTNode[] = [];
+
+    this.cursor = 2;
+    let token = this.peek();
+    while (token && token.type === TokenType.VARIABLE) {
+      if (parameters.some(parameter => parameter.value === token?.value)) {
+        throw new ExpressionSyntaxError(
+          `参数名重复: ${token.value}`,
+          token.position,
+          token.value.length
+        );
+      }
+      parameters.push({
+        type: 'variable',
+        value: token.value,
+        position: token.position,
+      });
+      // 跳过参数后的逗号或右括号
+      this.cursor += 2;
+      token = this.peek();
+    }
+
+    // 跳过等号；函数体中对自身的调用（递归）按函数调用解析
+    this.cursor++;
+    this.tokens.slice(this.cursor).forEach((bodyToken, i) => {
+      if (bodyToken.value === nameToken.value && this.tokens[this.cursor + i + 1]?.value === '(') {
+        bodyToken.type = TokenType.FUNCTION;
+      }
+    });
+    const body = this.parseExpression();
+
+    return {
+      type: 'definition',
+      value: nameToken.value,
+      children: [...parameters, body],
+      position: nameToken.position,
+    };
+  }
+
+  /**
+   * 判断是否为 a := ... 形式的赋值语句
+   */
+  private isAssignment(): boolean {
+    const [name, assign] = this.tokens;
+    return (
+      name !== undefined &&
+      name.type === TokenType.VARIABLE &&
+      assign !== undefined &&
+      this.isOperator(assign, ':=')
+    );
+  }
+
+  /**
+   * 解析赋值语句，生成 assignment 节点：value 为变量名，children 为右侧表达式
+   */
+  private parseAssignment(): ASTNode {
+    const nameToken = this.tokens[0] as Token;
+
+    this.cursor = 2;
+    const value = this.parseExpression();
+
+    return {
+      type: 'assignment',
+      value: nameToken.value,
+      children: [value],
+      position: nameToken.position,
+    };
+  }
+
+  /**
+   * 解析语句：表达式，或以等号连接两侧表达式的方程
+   */
+  private parseStatement(): ASTNode {
+    const left = this.parseExpression();
+
+    const token = this.peek();
+    if (token && this.isOperator(token, '=')) {
+      this.cursor++;
+      const right = this.parseExpression();
+      return {
+        type: 'equation',
+        value: '=',
+        children: [left, right],
+        position: token.position,
+      };
+    }
+
+    return left;
+  }
+
   /**
    * 递归下降解析器
+   *
+   * 优先级从低到高：or < and < not < 比较 < 单位换算 < 不确定度 ± < 加减 < 乘除取余（含隐式乘法） < 一元正负 < 幂运算（右结合）
    */
-  private parseExpression(tokenIndex: number): ASTNode {
-    // 简化的表达式解析器实现
-    // 实际实现会更复杂，需要处理运算符优先级等
+  private parseExpression(): ASTNode {
+    return this.parseOr();
+  }
+
+  /**
+   * 解析逻辑或，生成 or 二元节点
+   */
+  private parseOr(): ASTNode {
+    return this.parseLogical('or', () => this.parseAnd());
+  }
+
+  /**
+   * 解析逻辑与，生成 and 二元节点
+   */
+  private parseAnd(): ASTNode {
+    return this.parseLogical('and', () => this.parseNot());
+  }
 
-    if (tokenIndex >= this.tokens.length) {
-      throw new Error('意外的表达式结束');
+  private parseLogical(operator: string, parseOperand: () => ASTNode): ASTNode {
+    let left = parseOperand();
+
+    let token = this.peek();
+    while (token && this.isOperator(token, operator)) {
+      this.cursor++;
+      const right = parseOperand();
+      left = {
+        type: 'binary',
+        value: operator,
+        children: [left, right],
+        position: token.position,
+      };
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  /**
+   * 解析逻辑非，生成 not 一元节点，如 not x > 0 即 not (x > 0)
+   */
+  private parseNot(): ASTNode {
+    const token = this.peek();
+
+    if (token && this.isOperator(token, 'not')) {
+      this.cursor++;
+      const operand = this.parseNot();
+      return {
+        type: 'unary',
+        value: 'not',
+        children: [operand],
+        position: token.position,
+      };
+    }
+
+    return this.parseComparison();
+  }
+
+  /**
+   * 解析比较运算，生成比较二元节点；连续比较 a < x <= b 按 a < x and x <= b 处理
+   */
+  private parseComparison(): ASTNode {
+    const first = this.parseConversion();
+
+    let result: ASTNode | null = null;
+    let left = first;
+    let token = this.peek();
+    while (token && this.isOperator(token, ...COMPARISON_OPERATORS)) {
+      this.cursor++;
+      const right = this.parseConversion();
+      const comparison: ASTNode = {
+        type: 'binary',
+        value: token.value,
+        children: [left, right],
+        position: token.position,
+      };
+      result = result
+        ? { type: 'binary', value: 'and', children: [result, comparison], position: token.position }
+        : comparison;
+      left = right;
+      token = this.peek();
     }
 
-    const token = this.tokens[tokenIndex];
+    return result ?? first;
+  }
+
+  /**
+   * 解析单位换算，生成 conversion 节点：children 为被换算的表达式和目标单位
+   */
+  private parseConversion(): ASTNode {
+    const value = this.parseUncertainty();
+
+    const token = this.peek();
+    if (token && this.isOperator(token, ...CONVERSION_OPERATORS)) {
+      this.cursor++;
+      const target = this.parseAdditive();
+      return {
+        type: 'conversion',
+        value: token.value,
+        children: [value, target],
+        position: token.position,
+      };
+    }
+
+    return value;
+  }
+
+  /**
+   * 解析测量值 a ± b，生成 ± 二元节点；优先级低于加减，如 9.8 + 0.01 ± 0.02 的不确定度作用于整个和
+   */
+  private parseUncertainty(): ASTNode {
+    const value = this.parseAdditive();
+
+    const token = this.peek();
+    if (token && this.isOperator(token, '±')) {
+      this.cursor++;
+      const uncertainty = this.parseAdditive();
+      return {
+        type: 'binary',
+        value: token.value,
+        children: [value, uncertainty],
+        position: token.position,
+      };
+    }
+
+    return value;
+  }
+
+  /**
+   * 解析加减运算
+   */
+  private parseAdditive(): ASTNode {
+    let left = this.parseMultiplicative();
+
+    let token = this.peek();
+    while (token && this.isOperator(token, '+', '-')) {
+      this.cursor++;
+      const right = this.parseMultiplicative();
+      left = {
+        type: 'binary',
+        value: token.value,
+        children: [left, right],
+        position: token.position,
+      };
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  /**
+   * 解析乘除和取余运算，以及 2x、3(x+1)、2π 形式的隐式乘法
+   */
+  private parseMultiplicative(): ASTNode {
+    let left = this.parseUnary();
+
+    let token = this.peek();
+    while (token) {
+      if (this.isOperator(token, '*', '/', '%')) {
+        this.cursor++;
+        const operand = this.parseUnary();
+        // 除号右侧的数字与紧随的名称先结合，如 10 m / 2 m 即 (10 m)/(2 m)、1 / 2 s 即 1/(2 s)
+        const right = token.value === '/' ? this.parseNumberJuxtaposition(operand) : operand;
+        left = {
+          type: 'binary',
+          value: token.value,
+          children: [left, right],
+          position: token.position,
+        };
+      } else if (this.startsImplicitOperand(token)) {
+        // 隐式乘法的右侧不能带符号，因此直接解析幂运算
+        const right = this.parsePower();
+        left = {
+          type: 'binary',
+          value: '*',
+          children: [left, right],
+          position: token.position,
+        };
+      } else {
+        break;
+      }
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  /**
+   * 数字之后紧跟的名称（及其乘方）与数字结合为一个因子，如 2 s、3 m^2
+   */
+  private parseNumberJuxtaposition(operand: ASTNode): ASTNode {
+    let result = operand;
+    let token = this.peek();
+    while (operand.type === 'number' && token && token.type === TokenType.VARIABLE) {
+      result = {
+        type: 'binary',
+        value: '*',
+        children: [result, this.parsePower()],
+        position: token.position,
+      };
+      token = this.peek();
+    }
+    return result;
+  }
+
+  /**
+   * 解析一元正负号
+   */
+  private parseUnary(): ASTNode {
+    const token = this.peek();
+
+    if (token && this.isOperator(token, '+', '-')) {
+      // 负号可以跟在运算符之后（如 5 - -3），正号不能（如 2 + + 3）
+      const previous = this.tokens[this.cursor - 1];
+      if (token.value === '+' && previous && this.isOperator(previous, '+', '-')) {
+        throw new ExpressionSyntaxError('不能有连续的运算符', token.position, token.value.length);
+      }
+
+      this.cursor++;
+      const operand = this.parseUnary();
+      return {
+        type: 'unary',
+        value: token.value,
+        children: [operand],
+        position: token.position,
+      };
+    }
+
+    return this.parsePower();
+  }
+
+  /**
+   * 解析幂运算（右结合，指数允许带符号，如 2^-3）
+   */
+  private parsePower(): ASTNode {
+    const base = this.parsePrimary();
+
+    const token = this.peek();
+    if (token && this.isOperator(token, '^', '**')) {
+      this.cursor++;
+      const exponent = this.parseUnary();
+      return {
+        type: 'binary',
+        value: '^',
+        children: [base, exponent],
+        position: token.position,
+      };
+    }
+
+    return base;
+  }
+
+  /**
+   * 解析基本单元：数字、常数、变量、函数调用和括号表达式
+   */
+  private parsePrimary(): ASTNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new ExpressionSyntaxError('意外的表达式结束', this.input.length);
+    }
 
     switch (token.type) {
       case TokenType.NUMBER:
+        this.cursor++;
         return {
           type: 'number',
-          value: parseFloat(token.value),
+          value: this.parseNumericLiteral(token.value),
+          position: token.position,
+        };
+
+      case TokenType.CONSTANT:
+        this.cursor++;
+        return {
+          type: 'constant',
+          value: token.value === 'pi' ? 'π' : token.value === 'inf' ? '∞' : token.value,
           position: token.position,
         };
 
       case TokenType.VARIABLE:
+        // 紧跟左括号的名称是函数调用，未定义的函数不按隐式乘法处理（如 sec(x) 不是 sec*x）
+        if (this.tokens[this.cursor + 1]?.value === '(') {
+          throw new ExpressionSyntaxError(`未知函数: ${token.value}`, token.position, token.value.length);
+        }
+        this.cursor++;
         return {
           type: 'variable',
           value: token.value,
@@ -298,35 +850,290 @@ export class ExpressionModel implements Expression {
         };
 
       case TokenType.FUNCTION:
-        return this.parseFunction(tokenIndex);
+        return this.parseFunction();
+
+      case TokenType.PARENTHESIS:
+        if (token.value === '(') {
+          this.cursor++;
+          const inner = this.parseExpression();
+          this.expectToken(')', '缺少右括号');
+          return inner;
+        }
+        if (token.value === '{' || token.value === '[') {
+          return this.parseList();
+        }
+        throw new ExpressionSyntaxError('括号内缺少表达式', token.position, token.value.length);
+
+      case TokenType.OPERATOR:
+        throw new ExpressionSyntaxError(
+          `运算符 ${token.value} 缺少操作数`,
+          token.position,
+          token.value.length
+        );
+
+      case TokenType.SEPARATOR:
+        throw new ExpressionSyntaxError('意外的逗号', token.position, token.value.length);
 
       default:
-        throw new Error(`意外的token类型: ${token.type}`);
+        throw new ExpressionSyntaxError(
+          `无法识别的字符: ${token.value}`,
+          token.position,
+          token.value.length
+        );
     }
   }
 
   /**
-   * 解析函数调用
+   * 转换数字字面量：超出双精度有效位数或指数范围（溢出为无穷、下溢为 0）的字面量
+   * 保留原始字符串，以便高精度计算时不丢失位数
    */
-  private parseFunction(tokenIndex: number): ASTNode {
-    const functionToken = this.tokens[tokenIndex];
+  private parseNumericLiteral(literal: string): number | string {
+    const mantissa = literal.split(/[eE]/)[0] || '';
+    const significantDigits = mantissa.replace('.', '').replace(/^0+/, '').length;
+    const parsed = parseFloat(literal);
+    const outOfRange = !Number.isFinite(parsed) || (parsed === 0 && significantDigits > 0);
+    return significantDigits > 15 || outOfRange ? literal : parsed;
+  }
 
-    if (tokenIndex + 1 >= this.tokens.length ||
-        this.tokens[tokenIndex + 1].value !== '(') {
-      throw new Error('函数调用缺少左括号');
+  /**
+   * 解析函数调用，参数之间以逗号分隔
+   */
+  private parseFunction(): ASTNode {
+    const functionToken = this.tokens[this.cursor];
+    if (!functionToken) {
+      throw new ExpressionSyntaxError('意外的表达式结束', this.input.length);
     }
+    this.cursor++;
+
+    this.expectToken('(', `函数 ${functionToken.value} 调用缺少左括号`);
 
-    // 简化实现，假设函数只有一个参数
-    const argument = this.parseExpression(tokenIndex + 2);
+    const closing = this.peek();
+    if (closing && closing.value === ')') {
+      throw new ExpressionSyntaxError(
+        `函数 ${functionToken.value} 缺少参数`,
+        closing.position,
+        closing.value.length
+      );
+    }
+
+    const name = functionToken.value.toLowerCase();
+    if (name === 'piecewise') {
+      return this.parsePiecewise(functionToken);
+    }
+
+    const args: ASTNode[] = [this.parseExpression()];
+    let token = this.peek();
+    while (token && token.type === TokenType.SEPARATOR) {
+      this.cursor++;
+      args.push(this.parseExpression());
+      token = this.peek();
+    }
+
+    this.expectToken(')', `函数 ${functionToken.value} 缺少右括号`);
+
+    const index = args[1];
+    if (index?.type !== 'variable') {
+      if (SERIES_FUNCTIONS.includes(name) && args.length === 4) {
+        throw new ExpressionSyntaxError(
+          `${functionToken.value} 的第二个参数必须是求和变量名，如 ${functionToken.value}(k^2, k, 1, n)`,
+          index?.position ?? functionToken.position,
+          1
+        );
+      }
+      if (name === 'series' && args.length === 4) {
+        throw new ExpressionSyntaxError(
+          'series 的第二个参数必须是展开变量名，如 series(sin(x), x, 0, 5)',
+          index?.position ?? functionToken.position,
+          1
+        );
+      }
+      if (name === 'limit') {
+        throw new ExpressionSyntaxError(
+          'limit 的第二个参数必须是变量名，如 limit(sin(x)/x, x, 0)',
+          index?.position ?? functionToken.position,
+          1
+        );
+      }
+    }
 
     return {
       type: 'function',
       value: functionToken.value,
-      children: [argument],
+      children: args,
       position: functionToken.position,
     };
   }
 
+  /**
+   * 解析分段函数 piecewise((x < 0, -x), (x >= 0, x^2), 默认值)：每段为括号中的条件和值，
+   * 最后一个参数可以是不带条件的默认值。children 依次为各段的条件和值，个数为奇数时最后一项是默认值
+   */
+  private parsePiecewise(functionToken: Token): ASTNode {
+    const pieces: ASTNode[][] = [this.parsePiece()];
+    let token = this.peek();
+    while (token && token.type === TokenType.SEPARATOR) {
+      this.cursor++;
+      pieces.push(this.parsePiece());
+      token = this.peek();
+    }
+
+    this.expectToken(')', `函数 ${functionToken.value} 缺少右括号`);
+
+    const invalid = pieces.find((piece, i) => piece.length !== 2 && (i < pieces.length - 1 || pieces.length === 1));
+    if (invalid) {
+      throw new ExpressionSyntaxError(
+        'piecewise 的每一段须写成 (条件, 值)，只有最后一个参数可以是默认值',
+        invalid[0]?.position ?? functionToken.position,
+        1
+      );
+    }
+
+    return {
+      type: 'function',
+      value: functionToken.value,
+      children: pieces.flat(),
+      position: functionToken.position,
+    };
+  }
+
+  /**
+   * 解析分段函数的一段：(条件, 值) 返回两个节点，否则按普通表达式解析为默认值
+   */
+  private parsePiece(): ASTNode[] {
+    const open = this.peek();
+    if (open && open.value === '(') {
+      const start = this.cursor;
+      this.cursor++;
+      const condition = this.parseExpression();
+      const separator = this.peek();
+      if (separator && separator.type === TokenType.SEPARATOR) {
+        this.cursor++;
+        const value = this.parseExpression();
+        this.expectToken(')', 'piecewise 的每一段须写成 (条件, 值)');
+        return [condition, value];
+      }
+      // 括号只是默认值表达式的一部分，如 (x + 1)^2
+      this.cursor = start;
+    }
+    return [this.parseExpression()];
+  }
+
+  /**
+   * 解析列表字面量 {1, 2, 3} 或 [1, 2, 3]，生成 list 节点：children 为各元素，允许空列表。
+   * 方括号内的元素全部是列表时为矩阵 [[1, 2], [3, 4]]，生成 matrix 节点：children 为各行；
+   * 方括号内恰有两个元素时为闭区间 [a, b]，生成 interval 节点：children 为下界和上界
+   */
+  private parseList(): ASTNode {
+    const open = this.tokens[this.cursor] as Token;
+    const closing = CLOSING_BRACKETS[open.value] as string;
+    this.cursor++;
+
+    const elements: ASTNode[] = [];
+    let token = this.peek();
+    if (!token || token.value !== closing) {
+      elements.push(this.parseExpression());
+      token = this.peek();
+      while (token && token.type === TokenType.SEPARATOR) {
+        this.cursor++;
+        elements.push(this.parseExpression());
+        token = this.peek();
+      }
+    }
+
+    this.expectToken(closing, `列表缺少 ${closing}`);
+
+    if (
+      open.value === '[' &&
+      elements.length > 0 &&
+      elements.every(element => element.type === 'list' || element.type === 'interval')
+    ) {
+      return this.toMatrix(elements, open);
+    }
+
+    if (open.value === '[' && elements.length === 2) {
+      return {
+        type: 'interval',
+        children: elements,
+        position: open.position,
+      };
+    }
+
+    return {
+      type: 'list',
+      children: elements,
+      position: open.position,
+    };
+  }
+
+  /**
+   * 由行列表生成 matrix 节点，各行元素个数必须相同
+   */
+  private toMatrix(elements: ASTNode[], open: Token): ASTNode {
+    // 两列矩阵的各行先被解析为区间
+    const rows = elements.map(row => (row.type === 'interval' ? { ...row, type: 'list' } : row));
+    const cols = rows[0]?.children?.length ?? 0;
+    if (cols === 0) {
+      throw new ExpressionSyntaxError('矩阵不能为空', open.position, 1);
+    }
+
+    const ragged = rows.find(row => row.children?.length !== cols);
+    if (ragged) {
+      throw new ExpressionSyntaxError(
+        `矩阵各行的元素个数必须相同: 第一行有 ${cols} 个元素，该行有 ${ragged.children?.length ?? 0} 个`,
+        ragged.position ?? open.position,
+        1
+      );
+    }
+
+    return {
+      type: 'matrix',
+      children: rows,
+      position: open.position,
+    };
+  }
+
+  /**
+   * 查看当前token
+   */
+  private peek(): Token | undefined {
+    return this.tokens[this.cursor];
+  }
+
+  /**
+   * 消耗指定的token，不匹配时抛出带位置的错误
+   */
+  private expectToken(value: string, message: string): Token {
+    const token = this.peek();
+    if (!token || token.value !== value) {
+      throw new ExpressionSyntaxError(
+        message,
+        token ? token.position : this.input.length,
+        token ? token.value.length : 0
+      );
+    }
+    this.cursor++;
+    return token;
+  }
+
+  /**
+   * 判断token是否为指定的运算符
+   */
+  private isOperator(token: Token, ...operators: string[]): boolean {
+    return token.type === TokenType.OPERATOR && operators.includes(token.value);
+  }
+
+  /**
+   * 判断token能否作为隐式乘法的右操作数
+   */
+  private startsImplicitOperand(token: Token): boolean {
+    return (
+      token.type === TokenType.VARIABLE ||
+      token.type === TokenType.CONSTANT ||
+      token.type === TokenType.FUNCTION ||
+      (token.type === TokenType.PARENTHESIS && token.value === '(')
+    );
+  }
+
   /**
    * 设置变量值
    */
@@ -369,6 +1176,35 @@ export class ExpressionModel implements Expression {
     return { ...this.state };
   }
 
+  /**
+   * 输出为指定记法的片段；尚未解析时在副本上解析，无法解析时按原文输出
+   */
+  public toNotation(format: NotationFormat, options: ParseOptions = {}): string {
+    const ast = this.ast ?? (this.isValid ? this.clone().parse(options) : null);
+    return ast ? MathNotation.render(ast, format) : MathNotation.text(this.input, format);
+  }
+
+  /**
+   * 输出为 LaTeX
+   */
+  public toLaTeX(): string {
+    return MathNotation.document([this.toNotation('latex')], 'latex');
+  }
+
+  /**
+   * 输出为 MathML 的 <math> 元素
+   */
+  public toMathML(): string {
+    return MathNotation.document([this.toNotation('mathml')], 'mathml');
+  }
+
+  /**
+   * 输出为带上标和数学符号的 Unicode 文本
+   */
+  public toUnicode(): string {
+    return MathNotation.document([this.toNotation('unicode')], 'unicode');
+  }
+
   /**
    * 克隆表达式
    */
@@ -378,6 +1214,8 @@ export class ExpressionModel implements Expression {
     cloned.ast = this.ast ? { ...this.ast } : null;
     cloned.isValid = this.isValid;
     cloned.errorMessage = this.errorMessage;
+    cloned.errorPosition = this.errorPosition;
+    cloned.errorSpan = this.errorSpan;
     cloned.variables = new Map(this.variables);
     return cloned;
   }
@@ -15,6 +15,7 @@ import {
   LightingSettings,
   Annotation,
   AnnotationStyle,
+  EndpointMarker,
   SpecialPoint,
   GraphExportOptions,
   GraphValidation,
@@ -37,6 +38,8 @@ export class GraphModel implements Graph {
   public style: GraphStyle | Graph3DStyle;
   public viewport: Viewport;
   public annotations: Annotation[];
+  public breaks: number[];
+  public endpoints: EndpointMarker[];
   public readonly createdAt: Date;
 
   private static readonly DEFAULT_VALIDATION: GraphValidation = {
@@ -83,6 +86,8 @@ export class GraphModel implements Graph {
       style?: GraphStyle | Graph3DStyle;
       viewport?: Partial<Viewport>;
       annotations?: Annotation[];
+      breaks?: number[];
+      endpoints?: EndpointMarker[];
       id?: string;
     } = {}
   ) {
@@ -96,6 +101,8 @@ export class GraphModel implements Graph {
     this.style = options.style || this.getDefaultStyle();
     this.viewport = { ...GraphModel.DEFAULT_VIEWPORT, ...options.viewport };
     this.annotations = options.annotations ? [...options.annotations] : [];
+    this.breaks = options.breaks ? [...options.breaks] : [];
+    this.endpoints = options.endpoints ? [...options.endpoints] : [];
     this.createdAt = new Date();
 
     this.validate();
@@ -559,6 +566,8 @@ export class GraphModel implements Graph {
       style: this.style,
       viewport: this.viewport,
       annotations: this.annotations,
+      breaks: this.breaks,
+      endpoints: this.endpoints,
       createdAt: this.createdAt,
     };
   }
@@ -578,6 +587,8 @@ export class GraphModel implements Graph {
         style: data.style,
         viewport: data.viewport,
         annotations: data.annotations,
+        breaks: data.breaks ?? [],
+        endpoints: data.endpoints ?? [],
         id: data.id,
       }
     );
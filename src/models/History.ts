@@ -13,12 +13,21 @@ import {
   HistoryValidationRules,
   CalculatorType,
 } from '@/types';
+import { ExpressionModel } from '@/models/Expression';
+import { ResultModel } from '@/models/Result';
+import { MathNotation, NotationFormat } from '@/utils/notation';
 
 // 简化的UUID生成器
 const generateUUID = (): string => {
   return 'history-' + Date.now().toString(36) + '-' + Math.random().toString(36).substr(2, 9);
 };
 
+// 导出 LaTeX/MathML 时历史记录对应的表达式和结果（历史记录本身只保存ID）
+export interface HistoryContent {
+  expression: ExpressionModel;
+  result?: ResultModel;
+}
+
 export class HistoryModel implements History {
   public readonly id: string;
   public readonly expressionId: string;
@@ -255,9 +264,9 @@ export class HistoryModel implements History {
   }
 
   /**
-   * 导出为指定格式
+   * 导出为指定格式，LaTeX 和 MathML 输出“表达式 = 结果”，需要提供对应内容
    */
-  public export(format: 'json' | 'csv' | 'txt'): string {
+  public export(format: HistoryExportOptions['format'], content?: HistoryContent): string {
     switch (format) {
       case 'json':
         return JSON.stringify(this.toJSON(), null, 2);
@@ -286,11 +295,29 @@ export class HistoryModel implements History {
           `备注: ${this.notes || '无'}`,
         ].join('\n');
 
+      case 'latex':
+      case 'mathml':
+        if (!content) {
+          throw new Error(`历史记录 ${this.id} 缺少表达式内容，无法导出为 ${format}`);
+        }
+        return this.exportNotation(content, format);
+
       default:
         throw new Error(`不支持的导出格式: ${format}`);
     }
   }
 
+  /**
+   * 输出数学记法，没有结果时只输出表达式
+   */
+  private exportNotation(content: HistoryContent, format: NotationFormat): string {
+    const fragments = [content.expression.toNotation(format)];
+    if (content.result) {
+      fragments.push(MathNotation.operator('=', format), content.result.toNotation(format));
+    }
+    return MathNotation.document(fragments, format);
+  }
+
   /**
    * 克隆历史记录
    */
@@ -468,11 +495,12 @@ export class HistoryModel implements History {
   }
 
   /**
-   * 批量导出历史记录
+   * 批量导出历史记录，LaTeX 和 MathML 格式从 contents 中按历史记录ID查找内容
    */
   public static exportHistories(
     histories: HistoryModel[],
-    options: HistoryExportOptions
+    options: HistoryExportOptions,
+    contents: ReadonlyMap<string, HistoryContent> = new Map()
   ): string {
     let filteredHistories = histories;
 
@@ -505,6 +533,13 @@ export class HistoryModel implements History {
           .map(h => h.export('txt'))
           .join('\n' + '='.repeat(50) + '\n');
 
+      case 'latex':
+      case 'mathml':
+        // 每条记录一行
+        return filteredHistories
+          .map(h => h.export(options.format, contents.get(h.id)))
+          .join('\n');
+
       default:
         throw new Error(`不支持的导出格式: ${options.format}`);
     }
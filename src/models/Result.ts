@@ -13,8 +13,25 @@ import {
   ResultMetrics,
   Matrix,
   Graph,
+  ValueList,
+  ComplexNumber,
+  ComplexFormat,
+  AngleUnit,
+  Rational,
+  Uncertain,
+  Interval,
+  ASTNode,
 } from '@/types';
 import { Decimal } from 'decimal.js';
+import { ComplexMath } from '@/utils/complex';
+import { RationalMath } from '@/utils/rational';
+import { MathNotation, NotationFormat } from '@/utils/notation';
+import { ProgrammerMath } from '@/utils/programmer';
+import { UncertaintyMath } from '@/utils/uncertainty';
+import { IntervalMath } from '@/utils/interval';
+
+// 小数格式最多显示的小数位数
+const MAX_FRACTION_DIGITS = 3;
 
 // 简化的UUID生成器
 const generateUUID = (): string => {
@@ -40,6 +57,9 @@ export class ResultModel implements Result {
     allowedFormats: Object.values(ResultFormat),
   };
 
+  /** 小数格式定点显示的最大十进制指数，更大的值改用科学计数法（与 Decimal 的 toExpPos 一致） */
+  public static readonly MAX_FIXED_EXPONENT = 20;
+
   constructor(
     expressionId: string,
     value: ResultValue,
@@ -49,7 +69,7 @@ export class ResultModel implements Result {
     this.id = id || generateUUID();
     this.expressionId = expressionId;
     this.value = value;
-    this.format = options.notation === 'exponential' ? ResultFormat.SCIENTIFIC : ResultFormat.DECIMAL;
+    this.format = this.determineFormat(value, options);
     this.precision = options.precision || 10;
     this.unit = options.unit || null;
     this.isExact = this.determineExactness(value);
@@ -60,6 +80,19 @@ export class ResultModel implements Result {
     this.validate();
   }
 
+  /**
+   * 确定初始显示格式，复数按 complexFormat 选择直角坐标或极坐标形式
+   */
+  private determineFormat(value: ResultValue, options: Partial<FormatOptions>): ResultFormat {
+    if (ComplexMath.isComplex(value)) {
+      return options.complexFormat === ComplexFormat.POLAR
+        ? ResultFormat.POLAR
+        : ResultFormat.RECTANGULAR;
+    }
+
+    return options.notation === 'exponential' ? ResultFormat.SCIENTIFIC : ResultFormat.DECIMAL;
+  }
+
   /**
    * 验证结果对象
    */
@@ -84,72 +117,50 @@ export class ResultModel implements Result {
   }
 
   /**
-   * 判断结果是否为精确值
+   * 判断结果是否为精确值：有理数总是精确的，Decimal 要求未占满工作精度（即未发生舍入）
    */
   private determineExactness(value: ResultValue): boolean {
     if (value === null) return false;
 
+    if (RationalMath.isRational(value)) {
+      return true;
+    }
+
     if (value instanceof Decimal) {
-      // 检查是否为整数或简单分数
-      return value.isInteger() || this.isSimpleFraction(value);
+      return this.isUnrounded(value);
     }
 
-    if (this.isMatrix(value)) {
-      // 矩阵的精确性取决于所有元素
-      return value.data.every(row =>
-        row.every(element => element.isInteger() || this.isSimpleFraction(element))
-      );
+    if (ComplexMath.isComplex(value)) {
+      return this.isUnrounded(value.real) && this.isUnrounded(value.imaginary);
     }
 
-    // Graph类型通常不是精确的
-    return false;
-  }
+    if (this.isList(value)) {
+      return value.elements.every(element => this.determineExactness(element));
+    }
 
-  /**
-   * 检查是否为简单分数
-   */
-  private isSimpleFraction(value: Decimal): boolean {
-    try {
-      // 简化的分数检测：小数位数少于4位且分母小于100
-      const str = value.toString();
-      const decimalPart = str.split('.')[1];
-      if (!decimalPart || decimalPart.length > 4) return false;
+    if (this.isMatrix(value)) {
+      // 矩阵的精确性取决于所有元素
+      return value.data.every(row => row.every(element => this.isUnrounded(element)));
+    }
 
-      const fraction = this.decimalToFraction(value);
-      return fraction.denominator <= 100;
-    } catch {
+    // 测量值本身是近似的；区间的精确性取决于两个端点
+    if (UncertaintyMath.isUncertain(value)) {
       return false;
     }
-  }
-
-  /**
-   * 将小数转换为分数（简化版）
-   */
-  private decimalToFraction(decimal: Decimal): { numerator: number; denominator: number } {
-    const tolerance = 1e-10;
-    let numerator = 1;
-    let denominator = 1;
-    let value = decimal.toNumber();
 
-    while (Math.abs(value - Math.round(value)) > tolerance && denominator < 100) {
-      value *= 10;
-      denominator *= 10;
-      numerator = Math.round(value);
+    if (IntervalMath.isInterval(value)) {
+      return this.isUnrounded(value.lower) && this.isUnrounded(value.upper);
     }
 
-    // 简化分数
-    const gcd = this.greatestCommonDivisor(numerator, denominator);
-    return {
-      numerator: numerator / gcd,
-      denominator: denominator / gcd,
-    };
+    // Graph类型通常不是精确的
+    return false;
   }
 
   /**
-   * 计算最大公约数
+   * 整数，或有效数字少于工作精度的有限小数
    */
-  private greatestCommonDivisor(a: number, b: number): number {
-    return b === 0 ? a : this.greatestCommonDivisor(b, a % b);
+  private isUnrounded(value: Decimal): boolean {
+    return value.isFinite() && (value.isInteger() || value.sd() < Decimal.precision);
   }
 
   /**
@@ -160,12 +171,38 @@ export class ResultModel implements Result {
       return 'Error';
     }
 
+    // 带单位的实数结果在数值后附加单位，如 10 km
+    const suffix = this.unit ? ` ${this.unit}` : '';
+
     if (this.value instanceof Decimal) {
-      return this.formatDecimal(this.value, options);
+      return this.formatDecimal(this.value, options) + suffix;
+    }
+
+    if (RationalMath.isRational(this.value)) {
+      return this.formatRational(this.value, options) + suffix;
+    }
+
+    if (ComplexMath.isComplex(this.value)) {
+      return this.formatComplex(this.value, options);
+    }
+
+    // 列表的元素共用显示格式和单位，如 {1.5, 2, 2.5} km
+    if (this.isList(this.value)) {
+      return `{${this.value.elements.map(element => this.formatElement(element, options)).join(', ')}}${suffix}`;
     }
 
     if (this.isMatrix(this.value)) {
-      return this.formatMatrix(this.value);
+      return this.formatMatrix(this.value, options);
+    }
+
+    if (UncertaintyMath.isUncertain(this.value)) {
+      const { value, uncertainty } = this.uncertainParts(this.value, options);
+      return `${value} ± ${uncertainty}${suffix}`;
+    }
+
+    if (IntervalMath.isInterval(this.value)) {
+      const { lower, upper } = this.intervalParts(this.value);
+      return `[${lower}, ${upper}]${suffix}`;
     }
 
     if (this.isGraph(this.value)) {
@@ -175,6 +212,18 @@ export class ResultModel implements Result {
     return String(this.value);
   }
 
+  /**
+   * 格式化列表元素
+   */
+  private formatElement(value: Decimal | Rational | ComplexNumber, options: Partial<FormatOptions>): string {
+    if (value instanceof Decimal) {
+      return this.formatDecimal(value, options);
+    }
+    return RationalMath.isRational(value)
+      ? this.formatRational(value, options)
+      : this.formatComplex(value, options);
+  }
+
   /**
    * 格式化Decimal值
    */
@@ -186,39 +235,151 @@ export class ResultModel implements Result {
         return value.toExponential(this.precision);
 
       case ResultFormat.FRACTION:
-        if (this.isSimpleFraction(value)) {
-          const fraction = this.decimalToFraction(value);
-          return `${fraction.numerator}/${fraction.denominator}`;
+      case ResultFormat.MIXED_NUMBER:
+        // 精确的有限小数本身就是分数，近似值不做猜测
+        if (this.isExact) {
+          return this.formatRational(RationalMath.fromDecimal(value), options);
         }
         return value.toFixed(this.precision);
 
       case ResultFormat.PERCENTAGE:
         return (value.toNumber() * 100).toFixed(this.precision) + '%';
 
+      // 整数部分按 BigInt 转换，超过 2^53 的值和负数都保持准确，负数输出符号和绝对值
       case ResultFormat.BINARY:
-        const intValue = Math.floor(value.toNumber());
-        return '0b' + intValue.toString(2);
-
       case ResultFormat.HEXADECIMAL:
-        const hexValue = Math.floor(value.toNumber());
-        return '0x' + hexValue.toString(16).toUpperCase();
+        if (!value.isFinite()) {
+          return value.toString();
+        }
+        return ProgrammerMath.format(
+          BigInt(value.trunc().toFixed(0)),
+          this.format === ResultFormat.BINARY ? 'binary' : 'hexadecimal'
+        );
 
       case ResultFormat.DECIMAL:
       default:
-        const formatted = value.toFixed(this.precision);
-        // 移除尾随的零
-        return parseFloat(formatted).toLocaleString(locale);
+        return this.formatFixed(value, locale);
     }
   }
 
   /**
-   * 格式化矩阵显示
+   * 直接由 Decimal 生成定点小数：整数部分按 locale 分组，不经过双精度，因此超过 2^53 的整数保持准确；
+   * 绝对值过小而舍入为 0 或指数超过 MAX_FIXED_EXPONENT 的值改用科学计数法，如 1e-30、1e+400
    */
-  private formatMatrix(matrix: Matrix): string {
+  private formatFixed(value: Decimal, locale: string): string {
+    if (!value.isFinite()) {
+      return value.isNaN() ? 'NaN' : value.isNegative() ? '-∞' : '∞';
+    }
+
+    const places = Math.min(this.precision, MAX_FRACTION_DIGITS);
+    const rounded = value.toDecimalPlaces(places);
+    if (rounded.isZero() && !value.isZero()) {
+      return value.toSignificantDigits(places + 1).toExponential();
+    }
+    if (rounded.e > ResultModel.MAX_FIXED_EXPONENT) {
+      return value.toSignificantDigits(this.precision + 1).toExponential();
+    }
+
+    const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+    const group = parts.find(part => part.type === 'group')?.value ?? ',';
+    const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+
+    const [integer, fraction] = rounded.abs().toFixed().split('.') as [string, string?];
+    const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+    return `${rounded.isNegative() && !rounded.isZero() ? '-' : ''}${grouped}${fraction ? decimal + fraction : ''}`;
+  }
+
+  /**
+   * 格式化有理数：分数和带分数格式直接使用精确值，其余格式按小数显示
+   */
+  private formatRational(value: Rational, options: Partial<FormatOptions>): string {
+    switch (this.format) {
+      case ResultFormat.FRACTION:
+        return RationalMath.toString(value);
+      case ResultFormat.MIXED_NUMBER:
+        return RationalMath.toMixedString(value);
+      default:
+        return this.formatDecimal(RationalMath.toDecimal(value), options);
+    }
+  }
+
+  /**
+   * 格式化复数：直角坐标 a + bi，或极坐标 r∠θ（θ 使用 options.angleUnit，默认弧度）
+   */
+  private formatComplex(value: ComplexNumber, options: Partial<FormatOptions>): string {
+    if (this.format === ResultFormat.POLAR) {
+      const magnitude = ComplexMath.magnitude(value);
+      if (magnitude.isZero()) {
+        return this.formatDecimal(magnitude, options);
+      }
+
+      const radians = ComplexMath.argument(value);
+      const pi = Decimal.acos(-1);
+      let angle = radians;
+      let angleSuffix = '';
+      if (options.angleUnit === AngleUnit.DEGREE) {
+        angle = radians.times(180).dividedBy(pi);
+        angleSuffix = '°';
+      } else if (options.angleUnit === AngleUnit.GRADIAN) {
+        angle = radians.times(200).dividedBy(pi);
+        angleSuffix = 'ᵍ';
+      }
+
+      return `${this.formatDecimal(magnitude, options)}∠${this.formatDecimal(angle, options)}${angleSuffix}`;
+    }
+
+    const imaginaryMagnitude = value.imaginary.abs();
+    const imaginaryPart = imaginaryMagnitude.equals(1)
+      ? 'i'
+      : `${this.formatDecimal(imaginaryMagnitude, options)}i`;
+
+    if (value.real.isZero()) {
+      return value.imaginary.isNegative() ? `-${imaginaryPart}` : imaginaryPart;
+    }
+
+    const sign = value.imaginary.isNegative() ? '-' : '+';
+    return `${this.formatDecimal(value.real, options)} ${sign} ${imaginaryPart}`;
+  }
+
+  /**
+   * 格式化矩阵显示，与矩阵字面量的写法一致，如 [[1, 2], [3, 4]]，元素按当前显示格式输出
+   */
+  private formatMatrix(matrix: Matrix, options: Partial<FormatOptions>): string {
     const rows = matrix.data.map(row =>
-      '[' + row.map(val => val.toFixed(2)).join(', ') + ']'
+      '[' + row.map(val => this.formatDecimal(val, options)).join(', ') + ']'
     );
-    return `Matrix ${matrix.rows}×${matrix.cols}:\n` + rows.join('\n');
+    return `[${rows.join(', ')}]`;
+  }
+
+  /**
+   * 测量值的数值和不确定度文本：不确定度保留一到两位有效数字，数值保留到同一位，如 9.81 ± 0.02；
+   * 不确定度为 0 时数值按当前格式显示
+   */
+  private uncertainParts(value: Uncertain, options: Partial<FormatOptions>): { value: string; uncertainty: string } {
+    if (value.uncertainty.isZero()) {
+      return { value: this.formatDecimal(value.value, options), uncertainty: '0' };
+    }
+    const places = Math.max(0, UncertaintyMath.decimalPlaces(value));
+    const rounded = UncertaintyMath.round(value);
+    return { value: rounded.value.toFixed(places), uncertainty: rounded.uncertainty.toFixed(places) };
+  }
+
+  /**
+   * 区间端点向外舍入到显示精度，保证显示的区间仍包含真实区间
+   */
+  private intervalParts(value: Interval): { lower: string; upper: string } {
+    const round = (endpoint: Decimal, rounding: Decimal.Rounding): string =>
+      endpoint.toDecimalPlaces(this.precision, rounding).toFixed();
+    return { lower: round(value.lower, Decimal.ROUND_FLOOR), upper: round(value.upper, Decimal.ROUND_CEIL) };
+  }
+
+  /**
+   * 类型守卫：检查是否为列表
+   */
+  private isList(value: ResultValue): value is ValueList {
+    return value !== null &&
+           typeof value === 'object' &&
+           'elements' in value;
   }
 
   /**
@@ -242,6 +403,144 @@ export class ResultModel implements Result {
            'id' in value;
   }
 
+  /**
+   * 输出为指定记法的片段，分数、科学计数法、复数和矩阵按数学排版，其余格式按显示文本输出
+   */
+  public toNotation(format: NotationFormat): string {
+    const value = this.value;
+    const suffix = this.unit ? MathNotation.unit(this.unit, format) : '';
+
+    if (value instanceof Decimal || RationalMath.isRational(value)) {
+      return this.elementNotation(value, format) + suffix;
+    }
+
+    if (ComplexMath.isComplex(value) && this.format !== ResultFormat.POLAR) {
+      return this.elementNotation(value, format);
+    }
+
+    if (this.isList(value) && (this.format !== ResultFormat.POLAR || !value.elements.some(ComplexMath.isComplex))) {
+      return MathNotation.list(value.elements.map(element => this.elementNotation(element, format)), format) + suffix;
+    }
+
+    if (this.isMatrix(value)) {
+      return MathNotation.matrix(
+        value.data.map(row => row.map(element => MathNotation.number(this.plainDecimal(element), format))),
+        format
+      );
+    }
+
+    if (UncertaintyMath.isUncertain(value)) {
+      const parts = this.uncertainParts(value, {});
+      const ast: ASTNode = {
+        type: 'binary',
+        value: '±',
+        children: [{ type: 'number', value: parts.value }, { type: 'number', value: parts.uncertainty }],
+      };
+      return MathNotation.render(ast, format) + suffix;
+    }
+
+    if (IntervalMath.isInterval(value)) {
+      const { lower, upper } = this.intervalParts(value);
+      const ast: ASTNode = {
+        type: 'interval',
+        children: [{ type: 'number', value: lower }, { type: 'number', value: upper }],
+      };
+      return MathNotation.render(ast, format) + suffix;
+    }
+
+    return MathNotation.text(this.displayValue, format);
+  }
+
+  /**
+   * 输出为 LaTeX
+   */
+  public toLaTeX(): string {
+    return MathNotation.document([this.toNotation('latex')], 'latex');
+  }
+
+  /**
+   * 输出为 MathML 的 <math> 元素
+   */
+  public toMathML(): string {
+    return MathNotation.document([this.toNotation('mathml')], 'mathml');
+  }
+
+  /**
+   * 输出为 Unicode 文本
+   */
+  public toUnicode(): string {
+    return MathNotation.document([this.toNotation('unicode')], 'unicode');
+  }
+
+  /**
+   * 实数、有理数或直角坐标形式复数的片段
+   */
+  private elementNotation(value: Decimal | Rational | ComplexNumber, format: NotationFormat): string {
+    if (value instanceof Decimal) {
+      return this.decimalNotation(value, format);
+    }
+
+    if (RationalMath.isRational(value)) {
+      return this.format === ResultFormat.FRACTION || this.format === ResultFormat.MIXED_NUMBER
+        ? MathNotation.rational(value, this.format === ResultFormat.MIXED_NUMBER, format)
+        : this.decimalNotation(RationalMath.toDecimal(value), format);
+    }
+
+    return MathNotation.render(this.complexAST(value), format);
+  }
+
+  /**
+   * 实数按当前格式排版；百分比、二进制和十六进制没有对应的数学记法，按显示文本输出
+   */
+  private decimalNotation(value: Decimal, format: NotationFormat): string {
+    switch (this.format) {
+      case ResultFormat.SCIENTIFIC:
+        return MathNotation.number(value.toExponential(this.precision), format);
+
+      case ResultFormat.FRACTION:
+      case ResultFormat.MIXED_NUMBER:
+        return this.isExact
+          ? MathNotation.rational(RationalMath.fromDecimal(value), this.format === ResultFormat.MIXED_NUMBER, format)
+          : MathNotation.number(this.plainDecimal(value), format);
+
+      case ResultFormat.PERCENTAGE:
+      case ResultFormat.BINARY:
+      case ResultFormat.HEXADECIMAL:
+        return MathNotation.text(this.formatDecimal(value, {}), format);
+
+      default:
+        return MathNotation.number(this.plainDecimal(value), format);
+    }
+  }
+
+  /**
+   * 按精度舍入并去掉尾随零，不做本地化分组
+   */
+  private plainDecimal(value: Decimal): string {
+    return new Decimal(value.toFixed(this.precision)).toString();
+  }
+
+  /**
+   * 直角坐标形式 a + bi 的AST
+   */
+  private complexAST(value: ComplexNumber): ASTNode {
+    const number = (part: Decimal): ASTNode => ({ type: 'number', value: this.plainDecimal(part) });
+    const unit: ASTNode = { type: 'constant', value: 'i' };
+    const magnitude = value.imaginary.abs();
+    const imaginary: ASTNode = magnitude.equals(1)
+      ? unit
+      : { type: 'binary', value: '*', children: [number(magnitude), unit] };
+
+    if (value.real.isZero()) {
+      return value.imaginary.isNegative() ? { type: 'unary', value: '-', children: [imaginary] } : imaginary;
+    }
+    return {
+      type: 'binary',
+      value: value.imaginary.isNegative() ? '-' : '+',
+      children: [number(value.real), imaginary],
+    };
+  }
+
   /**
    * 更新显示格式
    */
@@ -272,6 +571,9 @@ export class ResultModel implements Result {
     if (this.value instanceof Decimal) {
       return this.value.toNumber();
     }
+    if (RationalMath.isRational(this.value)) {
+      return RationalMath.toDecimal(this.value).toNumber();
+    }
     return null;
   }
 
@@ -293,12 +595,29 @@ export class ResultModel implements Result {
    */
   public equals(other: Result): boolean {
     if (this.expressionId !== other.expressionId) return false;
+    return this.valuesEqual(this.value, other.value);
+  }
+
+  private valuesEqual(a: ResultValue, b: ResultValue): boolean {
+    if (a instanceof Decimal && b instanceof Decimal) {
+      return a.equals(b);
+    }
+
+    if (RationalMath.isRational(a) && RationalMath.isRational(b)) {
+      return RationalMath.compare(a, b) === 0;
+    }
+
+    if (ComplexMath.isComplex(a) && ComplexMath.isComplex(b)) {
+      return a.real.equals(b.real) && a.imaginary.equals(b.imaginary);
+    }
 
-    if (this.value instanceof Decimal && other.value instanceof Decimal) {
-      return this.value.equals(other.value);
+    // 列表逐元素比较（有理数含 bigint，不能经 JSON 序列化比较）
+    if (this.isList(a) && this.isList(b)) {
+      return a.elements.length === b.elements.length &&
+             a.elements.every((element, index) => this.valuesEqual(element, b.elements[index] ?? null));
     }
 
-    return JSON.stringify(this.value) === JSON.stringify(other.value);
+    return JSON.stringify(a) === JSON.stringify(b);
   }
 
   /**
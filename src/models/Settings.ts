@@ -12,6 +12,7 @@ import {
   SettingsBackup,
   AngleUnit,
   NumberFormat,
+  ComplexFormat,
   Theme,
 } from '@/types';
 
@@ -20,6 +21,8 @@ export class SettingsModel implements Settings {
   public angleUnit: AngleUnit;
   public numberFormat: NumberFormat;
   public precision: number;
+  public complexMode: boolean;
+  public complexFormat: ComplexFormat;
   public theme: Theme;
   public language: string;
   public maxHistoryItems: number;
@@ -32,6 +35,8 @@ export class SettingsModel implements Settings {
     angleUnit: AngleUnit.DEGREE,
     numberFormat: NumberFormat.AUTOMATIC,
     precision: 10,
+    complexMode: false,
+    complexFormat: ComplexFormat.RECTANGULAR,
     theme: Theme.AUTO,
     language: 'zh-CN',
     maxHistoryItems: 1000,
@@ -73,6 +78,8 @@ export class SettingsModel implements Settings {
     this.angleUnit = initialSettings?.angleUnit ?? defaults.angleUnit;
     this.numberFormat = initialSettings?.numberFormat ?? defaults.numberFormat;
     this.precision = initialSettings?.precision ?? defaults.precision;
+    this.complexMode = initialSettings?.complexMode ?? defaults.complexMode;
+    this.complexFormat = initialSettings?.complexFormat ?? defaults.complexFormat;
     this.theme = initialSettings?.theme ?? defaults.theme;
     this.language = initialSettings?.language ?? defaults.language;
     this.maxHistoryItems = initialSettings?.maxHistoryItems ?? defaults.maxHistoryItems;
@@ -126,6 +133,11 @@ export class SettingsModel implements Settings {
     if (!Object.values(NumberFormat).includes(this.numberFormat)) {
       throw new Error(`无效的数字格式: ${this.numberFormat}`);
     }
+
+    // 验证复数格式
+    if (!Object.values(ComplexFormat).includes(this.complexFormat)) {
+      throw new Error(`无效的复数格式: ${this.complexFormat}`);
+    }
   }
 
   /**
@@ -159,6 +171,8 @@ export class SettingsModel implements Settings {
     this.angleUnit = settings.angleUnit;
     this.numberFormat = settings.numberFormat;
     this.precision = settings.precision;
+    this.complexMode = settings.complexMode;
+    this.complexFormat = settings.complexFormat;
     this.theme = settings.theme;
     this.language = settings.language;
     this.maxHistoryItems = settings.maxHistoryItems;
@@ -177,6 +191,8 @@ export class SettingsModel implements Settings {
     this.angleUnit = defaults.angleUnit;
     this.numberFormat = defaults.numberFormat;
     this.precision = defaults.precision;
+    this.complexMode = defaults.complexMode;
+    this.complexFormat = defaults.complexFormat;
     this.theme = defaults.theme;
     this.language = defaults.language;
     this.maxHistoryItems = defaults.maxHistoryItems;
@@ -195,6 +211,8 @@ export class SettingsModel implements Settings {
         angleUnit: '角度单位',
         numberFormat: '数字格式',
         precision: '精度',
+        complexMode: '复数模式',
+        complexFormat: '复数格式',
         theme: '主题',
         language: '语言',
         maxHistoryItems: '最大历史记录数',
@@ -206,6 +224,8 @@ export class SettingsModel implements Settings {
         angleUnit: 'Angle Unit',
         numberFormat: 'Number Format',
         precision: 'Precision',
+        complexMode: 'Complex Mode',
+        complexFormat: 'Complex Format',
         theme: 'Theme',
         language: 'Language',
         maxHistoryItems: 'Max History Items',
@@ -235,6 +255,10 @@ export class SettingsModel implements Settings {
           [NumberFormat.SCIENTIFIC]: '科学计数法',
           [NumberFormat.ENGINEERING]: '工程记数法',
         },
+        complexFormat: {
+          [ComplexFormat.RECTANGULAR]: '直角坐标 (a + bi)',
+          [ComplexFormat.POLAR]: '极坐标 (r∠θ)',
+        },
         theme: {
           [Theme.LIGHT]: '浅色',
           [Theme.DARK]: '深色',
@@ -257,6 +281,10 @@ export class SettingsModel implements Settings {
           [NumberFormat.SCIENTIFIC]: 'Scientific',
           [NumberFormat.ENGINEERING]: 'Engineering',
         },
+        complexFormat: {
+          [ComplexFormat.RECTANGULAR]: 'Rectangular (a + bi)',
+          [ComplexFormat.POLAR]: 'Polar (r∠θ)',
+        },
         theme: {
           [Theme.LIGHT]: 'Light',
           [Theme.DARK]: 'Dark',
@@ -272,7 +300,12 @@ export class SettingsModel implements Settings {
     const locale = this.language as keyof typeof localeStrings;
     const strings = localeStrings[locale] || localeStrings['zh-CN'];
 
-    if (key === 'angleUnit' || key === 'numberFormat' || key === 'theme') {
+    if (
+      key === 'angleUnit' ||
+      key === 'numberFormat' ||
+      key === 'complexFormat' ||
+      key === 'theme'
+    ) {
       return (strings as any)[key][value] || value;
     }
 
@@ -328,6 +361,18 @@ export class SettingsModel implements Settings {
             max: SettingsModel.VALIDATION.precision.max,
             step: 1,
           },
+          {
+            key: 'complexMode',
+            type: 'boolean',
+          },
+          {
+            key: 'complexFormat',
+            type: 'select',
+            options: Object.values(ComplexFormat).map(format => ({
+              value: format,
+              label: this.getValueDisplayName('complexFormat', format),
+            })),
+          },
         ],
       },
       {
@@ -504,6 +549,8 @@ export class SettingsModel implements Settings {
       angleUnit: this.angleUnit,
       numberFormat: this.numberFormat,
       precision: this.precision,
+      complexMode: this.complexMode,
+      complexFormat: this.complexFormat,
       theme: this.theme,
       language: this.language,
       maxHistoryItems: this.maxHistoryItems,
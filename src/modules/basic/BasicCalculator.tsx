@@ -17,11 +17,13 @@ import {
 } from 'react-native';
 import { Decimal } from 'decimal.js';
 
-import { CalculatorService } from '@/services/CalculatorService';
+import { CalculatorService, ExpressionParseError } from '@/services/CalculatorService';
 import { StorageService } from '@/services/StorageService';
 import { HistoryModel } from '@/models/History';
+import { Display } from '@/components';
 import { ValidationUtils } from '@/utils/validation';
 import { MathUtils } from '@/utils/math';
+import { RationalMath } from '@/utils/rational';
 import {
   Expression,
   Result,
@@ -29,8 +31,14 @@ import {
   ExpressionType,
   History,
   Settings,
+  AngleUnit,
+  Diagnostic,
+  DiagnosticFix,
 } from '@/types';
 
+// 上次的结果以 Ans 参与后续运算，保留精确值而不是显示屏上舍入后的字符串
+const ANSWER = 'Ans';
+
 // 按钮类型定义
 type ButtonType = 'number' | 'operator' | 'function' | 'control' | 'equals';
 
@@ -52,6 +60,7 @@ interface CalculatorState {
   history: History[];
   isError: boolean;
   isCalculating: boolean;
+  diagnostics: Diagnostic[]; // 表达式的位置诊断，非空时显示屏标出出错区间
   memoryValue: string;
   isDegreeMode: boolean;
 }
@@ -111,6 +120,7 @@ export const BasicCalculator: React.FC = () => {
     history: [],
     isError: false,
     isCalculating: false,
+    diagnostics: [],
     memoryValue: '0',
     isDegreeMode: true,
   });
@@ -207,7 +217,7 @@ export const BasicCalculator: React.FC = () => {
 
     if (state.isCalculating) return;
 
-    setState(prev => ({ ...prev, isError: false }));
+    setState(prev => ({ ...prev, isError: false, diagnostics: [] }));
 
     try {
       switch (button.type) {
@@ -241,7 +251,8 @@ export const BasicCalculator: React.FC = () => {
       let newDisplay = prev.display;
       let newExpression = prev.expression;
 
-      if (prev.display === '0' || prev.isError) {
+      // 结果之后输入数字开始新的计算
+      if (prev.display === '0' || prev.isError || prev.expression === ANSWER) {
         newDisplay = value;
         newExpression = value;
       } else {
@@ -363,8 +374,9 @@ export const BasicCalculator: React.FC = () => {
 
       case 'backspace':
         setState(prev => {
+          // 删除结果的末位时改为编辑显示的数值
           let newDisplay = prev.display.slice(0, -1);
-          let newExpression = prev.expression.slice(0, -1);
+          let newExpression = (prev.expression === ANSWER ? prev.display : prev.expression).slice(0, -1);
 
           if (newDisplay === '' || newDisplay === '-') {
             newDisplay = '0';
@@ -416,14 +428,11 @@ export const BasicCalculator: React.FC = () => {
     setState(prev => ({ ...prev, isCalculating: true }));
 
     try {
-      // 验证表达式
-      const validation = ValidationUtils.validateExpression(
-        state.expression,
-        CalculatorType.BASIC
-      );
-
-      if (!validation.isValid) {
-        throw new Error(validation.errors[0] || '表达式无效');
+      // 诊断表达式，有错误时在显示屏中标出位置并提供修复，而不是弹窗
+      const diagnostics = calculatorService.diagnose(state.expression, CalculatorType.BASIC);
+      if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        setState(prev => ({ ...prev, diagnostics, isCalculating: false }));
+        return;
       }
 
       // 解析和计算表达式
@@ -432,13 +441,20 @@ export const BasicCalculator: React.FC = () => {
         CalculatorType.BASIC
       );
 
-      const result = await calculatorService.evaluate(expression);
+      const result = await calculatorService.evaluate(expression, {
+        angleUnit: state.isDegreeMode ? AngleUnit.DEGREE : AngleUnit.RADIAN,
+      });
 
       if (!result.value) {
         throw new Error('计算结果无效');
       }
 
-      const formattedResult = formatDisplayValue(result.value as Decimal);
+      // 精确分数按小数显示，带单位的结果直接使用 ResultModel 的格式
+      const formattedResult = RationalMath.isRational(result.value) && !result.unit
+        ? formatDisplayValue(RationalMath.toDecimal(result.value))
+        : result.value instanceof Decimal && !result.unit
+          ? formatDisplayValue(result.value)
+          : result.displayValue;
 
       // 保存到历史记录
       await saveToHistory(expression, result);
@@ -446,17 +462,36 @@ export const BasicCalculator: React.FC = () => {
       setState(prev => ({
         ...prev,
         display: formattedResult,
-        expression: formattedResult,
+        expression: ANSWER,
         lastResult: formattedResult,
         isCalculating: false,
       }));
 
       animateDisplayUpdate();
     } catch (error) {
+      if (error instanceof ExpressionParseError && error.diagnostics.length > 0) {
+        setState(prev => ({ ...prev, diagnostics: error.diagnostics, isCalculating: false }));
+        return;
+      }
       setState(prev => ({ ...prev, isCalculating: false }));
       showError(error instanceof Error ? error.message : '计算错误');
     }
-  }, [state.expression, calculatorService, animateDisplayUpdate]);
+  }, [state.expression, state.isDegreeMode, calculatorService, animateDisplayUpdate]);
+
+  /**
+   * 应用诊断给出的修复，修复后仍有错误时继续显示诊断
+   */
+  const handleApplyFix = useCallback((fix: DiagnosticFix) => {
+    const expression = ValidationUtils.applyFix(state.expression, fix);
+    const diagnostics = calculatorService.diagnose(expression, CalculatorType.BASIC);
+
+    setState(prev => ({
+      ...prev,
+      display: expression,
+      expression,
+      diagnostics: diagnostics.some(diagnostic => diagnostic.severity === 'error') ? diagnostics : [],
+    }));
+  }, [state.expression, calculatorService]);
 
   /**
    * 保存到历史记录
@@ -605,40 +640,50 @@ export const BasicCalculator: React.FC = () => {
 
   return (
     <View style={styles.container}>
-      {/* 显示屏 */}
-      <View style={styles.displayContainer}>
-        <Animated.View style={[{ transform: [{ scale: displayScaleAnim }] }]}>
-          <ScrollView
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            contentContainerStyle={styles.displayScrollContent}
-          >
-            <Text
-              style={[
-                styles.displayText,
-                state.isError ? styles.displayTextError : {},
-              ]}
-              numberOfLines={1}
+      {/* 显示屏：存在诊断时由 Display 标出出错区间并提供一键修复 */}
+      {state.diagnostics.length > 0 ? (
+        <Display
+          value={state.display}
+          expression={state.expression}
+          diagnostics={state.diagnostics}
+          onApplyFix={handleApplyFix}
+          animated={false}
+        />
+      ) : (
+        <View style={styles.displayContainer}>
+          <Animated.View style={[{ transform: [{ scale: displayScaleAnim }] }]}>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.displayScrollContent}
             >
-              {state.display}
+              <Text
+                style={[
+                  styles.displayText,
+                  state.isError ? styles.displayTextError : {},
+                ]}
+                numberOfLines={1}
+              >
+                {state.display}
+              </Text>
+            </ScrollView>
+          </Animated.View>
+
+          {/* 表达式预览 */}
+          {state.expression && state.expression !== state.display && (
+            <Text style={styles.expressionText} numberOfLines={1}>
+              {state.expression}
             </Text>
-          </ScrollView>
-        </Animated.View>
-
-        {/* 表达式预览 */}
-        {state.expression && state.expression !== state.display && (
-          <Text style={styles.expressionText} numberOfLines={1}>
-            {state.expression}
-          </Text>
-        )}
-
-        {/* 内存指示器 */}
-        {state.memoryValue !== '0' && (
-          <View style={styles.memoryIndicator}>
-            <Text style={styles.memoryText}>M</Text>
-          </View>
-        )}
-      </View>
+          )}
+
+          {/* 内存指示器 */}
+          {state.memoryValue !== '0' && (
+            <View style={styles.memoryIndicator}>
+              <Text style={styles.memoryText}>M</Text>
+            </View>
+          )}
+        </View>
+      )}
 
       {/* 扩展功能按钮 */}
       <ScrollView
@@ -4,7 +4,7 @@
  * 表达式简化器模块，支持代数表达式的符号化简和展开
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -15,10 +15,15 @@ import {
   Alert,
 } from 'react-native';
 
+import { CalculatorService } from '@/services/CalculatorService';
+import { ExpressionModel } from '@/models/Expression';
+import { ASTNode, CalculatorType, Expression } from '@/types';
+import { ASTUtils } from '@/utils/ast';
 import { MathUtils } from '@/utils/math';
+import { MathNotation, NotationFormat } from '@/utils/notation';
 import { ValidationUtils } from '@/utils/validation';
 
-type OperationType = 'simplify' | 'expand' | 'factorize' | 'substitute' | 'derivative' | 'integrate';
+type OperationType = 'simplify' | 'expand' | 'factorize' | 'substitute' | 'derivative' | 'integrate' | 'series';
 
 interface ExpressionState {
   input: string;
@@ -27,15 +32,9 @@ interface ExpressionState {
   steps: string[];
   isProcessing: boolean;
   substitutions: Record<string, string>;
-}
-
-interface Term {
-  coefficient: number;
-  variables: Record<string, number>; // variable -> power
-}
-
-interface Expression {
-  terms: Term[];
+  notation: NotationFormat;
+  seriesPoint: string;
+  seriesOrder: string;
 }
 
 const OPERATIONS = {
@@ -45,6 +44,14 @@ const OPERATIONS = {
   substitute: { name: '代入', description: '将变量替换为数值或表达式' },
   derivative: { name: '求导', description: '对表达式求导数' },
   integrate: { name: '积分', description: '对表达式求不定积分' },
+  series: { name: '泰勒展开', description: '在展开点处展开为泰勒多项式' },
+};
+
+// LaTeX 和 MathML 输出源码，便于粘贴到文档
+const NOTATIONS: Record<NotationFormat, string> = {
+  unicode: '数学符号',
+  latex: 'LaTeX',
+  mathml: 'MathML',
 };
 
 export const ExpressionSimplifier: React.FC = () => {
@@ -55,129 +62,35 @@ export const ExpressionSimplifier: React.FC = () => {
     steps: [],
     isProcessing: false,
     substitutions: {},
+    notation: 'unicode',
+    seriesPoint: '0',
+    seriesOrder: '5',
   });
+  const calculatorService = useRef(new CalculatorService()).current;
+
+  // 按所选记法输出表达式，extra 为追加在末尾的片段（如积分常数）
+  const formatExpression = useCallback((expression: Expression, extra: string[] = []): string => {
+    const notation = state.notation;
+    return MathNotation.document(
+      [ExpressionModel.fromJSON(expression).toNotation(notation), ...extra],
+      notation
+    );
+  }, [state.notation]);
 
-  // 解析表达式为项的数组
-  const parseExpression = useCallback((expr: string): Expression => {
-    // 简化的表达式解析器
-    const cleanExpr = expr.replace(/\s+/g, '').replace(/\-/g, '+-');
-    const termStrings = cleanExpr.split('+').filter(t => t !== '');
-
-    const terms: Term[] = [];
-
-    for (const termStr of termStrings) {
-      if (termStr.trim() === '') continue;
-
-      const term: Term = {
-        coefficient: 1,
-        variables: {},
-      };
-
-      let remaining = termStr;
-
-      // 提取系数
-      const coeffMatch = remaining.match(/^[+-]?\d*\.?\d*/);
-      if (coeffMatch && coeffMatch[0] !== '') {
-        term.coefficient = parseFloat(coeffMatch[0]) || (coeffMatch[0] === '-' ? -1 : 1);
-        remaining = remaining.substring(coeffMatch[0].length);
-      }
-
-      // 解析变量和指数
-      const varMatches = remaining.matchAll(/([a-zA-Z]+)(\^(\d+))?/g);
-      for (const match of varMatches) {
-        const variable = match[1];
-        const power = match[3] ? parseInt(match[3]) : 1;
-        term.variables[variable] = (term.variables[variable] || 0) + power;
-      }
-
-      terms.push(term);
-    }
-
-    return { terms };
-  }, []);
-
-  // 将表达式转换为字符串
-  const expressionToString = useCallback((expr: Expression): string => {
-    if (expr.terms.length === 0) return '0';
-
-    return expr.terms
-      .map((term, index) => {
-        let termStr = '';
-
-        // 系数
-        if (term.coefficient === 0) return '';
-
-        if (index === 0) {
-          if (term.coefficient === 1 && Object.keys(term.variables).length > 0) {
-            termStr = '';
-          } else if (term.coefficient === -1 && Object.keys(term.variables).length > 0) {
-            termStr = '-';
-          } else {
-            termStr = term.coefficient.toString();
-          }
-        } else {
-          if (term.coefficient > 0) {
-            if (term.coefficient === 1 && Object.keys(term.variables).length > 0) {
-              termStr = ' + ';
-            } else {
-              termStr = ` + ${term.coefficient}`;
-            }
-          } else {
-            if (term.coefficient === -1 && Object.keys(term.variables).length > 0) {
-              termStr = ' - ';
-            } else {
-              termStr = ` - ${Math.abs(term.coefficient)}`;
-            }
-          }
-        }
-
-        // 变量
-        const varStr = Object.entries(term.variables)
-          .sort(([a], [b]) => a.localeCompare(b))
-          .map(([variable, power]) => {
-            if (power === 0) return '';
-            if (power === 1) return variable;
-            return `${variable}^${power}`;
-          })
-          .filter(s => s !== '')
-          .join('');
-
-        return termStr + varStr;
-      })
-      .filter(s => s !== '')
-      .join('');
-  }, []);
-
-  // 简化表达式
-  const simplifyExpression = useCallback((expr: Expression): { result: Expression; steps: string[] } => {
+  // 化简表达式（规范形式）
+  const simplifyExpression = useCallback(async (input: string): Promise<{ result: string; steps: string[] }> => {
     const steps: string[] = [];
-    const termMap = new Map<string, Term>();
-
-    steps.push('原表达式: ' + expressionToString(expr));
-
-    // 合并同类项
-    for (const term of expr.terms) {
-      const varKey = Object.entries(term.variables)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([variable, power]) => `${variable}^${power}`)
-        .join('');
-
-      if (termMap.has(varKey)) {
-        const existingTerm = termMap.get(varKey)!;
-        existingTerm.coefficient += term.coefficient;
-      } else {
-        termMap.set(varKey, { ...term });
-      }
-    }
 
-    // 移除系数为0的项
-    const simplifiedTerms = Array.from(termMap.values()).filter(term => term.coefficient !== 0);
+    const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+    steps.push('原表达式: ' + formatExpression(expression));
 
-    const result: Expression = { terms: simplifiedTerms };
-    steps.push('合并同类项: ' + expressionToString(result));
+    const simplified = await calculatorService.simplify(expression);
+    const result = formatExpression(simplified);
+    steps.push('常数折叠、合并同类项和同底幂，按次数排序');
+    steps.push('最终结果: ' + result);
 
     return { result, steps };
-  }, [expressionToString]);
+  }, [calculatorService, formatExpression]);
 
   // 展开表达式（简化版本）
   const expandExpression = useCallback((input: string): { result: string; steps: string[] } => {
@@ -212,83 +125,73 @@ export const ExpressionSimplifier: React.FC = () => {
     return { result, steps };
   }, []);
 
-  // 求导数
-  const differentiateExpression = useCallback((expr: Expression, variable: string = 'x'): { result: Expression; steps: string[] } => {
+  // 求导数（基于AST的符号求导）
+  const differentiateExpression = useCallback(async (input: string, variable: string = 'x'): Promise<{ result: string; steps: string[] }> => {
     const steps: string[] = [];
     steps.push(`对变量 ${variable} 求导`);
-    steps.push('原表达式: ' + expressionToString(expr));
-
-    const derivativeTerms: Term[] = [];
-
-    for (const term of expr.terms) {
-      const power = term.variables[variable] || 0;
-
-      if (power === 0) {
-        // 常数项的导数为0
-        steps.push(`常数项 ${term.coefficient} 的导数为 0`);
-        continue;
-      }
-
-      const newTerm: Term = {
-        coefficient: term.coefficient * power,
-        variables: { ...term.variables },
-      };
-
-      if (power === 1) {
-        delete newTerm.variables[variable];
-      } else {
-        newTerm.variables[variable] = power - 1;
-      }
-
-      derivativeTerms.push(newTerm);
 
-      const termStr = expressionToString({ terms: [term] });
-      const derivativeStr = expressionToString({ terms: [newTerm] });
-      steps.push(`${termStr} 的导数为 ${derivativeStr}`);
-    }
+    const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+    steps.push('原表达式: ' + formatExpression(expression));
 
-    const result: Expression = { terms: derivativeTerms };
-    steps.push('最终导数: ' + expressionToString(result));
+    const derivative = await calculatorService.derivative(expression, variable);
+    const result = formatExpression(derivative);
+    steps.push('应用和、积、商及链式法则并化简');
+    steps.push('最终导数: ' + result);
 
     return { result, steps };
-  }, [expressionToString]);
+  }, [calculatorService, formatExpression]);
 
-  // 积分
-  const integrateExpression = useCallback((expr: Expression, variable: string = 'x'): { result: Expression; steps: string[] } => {
+  // 积分（基于AST的规则积分）
+  const integrateExpression = useCallback(async (input: string, variable: string = 'x'): Promise<{ result: string; steps: string[] }> => {
     const steps: string[] = [];
     steps.push(`对变量 ${variable} 求积分`);
-    steps.push('原表达式: ' + expressionToString(expr));
 
-    const integralTerms: Term[] = [];
+    const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+    steps.push('原表达式: ' + formatExpression(expression));
+
+    const integral = await calculatorService.integrate(expression, variable);
+    const notation = state.notation;
+    // 不定积分附加积分常数 C
+    const result = 'input' in integral
+      ? formatExpression(integral, [
+        MathNotation.operator('+', notation),
+        MathNotation.render({ type: 'variable', value: 'C' }, notation),
+      ])
+      : integral.toString();
+    steps.push('应用线性性、幂法则、积分表、换元及分部积分并化简');
+    steps.push('最终积分: ' + result);
 
-    for (const term of expr.terms) {
-      const power = term.variables[variable] || 0;
-
-      if (power === -1) {
-        steps.push(`${expressionToString({ terms: [term] })} 的积分为 ${term.coefficient}ln|${variable}|`);
-        continue;
-      }
-
-      const newPower = power + 1;
-      const newTerm: Term = {
-        coefficient: term.coefficient / newPower,
-        variables: { ...term.variables, [variable]: newPower },
-      };
-
-      integralTerms.push(newTerm);
-
-      const termStr = expressionToString({ terms: [term] });
-      const integralStr = expressionToString({ terms: [newTerm] });
-      steps.push(`${termStr} 的积分为 ${integralStr}`);
-    }
+    return { result, steps };
+  }, [calculatorService, formatExpression, state.notation]);
 
-    const result: Expression = { terms: integralTerms };
-    steps.push('最终积分: ' + expressionToString(result) + ' + C');
+  // 泰勒展开（逐阶求导，系数尽量取精确有理数）
+  const expandSeries = useCallback(async (input: string, variable: string = 'x'): Promise<{ result: string; steps: string[] }> => {
+    const steps: string[] = [];
+    const order = Number(state.seriesOrder);
+    steps.push(`在 ${variable} = ${state.seriesPoint} 处展开到 ${order} 阶`);
+
+    const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+    steps.push('原表达式: ' + formatExpression(expression));
+
+    const series = await calculatorService.taylorSeries(expression, variable, state.seriesPoint, order);
+    const notation = state.notation;
+    // 余项 O((x - a)^(n+1))
+    const point = await calculatorService.parseExpression(state.seriesPoint, CalculatorType.SCIENTIFIC);
+    const displacement = ASTUtils.isNumber(point.ast as ASTNode, 0)
+      ? ASTUtils.variable(variable)
+      : ASTUtils.subtract(ASTUtils.variable(variable), point.ast as ASTNode);
+    const remainder = ASTUtils.call('O', ASTUtils.power(displacement, ASTUtils.number(series.remainderOrder)));
+    const result = formatExpression(series.polynomial, [
+      MathNotation.operator('+', notation),
+      MathNotation.render(remainder, notation),
+    ]);
+    steps.push('逐阶求导，第 k 项系数为 k 阶导数在展开点的值除以 k!');
+    steps.push('泰勒多项式: ' + result);
 
     return { result, steps };
-  }, [expressionToString]);
+  }, [calculatorService, formatExpression, state.notation, state.seriesPoint, state.seriesOrder]);
 
-  const processExpression = useCallback(() => {
+  const processExpression = useCallback(async () => {
     if (state.input.trim() === '') {
       Alert.alert('错误', '请输入表达式');
       return;
@@ -302,9 +205,8 @@ export const ExpressionSimplifier: React.FC = () => {
 
       switch (state.selectedOperation) {
         case 'simplify': {
-          const expression = parseExpression(state.input);
-          const simplified = simplifyExpression(expression);
-          result = expressionToString(simplified.result);
+          const simplified = await simplifyExpression(state.input);
+          result = simplified.result;
           steps = simplified.steps;
           break;
         }
@@ -317,21 +219,26 @@ export const ExpressionSimplifier: React.FC = () => {
         }
 
         case 'derivative': {
-          const expression = parseExpression(state.input);
-          const derivative = differentiateExpression(expression);
-          result = expressionToString(derivative.result);
+          const derivative = await differentiateExpression(state.input);
+          result = derivative.result;
           steps = derivative.steps;
           break;
         }
 
         case 'integrate': {
-          const expression = parseExpression(state.input);
-          const integral = integrateExpression(expression);
-          result = expressionToString(integral.result) + ' + C';
+          const integral = await integrateExpression(state.input);
+          result = integral.result;
           steps = integral.steps;
           break;
         }
 
+        case 'series': {
+          const series = await expandSeries(state.input);
+          result = series.result;
+          steps = series.steps;
+          break;
+        }
+
         case 'factorize': {
           result = '因式分解功能正在开发中';
           steps = ['提取公因子', '寻找完全平方', '应用公式'];
@@ -358,7 +265,7 @@ export const ExpressionSimplifier: React.FC = () => {
       setState(prev => ({ ...prev, isProcessing: false }));
       Alert.alert('处理错误', error instanceof Error ? error.message : '处理失败');
     }
-  }, [state.input, state.selectedOperation, parseExpression, simplifyExpression, expressionToString, expandExpression, differentiateExpression, integrateExpression]);
+  }, [state.input, state.selectedOperation, simplifyExpression, expandExpression, differentiateExpression, integrateExpression, expandSeries]);
 
   const renderOperationSelector = () => (
     <View style={styles.operationContainer}>
@@ -413,6 +320,54 @@ export const ExpressionSimplifier: React.FC = () => {
       <Text style={styles.inputHint}>
         支持变量 (a-z)、系数 (数字)、指数 (^)、基本运算 (+, -, *, /)
       </Text>
+      {state.selectedOperation === 'series' && (
+        <View style={styles.seriesRow}>
+          <Text style={styles.seriesLabel}>展开点 x =</Text>
+          <TextInput
+            style={styles.seriesInput}
+            value={state.seriesPoint}
+            onChangeText={text => setState(prev => ({ ...prev, seriesPoint: text }))}
+            placeholder="0"
+          />
+          <Text style={styles.seriesLabel}>阶数</Text>
+          <TextInput
+            style={styles.seriesInput}
+            value={state.seriesOrder}
+            onChangeText={text => setState(prev => ({ ...prev, seriesOrder: text }))}
+            keyboardType="number-pad"
+            placeholder="5"
+          />
+        </View>
+      )}
+    </View>
+  );
+
+  const renderNotationSelector = () => (
+    <View style={styles.notationRow}>
+      {(Object.keys(NOTATIONS) as NotationFormat[]).map(notation => (
+        <Pressable
+          key={notation}
+          style={[
+            styles.notationButton,
+            state.notation === notation ? styles.notationButtonActive : {},
+          ]}
+          onPress={() => setState(prev => ({
+            ...prev,
+            notation,
+            result: '',
+            steps: [],
+          }))}
+        >
+          <Text
+            style={[
+              styles.notationButtonText,
+              state.notation === notation ? styles.notationButtonTextActive : {},
+            ]}
+          >
+            {NOTATIONS[notation]}
+          </Text>
+        </Pressable>
+      ))}
     </View>
   );
 
@@ -449,6 +404,7 @@ export const ExpressionSimplifier: React.FC = () => {
     <ScrollView style={styles.container}>
       {renderOperationSelector()}
       {renderInput()}
+      {renderNotationSelector()}
 
       <Pressable
         style={styles.processButton}
@@ -557,6 +513,60 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
 
+  seriesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+
+  seriesLabel: {
+    fontSize: 14,
+    color: '#333',
+    marginRight: 8,
+  },
+
+  seriesInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginRight: 12,
+  },
+
+  notationRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+
+  notationButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+
+  notationButtonActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+
+  notationButtonText: {
+    fontSize: 13,
+    color: '#666',
+  },
+
+  notationButtonTextActive: {
+    color: '#ffffff',
+  },
+
   processButton: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
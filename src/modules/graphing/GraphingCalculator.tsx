@@ -22,6 +22,7 @@ import { GraphRenderer } from '@/services/GraphRenderer';
 import { CalculatorService } from '@/services/CalculatorService';
 import { StorageService } from '@/services/StorageService';
 import { ValidationUtils } from '@/utils/validation';
+import { TaylorUtils } from '@/utils/taylor';
 import {
   Expression,
   Graph,
@@ -32,6 +33,7 @@ import {
   Range,
   GraphStyle,
   Viewport,
+  FunctionDefinition,
 } from '@/types';
 
 // 图形计算器状态
@@ -49,6 +51,11 @@ interface GraphingState {
   showGrid: boolean;
   showAxes: boolean;
   specialPoints: any[];
+  userFunctions: FunctionDefinition[];
+  showTaylor: boolean;
+  taylorPoint: string;
+  taylorOrder: string;
+  taylorGraph: Graph | null;
 }
 
 // 预设函数
@@ -59,8 +66,18 @@ const PRESET_FUNCTIONS = [
   { label: 'y = ln(x)', expression: 'ln(x)' },
   { label: 'y = e^x', expression: 'exp(x)' },
   { label: 'y = √x', expression: 'sqrt(x)' },
+  { label: '分段函数', expression: 'piecewise((x < 1, -x), (x >= 1, x^2))' },
 ];
 
+// 泰勒多项式叠加曲线的样式
+const TAYLOR_STYLE: GraphStyle = {
+  color: '#FF9500',
+  lineWidth: 2,
+  lineType: 'dashed',
+  showPoints: false,
+  pointSize: 3,
+};
+
 const { width: screenWidth } = Dimensions.get('window');
 const GRAPH_WIDTH = screenWidth - 32;
 const GRAPH_HEIGHT = GRAPH_WIDTH * 0.75;
@@ -93,16 +110,39 @@ export const GraphingCalculator: React.FC = () => {
     showGrid: true,
     showAxes: true,
     specialPoints: [],
+    userFunctions: [],
+    showTaylor: false,
+    taylorPoint: '0',
+    taylorOrder: '3',
+    taylorGraph: null,
   });
 
-  // 服务实例
-  const graphRenderer = useRef(new GraphRenderer()).current;
+  // 服务实例（渲染器与解析共享同一个计算服务，以便识别自定义函数）
   const calculatorService = useRef(new CalculatorService()).current;
+  const graphRenderer = useRef(new GraphRenderer(calculatorService)).current;
   const storageService = useRef(new StorageService()).current;
 
   // 动画值
   const graphScaleAnim = useRef(new Animated.Value(1)).current;
 
+  // 加载已保存的自定义函数
+  useEffect(() => {
+    loadUserFunctions();
+  }, []);
+
+  /**
+   * 加载自定义函数
+   */
+  const loadUserFunctions = useCallback(async () => {
+    try {
+      const definitions = await storageService.getFunctionDefinitions();
+      calculatorService.loadFunctions(definitions);
+      setState(prev => ({ ...prev, userFunctions: calculatorService.getUserFunctions() }));
+    } catch (error) {
+      console.warn('Failed to load user functions:', error);
+    }
+  }, [calculatorService, storageService]);
+
   /**
    * 处理表达式输入
    */
@@ -125,7 +165,8 @@ export const GraphingCalculator: React.FC = () => {
       // 验证表达式
       const validation = ValidationUtils.validateExpression(
         state.expression,
-        CalculatorType.GRAPHING
+        CalculatorType.GRAPHING,
+        state.userFunctions.map(definition => definition.name)
       );
 
       if (!validation.isValid) {
@@ -133,11 +174,29 @@ export const GraphingCalculator: React.FC = () => {
       }
 
       // 解析表达式
-      const expression = await calculatorService.parseExpression(
+      let expression = await calculatorService.parseExpression(
         state.expression,
         CalculatorType.GRAPHING
       );
 
+      // 函数定义：注册并保存，单变量函数继续绘制 f(x)
+      if (expression.ast?.type === 'definition') {
+        const definition = await calculatorService.defineFunction(expression);
+        await storageService.saveFunctionDefinition(definition);
+        setState(prev => ({ ...prev, userFunctions: calculatorService.getUserFunctions() }));
+
+        if (definition.parameters.length !== 1) {
+          setState(prev => ({ ...prev, isCalculating: false }));
+          Alert.alert('函数已定义', `${definition.name}(${definition.parameters.join(', ')})`);
+          return;
+        }
+
+        expression = await calculatorService.parseExpression(
+          `${definition.name}(x)`,
+          CalculatorType.GRAPHING
+        );
+      }
+
       // 渲染图形
       const renderOptions = {
         xRange: state.xRange,
@@ -156,6 +215,22 @@ export const GraphingCalculator: React.FC = () => {
         state.xRange
       );
 
+      // 泰勒多项式与原函数叠加显示；阶数无效或无法展开（如 1/x 在 0 处）时只提示，原函数照常绘制
+      let taylorGraph: Graph | null = null;
+      let taylorError: string | null = null;
+      if (state.showTaylor) {
+        try {
+          const order = Number(state.taylorOrder);
+          if (!state.taylorOrder.trim() || !Number.isInteger(order) || order < 0 || order > TaylorUtils.MAX_ORDER) {
+            throw new Error(`展开阶数必须是 0 到 ${TaylorUtils.MAX_ORDER} 之间的整数`);
+          }
+          const series = await calculatorService.taylorSeries(expression, 'x', state.taylorPoint, order);
+          taylorGraph = await graphRenderer.render2D(series.polynomial, { ...renderOptions, style: TAYLOR_STYLE });
+        } catch (error) {
+          taylorError = error instanceof Error ? error.message : '无法展开泰勒多项式';
+        }
+      }
+
       // 保存图形
       await storageService.saveGraph(graph);
 
@@ -164,9 +239,14 @@ export const GraphingCalculator: React.FC = () => {
         currentGraph: graph,
         graphList: [graph, ...prev.graphList.slice(0, 9)], // 保留最近10个
         specialPoints,
+        taylorGraph,
         isCalculating: false,
       }));
 
+      if (taylorError) {
+        Alert.alert('泰勒展开失败', taylorError);
+      }
+
       // 动画效果
       Animated.sequence([
         Animated.timing(graphScaleAnim, {
@@ -193,7 +273,7 @@ export const GraphingCalculator: React.FC = () => {
         error instanceof Error ? error.message : '无法绘制图形'
       );
     }
-  }, [state.expression, state.xRange, state.yRange, state.resolution, state.graphStyle, state.showGrid, state.showAxes, calculatorService, graphRenderer, storageService, graphScaleAnim]);
+  }, [state.expression, state.xRange, state.yRange, state.resolution, state.graphStyle, state.showGrid, state.showAxes, state.showTaylor, state.taylorPoint, state.taylorOrder, calculatorService, graphRenderer, storageService, graphScaleAnim]);
 
   /**
    * 清除图形
@@ -203,6 +283,7 @@ export const GraphingCalculator: React.FC = () => {
       ...prev,
       currentGraph: null,
       specialPoints: [],
+      taylorGraph: null,
       expression: '',
     }));
   }, []);
@@ -281,27 +362,29 @@ export const GraphingCalculator: React.FC = () => {
   const renderSVGGraph = useCallback(() => {
     if (!state.currentGraph) return null;
 
-    const { points } = state.currentGraph;
+    const { points, breaks = [], endpoints = [] } = state.currentGraph;
     const { xRange, yRange } = state;
 
     // 坐标转换函数
     const toSVGX = (x: number) => ((x - xRange.min) / (xRange.max - xRange.min)) * GRAPH_WIDTH;
     const toSVGY = (y: number) => GRAPH_HEIGHT - ((y - yRange.min) / (yRange.max - yRange.min)) * GRAPH_HEIGHT;
 
-    // 生成路径
-    let pathData = '';
-    if (points.length > 0) {
-      pathData = points.reduce((path, point, index) => {
-        const x = toSVGX(point.x);
-        const y = toSVGY(point.y);
-
-        if (index === 0) {
-          return `M ${x} ${y}`;
-        } else {
-          return `${path} L ${x} ${y}`;
-        }
-      }, '');
-    }
+    // 生成路径，相邻两点之间有断点时抬笔
+    const toPathData = (graphPoints: typeof points, graphBreaks: number[] = []) => graphPoints.reduce((path, point, index) => {
+      const x = toSVGX(point.x);
+      const y = toSVGY(point.y);
+      const previous = graphPoints[index - 1];
+
+      if (!previous) {
+        return `M ${x} ${y}`;
+      } else if (graphBreaks.some(b => previous.x < b && b < point.x)) {
+        return `${path} M ${x} ${y}`;
+      } else {
+        return `${path} L ${x} ${y}`;
+      }
+    }, '');
+    const pathData = toPathData(points, breaks);
+    const taylorPathData = state.taylorGraph ? toPathData(state.taylorGraph.points) : '';
 
     // 网格线
     const gridLines = [];
@@ -392,6 +475,19 @@ export const GraphingCalculator: React.FC = () => {
       />
     ));
 
+    // 分段函数的端点：取到的一端为实心点，取不到的一端为空心点
+    const endpointElements = endpoints.map((endpoint, index) => (
+      <Circle
+        key={`endpoint-${index}`}
+        cx={toSVGX(endpoint.position.x)}
+        cy={toSVGY(endpoint.position.y)}
+        r={4}
+        fill={endpoint.closed ? state.graphStyle.color : '#ffffff'}
+        stroke={state.graphStyle.color}
+        strokeWidth={2}
+      />
+    ));
+
     return (
       <Animated.View style={[{ transform: [{ scale: graphScaleAnim }] }]}>
         <Svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} style={styles.svgGraph}>
@@ -407,11 +503,21 @@ export const GraphingCalculator: React.FC = () => {
               strokeLinejoin="round"
             />
           )}
+          {taylorPathData && (
+            <Path
+              d={taylorPathData}
+              stroke={TAYLOR_STYLE.color}
+              strokeWidth={TAYLOR_STYLE.lineWidth}
+              strokeDasharray="6 4"
+              fill="none"
+            />
+          )}
+          {endpointElements}
           {specialPointElements}
         </Svg>
       </Animated.View>
     );
-  }, [state.currentGraph, state.xRange, state.yRange, state.showGrid, state.showAxes, state.graphStyle, state.specialPoints, graphScaleAnim]);
+  }, [state.currentGraph, state.taylorGraph, state.xRange, state.yRange, state.showGrid, state.showAxes, state.graphStyle, state.specialPoints, graphScaleAnim]);
 
   /**
    * 渲染预设函数按钮
@@ -489,6 +595,12 @@ export const GraphingCalculator: React.FC = () => {
         <Text style={styles.presetsTitle}>常用函数</Text>
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
           {PRESET_FUNCTIONS.map(renderPresetButton)}
+          {state.userFunctions
+            .filter(definition => definition.parameters.length === 1)
+            .map(definition => renderPresetButton({
+              label: `y = ${definition.name}(x)`,
+              expression: `${definition.name}(x)`,
+            }))}
         </ScrollView>
       </View>
 
@@ -557,7 +669,37 @@ export const GraphingCalculator: React.FC = () => {
               坐标轴
             </Text>
           </Pressable>
+
+          <Pressable
+            style={[styles.optionButton, state.showTaylor ? styles.optionButtonActive : {}]}
+            onPress={() => setState(prev => ({ ...prev, showTaylor: !prev.showTaylor, taylorGraph: null }))}
+          >
+            <Text style={[styles.optionButtonText, state.showTaylor ? styles.optionButtonTextActive : {}]}>
+              泰勒多项式
+            </Text>
+          </Pressable>
         </View>
+
+        {/* 泰勒多项式的展开点和阶数，重新绘制后叠加在原函数上 */}
+        {state.showTaylor && (
+          <View style={styles.taylorRow}>
+            <Text style={styles.taylorLabel}>展开点</Text>
+            <TextInput
+              style={styles.taylorInput}
+              value={state.taylorPoint}
+              onChangeText={text => setState(prev => ({ ...prev, taylorPoint: text }))}
+              placeholder="0"
+            />
+            <Text style={styles.taylorLabel}>阶数</Text>
+            <TextInput
+              style={styles.taylorInput}
+              value={state.taylorOrder}
+              onChangeText={text => setState(prev => ({ ...prev, taylorOrder: text }))}
+              keyboardType="number-pad"
+              placeholder="3"
+            />
+          </View>
+        )}
       </View>
     </ScrollView>
   );
@@ -832,6 +974,29 @@ const styles = StyleSheet.create({
   optionButtonTextActive: {
     color: '#ffffff',
   },
+
+  taylorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+
+  taylorLabel: {
+    fontSize: 14,
+    color: '#333',
+    marginRight: 8,
+  },
+
+  taylorInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    fontSize: 14,
+    marginRight: 12,
+  },
 });
 
 export default GraphingCalculator;
\ No newline at end of file
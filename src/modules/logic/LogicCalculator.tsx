@@ -4,7 +4,7 @@
  * 逻辑计算器模块，支持布尔代数运算和逻辑表达式计算
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -18,9 +18,8 @@ import {
 
 import { MathUtils } from '@/utils/math';
 import { ValidationUtils } from '@/utils/validation';
-
-type LogicOperation = 'AND' | 'OR' | 'NOT' | 'XOR' | 'NAND' | 'NOR' | 'IMPLY' | 'EQUIV';
-type NumberBase = 'binary' | 'decimal' | 'hexadecimal' | 'octal';
+import { CalculatorService } from '@/services/CalculatorService';
+import { ProgrammerMath, NumberBase, WordSize } from '@/utils/programmer';
 
 interface LogicState {
   mode: 'boolean' | 'bitwise' | 'truthTable';
@@ -30,7 +29,10 @@ interface LogicState {
   currentBase: NumberBase;
   operand1: string;
   operand2: string;
-  selectedOperation: LogicOperation;
+  selectedOperation: BitwiseOperation;
+  wordSize: WordSize;
+  signed: boolean;
+  bases: Record<NumberBase, string> | null;
   truthTable: Array<{ vars: Record<string, boolean>; result: boolean }>;
 }
 
@@ -45,16 +47,37 @@ const LOGIC_OPERATIONS = {
   EQUIV: { symbol: '↔', func: (a: boolean, b: boolean) => a === b, description: '等价' },
 };
 
+// 位运算组成程序员模式的表达式求值，a、b 为带进制前缀的字面量
 const BITWISE_OPERATIONS = {
-  AND: { symbol: '&', func: (a: number, b: number) => a & b },
-  OR: { symbol: '|', func: (a: number, b: number) => a | b },
-  NOT: { symbol: '~', func: (a: number) => ~a },
-  XOR: { symbol: '^', func: (a: number, b: number) => a ^ b },
-  LSHIFT: { symbol: '<<', func: (a: number, b: number) => a << b },
-  RSHIFT: { symbol: '>>', func: (a: number, b: number) => a >> b },
+  AND: { symbol: '&', build: (a: string, b: string) => `${a} & ${b}` },
+  OR: { symbol: '|', build: (a: string, b: string) => `${a} | ${b}` },
+  NOT: { symbol: '~', build: (a: string) => `~${a}` },
+  XOR: { symbol: '^', build: (a: string, b: string) => `${a} ^ ${b}` },
+  LSHIFT: { symbol: '<<', build: (a: string, b: string) => `${a} << ${b}` },
+  RSHIFT: { symbol: '>>', build: (a: string, b: string) => `${a} >> ${b}` },
+  URSHIFT: { symbol: '>>>', build: (a: string, b: string) => `${a} >>> ${b}` },
+  ROL: { symbol: 'rol', build: (a: string, b: string) => `rol(${a}, ${b})` },
+  ROR: { symbol: 'ror', build: (a: string, b: string) => `ror(${a}, ${b})` },
+};
+
+type BitwiseOperation = keyof typeof BITWISE_OPERATIONS;
+
+const BASE_PREFIXES: Record<NumberBase, string> = {
+  binary: '0b',
+  octal: '0o',
+  decimal: '',
+  hexadecimal: '0x',
+};
+
+const BASE_NAMES: Record<NumberBase, string> = {
+  hexadecimal: 'HEX',
+  decimal: 'DEC',
+  octal: 'OCT',
+  binary: 'BIN',
 };
 
 export const LogicCalculator: React.FC = () => {
+  const calculatorService = useRef(new CalculatorService()).current;
   const [state, setState] = useState<LogicState>({
     mode: 'boolean',
     expression: '',
@@ -64,37 +87,19 @@ export const LogicCalculator: React.FC = () => {
     operand1: '',
     operand2: '',
     selectedOperation: 'AND',
+    wordSize: 32,
+    signed: true,
+    bases: null,
     truthTable: [],
   });
 
-  const parseNumber = useCallback((value: string, base: NumberBase): number => {
-    switch (base) {
-      case 'binary':
-        return parseInt(value, 2);
-      case 'decimal':
-        return parseInt(value, 10);
-      case 'hexadecimal':
-        return parseInt(value, 16);
-      case 'octal':
-        return parseInt(value, 8);
-      default:
-        return 0;
-    }
-  }, []);
-
-  const formatNumber = useCallback((value: number, base: NumberBase): string => {
-    switch (base) {
-      case 'binary':
-        return value.toString(2);
-      case 'decimal':
-        return value.toString(10);
-      case 'hexadecimal':
-        return value.toString(16).toUpperCase();
-      case 'octal':
-        return value.toString(8);
-      default:
-        return '0';
-    }
+  // 按当前数制把输入转换为带前缀的字面量，负号放在前缀之前，如 -0xFF
+  const toLiteral = useCallback((value: string, base: NumberBase): string => {
+    const trimmed = value.trim();
+    const negative = trimmed.startsWith('-');
+    const digits = negative ? trimmed.slice(1).trim() : trimmed;
+    const literal = BASE_PREFIXES[base] + digits;
+    return negative ? `(-${literal})` : literal;
   }, []);
 
   const evaluateBooleanExpression = useCallback((expr: string, vars: Record<string, boolean>): boolean => {
@@ -136,35 +141,38 @@ export const LogicCalculator: React.FC = () => {
     }
   }, [state.expression, state.variables, evaluateBooleanExpression]);
 
-  const calculateBitwiseResult = useCallback(() => {
+  const calculateBitwiseResult = useCallback(async () => {
     try {
-      if (!state.operand1 || !state.operand2) {
-        Alert.alert('错误', '请输入两个操作数');
-        return;
-      }
-
-      const num1 = parseNumber(state.operand1, state.currentBase);
-      const num2 = parseNumber(state.operand2, state.currentBase);
-
-      if (isNaN(num1) || isNaN(num2)) {
-        Alert.alert('错误', '操作数格式不正确');
-        return;
-      }
-
-      const operation = BITWISE_OPERATIONS[state.selectedOperation as keyof typeof BITWISE_OPERATIONS];
-      if (!operation) {
-        Alert.alert('错误', '不支持的位运算操作');
+      const unary = state.selectedOperation === 'NOT';
+      if (!state.operand1 || (!unary && !state.operand2)) {
+        Alert.alert('错误', unary ? '请输入操作数' : '请输入两个操作数');
         return;
       }
 
-      const result = operation.func(num1, num2);
-      const formattedResult = formatNumber(result, state.currentBase);
-
-      setState(prev => ({ ...prev, result: formattedResult }));
+      const operation = BITWISE_OPERATIONS[state.selectedOperation];
+      const expression = operation.build(
+        toLiteral(state.operand1, state.currentBase),
+        toLiteral(state.operand2, state.currentBase)
+      );
+      const result = await calculatorService.evaluateProgrammer(expression, {
+        wordSize: state.wordSize,
+        signed: state.signed,
+      });
+
+      setState(prev => ({ ...prev, bases: result.bases }));
     } catch (error) {
       Alert.alert('计算错误', error instanceof Error ? error.message : '计算失败');
     }
-  }, [state.operand1, state.operand2, state.currentBase, state.selectedOperation, parseNumber, formatNumber]);
+  }, [
+    state.operand1,
+    state.operand2,
+    state.currentBase,
+    state.selectedOperation,
+    state.wordSize,
+    state.signed,
+    calculatorService,
+    toLiteral,
+  ]);
 
   const generateTruthTable = useCallback(() => {
     try {
@@ -227,6 +235,7 @@ export const LogicCalculator: React.FC = () => {
               ...prev,
               mode: mode.key as any,
               result: null,
+              bases: null,
               truthTable: [],
             }))}
           >
@@ -318,6 +327,38 @@ export const LogicCalculator: React.FC = () => {
         ))}
       </ScrollView>
 
+      <Text style={styles.inputLabel}>字长</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {ProgrammerMath.WORD_SIZES.map(size => (
+          <Pressable
+            key={size}
+            style={[
+              styles.baseButton,
+              state.wordSize === size ? styles.baseButtonActive : {},
+            ]}
+            onPress={() => setState(prev => ({ ...prev, wordSize: size, bases: null }))}
+          >
+            <Text
+              style={[
+                styles.baseButtonText,
+                state.wordSize === size ? styles.baseButtonTextActive : {},
+              ]}
+            >
+              {size} 位
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.variableRow}>
+        <Text style={styles.variableLabel}>有符号:</Text>
+        <Switch
+          value={state.signed}
+          onValueChange={signed => setState(prev => ({ ...prev, signed, bases: null }))}
+        />
+        <Text style={styles.variableValue}>{state.signed ? '补码' : '无符号'}</Text>
+      </View>
+
       <Text style={styles.inputLabel}>操作数1</Text>
       <TextInput
         style={styles.input}
@@ -343,7 +384,7 @@ export const LogicCalculator: React.FC = () => {
               styles.operationButton,
               state.selectedOperation === key ? styles.operationButtonActive : {},
             ]}
-            onPress={() => setState(prev => ({ ...prev, selectedOperation: key as LogicOperation }))}
+            onPress={() => setState(prev => ({ ...prev, selectedOperation: key as BitwiseOperation }))}
           >
             <Text
               style={[
@@ -361,10 +402,22 @@ export const LogicCalculator: React.FC = () => {
         <Text style={styles.calculateButtonText}>计算</Text>
       </Pressable>
 
-      {typeof state.result === 'string' && state.result !== null && (
-        <View style={styles.resultContainer}>
-          <Text style={styles.resultLabel}>结果:</Text>
-          <Text style={styles.resultValue}>{state.result}</Text>
+      {state.bases && (
+        <View style={styles.basesContainer}>
+          {(Object.keys(BASE_NAMES) as NumberBase[]).map(base => (
+            <View key={base} style={styles.baseRow}>
+              <Text style={styles.resultLabel}>{BASE_NAMES[base]}</Text>
+              <Text
+                style={[
+                  styles.baseValue,
+                  state.currentBase === base ? styles.resultValue : {},
+                ]}
+                selectable
+              >
+                {state.bases?.[base]}
+              </Text>
+            </View>
+          ))}
         </View>
       )}
     </View>
@@ -630,6 +683,26 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
   },
 
+  basesContainer: {
+    marginTop: 16,
+    padding: 16,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+  },
+
+  baseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+
+  baseValue: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'monospace',
+  },
+
   truthTableContainer: {
     marginTop: 16,
   },
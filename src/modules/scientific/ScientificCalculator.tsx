@@ -18,11 +18,13 @@ import {
 } from 'react-native';
 import { Decimal } from 'decimal.js';
 
-import { CalculatorService } from '@/services/CalculatorService';
+import { CalculatorService, ExpressionParseError } from '@/services/CalculatorService';
 import { StorageService } from '@/services/StorageService';
 import { HistoryModel } from '@/models/History';
+import { Display } from '@/components';
 import { ValidationUtils } from '@/utils/validation';
 import { MathUtils } from '@/utils/math';
+import { RationalMath } from '@/utils/rational';
 import {
   Expression,
   Result,
@@ -31,8 +33,13 @@ import {
   History,
   Settings,
   AngleUnit,
+  Diagnostic,
+  DiagnosticFix,
 } from '@/types';
 
+// 上次的结果以 Ans 参与后续运算，保留精确值而不是显示屏上舍入后的字符串
+const ANSWER = 'Ans';
+
 // 按钮类型定义
 type ButtonType = 'number' | 'operator' | 'function' | 'control' | 'equals' | 'constant';
 
@@ -56,6 +63,7 @@ interface ScientificCalculatorState {
   history: History[];
   isError: boolean;
   isCalculating: boolean;
+  diagnostics: Diagnostic[]; // 表达式的位置诊断，非空时显示屏标出出错区间
   isShiftActive: boolean;
   isDegreeMode: boolean;
   isHyperbolic: boolean;
@@ -225,6 +233,7 @@ export const ScientificCalculator: React.FC = () => {
     history: [],
     isError: false,
     isCalculating: false,
+    diagnostics: [],
     isShiftActive: false,
     isDegreeMode: true,
     isHyperbolic: false,
@@ -249,6 +258,8 @@ export const ScientificCalculator: React.FC = () => {
   useEffect(() => {
     loadSettings();
     loadHistory();
+    loadVariables();
+    loadUserFunctions();
   }, []);
 
   // Shift模式动画
@@ -266,6 +277,10 @@ export const ScientificCalculator: React.FC = () => {
   const loadSettings = useCallback(async () => {
     try {
       const settings = await storageService.getSettings();
+      calculatorService.setComplexMode(settings.complexMode ?? false);
+      if (settings.complexFormat) {
+        calculatorService.setComplexFormat(settings.complexFormat);
+      }
       setState(prev => ({
         ...prev,
         isDegreeMode: settings.angleUnit === AngleUnit.DEGREE,
@@ -273,7 +288,7 @@ export const ScientificCalculator: React.FC = () => {
     } catch (error) {
       console.warn('Failed to load settings:', error);
     }
-  }, [storageService]);
+  }, [calculatorService, storageService]);
 
   /**
    * 加载历史记录
@@ -292,6 +307,30 @@ export const ScientificCalculator: React.FC = () => {
     }
   }, [storageService]);
 
+  /**
+   * 加载会话变量（包括 Ans/PreAns）
+   */
+  const loadVariables = useCallback(async () => {
+    try {
+      const variables = await storageService.getVariables();
+      calculatorService.loadVariables(variables);
+    } catch (error) {
+      console.warn('Failed to load variables:', error);
+    }
+  }, [calculatorService, storageService]);
+
+  /**
+   * 加载自定义函数（与图形计算器共用同一份存储）
+   */
+  const loadUserFunctions = useCallback(async () => {
+    try {
+      const definitions = await storageService.getFunctionDefinitions();
+      calculatorService.loadFunctions(definitions);
+    } catch (error) {
+      console.warn('Failed to load user functions:', error);
+    }
+  }, [calculatorService, storageService]);
+
   /**
    * 按钮动画效果
    */
@@ -338,7 +377,7 @@ export const ScientificCalculator: React.FC = () => {
 
     if (state.isCalculating) return;
 
-    setState(prev => ({ ...prev, isError: false }));
+    setState(prev => ({ ...prev, isError: false, diagnostics: [] }));
 
     // 获取实际的按钮值（考虑Shift状态）
     const actualValue = state.isShiftActive && button.shiftValue
@@ -389,7 +428,8 @@ export const ScientificCalculator: React.FC = () => {
       let newDisplay = prev.display;
       let newExpression = prev.expression;
 
-      if (prev.display === '0' || prev.isError) {
+      // 结果之后输入数字开始新的计算
+      if (prev.display === '0' || prev.isError || prev.expression === ANSWER) {
         newDisplay = value;
         newExpression = value;
       } else {
@@ -665,14 +705,11 @@ export const ScientificCalculator: React.FC = () => {
     setState(prev => ({ ...prev, isCalculating: true }));
 
     try {
-      // 验证表达式
-      const validation = ValidationUtils.validateExpression(
-        state.expression,
-        CalculatorType.SCIENTIFIC
-      );
-
-      if (!validation.isValid) {
-        throw new Error(validation.errors[0] || '表达式无效');
+      // 诊断表达式，有错误时在显示屏中标出位置并提供修复，而不是弹窗
+      const diagnostics = calculatorService.diagnose(state.expression, CalculatorType.SCIENTIFIC);
+      if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        setState(prev => ({ ...prev, diagnostics, isCalculating: false }));
+        return;
       }
 
       // 解析和计算表达式
@@ -681,21 +718,43 @@ export const ScientificCalculator: React.FC = () => {
         CalculatorType.SCIENTIFIC
       );
 
-      const result = await calculatorService.evaluate(expression);
+      // 函数定义：注册并保存，显示屏显示定义本身
+      if (expression.ast?.type === 'definition') {
+        const definition = await calculatorService.defineFunction(expression);
+        await storageService.saveFunctionDefinition(definition);
+        setState(prev => ({
+          ...prev,
+          display: `${definition.name}(${definition.parameters.join(', ')}) = ${definition.body}`,
+          expression: '',
+          isCalculating: false,
+          isShiftActive: false,
+        }));
+        return;
+      }
+
+      const result = await calculatorService.evaluate(expression, {
+        angleUnit: state.isDegreeMode ? AngleUnit.DEGREE : AngleUnit.RADIAN,
+      });
 
       if (!result.value) {
         throw new Error('计算结果无效');
       }
 
-      const formattedResult = formatDisplayValue(result.value as Decimal);
+      // 精确分数按小数显示，复数和带单位的结果直接使用 ResultModel 的格式
+      const formattedResult = RationalMath.isRational(result.value) && !result.unit
+        ? formatDisplayValue(RationalMath.toDecimal(result.value))
+        : result.value instanceof Decimal && !result.unit
+          ? formatDisplayValue(result.value)
+          : result.displayValue;
 
-      // 保存到历史记录
+      // 保存到历史记录，并持久化赋值语句和 Ans 更新后的变量
       await saveToHistory(expression, result);
+      await storageService.saveVariables(calculatorService.getVariables());
 
       setState(prev => ({
         ...prev,
         display: formattedResult,
-        expression: formattedResult,
+        expression: ANSWER,
         lastResult: formattedResult,
         isCalculating: false,
         isShiftActive: false,
@@ -703,10 +762,29 @@ export const ScientificCalculator: React.FC = () => {
 
       animateDisplayUpdate();
     } catch (error) {
+      if (error instanceof ExpressionParseError && error.diagnostics.length > 0) {
+        setState(prev => ({ ...prev, diagnostics: error.diagnostics, isCalculating: false }));
+        return;
+      }
       setState(prev => ({ ...prev, isCalculating: false }));
       showError(error instanceof Error ? error.message : '计算错误');
     }
-  }, [state.expression, calculatorService, animateDisplayUpdate]);
+  }, [state.expression, state.isDegreeMode, calculatorService, storageService, animateDisplayUpdate]);
+
+  /**
+   * 应用诊断给出的修复，修复后仍有错误时继续显示诊断
+   */
+  const handleApplyFix = useCallback((fix: DiagnosticFix) => {
+    const expression = ValidationUtils.applyFix(state.expression, fix);
+    const diagnostics = calculatorService.diagnose(expression, CalculatorType.SCIENTIFIC);
+
+    setState(prev => ({
+      ...prev,
+      display: expression,
+      expression,
+      diagnostics: diagnostics.some(diagnostic => diagnostic.severity === 'error') ? diagnostics : [],
+    }));
+  }, [state.expression, calculatorService]);
 
   /**
    * 保存到历史记录
@@ -875,57 +953,67 @@ export const ScientificCalculator: React.FC = () => {
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
-      {/* 显示屏 */}
-      <View style={styles.displayContainer}>
-        <Animated.View style={[{ transform: [{ scale: displayScaleAnim }] }]}>
-          <ScrollView
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            contentContainerStyle={styles.displayScrollContent}
-          >
-            <Text
-              style={[
-                styles.displayText,
-                state.isError ? styles.displayTextError : {},
-              ]}
-              numberOfLines={1}
+      {/* 显示屏：存在诊断时由 Display 标出出错区间并提供一键修复 */}
+      {state.diagnostics.length > 0 ? (
+        <Display
+          value={state.display}
+          expression={state.expression}
+          diagnostics={state.diagnostics}
+          onApplyFix={handleApplyFix}
+          animated={false}
+        />
+      ) : (
+        <View style={styles.displayContainer}>
+          <Animated.View style={[{ transform: [{ scale: displayScaleAnim }] }]}>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.displayScrollContent}
             >
-              {state.display}
+              <Text
+                style={[
+                  styles.displayText,
+                  state.isError ? styles.displayTextError : {},
+                ]}
+                numberOfLines={1}
+              >
+                {state.display}
+              </Text>
+            </ScrollView>
+          </Animated.View>
+
+          {/* 表达式预览 */}
+          {state.expression && state.expression !== state.display && (
+            <Text style={styles.expressionText} numberOfLines={1}>
+              {state.expression}
             </Text>
-          </ScrollView>
-        </Animated.View>
-
-        {/* 表达式预览 */}
-        {state.expression && state.expression !== state.display && (
-          <Text style={styles.expressionText} numberOfLines={1}>
-            {state.expression}
-          </Text>
-        )}
-
-        {/* 状态指示器 */}
-        <View style={styles.statusContainer}>
-          <Text style={styles.statusText}>
-            {state.isDegreeMode ? 'DEG' : 'RAD'}
-          </Text>
-          {state.isHyperbolic && (
-            <Text style={styles.statusText}>HYP</Text>
-          )}
-          {state.memoryValue !== '0' && (
-            <Text style={styles.statusText}>M</Text>
-          )}
-          {state.isShiftActive && (
-            <Animated.Text
-              style={[
-                styles.statusText,
-                styles.shiftStatusText,
-                { opacity: shiftIndicatorAnim }
-              ]}
-            >
-              SHIFT
-            </Animated.Text>
           )}
+
+          {/* 状态指示器 */}
+          <View style={styles.statusContainer}>
+            <Text style={styles.statusText}>
+              {state.isDegreeMode ? 'DEG' : 'RAD'}
+            </Text>
+            {state.isHyperbolic && (
+              <Text style={styles.statusText}>HYP</Text>
+            )}
+            {state.memoryValue !== '0' && (
+              <Text style={styles.statusText}>M</Text>
+            )}
+            {state.isShiftActive && (
+              <Animated.Text
+                style={[
+                  styles.statusText,
+                  styles.shiftStatusText,
+                  { opacity: shiftIndicatorAnim }
+                ]}
+              >
+                SHIFT
+              </Animated.Text>
+            )}
+          </View>
         </View>
-      </View>
+      )}
 
       {/* 内存按钮 */}
       <ScrollView
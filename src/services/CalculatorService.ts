@@ -15,11 +15,53 @@ import {
   FormatOptions,
   TokenType,
   ASTNode,
+  AngleUnit,
+  FunctionDefinition,
+  ParseOptions,
+  ComplexNumber,
+  ComplexFormat,
+  Rational,
+  Diagnostic,
+  SourceSpan,
+  ValueList,
+  Matrix,
+  Uncertain,
+  Interval,
 } from '@/types';
+import { ComplexMath } from '@/utils/complex';
+import { RationalMath } from '@/utils/rational';
+import { UnitMath, Quantity, UnitPowers } from '@/utils/units';
+import { ASTUtils } from '@/utils/ast';
+import { DifferentiationUtils } from '@/utils/differentiation';
+import { IntegrationUtils } from '@/utils/integration';
+import { SimplificationUtils } from '@/utils/simplification';
+import { NumericSolver, RootSearchOptions } from '@/utils/solver';
+import { Quadrature, QuadratureOptions } from '@/utils/quadrature';
+import { InfiniteSum, SeriesMethod, SeriesOptions, SeriesResult } from '@/utils/convergence';
+import { SummationUtils } from '@/utils/summation';
+import { LimitUtils, LimitDirection, LimitMethod, LimitResult } from '@/utils/limits';
+import { TaylorUtils, TaylorExpansion } from '@/utils/taylor';
+import { ExpressionCompiler, CompiledFunction } from '@/utils/compiler';
+import { LatexParser, LatexSyntaxError } from '@/utils/latex';
+import { ListMath } from '@/utils/list';
+import { MatrixMath, MatrixEntry } from '@/utils/matrix';
+import { UncertaintyMath } from '@/utils/uncertainty';
+import { IntervalMath } from '@/utils/interval';
+import {
+  ProgrammerMath,
+  ProgrammerParser,
+  ProgrammerSyntaxError,
+  NumberBase,
+  WordOptions,
+  WordValue,
+} from '@/utils/programmer';
+import { ValidationUtils } from '@/utils/validation';
 
 // 自定义错误类
 export class ExpressionParseError extends Error {
-  constructor(message: string, public position?: number) {
+  public diagnostics: Diagnostic[] = []; // 完整的诊断列表，供界面标出位置并提供修复
+
+  constructor(message: string, public position?: number, public span?: SourceSpan) {
     super(message);
     this.name = 'ExpressionParseError';
   }
@@ -39,8 +81,128 @@ export class UnsupportedOperationError extends Error {
   }
 }
 
+// 求值结果：精确有理数、实数近似值、复数模式下的复数，或带单位的量
+export type ScalarValue = Decimal | Rational | ComplexNumber | Quantity;
+
+// 表达式的值：标量、由标量组成的列表、元素为实数的矩阵，或带不确定度的测量值和区间
+export type Value = ScalarValue | ValueList<ScalarValue> | Matrix<MatrixEntry> | Uncertain | Interval;
+
+// 不带单位的数值
+type NumericValue = Exclude<ScalarValue, Quantity>;
+
+// 参与 Decimal 运算的近似值
+type ApproximateValue = Decimal | ComplexNumber;
+
+// matrixOperation 支持的矩阵运算
+export type MatrixOperation = 'add' | 'subtract' | 'multiply' | 'transpose' | 'inverse';
+
+// 程序员模式的字长与有无符号，默认 64 位有符号
+export type ProgrammerOptions = Partial<WordOptions>;
+
+// 程序员模式的结果：按字长截断的整数，以及它在各进制下的表示
+export interface ProgrammerResult {
+  value: WordValue;
+  bases: Record<NumberBase, string>;
+}
+
+// 表达式求值上下文，在AST递归计算过程中传递
+export interface EvaluationContext {
+  variables: Map<string, Value>;
+  angleUnit: AngleUnit;
+  complexMode: boolean; // 允许结果进入复数域，如 sqrt(-1)
+  isExact: boolean; // 计算过程中未发生舍入
+  callDepth: number; // 自定义函数的嵌套调用层数
+}
+
+// 表达式解析选项：输入格式为普通中缀、LaTeX，或根据 \命令 自动识别
+export interface ParseExpressionOptions {
+  format?: 'auto' | 'plain' | 'latex';
+}
+
+// 方程求解选项，未指定时使用 NumericSolver 的默认扫描范围
+export type SolveOptions = Partial<RootSearchOptions>;
+
+// 单个解的详细信息
+export interface Solution {
+  value: Decimal;
+  multiplicity: number;
+  converged: boolean;
+  iterations: number;
+  residual: number; // |f(x)|，精确解为 0
+  method: 'exact' | 'sample' | 'brent' | 'newton';
+}
+
+// 求解报告：按从小到大排序的解，以及可能遗漏根的诊断信息
+export interface SolveReport {
+  solutions: Solution[];
+  diagnostics: string[];
+}
+
+// 定积分选项：相对容差、绝对容差和最大细分数
+export type IntegrateOptions = Partial<QuadratureOptions>;
+
+// 数值定积分结果及其误差估计
+export interface NumericalIntegral {
+  value: Decimal;
+  error: Decimal; // 绝对误差估计
+  evaluations: number;
+  converged: boolean;
+}
+
+// 无穷级数求和选项：相对容差、绝对容差和最多计算的项数
+export type SeriesSumOptions = Partial<SeriesOptions>;
+
+// 无穷级数的数值和、误差估计及所用的加速方法
+export interface SeriesSum {
+  value: Decimal;
+  error: Decimal; // 绝对误差估计，发散时为 Infinity
+  terms: number;
+  method: SeriesMethod;
+  converged: boolean;
+}
+
+// 极限结果：趋于无穷时为 ±Infinity，极限不存在时为 null；趋近点为 ±∞ 时只有一侧的单侧极限
+export interface LimitReport {
+  value: Decimal | null;
+  left: Decimal | null;
+  right: Decimal | null;
+  method: LimitMethod;
+  reason: string | null; // 极限不存在的原因，如函数振荡或左右极限不相等
+}
+
+// 泰勒多项式按 (x - a) 的升幂排列，余项为 O((x - a)^remainderOrder)
+export interface TaylorSeries {
+  polynomial: Expression;
+  remainderOrder: number;
+}
+
 export class CalculatorService {
+  private static readonly MAX_CALL_DEPTH = 64;
+  // 有限求和与求积逐项计算的最大项数，超过时使用闭式
+  private static readonly MAX_SERIES_TERMS = 10000;
+  // 极限值识别为精确有理数时允许的最大分母
+  private static readonly MAX_LIMIT_DENOMINATOR = 1000;
+  // 泰勒系数无法精确求值时，符号形式超过该长度改用数值近似
+  private static readonly MAX_SYMBOLIC_COEFFICIENT_LENGTH = 40;
+  private static readonly TAYLOR_SNAP_TOLERANCE = 1e-12;
+  private static readonly FUNCTION_DEFINITION_PATTERN =
+    /^[a-zA-Z][a-zA-Z0-9]*\s*\(\s*[a-zA-Z][a-zA-Z0-9]*(\s*,\s*[a-zA-Z][a-zA-Z0-9]*)*\s*\)\s*=(?!=)/;
+  private static readonly ASSIGNMENT_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*\s*:=/;
+  // 单独的等号（方程），不属于 <=、>=、==、!=、:= 等运算符
+  private static readonly EQUATION_PATTERN = /(^|[^<>=!:])=(?!=)/;
+  // 最近两次计算结果，Ans 为上一次，PreAns 为再上一次
+  private static readonly ANSWER_VARIABLES = ['Ans', 'PreAns'];
+  // 以整个列表为参数的统计函数，标量参数视为只有一个元素的列表
+  private static readonly LIST_FUNCTIONS = ['sum', 'prod', 'count', 'mean', 'median', 'var', 'stdev', 'sort'];
+  // 以矩阵为参数的函数
+  private static readonly MATRIX_FUNCTIONS = ['det', 'inv', 'transpose', 'trace', 'rank'];
+
   private precision: number = 10;
+  private angleUnit: AngleUnit = AngleUnit.RADIAN;
+  private complexMode: boolean = false;
+  private complexFormat: ComplexFormat = ComplexFormat.RECTANGULAR;
+  private userFunctions: Map<string, FunctionDefinition> = new Map();
+  private variables: Map<string, Value> = new Map();
 
   constructor(precision: number = 10) {
     this.precision = precision;
@@ -67,28 +229,37 @@ export class CalculatorService {
    * 解析表达式
    */
   public async parseExpression(
-    input: string,
-    calculatorType: CalculatorType
+    source: string,
+    calculatorType: CalculatorType,
+    options: ParseExpressionOptions = {}
   ): Promise<Expression> {
-    if (!input || input.trim().length === 0) {
+    if (!source || source.trim().length === 0) {
       throw new ExpressionParseError('表达式不能为空');
     }
 
+    const input = this.toPlainInput(source, options.format ?? 'auto');
     const expressionType = this.determineExpressionType(input, calculatorType);
 
     try {
       const expression = new ExpressionModel(input, expressionType);
 
-      // 执行词法分析
-      expression.tokenize();
+      if (expression.isValid) {
+        // 执行词法分析
+        expression.tokenize(this.getParseOptions());
 
-      // 执行语法分析
-      expression.parse();
+        // 执行语法分析
+        expression.parse(this.getParseOptions());
+      }
 
       if (!expression.isValid) {
-        throw new ExpressionParseError(
-          expression.errorMessage || '表达式解析失败'
+        const span = this.toInputSpan(input, expression.errorSpan);
+        const error = new ExpressionParseError(
+          expression.errorMessage || '表达式解析失败',
+          span?.start,
+          span ?? undefined
         );
+        error.diagnostics = this.diagnose(input, calculatorType);
+        throw error;
       }
 
       return expression.toJSON();
@@ -102,6 +273,79 @@ export class CalculatorService {
     }
   }
 
+  /**
+   * LaTeX 输入先转换为等价的中缀表达式，之后与普通输入走同一解析流程
+   */
+  private toPlainInput(source: string, format: NonNullable<ParseExpressionOptions['format']>): string {
+    if (format === 'plain' || (format === 'auto' && !LatexParser.isLaTeX(source))) {
+      return source;
+    }
+
+    try {
+      return LatexParser.toInput(source, { functions: Array.from(this.userFunctions.keys()) });
+    } catch (error) {
+      if (error instanceof LatexSyntaxError) {
+        const span = { start: error.position, end: error.position + Math.max(error.length, 1) };
+        throw new ExpressionParseError(error.message, span.start, span);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 诊断输入中的问题：语法分析错误与 ValidationUtils 的检查结果合并，按位置排序；
+   * 两者指向同一位置时保留带修复建议的验证结果
+   */
+  public diagnose(input: string, calculatorType: CalculatorType): Diagnostic[] {
+    const diagnostics = ValidationUtils.diagnoseExpression(
+      input,
+      calculatorType,
+      Array.from(this.userFunctions.keys())
+    );
+
+    const expression = new ExpressionModel(input, this.determineExpressionType(input, calculatorType));
+    if (expression.isValid) {
+      expression.parse(this.getParseOptions());
+    }
+
+    const span = this.toInputSpan(input, expression.errorSpan);
+    const isReported = diagnostics.some(diagnostic =>
+      diagnostic.severity === 'error' && (span === null || diagnostic.span?.start === span.start)
+    );
+    if (!expression.isValid && !isReported) {
+      diagnostics.push({
+        severity: 'error',
+        message: expression.errorMessage || '表达式解析失败',
+        span,
+        fixes: span && span.start === span.end ? this.suggestCompletion(input) : [],
+      });
+    }
+
+    return diagnostics.sort((a, b) => (a.span?.start ?? -1) - (b.span?.start ?? -1));
+  }
+
+  /**
+   * 表达式在末尾意外结束（如 2 + 或 sin(）时提供补全
+   */
+  private suggestCompletion(input: string): Diagnostic['fixes'] {
+    const trimmed = input.trimEnd();
+    if (/[+\-*/^]$/.test(trimmed)) {
+      return [{ label: '删除末尾的运算符', span: { start: trimmed.length - 1, end: trimmed.length }, text: '' }];
+    }
+    return [];
+  }
+
+  /**
+   * ExpressionModel 的位置相对于去除首尾空白后的输入，换算为原始输入中的位置
+   */
+  private toInputSpan(input: string, span: SourceSpan | null): SourceSpan | null {
+    if (!span) {
+      return null;
+    }
+    const offset = input.length - input.trimStart().length;
+    return { start: span.start + offset, end: span.end + offset };
+  }
+
   /**
    * 确定表达式类型
    */
@@ -111,8 +355,21 @@ export class CalculatorService {
   ): ExpressionType {
     const trimmedInput = input.trim();
 
-    // 检查是否包含等号（方程）
-    if (trimmedInput.includes('=')) {
+    // 检查是否为函数定义，如 f(x) = x^2 + 1
+    if (CalculatorService.FUNCTION_DEFINITION_PATTERN.test(trimmedInput)) {
+      return ExpressionType.FUNCTION;
+    }
+
+    // 赋值语句按右侧表达式确定类型，如 a := sin(1)
+    if (CalculatorService.ASSIGNMENT_PATTERN.test(trimmedInput)) {
+      const valueInput = trimmedInput.slice(trimmedInput.indexOf(':=') + 2);
+      return valueInput.trim()
+        ? this.determineExpressionType(valueInput, calculatorType)
+        : ExpressionType.ARITHMETIC;
+    }
+
+    // 检查是否包含单独的等号（方程），比较运算不是方程
+    if (CalculatorService.EQUATION_PATTERN.test(trimmedInput)) {
       return ExpressionType.EQUATION;
     }
 
@@ -154,38 +411,93 @@ export class CalculatorService {
       );
     }
 
+    // 函数定义注册为自定义函数，结果显示定义本身
+    if (expression.ast?.type === 'definition') {
+      const definition = await this.defineFunction(expression);
+      const resultModel = new ResultModel(expression.id, null);
+      resultModel.displayValue = `${definition.name}(${definition.parameters.join(', ')}) = ${definition.body}`;
+      return resultModel.toJSON();
+    }
+
     const startTime = Date.now();
+    // 表达式自带的变量优先于会话变量
+    const context: EvaluationContext = {
+      variables: new Map([
+        ...this.variables,
+        ...Array.from(expression.variables, ([name, value]): [string, ScalarValue] => [
+          name,
+          new Decimal(value),
+        ]),
+      ]),
+      angleUnit: options.angleUnit ?? this.angleUnit,
+      complexMode: options.complexMode ?? this.complexMode,
+      isExact: true,
+      callDepth: 0,
+    };
 
     try {
-      let result: Decimal;
+      let result: Value;
+
+      // 展开变量未赋值的 series(...) 没有数值结果，结果显示泰勒多项式
+      if (expression.ast && expression.ast.type !== 'assignment') {
+        const expanded = this.expandSeriesCalls(expression.ast, context);
+        const symbolic = [...ASTUtils.freeVariables(expanded)].some(name => !context.variables.has(name));
+        if (symbolic && !ASTUtils.equals(expanded, expression.ast)) {
+          const resultModel = new ResultModel(expression.id, null);
+          resultModel.displayValue = ASTUtils.toString(expanded);
+          resultModel.isExact = context.isExact;
+          return resultModel.toJSON();
+        }
+      }
 
       if (expression.ast) {
-        result = this.evaluateAST(expression.ast, expression.variables);
+        result = this.evaluateStatement(expression.ast, context);
       } else {
         // 如果没有AST，尝试重新解析
         const expressionModel = ExpressionModel.fromJSON(expression);
-        expressionModel.parse();
+        expressionModel.parse(this.getParseOptions());
 
         if (!expressionModel.ast) {
           throw new CalculationError('无法生成抽象语法树', expression);
         }
 
-        result = this.evaluateAST(expressionModel.ast, expression.variables);
+        result = this.evaluateStatement(expressionModel.ast, context);
       }
 
+      this.recordAnswer(result);
+
+      const { value, unit } = this.toOutput(result, options.unit);
+      const output = MatrixMath.isMatrix(value)
+        ? MatrixMath.map(value, entry => this.approximate(entry, context) as Decimal)
+        : value;
+
       const computationTime = Date.now() - startTime;
+      const requestedPrecision = options.precision || this.precision;
 
       const resultModel = new ResultModel(
         expression.id,
-        result,
+        MatrixMath.isMatrix(output) || UncertaintyMath.isUncertain(output) || IntervalMath.isInterval(output)
+          ? output
+          : ListMath.isList(output)
+            ? ListMath.create(output.elements.map(element => this.toResultValue(element)))
+            : this.toResultValue(output),
         {
-          precision: options.precision || this.precision,
+          precision: context.isExact
+            ? requestedPrecision
+            : this.guaranteedDecimalPlaces(output, requestedPrecision),
           notation: options.notation,
-          unit: options.unit,
+          unit,
           locale: options.locale,
+          angleUnit: context.angleUnit,
+          complexFormat: options.complexFormat ?? this.complexFormat,
         }
       );
 
+      // 计算过程中发生过舍入的结果不能视为精确值
+      if (!context.isExact) {
+        resultModel.isExact = false;
+      }
+
       resultModel.setComputationTime(computationTime);
       return resultModel.toJSON();
 
@@ -201,491 +513,2906 @@ export class CalculatorService {
   }
 
   /**
-   * 计算AST节点
+   * 带单位的结果按 options.unit 换算（可解析为单位时），数值以结果单位表示；
+   * 列表的元素统一使用第一个带单位元素的单位，量纲不同时报错；矩阵、测量值和区间不带单位，原样输出
    */
-  private evaluateAST(node: ASTNode, variables: Map<string, number>): Decimal {
-    switch (node.type) {
-      case 'number':
-        return new Decimal(node.value as number);
-
-      case 'variable':
-        const varName = node.value as string;
-        const varValue = variables.get(varName);
-        if (varValue === undefined) {
-          throw new CalculationError(`未定义的变量: ${varName}`);
-        }
-        return new Decimal(varValue);
-
-      case 'binary':
-        return this.evaluateBinaryOperation(node, variables);
+  private toOutput(
+    result: Value,
+    requestedUnit?: string
+  ): {
+    value: NumericValue | ValueList<NumericValue> | Matrix<MatrixEntry> | Uncertain | Interval;
+    unit: string | undefined;
+  } {
+    if (MatrixMath.isMatrix(result) || UncertaintyMath.isUncertain(result) || IntervalMath.isInterval(result)) {
+      return { value: result, unit: requestedUnit };
+    }
 
-      case 'unary':
-        return this.evaluateUnaryOperation(node, variables);
+    const elements = ListMath.isList(result) ? result.elements : [result];
+    const quantity = elements.find(element => UnitMath.isQuantity(element));
+    if (!UnitMath.isQuantity(quantity)) {
+      return { value: result as NumericValue | ValueList<NumericValue>, unit: requestedUnit };
+    }
 
-      case 'function':
-        return this.evaluateFunction(node, variables);
+    const unit = (requestedUnit ? UnitMath.parse(requestedUnit) : null) ?? quantity.unit;
+    const magnitudes = elements.map(element => {
+      const converted = this.convertQuantity(element, unit);
+      return UnitMath.isQuantity(converted) ? UnitMath.fromSI(converted.magnitude, converted.unit) : converted;
+    });
 
-      default:
-        throw new CalculationError(`不支持的节点类型: ${node.type}`);
-    }
+    return {
+      value: ListMath.isList(result) ? ListMath.create(magnitudes) : (magnitudes[0] as NumericValue),
+      unit: UnitMath.format(unit),
+    };
   }
 
   /**
-   * 计算二元运算
+   * 计算顶层语句：赋值语句写入会话变量，单个变量等于不含自身的表达式（如 r = 2）也视为赋值
    */
-  private evaluateBinaryOperation(
-    node: ASTNode,
-    variables: Map<string, number>
-  ): Decimal {
-    if (!node.children || node.children.length !== 2) {
-      throw new CalculationError('二元运算需要两个操作数');
-    }
+  private evaluateStatement(node: ASTNode, context: EvaluationContext): Value {
+    const [target, valueNode] = node.children ?? [];
 
-    const left = this.evaluateAST(node.children[0], variables);
-    const right = this.evaluateAST(node.children[1], variables);
-    const operator = node.value as string;
+    if (node.type === 'assignment' && target) {
+      return this.assignVariable(node.value as string, target, context);
+    }
 
-    switch (operator) {
-      case '+':
-        return left.plus(right);
-      case '-':
-        return left.minus(right);
-      case '*':
-        return left.times(right);
-      case '/':
-        if (right.isZero()) {
-          throw new CalculationError('除零错误');
-        }
-        return left.dividedBy(right);
-      case '^':
-      case '**':
-        return left.pow(right);
-      case '%':
-        return left.modulo(right);
-      default:
-        throw new CalculationError(`不支持的运算符: ${operator}`);
+    if (
+      node.type === 'equation' &&
+      target?.type === 'variable' &&
+      valueNode &&
+      !this.referencesVariable(valueNode, target.value as string)
+    ) {
+      return this.assignVariable(target.value as string, valueNode, context);
     }
+
+    return this.evaluateAST(node, context);
   }
 
   /**
-   * 计算一元运算
+   * 计算右侧表达式并保存为会话变量
    */
-  private evaluateUnaryOperation(
-    node: ASTNode,
-    variables: Map<string, number>
-  ): Decimal {
-    if (!node.children || node.children.length !== 1) {
-      throw new CalculationError('一元运算需要一个操作数');
-    }
-
-    const operand = this.evaluateAST(node.children[0], variables);
-    const operator = node.value as string;
+  private assignVariable(
+    name: string,
+    valueNode: ASTNode,
+    context: EvaluationContext
+  ): Value {
+    this.validateVariableName(name);
+
+    const value = this.evaluateAST(valueNode, context);
+    this.variables.set(name, value);
+    return value;
+  }
 
-    switch (operator) {
-      case '+':
-        return operand;
-      case '-':
-        return operand.negated();
-      default:
-        throw new CalculationError(`不支持的一元运算符: ${operator}`);
+  /**
+   * 判断AST中是否引用了指定变量
+   */
+  private referencesVariable(node: ASTNode, name: string): boolean {
+    if (node.type === 'variable' && node.value === name) {
+      return true;
     }
+    return (node.children ?? []).some(child => this.referencesVariable(child, name));
   }
 
   /**
-   * 计算函数
+   * 记录计算结果：原 Ans 移入 PreAns
    */
-  private evaluateFunction(
-    node: ASTNode,
-    variables: Map<string, number>
-  ): Decimal {
-    if (!node.children || node.children.length === 0) {
-      throw new CalculationError('函数调用需要参数');
+  private recordAnswer(value: Value): void {
+    const [ans, preAns] = CalculatorService.ANSWER_VARIABLES as [string, string];
+    const previous = this.variables.get(ans);
+    if (previous !== undefined) {
+      this.variables.set(preAns, previous);
     }
+    this.variables.set(ans, value);
+  }
 
-    const functionName = (node.value as string).toLowerCase();
-    const args = node.children.map(child => this.evaluateAST(child, variables));
-
-    switch (functionName) {
-      case 'sin':
-        this.validateArgumentCount('sin', args, 1);
-        return new Decimal(Math.sin(args[0].toNumber()));
-
-      case 'cos':
-        this.validateArgumentCount('cos', args, 1);
-        return new Decimal(Math.cos(args[0].toNumber()));
-
-      case 'tan':
-        this.validateArgumentCount('tan', args, 1);
-        return new Decimal(Math.tan(args[0].toNumber()));
-
-      case 'asin':
-        this.validateArgumentCount('asin', args, 1);
-        const asinValue = args[0].toNumber();
-        if (asinValue < -1 || asinValue > 1) {
-          throw new CalculationError('asin参数必须在-1到1之间');
-        }
-        return new Decimal(Math.asin(asinValue));
+  /**
+   * 验证变量名：Ans/PreAns 由系统维护，常数名不可赋值
+   */
+  private validateVariableName(name: string): void {
+    const lowerName = name.toLowerCase();
+    if (CalculatorService.ANSWER_VARIABLES.some(answer => answer.toLowerCase() === lowerName)) {
+      throw new CalculationError(`${name} 为保留变量，不能赋值`);
+    }
+    if (Object.keys(this.getSupportedConstants()).includes(lowerName)) {
+      throw new CalculationError(`不能给常数 ${name} 赋值`);
+    }
+  }
 
-      case 'acos':
-        this.validateArgumentCount('acos', args, 1);
-        const acosValue = args[0].toNumber();
-        if (acosValue < -1 || acosValue > 1) {
-          throw new CalculationError('acos参数必须在-1到1之间');
-        }
-        return new Decimal(Math.acos(acosValue));
+  /**
+   * 计算AST节点
+   */
+  private evaluateAST(node: ASTNode, context: EvaluationContext): Value {
+    switch (node.type) {
+      case 'number':
+        // 数字字面量都是有限小数，按精确分数参与运算
+        return RationalMath.fromDecimal(new Decimal(node.value as Decimal.Value));
 
-      case 'atan':
-        this.validateArgumentCount('atan', args, 1);
-        return new Decimal(Math.atan(args[0].toNumber()));
+      case 'constant':
+        return this.evaluateConstant(node.value as string, context);
 
-      case 'ln':
-        this.validateArgumentCount('ln', args, 1);
-        if (args[0].lte(0)) {
-          throw new CalculationError('ln参数必须大于0');
-        }
-        return new Decimal(Math.log(args[0].toNumber()));
+      case 'variable':
+        return this.resolveVariable(node.value as string, context);
 
-      case 'log':
-        this.validateArgumentCount('log', args, 1);
-        if (args[0].lte(0)) {
-          throw new CalculationError('log参数必须大于0');
-        }
-        return new Decimal(Math.log10(args[0].toNumber()));
+      case 'binary':
+        return this.evaluateBinaryOperation(node, context);
 
-      case 'sqrt':
-        this.validateArgumentCount('sqrt', args, 1);
-        if (args[0].lt(0)) {
-          throw new CalculationError('sqrt参数不能为负数');
-        }
-        return args[0].sqrt();
+      case 'unary':
+        return this.evaluateUnaryOperation(node, context);
 
-      case 'abs':
-        this.validateArgumentCount('abs', args, 1);
-        return args[0].abs();
+      case 'function':
+        return this.evaluateFunction(node, context);
 
-      case 'ceil':
-        this.validateArgumentCount('ceil', args, 1);
-        return args[0].ceil();
+      case 'list':
+        return this.evaluateList(node, context);
 
-      case 'floor':
-        this.validateArgumentCount('floor', args, 1);
-        return args[0].floor();
+      case 'matrix':
+        return this.evaluateMatrix(node, context);
 
-      case 'round':
-        this.validateArgumentCount('round', args, 1);
-        return args[0].round();
+      case 'interval':
+        return this.evaluateInterval(node, context);
 
-      case 'exp':
-        this.validateArgumentCount('exp', args, 1);
-        return new Decimal(Math.exp(args[0].toNumber()));
+      case 'definition':
+        throw new CalculationError('函数定义不能直接求值，请先定义函数再调用');
 
-      case 'pow':
-        this.validateArgumentCount('pow', args, 2);
-        return args[0].pow(args[1]);
+      case 'equation':
+        throw new CalculationError('方程不能直接求值，请使用求解功能');
 
-      case 'max':
-        if (args.length < 2) {
-          throw new CalculationError('max函数至少需要2个参数');
-        }
-        return args.reduce((max, current) => current.gt(max) ? current : max);
+      case 'assignment':
+        throw new CalculationError('赋值语句只能出现在表达式最外层');
 
-      case 'min':
-        if (args.length < 2) {
-          throw new CalculationError('min函数至少需要2个参数');
-        }
-        return args.reduce((min, current) => current.lt(min) ? current : min);
+      case 'conversion':
+        return this.evaluateConversion(node, context);
 
       default:
-        throw new CalculationError(`不支持的函数: ${functionName}`);
+        throw new CalculationError(`不支持的节点类型: ${node.type}`);
     }
   }
 
   /**
-   * 验证函数参数数量
+   * 解析变量值，Ans/PreAns 不区分大小写（键盘输入为 ans）
    */
-  private validateArgumentCount(
-    functionName: string,
-    args: Decimal[],
-    expectedCount: number
-  ): void {
-    if (args.length !== expectedCount) {
+  private resolveVariable(name: string, context: EvaluationContext): Value {
+    const answerName = CalculatorService.ANSWER_VARIABLES.find(
+      answer => answer.toLowerCase() === name.toLowerCase()
+    );
+    const value = context.variables.get(name) ?? context.variables.get(answerName ?? name);
+
+    // 未按复数模式解析的表达式中，未定义的 i 仍视为虚数单位
+    if (value === undefined && name === 'i' && context.complexMode) {
+      return this.evaluateConstant(name, context);
+    }
+
+    if (value === undefined) {
       throw new CalculationError(
-        `${functionName}函数需要${expectedCount}个参数，但得到${args.length}个`
+        answerName ? `${answerName} 尚无计算结果` : `未定义的变量: ${name}`
       );
     }
+    return value;
   }
 
   /**
-   * 简化表达式
+   * 计算常数节点
    */
-  public async simplify(expression: Expression): Promise<Expression> {
-    if (!expression.isValid) {
-      throw new CalculationError('无法简化无效表达式', expression);
+  private evaluateConstant(name: string, context: EvaluationContext): ScalarValue {
+    // π 和 e 按当前工作精度计算，而不是使用双精度近似值
+    switch (name) {
+      case 'π':
+      case 'pi':
+        return this.trackRounding(Decimal.acos(-1), context);
+      case 'e':
+        return this.trackRounding(Decimal.exp(1), context);
+      case 'i':
+        return ComplexMath.create(0, 1);
+      case '∞':
+        return new Decimal(Infinity);
     }
 
-    try {
-      // 这里实现基本的表达式简化逻辑
-      // 实际项目中可能需要更复杂的符号计算库
-      const simplified = this.performBasicSimplification(expression.input);
-
-      return await this.parseExpression(simplified, CalculatorType.BASIC);
-    } catch (error) {
-      throw new CalculationError(
-        `简化失败: ${error instanceof Error ? error.message : '未知错误'}`,
-        expression
-      );
+    const constants = this.getSupportedConstants();
+    const constantValue = constants[name];
+    if (constantValue === undefined) {
+      throw new CalculationError(`未定义的常数: ${name}`);
     }
+    return new Decimal(constantValue);
   }
 
   /**
-   * 执行基本的表达式简化
-   */
-  private performBasicSimplification(input: string): string {
-    let simplified = input;
-
-    // 基本的代数简化规则
-    const simplificationRules = [
-      // x + x -> 2*x
-      { pattern: /(\w+)\s*\+\s*\1(?!\w)/g, replacement: '2*$1' },
-      // 2*x + x -> 3*x
-      { pattern: /(\d+)\*(\w+)\s*\+\s*\2(?!\w)/g, replacement: (match: string, coeff: string, variable: string) => `${parseInt(coeff) + 1}*${variable}` },
-      // x + 2*x -> 3*x
-      { pattern: /(\w+)\s*\+\s*(\d+)\*\1(?!\w)/g, replacement: (match: string, variable: string, coeff: string) => `${parseInt(coeff) + 1}*${variable}` },
-      // 0 + x -> x
-      { pattern: /0\s*\+\s*(\w+)/g, replacement: '$1' },
-      // x + 0 -> x
-      { pattern: /(\w+)\s*\+\s*0/g, replacement: '$1' },
-      // 1 * x -> x
-      { pattern: /1\s*\*\s*(\w+)/g, replacement: '$1' },
-      // x * 1 -> x
-      { pattern: /(\w+)\s*\*\s*1/g, replacement: '$1' },
-      // 0 * x -> 0
-      { pattern: /0\s*\*\s*\w+/g, replacement: '0' },
-      // x * 0 -> 0
-      { pattern: /\w+\s*\*\s*0/g, replacement: '0' },
-    ];
+   * 计算二元运算
+   */
+  private evaluateBinaryOperation(
+    node: ASTNode,
+    context: EvaluationContext
+  ): Value {
+    if (!node.children || node.children.length !== 2) {
+      throw new CalculationError('二元运算需要两个操作数');
+    }
 
-    for (const rule of simplificationRules) {
-      if (typeof rule.replacement === 'string') {
-        simplified = simplified.replace(rule.pattern, rule.replacement);
-      } else {
-        simplified = simplified.replace(rule.pattern as RegExp, rule.replacement as any);
-      }
+    const operator = node.value as string;
+    if (ASTUtils.LOGICAL_OPERATORS.includes(operator)) {
+      return this.evaluateLogicalOperation(operator, node.children[0], node.children[1], context);
     }
 
-    return simplified.trim();
+    const [leftNode, rightNode] = node.children as [ASTNode, ASTNode];
+    const leftValue = this.evaluateAST(leftNode, context);
+    const rightValue = (operator === '*' || operator === '/') && this.hasCoefficient(leftNode)
+      ? this.evaluateUnitFactor(rightNode, context)
+      : this.evaluateAST(rightNode, context);
+
+    if (MatrixMath.isMatrix(leftValue) || MatrixMath.isMatrix(rightValue)) {
+      return this.evaluateMatrixOperation(operator, leftValue, rightValue);
+    }
+    if (ASTUtils.COMPARISON_OPERATORS.includes(operator)) {
+      if (UncertaintyMath.isUncertain(leftValue) || UncertaintyMath.isUncertain(rightValue) ||
+          IntervalMath.isInterval(leftValue) || IntervalMath.isInterval(rightValue)) {
+        throw new CalculationError('测量值和区间不能比较大小');
+      }
+      return this.broadcast([leftValue, rightValue], ([left, right]) =>
+        this.compare(operator, left as ScalarValue, right as ScalarValue, context)
+      );
+    }
+    if (operator === '±') {
+      return this.createUncertain(leftValue, rightValue);
+    }
+    if (IntervalMath.isInterval(leftValue) || IntervalMath.isInterval(rightValue)) {
+      return this.evaluateIntervalOperation(operator, leftValue, rightValue);
+    }
+    if (UncertaintyMath.isUncertain(leftValue) || UncertaintyMath.isUncertain(rightValue)) {
+      return this.evaluateUncertainOperation(operator, leftValue, rightValue, context);
+    }
+
+    return this.broadcast([leftValue, rightValue], ([left, right]) =>
+      this.combine(operator, left as ScalarValue, right as ScalarValue, context)
+    );
+  }
+
+  /**
+   * 乘除链中是否有数值系数：除名称及其乘方（如 km、s^2）之外的因子都视为系数
+   */
+  private hasCoefficient(node: ASTNode): boolean {
+    if (node.type === 'binary' && (node.value === '*' || node.value === '/')) {
+      return (node.children ?? []).some(child => this.hasCoefficient(child));
+    }
+    const base = node.type === 'binary' && node.value === '^' ? node.children?.[0] : node;
+    return base?.type !== 'variable';
+  }
+
+  /**
+   * 数值系数之后的因子：未定义的名称按单位符号解释，如 5 km/h、9.81 m/s^2；
+   * 会话变量仍然优先，其他位置的未定义名称报告为未定义的变量
+   */
+  private evaluateUnitFactor(node: ASTNode, context: EvaluationContext): Value {
+    const isUnit = (candidate: ASTNode | undefined): boolean =>
+      candidate?.type === 'variable' &&
+      !context.variables.has(candidate.value as string) &&
+      UnitMath.isUnit(candidate.value as string);
+
+    if (isUnit(node)) {
+      return UnitMath.unitOf(node.value as string);
+    }
+    const [base, exponent] = node.children ?? [];
+    if (node.type === 'binary' && node.value === '^' && base && isUnit(base) && exponent) {
+      return this.combine('^', UnitMath.unitOf(base.value as string), this.evaluateAST(exponent, context) as ScalarValue, context);
+    }
+    return this.evaluateAST(node, context);
+  }
+
+  /**
+   * 逻辑与、或：左侧为标量且已能确定结果时不计算右侧，如 x != 0 and 1/x > 2；列表按元素计算
+   */
+  private evaluateLogicalOperation(
+    operator: string,
+    leftNode: ASTNode,
+    rightNode: ASTNode,
+    context: EvaluationContext
+  ): Value {
+    const shortCircuit = operator === 'or';
+    const leftValue = this.evaluateAST(leftNode, context);
+    if (!ListMath.isList(leftValue) && this.isTrue(leftValue) === shortCircuit) {
+      return this.truthValue(shortCircuit);
+    }
+
+    const rightValue = this.evaluateAST(rightNode, context);
+    return this.broadcast([leftValue, rightValue], ([left, right]) =>
+      this.truthValue(shortCircuit
+        ? this.isTrue(left as ScalarValue) || this.isTrue(right as ScalarValue)
+        : this.isTrue(left as ScalarValue) && this.isTrue(right as ScalarValue))
+    );
+  }
+
+  /**
+   * 比较两个标量：按两者之差的符号判断，带单位时先换算到同一单位；复数只能判断是否相等
+   */
+  private compare(
+    operator: string,
+    leftValue: ScalarValue,
+    rightValue: ScalarValue,
+    context: EvaluationContext
+  ): ScalarValue {
+    const difference = this.combine('-', leftValue, rightValue, context);
+    const value = UnitMath.isQuantity(difference) ? difference.magnitude : difference;
+
+    let sign: number;
+    if (RationalMath.isRational(value)) {
+      sign = RationalMath.isZero(value) ? 0 : RationalMath.isNegative(value) ? -1 : 1;
+    } else {
+      const complex = ComplexMath.from(value);
+      if (!complex.imaginary.isZero()) {
+        if (operator !== '==' && operator !== '!=') {
+          throw new CalculationError('复数不能比较大小');
+        }
+        return this.truthValue(operator === '!=');
+      }
+      if (complex.real.isNaN()) {
+        throw new CalculationError('无法比较两个无穷大');
+      }
+      sign = complex.real.isZero() ? 0 : complex.real.isNegative() ? -1 : 1;
+    }
+
+    switch (operator) {
+      case '<':
+        return this.truthValue(sign < 0);
+      case '<=':
+        return this.truthValue(sign <= 0);
+      case '>':
+        return this.truthValue(sign > 0);
+      case '>=':
+        return this.truthValue(sign >= 0);
+      case '==':
+        return this.truthValue(sign === 0);
+      default:
+        return this.truthValue(sign !== 0);
+    }
+  }
+
+  /**
+   * 条件的真值：非零为真；条件必须是不带单位的数
+   */
+  private isTrue(value: Value): boolean {
+    if (RationalMath.isRational(value)) {
+      return !RationalMath.isZero(value);
+    }
+    if (value instanceof Decimal) {
+      if (value.isNaN()) {
+        throw new CalculationError('条件的值无定义');
+      }
+      return !value.isZero();
+    }
+    if (ComplexMath.isComplex(value)) {
+      return !(value.real.isZero() && value.imaginary.isZero());
+    }
+    throw new CalculationError('条件的值必须是不带单位的数');
+  }
+
+  /**
+   * 比较和逻辑运算的结果：成立为 1，不成立为 0
+   */
+  private truthValue(truth: boolean): ScalarValue {
+    return RationalMath.create(truth ? 1n : 0n);
+  }
+
+  /**
+   * 对两个标量执行二元运算，任一侧带单位时按量纲规则计算
+   */
+  private combine(
+    operator: string,
+    leftValue: ScalarValue,
+    rightValue: ScalarValue,
+    context: EvaluationContext
+  ): ScalarValue {
+    if (UnitMath.isQuantity(leftValue) || UnitMath.isQuantity(rightValue)) {
+      return this.evaluateQuantityOperation(operator, leftValue, rightValue, context);
+    }
+    return this.applyBinaryOperator(operator, leftValue, rightValue, context);
+  }
+
+  /**
+   * 按元素运算：列表参数逐元素计算，标量扩展到每个元素
+   */
+  private broadcast(values: Value[], apply: (args: ScalarValue[]) => ScalarValue): Value {
+    if (values.some(value => MatrixMath.isMatrix(value))) {
+      throw new CalculationError('矩阵不支持该运算');
+    }
+    return this.guard(
+      () => ListMath.broadcast(values as Array<ScalarValue | ValueList<ScalarValue>>, apply),
+      '列表运算失败'
+    );
+  }
+
+  /**
+   * 执行工具类中的运算，工具类抛出的普通错误转换为 CalculationError
+   */
+  private guard<T>(operation: () => T, fallbackMessage: string): T {
+    try {
+      return operation();
+    } catch (error) {
+      if (error instanceof CalculationError) {
+        throw error;
+      }
+      throw new CalculationError(error instanceof Error ? error.message : fallbackMessage);
+    }
+  }
+
+  /**
+   * 计算列表字面量，列表的元素必须是标量
+   */
+  private evaluateList(node: ASTNode, context: EvaluationContext): Value {
+    const elements = (node.children ?? []).map(child => {
+      const value = this.evaluateAST(child, context);
+      if (ListMath.isList(value)) {
+        throw new CalculationError('列表不能嵌套');
+      }
+      if (MatrixMath.isMatrix(value)) {
+        throw new CalculationError('列表的元素不能是矩阵');
+      }
+      if (UncertaintyMath.isUncertain(value) || IntervalMath.isInterval(value)) {
+        throw new CalculationError('列表的元素不能是测量值或区间');
+      }
+      return value;
+    });
+    return ListMath.create(elements);
+  }
+
+  /**
+   * 计算矩阵字面量，children 为各行的 list 节点
+   */
+  private evaluateMatrix(node: ASTNode, context: EvaluationContext): Value {
+    const rows = (node.children ?? []).map(row =>
+      (row.children ?? []).map(child => this.toMatrixEntry(this.evaluateAST(child, context), '矩阵元素必须是不带单位的实数'))
+    );
+    return this.guard(() => MatrixMath.create(rows), '矩阵运算失败');
+  }
+
+  /**
+   * 矩阵运算：同型矩阵加减、矩阵乘法、数乘、除以实数和整数次幂
+   */
+  private evaluateMatrixOperation(operator: string, leftValue: Value, rightValue: Value): Value {
+    return this.guard(() => {
+      if (MatrixMath.isMatrix(leftValue) && MatrixMath.isMatrix(rightValue)) {
+        switch (operator) {
+          case '+':
+            return MatrixMath.add(leftValue, rightValue);
+          case '-':
+            return MatrixMath.subtract(leftValue, rightValue);
+          case '*':
+            return MatrixMath.multiply(leftValue, rightValue);
+          case '/':
+            throw new CalculationError('矩阵不能相除，请乘以逆矩阵 inv()');
+        }
+      } else if (MatrixMath.isMatrix(leftValue)) {
+        switch (operator) {
+          case '*':
+            return MatrixMath.scale(leftValue, this.toMatrixEntry(rightValue, '矩阵只能与实数相乘'));
+          case '/':
+            return MatrixMath.scale(leftValue, this.reciprocal(this.toMatrixEntry(rightValue, '矩阵只能除以实数')));
+          case '^':
+          case '**':
+            return MatrixMath.power(leftValue, this.toIntegerExponent(rightValue));
+        }
+      } else if (MatrixMath.isMatrix(rightValue) && operator === '*') {
+        return MatrixMath.scale(rightValue, this.toMatrixEntry(leftValue, '矩阵只能与实数相乘'));
+      }
+      throw new CalculationError(`矩阵不支持运算 ${operator}`);
+    }, '矩阵运算失败');
+  }
+
+  /**
+   * 矩阵元素和数乘的系数必须是不带单位的实数
+   */
+  private toMatrixEntry(value: Value, message: string): MatrixEntry {
+    if (value instanceof Decimal || RationalMath.isRational(value)) {
+      return value;
+    }
+    throw new CalculationError(message);
+  }
+
+  private reciprocal(value: MatrixEntry): MatrixEntry {
+    if (RationalMath.isRational(value) ? RationalMath.isZero(value) : value.isZero()) {
+      throw new CalculationError('除零错误');
+    }
+    return RationalMath.isRational(value)
+      ? RationalMath.divide(RationalMath.create(1n), value)
+      : new Decimal(1).dividedBy(value);
+  }
+
+  /**
+   * 矩阵的幂指数必须是整数
+   */
+  private toIntegerExponent(value: Value): bigint {
+    if (RationalMath.isRational(value) && RationalMath.isInteger(value)) {
+      return value.numerator;
+    }
+    if (value instanceof Decimal && value.isInteger()) {
+      return BigInt(value.toFixed(0));
+    }
+    throw new CalculationError('矩阵的幂指数必须是整数');
+  }
+
+  /**
+   * 计算区间字面量 [a, b]，端点必须是不带单位的实数
+   */
+  private evaluateInterval(node: ASTNode, context: EvaluationContext): Value {
+    const [lower, upper] = (node.children ?? []).map(child => this.toInterval(this.evaluateAST(child, context))) as [
+      Interval,
+      Interval,
+    ];
+    return this.guard(() => IntervalMath.create(lower.lower, upper.upper), '区间运算失败');
+  }
+
+  /**
+   * 由 a ± b 创建测量值；a 本身带不确定度时两者按平方和合成
+   */
+  private createUncertain(leftValue: Value, rightValue: Value): Value {
+    if (!(rightValue instanceof Decimal || RationalMath.isRational(rightValue))) {
+      throw new CalculationError('不确定度必须是不带单位的实数');
+    }
+    const uncertainty = RationalMath.isRational(rightValue) ? RationalMath.toDecimal(rightValue) : rightValue;
+    return this.guard(
+      () => UncertaintyMath.add(this.toUncertain(leftValue), UncertaintyMath.create(0, uncertainty)),
+      '不确定度运算失败'
+    );
+  }
+
+  /**
+   * 区间运算：任一侧为区间时，另一侧的实数视为单点区间，测量值取 [value - σ, value + σ]
+   */
+  private evaluateIntervalOperation(operator: string, leftValue: Value, rightValue: Value): Value {
+    const left = this.toInterval(leftValue);
+    const right = this.toInterval(rightValue);
+
+    return this.guard(() => {
+      switch (operator) {
+        case '+':
+          return IntervalMath.add(left, right);
+        case '-':
+          return IntervalMath.subtract(left, right);
+        case '*':
+          return IntervalMath.multiply(left, right);
+        case '/':
+          return IntervalMath.divide(left, right);
+        case '^':
+        case '**':
+          return IntervalMath.power(left, right);
+        default:
+          throw new CalculationError(`区间不支持运算 ${operator}`);
+      }
+    }, '区间运算失败');
+  }
+
+  /**
+   * 测量值运算：各操作数视为相互独立，四则运算按解析公式传播不确定度，其余运算按数值偏导数传播
+   */
+  private evaluateUncertainOperation(
+    operator: string,
+    leftValue: Value,
+    rightValue: Value,
+    context: EvaluationContext
+  ): Value {
+    const left = this.toUncertain(leftValue);
+    const right = this.toUncertain(rightValue);
+
+    return this.guard(() => {
+      switch (operator) {
+        case '+':
+          return UncertaintyMath.add(left, right);
+        case '-':
+          return UncertaintyMath.subtract(left, right);
+        case '*':
+          return UncertaintyMath.multiply(left, right);
+        case '/':
+          return UncertaintyMath.divide(left, right);
+        default:
+          return UncertaintyMath.propagate([left, right], ([x, y]) =>
+            this.toRealResult(this.applyBinaryOperator(operator, x as Decimal, y as Decimal, context))
+          );
+      }
+    }, '不确定度运算失败');
+  }
+
+  /**
+   * 参与区间运算的值：实数为包含它的最小区间，测量值取一倍不确定度的范围
+   */
+  private toInterval(value: Value): Interval {
+    if (IntervalMath.isInterval(value)) {
+      return value;
+    }
+    if (UncertaintyMath.isUncertain(value)) {
+      return UncertaintyMath.toInterval(value);
+    }
+    if (value instanceof Decimal || RationalMath.isRational(value)) {
+      return IntervalMath.point(value);
+    }
+    throw new CalculationError('区间运算只支持不带单位的实数');
+  }
+
+  /**
+   * 参与不确定度传播的值：实数视为不确定度为 0
+   */
+  private toUncertain(value: Value): Uncertain {
+    if (UncertaintyMath.isUncertain(value)) {
+      return value;
+    }
+    if (value instanceof Decimal || RationalMath.isRational(value)) {
+      return UncertaintyMath.create(RationalMath.isRational(value) ? RationalMath.toDecimal(value) : value, 0);
+    }
+    throw new CalculationError('不确定度运算只支持不带单位的实数');
+  }
+
+  /**
+   * 不确定度传播和区间端点要求实数结果
+   */
+  private toRealResult(value: ScalarValue): Decimal {
+    if (RationalMath.isRational(value)) {
+      return RationalMath.toDecimal(value);
+    }
+    if (value instanceof Decimal && value.isFinite()) {
+      return value;
+    }
+    throw new CalculationError('测量值和区间的运算结果必须是实数');
+  }
+
+  /**
+   * 对不带单位的数值执行二元运算
+   */
+  private applyBinaryOperator(
+    operator: string,
+    leftValue: NumericValue,
+    rightValue: NumericValue,
+    context: EvaluationContext
+  ): NumericValue {
+    if ((operator === '^' || operator === '**') && !context.complexMode) {
+      const root = this.evaluateRealRoot(leftValue, rightValue, context);
+      if (root) {
+        return root;
+      }
+    }
+
+    const exact = this.evaluateRationalBinaryOperation(operator, leftValue, rightValue);
+    if (exact) {
+      return exact;
+    }
+
+    const left = this.approximate(leftValue, context);
+    const right = this.approximate(rightValue, context);
+
+    // 复数操作数，或复数模式下负数的非整数次幂，转入复数运算
+    const isComplexPower =
+      context.complexMode &&
+      (operator === '^' || operator === '**') &&
+      left instanceof Decimal &&
+      right instanceof Decimal &&
+      left.isNegative() &&
+      !right.isInteger();
+    if (!(left instanceof Decimal) || !(right instanceof Decimal) || isComplexPower) {
+      return this.evaluateComplexBinaryOperation(
+        operator,
+        ComplexMath.from(left),
+        ComplexMath.from(right),
+        context
+      );
+    }
+
+    switch (operator) {
+      case '+':
+        return left.plus(right);
+      case '-':
+        return left.minus(right);
+      case '*':
+        return left.times(right);
+      case '/':
+        if (right.isZero()) {
+          throw new CalculationError('除零错误');
+        }
+        return left.dividedBy(right);
+      case '^':
+      case '**':
+        if (left.isNegative() && !right.isInteger()) {
+          throw new CalculationError('负数的非整数次幂在实数范围内无定义，可在复数模式下计算');
+        }
+        return this.trackRounding(left.pow(right), context, this.isExactPower([left], right));
+      case '%':
+        return left.modulo(right);
+      default:
+        throw new CalculationError(`不支持的运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 实数模式下负数的 p/q 次幂（q 为奇数）取实数根，如 (-8)^(1/3) = -2；
+   * q 为偶数时在实数范围内无定义。其他情况返回 null，按一般的幂运算计算
+   */
+  private evaluateRealRoot(
+    leftValue: NumericValue,
+    rightValue: NumericValue,
+    context: EvaluationContext
+  ): NumericValue | null {
+    const exponent = this.toExactRational(rightValue);
+    const isNegative = RationalMath.isRational(leftValue)
+      ? RationalMath.isNegative(leftValue)
+      : leftValue instanceof Decimal && leftValue.isNegative() && !leftValue.isZero();
+    if (!exponent || RationalMath.isInteger(exponent) || !isNegative) {
+      return null;
+    }
+    if (exponent.denominator % 2n === 0n) {
+      throw new CalculationError('负数的偶次方根在实数范围内无定义，可在复数模式下计算');
+    }
+
+    const magnitude = this.applyBinaryOperator(
+      '^',
+      this.applyUnaryOperator('-', leftValue, context) as NumericValue,
+      exponent,
+      context
+    );
+    return exponent.numerator % 2n === 0n
+      ? magnitude
+      : (this.applyUnaryOperator('-', magnitude, context) as NumericValue);
+  }
+
+  /**
+   * 两个操作数都是精确值时按有理数计算 + − × ÷、取余和有理数次幂；
+   * 结果无法精确表示（如 2^(1/2)）时返回 null，改用 Decimal 计算
+   */
+  private evaluateRationalBinaryOperation(
+    operator: string,
+    leftValue: NumericValue,
+    rightValue: NumericValue
+  ): Rational | null {
+    const left = this.toExactRational(leftValue);
+    const right = this.toExactRational(rightValue);
+    if (!left || !right) {
+      return null;
+    }
+
+    switch (operator) {
+      case '+':
+        return RationalMath.add(left, right);
+      case '-':
+        return RationalMath.subtract(left, right);
+      case '*':
+        return RationalMath.multiply(left, right);
+      case '/':
+        if (RationalMath.isZero(right)) {
+          throw new CalculationError('除零错误');
+        }
+        return RationalMath.divide(left, right);
+      case '^':
+      case '**':
+        if (RationalMath.isZero(left) && RationalMath.isNegative(right)) {
+          throw new CalculationError('除零错误');
+        }
+        return RationalMath.pow(left, right);
+      case '%':
+        if (RationalMath.isZero(right)) {
+          throw new CalculationError('除零错误');
+        }
+        return RationalMath.modulo(left, right);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 精确值转换为有理数：有理数本身，或未发生舍入的整数 Decimal（如 floor、abs 的结果）
+   */
+  private toExactRational(value: ScalarValue): Rational | null {
+    if (RationalMath.isRational(value)) {
+      return value;
+    }
+    if (value instanceof Decimal && value.isInteger() && value.sd() < Decimal.precision) {
+      return RationalMath.fromDecimal(value);
+    }
+    return null;
+  }
+
+  /**
+   * 有理数转换为当前精度下的 Decimal，并记录舍入
+   */
+  private approximate(value: NumericValue, context: EvaluationContext): ApproximateValue {
+    if (!RationalMath.isRational(value)) {
+      return value;
+    }
+    // 分母只含 2 和 5 且位数不超过工作精度时转换没有舍入
+    const decimal = RationalMath.toDecimal(value);
+    const terminating = RationalMath.simplify(value);
+    return this.trackRounding(decimal, context, terminating instanceof Decimal && terminating.eq(decimal));
+  }
+
+  /**
+   * 转换为对外的结果值：分母只含 2 和 5 的有理数化为精确的 Decimal
+   */
+  private toResultValue(value: NumericValue): NumericValue {
+    return RationalMath.isRational(value) ? RationalMath.simplify(value) : value;
+  }
+
+  /**
+   * 带单位的量的运算：加减要求量纲相同，结果使用左侧的单位；乘除合并单位；
+   * 乘方要求指数是使单位指数保持整数的有理数
+   */
+  private evaluateQuantityOperation(
+    operator: string,
+    leftValue: ScalarValue,
+    rightValue: ScalarValue,
+    context: EvaluationContext
+  ): ScalarValue {
+    const left = this.toQuantity(leftValue);
+    const right = this.toQuantity(rightValue);
+
+    switch (operator) {
+      case '+':
+      case '-':
+        if (!UnitMath.sameDimension(left.dimension, right.dimension)) {
+          throw new CalculationError(
+            `单位量纲不匹配：${UnitMath.describe(left.dimension)}与${UnitMath.describe(right.dimension)}不能${operator === '+' ? '相加' : '相减'}`
+          );
+        }
+        return this.createQuantity(
+          this.applyMagnitudeOperator(operator, left.magnitude, right.magnitude, context),
+          left.unit
+        );
+
+      case '*':
+      case '/': {
+        const factor = operator === '*' ? 1 : -1;
+        return this.createQuantity(
+          this.applyMagnitudeOperator(operator, left.magnitude, right.magnitude, context),
+          UnitMath.combine(left.unit, right.unit, factor)
+        );
+      }
+
+      case '^':
+      case '**': {
+        if (UnitMath.isQuantity(rightValue)) {
+          throw new CalculationError('指数必须是无量纲的数');
+        }
+        const exponent = this.toExactRational(rightValue);
+        const unit = exponent && UnitMath.power(left.unit, exponent);
+        if (!exponent || !unit) {
+          throw new CalculationError(`无法对 ${UnitMath.format(left.unit)} 求该次幂，单位指数必须保持整数`);
+        }
+        return this.createQuantity(
+          this.applyMagnitudeOperator('^', left.magnitude, exponent, context),
+          unit
+        );
+      }
+
+      default:
+        throw new CalculationError(`带单位的量不支持运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 单位换算：目标中的标识符一律按单位解释，量纲不同时报错
+   */
+  private evaluateConversion(node: ASTNode, context: EvaluationContext): Value {
+    const [valueNode, targetNode] = node.children ?? [];
+    if (!valueNode || !targetNode) {
+      throw new CalculationError('单位换算需要数值和目标单位');
+    }
+
+    let target: UnitPowers;
+    try {
+      target = UnitMath.fromAST(targetNode);
+    } catch (error) {
+      throw new CalculationError(error instanceof Error ? error.message : '无效的目标单位');
+    }
+
+    return this.broadcast([this.evaluateAST(valueNode, context)], ([value]) =>
+      this.convertQuantity(value as ScalarValue, target)
+    );
+  }
+
+  /**
+   * 以指定单位表示带单位的量（SI 数值不变）
+   */
+  private convertQuantity(value: ScalarValue, unit: UnitPowers): ScalarValue {
+    const quantity = this.toQuantity(value);
+    const dimension = UnitMath.dimensionOf(unit);
+    if (!UnitMath.sameDimension(quantity.dimension, dimension)) {
+      throw new CalculationError(
+        `无法将${UnitMath.describe(quantity.dimension)}换算为${UnitMath.describe(dimension)}（${UnitMath.format(unit)}）`
+      );
+    }
+    return this.createQuantity(quantity.magnitude, unit);
+  }
+
+  /**
+   * 数值视为无量纲的量；复数不能带单位
+   */
+  private toQuantity(value: ScalarValue): Quantity {
+    if (UnitMath.isQuantity(value)) {
+      return value;
+    }
+    if (ComplexMath.isComplex(value)) {
+      throw new CalculationError('带单位的量不支持复数');
+    }
+    return { magnitude: value, dimension: UnitMath.DIMENSIONLESS, unit: {} };
+  }
+
+  /**
+   * 构造带单位的量，量纲抵消（如 km/m）时返回 SI 数值
+   */
+  private createQuantity(magnitude: Decimal | Rational, unit: UnitPowers): ScalarValue {
+    const dimension = UnitMath.dimensionOf(unit);
+    return UnitMath.isDimensionless(dimension) ? magnitude : { magnitude, dimension, unit };
+  }
+
+  /**
+   * 带单位的量的数值部分沿用普通运算，结果必须是实数
+   */
+  private applyMagnitudeOperator(
+    operator: string,
+    left: Decimal | Rational,
+    right: Decimal | Rational,
+    context: EvaluationContext
+  ): Decimal | Rational {
+    const result = this.applyBinaryOperator(operator, left, right, context);
+    if (ComplexMath.isComplex(result)) {
+      throw new CalculationError('带单位的量不支持复数');
+    }
+    return result;
+  }
+
+  /**
+   * 计算复数二元运算，虚部为零的结果化简为实数
+   */
+  private evaluateComplexBinaryOperation(
+    operator: string,
+    left: ComplexNumber,
+    right: ComplexNumber,
+    context: EvaluationContext
+  ): NumericValue {
+    switch (operator) {
+      case '+':
+        return ComplexMath.simplify(ComplexMath.add(left, right));
+      case '-':
+        return ComplexMath.simplify(ComplexMath.subtract(left, right));
+      case '*':
+        return ComplexMath.simplify(ComplexMath.multiply(left, right));
+      case '/':
+        if (right.real.isZero() && right.imaginary.isZero()) {
+          throw new CalculationError('除零错误');
+        }
+        return ComplexMath.simplify(ComplexMath.divide(left, right));
+      case '^':
+      case '**':
+        return ComplexMath.simplify(
+          this.trackComplexRounding(ComplexMath.pow(left, right), context, this.isExactComplexPower(left, right))
+        );
+      default:
+        throw new CalculationError(`复数不支持运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 计算一元运算
+   */
+  private evaluateUnaryOperation(
+    node: ASTNode,
+    context: EvaluationContext
+  ): Value {
+    if (!node.children || node.children.length !== 1) {
+      throw new CalculationError('一元运算需要一个操作数');
+    }
+
+    const operator = node.value as string;
+    const value = this.evaluateAST(node.children[0], context);
+    if (MatrixMath.isMatrix(value) && (operator === '-' || operator === '+')) {
+      return operator === '-' ? MatrixMath.scale(value, RationalMath.create(-1n)) : value;
+    }
+    if ((UncertaintyMath.isUncertain(value) || IntervalMath.isInterval(value)) && (operator === '-' || operator === '+')) {
+      if (operator === '+') {
+        return value;
+      }
+      return IntervalMath.isInterval(value)
+        ? IntervalMath.negate(value)
+        : { value: value.value.negated(), uncertainty: value.uncertainty };
+    }
+
+    return this.broadcast([value], ([operand]) =>
+      this.applyUnaryOperator(operator, operand as ScalarValue, context)
+    );
+  }
+
+  /**
+   * 对标量执行一元运算
+   */
+  private applyUnaryOperator(
+    operator: string,
+    operand: ScalarValue,
+    context: EvaluationContext
+  ): ScalarValue {
+    switch (operator) {
+      case '+':
+        return operand;
+      case 'not':
+        return this.truthValue(!this.isTrue(operand));
+      case '-':
+        if (UnitMath.isQuantity(operand)) {
+          return { ...operand, magnitude: this.applyMagnitudeOperator('*', operand.magnitude, RationalMath.create(-1n), context) };
+        }
+        if (RationalMath.isRational(operand)) {
+          return RationalMath.negate(operand);
+        }
+        return operand instanceof Decimal ? operand.negated() : ComplexMath.negate(operand);
+      default:
+        throw new CalculationError(`不支持的一元运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 计算函数
+   */
+  private evaluateFunction(
+    node: ASTNode,
+    context: EvaluationContext
+  ): Value {
+    if (!node.children || node.children.length === 0) {
+      throw new CalculationError('函数调用需要参数');
+    }
+
+    const functionName = (node.value as string).toLowerCase();
+    const index = ASTUtils.boundVariable(node);
+    if (index && !this.userFunctions.has(node.value as string)) {
+      return functionName === 'limit'
+        ? this.evaluateLimit(node, index, context)
+        : this.evaluateSeries(node, index, context);
+    }
+
+    if (functionName === 'series' && !this.userFunctions.has(node.value as string)) {
+      return this.evaluateTaylorSeries(node, context);
+    }
+    if ((functionName === 'if' || functionName === 'piecewise') && !this.userFunctions.has(node.value as string)) {
+      return this.evaluateConditional(node, context);
+    }
+
+    const definition = this.userFunctions.get(node.value as string);
+
+    // 统计函数的方括号字面量参数按列表计算：两个元素的 [a, b] 解析为区间，mean([1, 2]) 仍是两个数的均值
+    const takesList = !definition && (
+      CalculatorService.LIST_FUNCTIONS.includes(functionName) ||
+      ((functionName === 'max' || functionName === 'min') && node.children.length === 1)
+    );
+    const values = node.children.map(child =>
+      takesList && child.type === 'interval' ? this.evaluateList(child, context) : this.evaluateAST(child, context)
+    );
+
+    if (definition) {
+      return this.evaluateUserFunction(definition, values, context);
+    }
+
+    if (CalculatorService.MATRIX_FUNCTIONS.includes(functionName)) {
+      return this.evaluateMatrixFunction(functionName, values);
+    }
+    if (values.some(value => MatrixMath.isMatrix(value))) {
+      throw new CalculationError(`${functionName}函数的参数不能是矩阵`);
+    }
+    if (values.some(value => IntervalMath.isInterval(value))) {
+      return this.evaluateIntervalFunction(functionName, values, context);
+    }
+    if (values.some(value => UncertaintyMath.isUncertain(value))) {
+      const args = values.map(value => this.toUncertain(value));
+      return this.guard(
+        () => UncertaintyMath.propagate(args, xs => this.toRealResult(this.applyFunction(functionName, xs, context))),
+        '不确定度运算失败'
+      );
+    }
+
+    // 统计函数作用于整个列表；max/min 只有一个列表参数时取列表中的最值
+    const [argument] = values;
+    if (
+      CalculatorService.LIST_FUNCTIONS.includes(functionName) ||
+      ((functionName === 'max' || functionName === 'min') && values.length === 1 && ListMath.isList(argument))
+    ) {
+      return this.evaluateListFunction(functionName, values, context);
+    }
+
+    return this.broadcast(values, args => this.applyFunction(functionName, args, context));
+  }
+
+  /**
+   * 条件表达式 if(c, a, b) 与分段函数 piecewise((c₁, v₁), …, 默认值)：依次检查条件，只计算第一个成立的段；
+   * 没有成立的段且没有默认值时函数在此处无定义
+   */
+  private evaluateConditional(node: ASTNode, context: EvaluationContext): Value {
+    if ((node.value as string).toLowerCase() === 'if' && node.children?.length !== 3) {
+      throw new CalculationError('if函数需要3个参数');
+    }
+
+    for (const [condition, value] of ASTUtils.pieces(node)) {
+      if (!condition || this.isTrue(this.evaluateAST(condition, context))) {
+        return this.evaluateAST(value, context);
+      }
+    }
+    throw new CalculationError('没有满足条件的分段，函数在此处无定义');
+  }
+
+  /**
+   * 求和 sum(f, k, a, b) 与求积 prod(f, k, a, b)：k 只在 f 中有效，上下限须为整数或 ±∞
+   *
+   * 项数不超过 MAX_SERIES_TERMS 时逐项精确计算，更多项时使用闭式；无穷级数数值求和并加速收敛，
+   * 不收敛时抛出 CalculationError。无穷乘积按各项对数之和计算，要求各项为正数。
+   * 上下限含未赋值的符号（如 n）时没有数值结果，错误信息给出闭式并提示使用化简。
+   */
+  private evaluateSeries(node: ASTNode, index: string, context: EvaluationContext): Value {
+    const [body, , lowerNode, upperNode] = node.children as [ASTNode, ASTNode, ASTNode, ASTNode];
+    const name = (node.value as string).toLowerCase();
+    const isSum = name === 'sum';
+
+    const symbols = [...new Set([...ASTUtils.freeVariables(lowerNode), ...ASTUtils.freeVariables(upperNode)])]
+      .filter(symbol => !context.variables.has(symbol));
+    if (symbols.length > 0) {
+      const closedForm = SummationUtils.closedForm(node);
+      throw new CalculationError(
+        closedForm
+          ? `${name}的上下限含未赋值的符号 ${symbols.join(', ')}，闭式为 ${ASTUtils.toString(SimplificationUtils.simplify(closedForm))}，可使用化简得到`
+          : `${name}的上下限含未赋值的符号 ${symbols.join(', ')}，且未找到闭式`
+      );
+    }
+    const lower = this.evaluateSeriesBound(name, lowerNode, context);
+    const upper = this.evaluateSeriesBound(name, upperNode, context);
+
+    if (lower.equals(Infinity) || upper.equals(-Infinity)) {
+      throw new CalculationError(`${name}的下限不能为 ∞，上限不能为 -∞`);
+    }
+    if (lower.greaterThan(upper)) {
+      return RationalMath.create(isSum ? 0n : 1n);
+    }
+
+    const scope: EvaluationContext = { ...context, variables: new Map(context.variables) };
+    const evaluateTerm = (k: Decimal): ScalarValue => {
+      scope.variables.set(index, k.isFinite() ? RationalMath.fromDecimal(k) : k);
+      const term = this.evaluateAST(body, scope);
+      if (!this.isNumericValue(term) && !UnitMath.isQuantity(term)) {
+        throw new CalculationError(`${name}的各项必须是数值`);
+      }
+      return term;
+    };
+
+    if (!lower.isFinite() || !upper.isFinite()) {
+      const result = this.sumInfiniteSeries(k => {
+        const term = evaluateTerm(new Decimal(k));
+        const value = this.isNumericValue(term) ? this.approximate(term, scope) : null;
+        if (!(value instanceof Decimal)) {
+          throw new CalculationError(`${name}的各项必须是实数`);
+        }
+        if (!isSum && !value.greaterThan(0)) {
+          throw new CalculationError('无穷乘积的各项必须为正数');
+        }
+        return isSum ? value.toNumber() : Math.log(value.toNumber());
+      }, lower.toNumber(), upper.toNumber());
+
+      if (!result.converged) {
+        throw new CalculationError(
+          isFinite(result.error)
+            ? `级数未收敛（估计误差 ${new Decimal(result.error).toSignificantDigits(3).toString()}）`
+            : `级数发散（已计算 ${result.terms} 项）`
+        );
+      }
+      context.isExact = false;
+      return new Decimal(isSum ? result.value : Math.exp(result.value));
+    }
+
+    const count = upper.minus(lower).plus(1);
+    if (count.greaterThan(CalculatorService.MAX_SERIES_TERMS)) {
+      const closedForm = SummationUtils.closedForm(node);
+      if (!closedForm) {
+        throw new CalculationError(`${name}的项数过多（${count.toString()}），且未找到闭式`);
+      }
+      return this.evaluateAST(closedForm, context);
+    }
+
+    // 从第一项开始累积，带单位的项不与无量纲的 0 或 1 运算
+    let result = evaluateTerm(lower);
+    for (let k = lower.plus(1); k.lessThanOrEqualTo(upper); k = k.plus(1)) {
+      result = this.combine(isSum ? '+' : '*', result, evaluateTerm(k), scope);
+    }
+    if (!scope.isExact) {
+      context.isExact = false;
+    }
+    return result;
+  }
+
+  /**
+   * 求和上下限：整数或 ±∞
+   */
+  private evaluateSeriesBound(name: string, node: ASTNode, context: EvaluationContext): Decimal {
+    const value = this.evaluateAST(node, context);
+    const bound = this.isNumericValue(value) ? this.approximate(value, context) : null;
+    if (!(bound instanceof Decimal) || (bound.isFinite() && !bound.isInteger()) || bound.isNaN()) {
+      throw new CalculationError(`${name}的上下限必须是整数或 ±∞`);
+    }
+    return bound;
+  }
+
+  /**
+   * 双侧极限 limit(f, x, a)：a 为实数或 ±∞，x 只在 f 中有效；极限不存在或趋于无穷时抛出 CalculationError
+   */
+  private evaluateLimit(node: ASTNode, variable: string, context: EvaluationContext): Value {
+    const [body, , pointNode] = node.children as [ASTNode, ASTNode, ASTNode];
+    const value = this.evaluateAST(pointNode, context);
+    const point = this.isNumericValue(value) ? this.approximate(value, context) : null;
+    if (!(point instanceof Decimal) || point.isNaN()) {
+      throw new CalculationError('limit的趋近点必须是实数或 ±∞');
+    }
+
+    const result = this.findLimit(body, variable, point.toNumber(), 'both', context.variables);
+    if (Number.isNaN(result.value)) {
+      throw new CalculationError(this.describeMissingLimit(result));
+    }
+    if (!Number.isFinite(result.value)) {
+      throw new CalculationError(`极限为 ${result.value > 0 ? '∞' : '-∞'}，函数在趋近点发散`);
+    }
+
+    return this.exactLimit(result) ?? this.trackRounding(new Decimal(result.value), context);
+  }
+
+  /**
+   * 符号方法求得的小分母有理数（如 4、1/2）是精确值；e、ln 2 这类无理数和数值外推的结果是近似值，返回 null
+   */
+  private exactLimit(result: LimitResult): Rational | null {
+    if (result.method === 'numeric') {
+      return null;
+    }
+    const [numerator, denominator] = new Decimal(result.value)
+      .toFraction(CalculatorService.MAX_LIMIT_DENOMINATOR) as [Decimal, Decimal];
+    return Math.abs(numerator.div(denominator).toNumber() - result.value) <= 1e-12 * Math.max(1, Math.abs(result.value))
+      ? RationalMath.create(BigInt(numerator.toFixed()), BigInt(denominator.toFixed()))
+      : null;
+  }
+
+  /**
+   * 在 variables 的取值下求 body 的极限：展开自定义函数，三角函数按弧度计算
+   */
+  private findLimit(
+    body: ASTNode,
+    variable: string,
+    point: number,
+    direction: LimitDirection,
+    variables: Map<string, Value>
+  ): LimitResult {
+    return this.guard(() => {
+      const expanded = ASTUtils.expandFunctions(body, this.userFunctions);
+      return LimitUtils.limit(expanded, variable, point, direction, (node, x) => {
+        try {
+          const context: EvaluationContext = {
+            variables: new Map([...variables, [variable, new Decimal(x)]]),
+            angleUnit: AngleUnit.RADIAN,
+            complexMode: false,
+            isExact: true,
+            callDepth: 0,
+          };
+          const result = this.evaluateAST(node, context);
+          const value = this.isNumericValue(result) ? this.approximate(result, context) : null;
+          return value instanceof Decimal ? value.toNumber() : NaN;
+        } catch {
+          return NaN;
+        }
+      });
+    }, '极限计算失败');
+  }
+
+  private describeMissingLimit(result: LimitResult): string {
+    if (result.left === null || result.right === null) {
+      return result.reason ? `极限不存在：${result.reason}` : '极限不存在';
+    }
+    const describe = (value: number): string =>
+      Number.isNaN(value)
+        ? '不存在'
+        : Number.isFinite(value)
+          ? new Decimal(value).toSignificantDigits(6).toString()
+          : value > 0 ? '∞' : '-∞';
+    return `极限不存在（左极限 ${describe(result.left)}，右极限 ${describe(result.right)}）`;
+  }
+
+  /**
+   * 泰勒多项式 series(f, x, a, n)：按当前变量值计算 f 在 a 处的 n 阶泰勒多项式的值
+   */
+  private evaluateTaylorSeries(node: ASTNode, context: EvaluationContext): Value {
+    return this.evaluateAST(this.taylorPolynomial(node, context), context);
+  }
+
+  /**
+   * series(f, x, a, n) 的泰勒多项式，系数在 context 的变量取值下求值
+   */
+  private taylorPolynomial(node: ASTNode, context: EvaluationContext): ASTNode {
+    const [body, variableNode, pointNode, orderNode] = node.children ?? [];
+    if (!body || variableNode?.type !== 'variable' || !pointNode || !orderNode || node.children?.length !== 4) {
+      throw new CalculationError('series函数需要4个参数，如 series(sin(x), x, 0, 5)');
+    }
+
+    const order = this.evaluateAST(orderNode, context);
+    const exactOrder = this.isNumericValue(order) ? this.toExactRational(order) : null;
+    if (!exactOrder || !RationalMath.isInteger(exactOrder)) {
+      throw new CalculationError('series的展开阶数必须是整数');
+    }
+
+    const expansion = this.expandTaylor(
+      body,
+      String(variableNode.value),
+      pointNode,
+      Number(exactOrder.numerator),
+      context.variables
+    );
+    if (!expansion.isExact) {
+      context.isExact = false;
+    }
+    return expansion.polynomial;
+  }
+
+  /**
+   * 将展开变量在 context 中未赋值的 series(f, x, a, n) 调用替换为泰勒多项式，供符号化简和符号结果使用
+   */
+  private expandSeriesCalls(node: ASTNode, context: EvaluationContext): ASTNode {
+    const children = (node.children ?? []).map(child => this.expandSeriesCalls(child, context));
+    const expanded = node.children ? { ...node, children } : node;
+
+    const [, variableNode] = children;
+    const isSeries =
+      node.type === 'function' &&
+      String(node.value).toLowerCase() === 'series' &&
+      !this.userFunctions.has(node.value as string);
+    if (isSeries && variableNode?.type === 'variable' && !context.variables.has(variableNode.value as string)) {
+      return this.taylorPolynomial(expanded, context);
+    }
+    return expanded;
+  }
+
+  /**
+   * 泰勒展开：导数值按弧度在 variables 下精确求值；含未赋值的参数或无法精确求值时保留符号形式，
+   * 符号形式过长时改用数值近似。导数在展开点无定义（可去奇点）时取极限。
+   * isExact 在有系数取了数值近似时为 false
+   */
+  private expandTaylor(
+    body: ASTNode,
+    variable: string,
+    point: ASTNode,
+    order: number,
+    variables: Map<string, Value>
+  ): TaylorExpansion & { isExact: boolean } {
+    let isExact = true;
+    const approximate = (value: Decimal): ASTNode => {
+      isExact = false;
+      return ASTUtils.number(value);
+    };
+
+    const expansion = this.guard(() => {
+      const expanded = ASTUtils.expandFunctions(body, this.userFunctions);
+      return TaylorUtils.expand(expanded, variable, point, order, node => {
+        if (this.hasUnboundVariables(node, variables)) {
+          const folded = this.foldExactConstants(SimplificationUtils.simplify(node), variables);
+          return SimplificationUtils.simplify(folded);
+        }
+
+        const value = this.taylorValue(node, variables);
+        if (RationalMath.isRational(value)) {
+          return value;
+        }
+        const symbolic = SimplificationUtils.simplify(node);
+        return ASTUtils.toString(symbolic).length <= CalculatorService.MAX_SYMBOLIC_COEFFICIENT_LENGTH
+          ? symbolic
+          : approximate(value);
+      }, derivative => {
+        const center = this.taylorValue(point, variables);
+        const result = this.findLimit(derivative, variable, RationalMath.isRational(center)
+          ? RationalMath.toDecimal(center).toNumber()
+          : center.toNumber(), 'both', variables);
+        if (!Number.isFinite(result.value)) {
+          throw new CalculationError('导数在展开点的极限不存在');
+        }
+        return this.exactLimit(result) ?? approximate(new Decimal(result.value));
+      });
+    }, '泰勒展开失败');
+    return { ...expansion, isExact };
+  }
+
+  /**
+   * 按弧度计算不含展开变量的导数值：精确时返回有理数，否则返回近似值；不是实数时抛出 CalculationError
+   *
+   * 无理函数的值只有在舍入误差仅出现在末几位、舍入后为短小数时视为精确值，如 sin(π) = 0、cos(π) = -1。
+   */
+  private taylorValue(node: ASTNode, variables: Map<string, Value>): Rational | Decimal {
+    const context: EvaluationContext = {
+      variables: new Map(variables),
+      angleUnit: AngleUnit.RADIAN,
+      complexMode: false,
+      isExact: true,
+      callDepth: 0,
+    };
+    const value = this.evaluateAST(node, context);
+    const approximation = this.isNumericValue(value) ? this.approximate(value, context) : null;
+    if (!(approximation instanceof Decimal) || !approximation.isFinite()) {
+      throw new CalculationError('导数值不是实数');
+    }
+    if (RationalMath.isRational(value)) {
+      return value;
+    }
+
+    const snapped = approximation.abs().lessThan(CalculatorService.TAYLOR_SNAP_TOLERANCE)
+      ? new Decimal(0)
+      : approximation.toSignificantDigits(12);
+    return snapped.sd() <= 6 ? RationalMath.fromDecimal(snapped) : approximation;
+  }
+
+  /**
+   * 含未赋值参数的导数值：把其中能精确求值的常数子表达式（如 cos(0)）替换为有理数
+   */
+  private foldExactConstants(node: ASTNode, variables: Map<string, Value>): ASTNode {
+    if (this.hasUnboundVariables(node, variables)) {
+      return node.children
+        ? { ...node, children: node.children.map(child => this.foldExactConstants(child, variables)) }
+        : node;
+    }
+    if (node.type === 'number') {
+      return node;
+    }
+    try {
+      const value = this.taylorValue(node, variables);
+      return RationalMath.isRational(value) ? ASTUtils.rational(value) : node;
+    } catch {
+      return node;
+    }
+  }
+
+  private hasUnboundVariables(node: ASTNode, variables: Map<string, Value>): boolean {
+    return [...ASTUtils.freeVariables(node)].some(name => !variables.has(name));
+  }
+
+  /**
+   * 对至少一端为无穷的整数区间求和：下限为 -∞ 时令 k = -j 翻转，两端都是无穷时在 0 处拆开
+   */
+  private sumInfiniteSeries(
+    f: (k: number) => number,
+    lower: number,
+    upper: number,
+    options: SeriesSumOptions = {}
+  ): SeriesResult {
+    const parts: SeriesResult[] = [];
+    if (upper === Infinity) {
+      parts.push(InfiniteSum.evaluate(f, lower === -Infinity ? 0 : lower, options));
+    }
+    if (lower === -Infinity) {
+      parts.push(InfiniteSum.evaluate(j => f(-j), upper === Infinity ? 1 : -upper, options));
+    }
+
+    return parts.reduce((total, part) => ({
+      value: total.value + part.value,
+      error: total.error + part.error,
+      terms: total.terms + part.terms,
+      method: part.method,
+      converged: total.converged && part.converged,
+    }));
+  }
+
+  /**
+   * 对标量参数计算内置函数
+   */
+  private applyFunction(
+    functionName: string,
+    values: ScalarValue[],
+    context: EvaluationContext
+  ): ScalarValue {
+    if (!this.isNumericArguments(values)) {
+      return this.evaluateQuantityFunction(functionName, values, context);
+    }
+
+    // pow(a, b) 与 a^b 相同
+    if (functionName === 'pow') {
+      this.validateArgumentCount('pow', values, 2);
+      return this.applyBinaryOperator('^', values[0] as NumericValue, values[1] as NumericValue, context);
+    }
+
+    const exact = this.evaluateRationalFunction(functionName, values);
+    if (exact) {
+      return exact;
+    }
+
+    // 其余函数（无理函数）在 Decimal 精度下近似计算
+    const args = values.map(value => this.approximate(value, context));
+
+    if (
+      !this.isRealArguments(args) ||
+      (context.complexMode && this.leavesRealDomain(functionName, args))
+    ) {
+      return this.evaluateComplexFunction(functionName, args, context);
+    }
+
+    switch (functionName) {
+      case 'sin':
+      case 'cos':
+      case 'tan':
+        this.validateArgumentCount(functionName, args, 1);
+        return this.trackExactValues(
+          this.evaluateTrigonometric(functionName, args[0], context.angleUnit),
+          context
+        );
+
+      case 'asin':
+        this.validateArgumentCount('asin', args, 1);
+        if (args[0].abs().gt(1)) {
+          throw new CalculationError('asin参数必须在-1到1之间');
+        }
+        return this.trackAngle(this.fromRadians(args[0].asin(), context.angleUnit), context);
+
+      case 'acos':
+        this.validateArgumentCount('acos', args, 1);
+        if (args[0].abs().gt(1)) {
+          throw new CalculationError('acos参数必须在-1到1之间');
+        }
+        return this.trackAngle(this.fromRadians(args[0].acos(), context.angleUnit), context);
+
+      case 'atan':
+        this.validateArgumentCount('atan', args, 1);
+        return this.trackAngle(this.fromRadians(args[0].atan(), context.angleUnit), context);
+
+      case 'ln':
+        this.validateArgumentCount('ln', args, 1);
+        if (args[0].lte(0)) {
+          throw new CalculationError('ln参数必须大于0');
+        }
+        return this.trackRounding(args[0].ln(), context, args[0].eq(1));
+
+      case 'log':
+        this.validateArgumentCount('log', args, 1);
+        if (args[0].lte(0)) {
+          throw new CalculationError('log参数必须大于0');
+        }
+        return this.trackLogarithm(args[0], context);
+
+      case 'sqrt':
+        this.validateArgumentCount('sqrt', args, 1);
+        if (args[0].lt(0)) {
+          throw new CalculationError('sqrt参数不能为负数');
+        }
+        return this.trackSquareRoot(args[0], context);
+
+      case 'abs':
+        this.validateArgumentCount('abs', args, 1);
+        return args[0].abs();
+
+      case 'ceil':
+        this.validateArgumentCount('ceil', args, 1);
+        return args[0].ceil();
+
+      case 'floor':
+        this.validateArgumentCount('floor', args, 1);
+        return args[0].floor();
+
+      case 'round':
+        this.validateArgumentCount('round', args, 1);
+        return args[0].round();
+
+      case 'exp':
+        this.validateArgumentCount('exp', args, 1);
+        return this.trackRounding(args[0].exp(), context, args[0].isZero());
+
+      case 'max':
+        if (args.length < 2) {
+          throw new CalculationError('max函数至少需要2个参数');
+        }
+        return args.reduce((max, current) => current.gt(max) ? current : max);
+
+      case 'min':
+        if (args.length < 2) {
+          throw new CalculationError('min函数至少需要2个参数');
+        }
+        return args.reduce((min, current) => current.lt(min) ? current : min);
+
+      default:
+        throw new CalculationError(`不支持的函数: ${functionName}`);
+    }
+  }
+
+  /**
+   * 区间参数的函数：单调函数取端点处的值，sin/cos 检查区间内的极值点，tan 要求区间内连续，
+   * 端点结果向外扩展一个末位单位
+   */
+  private evaluateIntervalFunction(functionName: string, values: Value[], context: EvaluationContext): Value {
+    const args = values.map(value => this.toInterval(value));
+    const [argument] = args as [Interval];
+    const at = (x: Decimal): Decimal => this.toRealResult(this.applyFunction(functionName, [x], context));
+    // 按线性比例换算为弧度，不做周期约化，保持端点的顺序
+    const toRadians = (): Interval => {
+      const scale = this.toRadians(new Decimal(1), context.angleUnit);
+      return IntervalMath.outward(argument.lower.times(scale), argument.upper.times(scale));
+    };
+
+    return this.guard((): Value => {
+      switch (functionName) {
+        case 'asin':
+        case 'atan':
+        case 'ln':
+        case 'log':
+        case 'sqrt':
+        case 'exp':
+        case 'ceil':
+        case 'floor':
+        case 'round':
+          this.validateArgumentCount(functionName, args, 1);
+          return IntervalMath.outward(at(argument.lower), at(argument.upper));
+
+        case 'acos':
+          this.validateArgumentCount(functionName, args, 1);
+          return IntervalMath.outward(at(argument.upper), at(argument.lower));
+
+        case 'sin':
+          this.validateArgumentCount(functionName, args, 1);
+          return IntervalMath.sin(toRadians());
+
+        case 'cos':
+          this.validateArgumentCount(functionName, args, 1);
+          return IntervalMath.cos(toRadians());
+
+        case 'tan':
+          this.validateArgumentCount(functionName, args, 1);
+          if (IntervalMath.contains(IntervalMath.cos(toRadians()), 0)) {
+            throw new CalculationError('tan在该区间内不连续');
+          }
+          return IntervalMath.outward(at(argument.lower), at(argument.upper));
+
+        case 'abs':
+          this.validateArgumentCount(functionName, args, 1);
+          return IntervalMath.abs(argument);
+
+        case 'pow':
+          this.validateArgumentCount(functionName, args, 2);
+          return IntervalMath.power(argument, args[1] as Interval);
+
+        case 'max':
+        case 'min':
+          if (args.length < 2) {
+            throw new CalculationError(`${functionName}函数至少需要2个参数`);
+          }
+          return functionName === 'max' ? IntervalMath.max(args) : IntervalMath.min(args);
+
+        default:
+          throw new CalculationError(`${functionName}函数不支持区间参数`);
+      }
+    }, '区间运算失败');
+  }
+
+  /**
+   * 计算矩阵函数：行列式、逆矩阵、转置、迹和秩
+   */
+  private evaluateMatrixFunction(functionName: string, values: Value[]): Value {
+    this.validateArgumentCount(functionName, values, 1);
+    const [argument] = values as [Value];
+    if (!MatrixMath.isMatrix(argument)) {
+      throw new CalculationError(`${functionName}函数的参数必须是矩阵`);
+    }
+
+    return this.guard((): Value => {
+      switch (functionName) {
+        case 'det':
+          return MatrixMath.determinant(argument);
+        case 'inv':
+          return MatrixMath.inverse(argument);
+        case 'transpose':
+          return MatrixMath.transpose(argument);
+        case 'trace':
+          return MatrixMath.trace(argument);
+        default:
+          return RationalMath.create(BigInt(MatrixMath.rank(argument)));
+      }
+    }, '矩阵运算失败');
+  }
+
+  /**
+   * 计算统计函数：求和与求积、计数、平均值、中位数、方差与标准差（总体，与 MathUtils.statistics 一致）、
+   * 排序及最值；精确元素的结果保持精确，带单位的元素要求量纲相同
+   */
+  private evaluateListFunction(
+    functionName: string,
+    values: Value[],
+    context: EvaluationContext
+  ): Value {
+    this.validateArgumentCount(functionName, values, 1);
+    // 矩阵参数已在 evaluateFunction 中拒绝
+    const [argument] = values as [ScalarValue | ValueList<ScalarValue>];
+    const elements = ListMath.isList(argument) ? argument.elements : [argument];
+
+    switch (functionName) {
+      case 'count':
+        return RationalMath.create(BigInt(elements.length));
+      case 'sort':
+        return ListMath.create(this.sortValues(functionName, elements, context));
+    }
+
+    const [first] = elements;
+    if (first === undefined) {
+      throw new CalculationError(`${functionName}函数的列表不能为空`);
+    }
+
+    switch (functionName) {
+      case 'sum':
+        return elements.reduce((total, element) => this.combine('+', total, element, context));
+
+      case 'prod':
+        return elements.reduce((total, element) => this.combine('*', total, element, context));
+
+      case 'mean':
+        return this.mean(elements, context);
+
+      case 'median': {
+        const sorted = this.sortValues(functionName, elements, context);
+        const middle = Math.floor(sorted.length / 2);
+        const upper = sorted[middle] as ScalarValue;
+        if (sorted.length % 2 === 1) {
+          return upper;
+        }
+        return this.mean([sorted[middle - 1] as ScalarValue, upper], context);
+      }
+
+      case 'var':
+        return this.variance(functionName, elements, context);
+
+      case 'stdev':
+        return this.applyFunction('sqrt', [this.variance(functionName, elements, context)], context);
+
+      case 'max':
+      case 'min': {
+        const sorted = this.sortValues(functionName, elements, context);
+        return (functionName === 'max' ? sorted[sorted.length - 1] : sorted[0]) as ScalarValue;
+      }
+
+      default:
+        throw new CalculationError(`不支持的函数: ${functionName}`);
+    }
+  }
+
+  /**
+   * 平均值
+   */
+  private mean(elements: ScalarValue[], context: EvaluationContext): ScalarValue {
+    const total = elements.reduce((sum, element) => this.combine('+', sum, element, context));
+    return this.combine('/', total, RationalMath.create(BigInt(elements.length)), context);
+  }
+
+  /**
+   * 总体方差：离差平方的平均值
+   */
+  private variance(functionName: string, elements: ScalarValue[], context: EvaluationContext): ScalarValue {
+    this.requireRealElements(functionName, elements);
+    const mean = this.mean(elements, context);
+    const squares = elements.map(element =>
+      this.combine('^', this.combine('-', element, mean, context), RationalMath.create(2n), context)
+    );
+    return this.mean(squares, context);
+  }
+
+  /**
+   * 从小到大排序，带单位的元素按 SI 数值比较
+   */
+  private sortValues(functionName: string, elements: ScalarValue[], context: EvaluationContext): ScalarValue[] {
+    this.requireRealElements(functionName, elements);
+    return [...elements].sort((a, b) => {
+      const difference = this.combine('-', a, b, context);
+      const magnitude = UnitMath.isQuantity(difference) ? difference.magnitude : difference;
+      if (RationalMath.isRational(magnitude)) {
+        return Number(magnitude.numerator > 0n) - Number(magnitude.numerator < 0n);
+      }
+      return (magnitude as Decimal).comparedTo(0);
+    });
+  }
+
+  /**
+   * 复数没有大小顺序，不能排序或计算中位数、方差
+   */
+  private requireRealElements(functionName: string, elements: ScalarValue[]): void {
+    if (elements.some(element => ComplexMath.isComplex(element))) {
+      throw new CalculationError(`${functionName}函数不支持复数`);
+    }
+  }
+
+  /**
+   * 检查参数是否全部不带单位
+   */
+  private isNumericArguments(values: ScalarValue[]): values is NumericValue[] {
+    return !values.some(value => UnitMath.isQuantity(value));
+  }
+
+  /**
+   * 是否为不带单位的单个数值（不是列表、矩阵、测量值或区间）
+   */
+  private isNumericValue(value: Value): value is NumericValue {
+    return !(
+      UnitMath.isQuantity(value) ||
+      ListMath.isList(value) ||
+      MatrixMath.isMatrix(value) ||
+      UncertaintyMath.isUncertain(value) ||
+      IntervalMath.isInterval(value)
+    );
+  }
+
+  /**
+   * 带单位的参数只支持 abs 和 sqrt，其他函数要求无量纲的参数
+   */
+  private evaluateQuantityFunction(
+    functionName: string,
+    values: ScalarValue[],
+    context: EvaluationContext
+  ): ScalarValue {
+    const [value] = values;
+    if (values.length === 1 && UnitMath.isQuantity(value)) {
+      switch (functionName) {
+        case 'abs':
+          return {
+            ...value,
+            magnitude: RationalMath.isRational(value.magnitude)
+              ? RationalMath.abs(value.magnitude)
+              : value.magnitude.abs(),
+          };
+        case 'sqrt':
+          return this.evaluateQuantityOperation('^', value, RationalMath.create(1n, 2n), context);
+      }
+    }
+
+    throw new CalculationError(`${functionName} 函数的参数必须是无量纲的数`);
+  }
+
+  /**
+   * 不引入无理数的函数对精确参数保持精确：abs、取整和 max/min（pow 按 ^ 计算）
+   */
+  private evaluateRationalFunction(functionName: string, values: NumericValue[]): Rational | null {
+    const args = values.map(value => this.toExactRational(value));
+    if (args.length === 0 || !args.every((arg): arg is Rational => arg !== null)) {
+      return null;
+    }
+
+    const [value] = args as [Rational];
+    const unary = args.length === 1;
+
+    switch (functionName) {
+      case 'abs':
+        return unary ? RationalMath.abs(value) : null;
+      case 'floor':
+        return unary ? RationalMath.floor(value) : null;
+      case 'ceil':
+        return unary ? RationalMath.ceil(value) : null;
+      case 'round':
+        return unary ? RationalMath.round(value) : null;
+      case 'max':
+        return args.length < 2 ? null : args.reduce((max, current) =>
+          RationalMath.compare(current, max) > 0 ? current : max);
+      case 'min':
+        return args.length < 2 ? null : args.reduce((min, current) =>
+          RationalMath.compare(current, min) < 0 ? current : min);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 检查参数是否全部为实数
+   */
+  private isRealArguments(args: ApproximateValue[]): args is Decimal[] {
+    return args.every(arg => arg instanceof Decimal);
+  }
+
+  /**
+   * 判断实数参数是否超出函数的实数定义域（复数模式下改为取复数主值）
+   */
+  private leavesRealDomain(functionName: string, args: Decimal[]): boolean {
+    const [value] = args;
+    if (!value) {
+      return false;
+    }
+
+    switch (functionName) {
+      case 'sqrt':
+      case 'ln':
+      case 'log':
+        return value.isNegative() && !value.isZero();
+      case 'asin':
+      case 'acos':
+        return value.abs().gt(1);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 计算复数函数，多值函数取主值；三角函数的参数和反三角函数的结果按角度单位换算
+   */
+  private evaluateComplexFunction(
+    functionName: string,
+    args: ApproximateValue[],
+    context: EvaluationContext
+  ): ScalarValue {
+    this.validateArgumentCount(functionName, args, 1);
+
+    const z = ComplexMath.from(args[0] as ApproximateValue);
+    const radiansPerUnit = ComplexMath.create(this.toRadians(new Decimal(1), context.angleUnit));
+    let value: ComplexNumber;
+
+    switch (functionName) {
+      case 'sin':
+        value = ComplexMath.sin(ComplexMath.multiply(z, radiansPerUnit));
+        break;
+      case 'cos':
+        value = ComplexMath.cos(ComplexMath.multiply(z, radiansPerUnit));
+        break;
+      case 'tan':
+        value = ComplexMath.tan(ComplexMath.multiply(z, radiansPerUnit));
+        break;
+      case 'asin':
+        value = ComplexMath.divide(ComplexMath.asin(z), radiansPerUnit);
+        break;
+      case 'acos':
+        value = ComplexMath.divide(ComplexMath.acos(z), radiansPerUnit);
+        break;
+      case 'atan':
+        value = ComplexMath.divide(ComplexMath.atan(z), radiansPerUnit);
+        break;
+      case 'ln':
+        value = ComplexMath.ln(z);
+        break;
+      case 'log':
+        value = ComplexMath.log10(z);
+        break;
+      case 'sqrt':
+        value = ComplexMath.sqrt(z);
+        break;
+      case 'exp':
+        value = ComplexMath.exp(z);
+        break;
+      case 'abs':
+        return this.trackSquareRoot(z.real.times(z.real).plus(z.imaginary.times(z.imaginary)), context);
+      default:
+        throw new CalculationError(`${functionName}函数不支持复数参数`);
+    }
+
+    const square = ComplexMath.multiply(value, value);
+    const exact = functionName === 'sqrt' && square.real.eq(z.real) && square.imaginary.eq(z.imaginary);
+    return ComplexMath.simplify(this.trackComplexRounding(value, context, exact));
+  }
+
+  /**
+   * 计算三角函数，15°整数倍的标准角返回精确值
+   */
+  private evaluateTrigonometric(
+    functionName: 'sin' | 'cos' | 'tan',
+    angle: Decimal,
+    angleUnit: AngleUnit
+  ): Decimal {
+    const degrees = this.toStandardDegrees(angle, angleUnit);
+
+    if (degrees !== null) {
+      const sin = this.standardSine(degrees);
+      const cos = this.standardSine((degrees + 90) % 360);
+
+      switch (functionName) {
+        case 'sin':
+          return sin;
+        case 'cos':
+          return cos;
+        case 'tan':
+          if (cos.isZero()) {
+            throw new CalculationError('tan在该角度无定义');
+          }
+          return sin.dividedBy(cos);
+      }
+    }
+
+    // Decimal.js 的三角函数会根据参数大小自动提高内部精度完成π约化
+    const radians = this.toRadians(angle, angleUnit);
+
+    switch (functionName) {
+      case 'sin':
+        return radians.sin();
+      case 'cos':
+        return radians.cos();
+      case 'tan':
+        return radians.tan();
+    }
+  }
+
+  /**
+   * 将角度转换为弧度，角度制和百分度制先在精确的十进制下约化到一个周期内
+   */
+  private toRadians(angle: Decimal, angleUnit: AngleUnit): Decimal {
+    const pi = Decimal.acos(-1);
+
+    switch (angleUnit) {
+      case AngleUnit.DEGREE:
+        return angle.modulo(360).times(pi).dividedBy(180);
+      case AngleUnit.GRADIAN:
+        return angle.modulo(400).times(pi).dividedBy(200);
+      case AngleUnit.RADIAN:
+      default:
+        return angle;
+    }
+  }
+
+  /**
+   * 若角度是15°的整数倍，返回其在[0, 360)内的度数，否则返回null
+   */
+  private toStandardDegrees(angle: Decimal, angleUnit: AngleUnit): number | null {
+    let degrees: Decimal;
+
+    switch (angleUnit) {
+      case AngleUnit.DEGREE:
+        degrees = angle;
+        break;
+      case AngleUnit.GRADIAN:
+        degrees = angle.times(0.9);
+        break;
+      case AngleUnit.RADIAN:
+      default: {
+        // 弧度无法精确表示π的倍数，在浮点误差范围内吸附到最近的标准角；
+        // 参数过大时双精度已无法分辨小数部分，不做吸附
+        const steps = (angle.toNumber() * 12) / Math.PI;
+        const nearest = Math.round(steps);
+        if (Math.abs(steps) > 1e4 || Math.abs(steps - nearest) > 1e-10) {
+          return null;
+        }
+        degrees = new Decimal(nearest).times(15);
+        break;
+      }
+    }
+
+    if (!degrees.modulo(15).isZero()) {
+      return null;
+    }
+
+    const reduced = degrees.modulo(360).toNumber();
+    return reduced < 0 ? reduced + 360 : reduced;
+  }
+
+  /**
+   * 标准角的精确正弦值
+   */
+  private standardSine(degrees: number): Decimal {
+    if (degrees >= 180) {
+      const mirrored = this.standardSine(degrees - 180);
+      return mirrored.isZero() ? mirrored : mirrored.negated();
+    }
+    if (degrees > 90) {
+      return this.standardSine(180 - degrees);
+    }
+
+    const sqrt2 = new Decimal(2).sqrt();
+    const sqrt6 = new Decimal(6).sqrt();
+
+    switch (degrees) {
+      case 0:
+        return new Decimal(0);
+      case 15:
+        return sqrt6.minus(sqrt2).dividedBy(4);
+      case 30:
+        return new Decimal(0.5);
+      case 45:
+        return sqrt2.dividedBy(2);
+      case 60:
+        return new Decimal(3).sqrt().dividedBy(2);
+      case 75:
+        return sqrt6.plus(sqrt2).dividedBy(4);
+      default:
+        return new Decimal(1);
+    }
+  }
+
+  /**
+   * 将反三角函数的弧度结果转换为当前角度单位，标准角吸附为精确值
+   */
+  private fromRadians(radians: Decimal, angleUnit: AngleUnit): Decimal {
+    if (angleUnit === AngleUnit.RADIAN) {
+      return radians;
+    }
+
+    const degrees = radians.times(180).dividedBy(Decimal.acos(-1));
+    const nearest = degrees.dividedBy(15).round().times(15);
+
+    if (degrees.minus(nearest).abs().lt(new Decimal(10).pow(-this.precision))) {
+      return angleUnit === AngleUnit.GRADIAN ? nearest.dividedBy(0.9) : nearest;
+    }
+
+    return angleUnit === AngleUnit.GRADIAN ? degrees.dividedBy(0.9) : degrees;
+  }
+
+  /**
+   * 记录近似计算：超越函数、π、e 和无理次幂的结果一律标记为近似值，
+   * 只有调用方确认结果没有舍入（exact 为 true）时保持精确
+   */
+  private trackRounding(value: Decimal, context: EvaluationContext, exact = false): Decimal {
+    if (!exact) {
+      context.isExact = false;
+    }
+    return value;
+  }
+
+  private trackComplexRounding(value: ComplexNumber, context: EvaluationContext, exact = false): ComplexNumber {
+    if (!exact) {
+      context.isExact = false;
+    }
+    return value;
+  }
+
+  /**
+   * 三角函数值：由 Niven 定理，有理数角度的正弦、余弦只有 0、±1/2、±1 是有理数，正切只有 0、±1，
+   * 因此只有这些值是精确的（标准角已吸附为精确值）
+   */
+  private trackExactValues(value: Decimal, context: EvaluationContext): Decimal {
+    const magnitude = value.abs();
+    return this.trackRounding(value, context, magnitude.isZero() || magnitude.eq(0.5) || magnitude.eq(1));
+  }
+
+  /**
+   * 反三角函数的结果：吸附到 15° 整数倍的标准角是精确的，弧度制下只有 0 是精确的
+   */
+  private trackAngle(value: Decimal, context: EvaluationContext): Decimal {
+    const degrees = value.times(context.angleUnit === AngleUnit.GRADIAN ? 0.9 : 1);
+    const exact = context.angleUnit === AngleUnit.RADIAN ? value.isZero() : degrees.modulo(15).isZero();
+    return this.trackRounding(value, context, exact);
+  }
+
+  /**
+   * 常用对数：只有 10 的整数次幂的对数是精确的
+   */
+  private trackLogarithm(value: Decimal, context: EvaluationContext): Decimal {
+    const result = value.log(10);
+    return this.trackRounding(result, context, result.isInteger() && new Decimal(10).pow(result).eq(value));
+  }
+
+  /**
+   * 平方根：结果的平方等于被开方数时是精确的
+   */
+  private trackSquareRoot(value: Decimal, context: EvaluationContext): Decimal {
+    const root = value.sqrt();
+    return this.trackRounding(root, context, root.times(root).eq(value));
+  }
+
+  /**
+   * 有限小数的非负整数次幂是否不需要舍入：各分量乘以 10^k 化为整数后，
+   * 结果的整数位数不超过 n·log10(Σ|分量|·10^k) + 1，不超过工作精度即可精确表示
+   */
+  private isExactPower(parts: Decimal[], exponent: Decimal): boolean {
+    if (!exponent.isInteger() || exponent.isNegative() || !parts.every(part => part.isFinite())) {
+      return false;
+    }
+    const scale = Math.max(...parts.map(part => part.decimalPlaces()));
+    const magnitude = parts.reduce((sum, part) => sum.plus(part.abs()), new Decimal(0));
+    if (magnitude.isZero() || exponent.isZero()) {
+      return true;
+    }
+    const digits = exponent.toNumber() * (magnitude.log(10).toNumber() + scale) + 1;
+    return digits <= Decimal.precision;
+  }
+
+  private isExactComplexPower(base: ComplexNumber, exponent: ComplexNumber): boolean {
+    return exponent.imaginary.isZero() && this.isExactPower([base.real, base.imaginary], exponent.real);
+  }
+
+  /**
+   * 近似结果能够保证的小数位数（工作精度内的有效数字减去整数部分位数），复数以较大的分量计，
+   * 列表、矩阵和区间取各元素中最少的位数；测量值按不确定度决定显示位数，不受此限制
+   */
+  private guaranteedDecimalPlaces(
+    value: NumericValue | ValueList<NumericValue> | Matrix<Decimal> | Uncertain | Interval,
+    requested: number
+  ): number {
+    if (UncertaintyMath.isUncertain(value)) {
+      return requested;
+    }
+    if (IntervalMath.isInterval(value)) {
+      return Math.min(
+        this.guaranteedDecimalPlaces(value.lower, requested),
+        this.guaranteedDecimalPlaces(value.upper, requested)
+      );
+    }
+    if (ListMath.isList(value)) {
+      return Math.min(requested, ...value.elements.map(element => this.guaranteedDecimalPlaces(element, requested)));
+    }
+    if (MatrixMath.isMatrix(value)) {
+      return Math.min(requested, ...value.data.flat().map(element => this.guaranteedDecimalPlaces(element, requested)));
+    }
+
+    const approximation = RationalMath.isRational(value) ? RationalMath.toDecimal(value) : value;
+    const magnitude = approximation instanceof Decimal
+      ? approximation.abs()
+      : Decimal.max(approximation.real.abs(), approximation.imaginary.abs());
+    if (magnitude.isZero()) {
+      return requested;
+    }
+
+    // 以科学计数法显示的值，可保证的是尾数的小数位数
+    if (magnitude.e > ResultModel.MAX_FIXED_EXPONENT) {
+      return Math.max(1, Math.min(requested, this.precision - 1));
+    }
+
+    const integerDigits = magnitude.e + 1;
+    return Math.max(1, Math.min(requested, this.precision - integerDigits));
+  }
+
+  /**
+   * 计算用户自定义函数：参数在函数体内覆盖同名变量
+   */
+  private evaluateUserFunction(
+    definition: FunctionDefinition,
+    args: Value[],
+    context: EvaluationContext
+  ): Value {
+    this.validateArgumentCount(definition.name, args, definition.parameters.length);
+
+    if (context.callDepth >= CalculatorService.MAX_CALL_DEPTH) {
+      throw new CalculationError(
+        `函数 ${definition.name} 的调用层数超过${CalculatorService.MAX_CALL_DEPTH}层，可能存在无限递归`
+      );
+    }
+
+    const variables = new Map(context.variables);
+    definition.parameters.forEach((parameter, index) => {
+      variables.set(parameter, args[index] as Value);
+    });
+
+    const callContext: EvaluationContext = {
+      ...context,
+      variables,
+      callDepth: context.callDepth + 1,
+    };
+    const value = this.evaluateAST(definition.ast, callContext);
+
+    if (!callContext.isExact) {
+      context.isExact = false;
+    }
+    return value;
+  }
+
+  /**
+   * 验证函数参数数量
+   */
+  private validateArgumentCount(
+    functionName: string,
+    args: unknown[],
+    expectedCount: number
+  ): void {
+    if (args.length !== expectedCount) {
+      throw new CalculationError(
+        `${functionName}函数需要${expectedCount}个参数，但得到${args.length}个`
+      );
+    }
+  }
+
+  /**
+   * 化简为规范形式：常数折叠、合并同类项和同底幂、消去恒等式并按次数排序
+   */
+  public async simplify(expression: Expression): Promise<Expression> {
+    if (!expression.isValid) {
+      throw new CalculationError('无法简化无效表达式', expression);
+    }
+
+    const ast = this.getAST(expression);
+
+    try {
+      // series(...) 按符号参数展开为泰勒多项式后再化简
+      const expanded = this.expandSeriesCalls(ast, {
+        variables: new Map(),
+        angleUnit: this.angleUnit,
+        complexMode: false,
+        isExact: true,
+        callDepth: 0,
+      });
+      const simplified = SimplificationUtils.simplify(expanded);
+      return await this.parseExpression(ASTUtils.toString(simplified), CalculatorType.SCIENTIFIC);
+    } catch (error) {
+      throw new CalculationError(
+        `简化失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        expression
+      );
+    }
+  }
+
+  /**
+   * 求解单变量方程，返回按从小到大排序的实根
+   */
+  public async solve(
+    equation: Expression,
+    variable: string,
+    options: SolveOptions = {}
+  ): Promise<Decimal[]> {
+    const report = await this.solveWithDiagnostics(equation, variable, options);
+    return report.solutions.map(solution => solution.value);
+  }
+
+  /**
+   * 求解方程并返回每个根的重数、收敛情况及诊断信息
+   *
+   * 将方程化为 f(x) = 左边 - 右边 = 0：线性方程直接求精确解，
+   * 其余在扫描范围内查找变号区间并用 Brent 法细化，不变号的切点用牛顿法。
+   */
+  public async solveWithDiagnostics(
+    equation: Expression,
+    variable: string,
+    options: SolveOptions = {}
+  ): Promise<SolveReport> {
+    const ast = this.getAST(equation);
+    if (ast.type !== 'equation' || !ast.children) {
+      throw new UnsupportedOperationError('只能求解方程类型的表达式', 'solve');
+    }
+
+    const [left, right] = ast.children as [ASTNode, ASTNode];
+    const difference = ASTUtils.expandFunctions(ASTUtils.subtract(left, right), this.userFunctions);
+
+    try {
+      const linear = this.solveLinearEquation(difference, variable);
+      if (linear) {
+        return { solutions: [linear], diagnostics: [] };
+      }
+
+      const f = this.createRealFunction(difference, variable);
+      const { roots, diagnostics } = NumericSolver.findRoots(f, options);
+
+      return {
+        solutions: roots.map(root => ({
+          ...root,
+          value: this.snapRoot(f, root.value),
+        })),
+        diagnostics,
+      };
+    } catch (error) {
+      if (error instanceof CalculationError) {
+        throw error;
+      }
+      throw new CalculationError(
+        `求解失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        equation
+      );
+    }
+  }
+
+  /**
+   * 线性方程 ax + b = 0 的精确解；f 不是线性函数时返回 null
+   */
+  private solveLinearEquation(difference: ASTNode, variable: string): Solution | null {
+    let slope: ASTNode;
+    try {
+      slope = DifferentiationUtils.differentiate(difference, variable);
+    } catch {
+      return null;
+    }
+    if (ASTUtils.containsVariable(slope, variable)) {
+      return null;
+    }
+
+    const context = this.createSolveContext(variable, new Decimal(0));
+    const slopeValue = this.evaluateAST(slope, context);
+    const differenceValue = this.evaluateAST(difference, context);
+    if (!this.isNumericValue(slopeValue) || !this.isNumericValue(differenceValue)) {
+      return null;
+    }
+
+    const a = this.approximate(slopeValue, context);
+    const b = this.approximate(differenceValue, context);
+    if (!(a instanceof Decimal) || !(b instanceof Decimal)) {
+      return null;
+    }
+
+    if (a.isZero()) {
+      throw new CalculationError(b.isZero() ? '方程有无穷多解' : '方程无解');
+    }
+
+    return {
+      value: b.negated().dividedBy(a),
+      multiplicity: 1,
+      converged: true,
+      iterations: 0,
+      residual: 0,
+      method: 'exact',
+    };
+  }
+
+  /**
+   * 将 f 包装为双精度实函数，无定义或结果为复数时返回 NaN
+   */
+  private createRealFunction(node: ASTNode, variable: string): (x: number) => number {
+    return (x: number): number => {
+      try {
+        const context = this.createSolveContext(variable, new Decimal(x));
+        const result = this.evaluateAST(node, context);
+        if (!this.isNumericValue(result)) {
+          return NaN;
+        }
+        const value = this.approximate(result, context);
+        return value instanceof Decimal ? value.toNumber() : NaN;
+      } catch {
+        return NaN;
+      }
+    };
+  }
+
+  private createSolveContext(variable: string, value: Decimal): EvaluationContext {
+    return {
+      variables: new Map([...this.variables, [variable, value]]),
+      angleUnit: this.angleUnit,
+      complexMode: false,
+      isExact: true,
+      callDepth: 0,
+    };
   }
 
   /**
-   * 求解方程
+   * 数值根取 12 位有效数字，残差不变大时采用舍入值，使 2 而非 1.9999999999999998 成为结果
    */
-  public async solve(
-    equation: Expression,
-    variable: string
-  ): Promise<Decimal[]> {
-    if (equation.type !== ExpressionType.EQUATION) {
-      throw new UnsupportedOperationError('只能求解方程类型的表达式');
+  private snapRoot(f: (x: number) => number, root: number): Decimal {
+    const rounded = new Decimal(root).toSignificantDigits(12);
+    const residual = Math.abs(f(root));
+    const roundedResidual = Math.abs(f(rounded.toNumber()));
+    return roundedResidual <= residual ? rounded : new Decimal(root);
+  }
+
+  /**
+   * 符号求导：对任意变量求 order 阶导数，结果经过代数化简（三角函数按弧度求导）
+   */
+  public async derivative(
+    expression: Expression,
+    variable: string,
+    order: number = 1
+  ): Promise<Expression> {
+    const ast = this.getSymbolicAST(expression, 'derivative');
+
+    let result: ASTNode;
+    try {
+      result = DifferentiationUtils.differentiate(ast, variable, order, {
+        functions: this.userFunctions,
+      });
+    } catch (error) {
+      throw new UnsupportedOperationError(
+        error instanceof Error ? error.message : '求导失败',
+        'derivative'
+      );
     }
 
-    // 分离等号两边
-    const parts = equation.input.split('=');
-    if (parts.length !== 2) {
-      throw new CalculationError('无效的方程格式');
+    return await this.parseExpression(
+      ASTUtils.toString(SimplificationUtils.simplify(result)),
+      CalculatorType.SCIENTIFIC
+    );
+  }
+
+  /**
+   * 混合偏导数：依次对 variables 中的变量求导
+   */
+  public async partialDerivative(
+    expression: Expression,
+    variables: string[]
+  ): Promise<Expression> {
+    if (variables.length === 0) {
+      throw new CalculationError('至少需要一个求导变量', expression);
     }
 
-    const leftSide = parts[0].trim();
-    const rightSide = parts[1].trim();
+    const ast = this.getSymbolicAST(expression, 'partialDerivative');
 
+    let result: ASTNode;
     try {
-      // 实现基本的线性方程求解
-      return this.solveLinearEquation(leftSide, rightSide, variable);
+      result = DifferentiationUtils.partial(ast, variables, { functions: this.userFunctions });
     } catch (error) {
-      throw new CalculationError(
-        `求解失败: ${error instanceof Error ? error.message : '未知错误'}`,
-        equation
+      throw new UnsupportedOperationError(
+        error instanceof Error ? error.message : '求导失败',
+        'partialDerivative'
       );
     }
+
+    return await this.parseExpression(
+      ASTUtils.toString(SimplificationUtils.simplify(result)),
+      CalculatorType.SCIENTIFIC
+    );
   }
 
   /**
-   * 求解线性方程
+   * 获取表达式的AST，缺少时重新解析
    */
-  private solveLinearEquation(
-    leftSide: string,
-    rightSide: string,
-    variable: string
-  ): Decimal[] {
-    // 简化的线性方程求解实现
-    // 实际项目中需要更复杂的符号计算
+  private getAST(expression: Expression): ASTNode {
+    if (!expression.isValid) {
+      throw new CalculationError(expression.errorMessage || '无法处理无效表达式', expression);
+    }
 
-    // 处理形如 ax + b = c 的方程
-    const pattern = new RegExp(`([-+]?\\d*)\\*?${variable}\\s*([-+]\\s*\\d+)?`);
-    const leftMatch = leftSide.match(pattern);
+    let ast = expression.ast;
+    if (!ast) {
+      const expressionModel = ExpressionModel.fromJSON(expression);
+      expressionModel.parse(this.getParseOptions());
+      ast = expressionModel.ast;
+    }
 
-    if (!leftMatch) {
-      throw new CalculationError('无法解析方程格式');
+    if (!ast) {
+      throw new CalculationError('无法生成抽象语法树', expression);
     }
 
-    const coefficient = leftMatch[1] ? parseFloat(leftMatch[1]) || 1 : 1;
-    const constant = leftMatch[2] ? parseFloat(leftMatch[2].replace(/\s/g, '')) : 0;
-    const rightValue = parseFloat(rightSide);
+    return ast;
+  }
+
+  /**
+   * 获取用于符号运算的AST：缺少AST时重新解析，函数定义取其函数体
+   */
+  private getSymbolicAST(expression: Expression, operation: string): ASTNode {
+    const ast = this.getAST(expression);
 
-    if (isNaN(rightValue)) {
-      throw new CalculationError('等号右边必须是数字');
+    if (ast.type === 'definition' && ast.children) {
+      return ast.children[ast.children.length - 1] as ASTNode;
     }
 
-    if (coefficient === 0) {
-      if (constant === rightValue) {
-        throw new CalculationError('方程有无穷多解');
-      } else {
-        throw new CalculationError('方程无解');
-      }
+    if (ast.type === 'equation' || ast.type === 'assignment') {
+      throw new UnsupportedOperationError('只能对函数表达式进行符号运算', operation);
     }
 
-    // 求解 ax + b = c => x = (c - b) / a
-    const solution = new Decimal(rightValue - constant).dividedBy(coefficient);
-    return [solution];
+    return ast;
   }
 
   /**
-   * 计算导数
+   * 计算积分：给定 bounds 时返回定积分数值，否则返回符号原函数（不含积分常数）
+   *
+   * 定积分的上下限可以是 ±Infinity，未达到 options 中的容差时抛出 CalculationError。
    */
-  public async derivative(
+  public async integrate(
     expression: Expression,
-    variable: string
-  ): Promise<Expression> {
-    if (expression.type !== ExpressionType.FUNCTION) {
-      throw new UnsupportedOperationError('只能对函数表达式求导');
+    variable: string,
+    bounds?: { lower: number; upper: number },
+    options: IntegrateOptions = {}
+  ): Promise<Expression | Decimal> {
+    if (bounds) {
+      const integral = await this.numericalIntegration(expression, variable, bounds, options);
+      if (!integral.converged) {
+        throw new CalculationError(
+          `定积分未收敛（估计误差 ${integral.error.toSignificantDigits(3).toString()}），积分可能发散`,
+          expression
+        );
+      }
+      return integral.value;
+    }
+
+    // 不定积分：基于AST的规则积分
+    const ast = this.getSymbolicAST(expression, 'integrate');
+
+    let result: ASTNode | null;
+    try {
+      result = IntegrationUtils.integrate(ast, variable, { functions: this.userFunctions });
+    } catch (error) {
+      throw new CalculationError(error instanceof Error ? error.message : '积分失败', expression);
     }
 
-    // 基本的导数计算规则实现
-    const derivativeExpression = this.calculateDerivative(expression.input, variable);
+    if (!result) {
+      throw new CalculationError(
+        `未找到 ${expression.input} 关于 ${variable} 的初等原函数，可改为计算定积分的数值结果`,
+        expression
+      );
+    }
 
-    return await this.parseExpression(derivativeExpression, CalculatorType.SCIENTIFIC);
+    return await this.parseExpression(
+      ASTUtils.toString(SimplificationUtils.simplify(result)),
+      CalculatorType.SCIENTIFIC
+    );
   }
 
   /**
-   * 计算基本导数
+   * 自适应 Gauss–Kronrod 数值积分，返回积分值和误差估计
    */
-  private calculateDerivative(input: string, variable: string): string {
-    // 简化的导数计算实现
-    // 实际项目需要完整的符号计算引擎
+  public async numericalIntegration(
+    expression: Expression,
+    variable: string,
+    bounds: { lower: number; upper: number },
+    options: IntegrateOptions = {}
+  ): Promise<NumericalIntegral> {
+    const ast = this.getSymbolicAST(expression, 'integrate');
 
-    // 处理常见的导数规则
-    if (input === variable) {
-      return '1';
+    try {
+      // 无法编译（如含单位或复数）时退回逐点的 Decimal 求值
+      let f: (x: number) => number;
+      try {
+        f = this.compile(expression, [variable]);
+      } catch {
+        f = this.createRealFunction(ast, variable);
+      }
+      const result = Quadrature.integrate(f, bounds.lower, bounds.upper, options);
+      return {
+        value: new Decimal(result.value),
+        error: new Decimal(result.error),
+        evaluations: result.evaluations,
+        converged: result.converged,
+      };
+    } catch (error) {
+      throw new CalculationError(
+        `数值积分失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        expression
+      );
     }
+  }
 
-    if (!input.includes(variable)) {
-      return '0';
-    }
+  /**
+   * 无穷级数 Σ f(k) 的数值和，bounds 至少一端为 ±Infinity；返回和、误差估计及是否收敛
+   */
+  public async infiniteSeries(
+    expression: Expression,
+    variable: string,
+    bounds: { lower: number; upper: number },
+    options: SeriesSumOptions = {}
+  ): Promise<SeriesSum> {
+    const ast = this.getSymbolicAST(expression, 'series');
 
-    // x^n -> n*x^(n-1)
-    const powerPattern = new RegExp(`${variable}\\^(\\d+)`);
-    const powerMatch = input.match(powerPattern);
-    if (powerMatch) {
-      const exponent = parseInt(powerMatch[1]);
-      if (exponent === 1) {
-        return '1';
-      }
-      return `${exponent}*${variable}^${exponent - 1}`;
+    if (!Number.isInteger(bounds.lower) && bounds.lower !== -Infinity) {
+      throw new CalculationError('求和下限必须是整数或 -Infinity', expression);
     }
-
-    // sin(x) -> cos(x)
-    if (input === `sin(${variable})`) {
-      return `cos(${variable})`;
+    if (Number.isFinite(bounds.lower) && Number.isFinite(bounds.upper)) {
+      throw new CalculationError('有限项求和请使用 sum(f, k, a, b)', expression);
     }
 
-    // cos(x) -> -sin(x)
-    if (input === `cos(${variable})`) {
-      return `-sin(${variable})`;
+    try {
+      const f = this.createRealFunction(ast, variable);
+      const result = this.sumInfiniteSeries(f, bounds.lower, bounds.upper, options);
+      return {
+        value: new Decimal(result.value),
+        error: new Decimal(result.error),
+        terms: result.terms,
+        method: result.method,
+        converged: result.converged,
+      };
+    } catch (error) {
+      throw new CalculationError(
+        `级数求和失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        expression
+      );
     }
-
-    throw new UnsupportedOperationError(`暂不支持表达式 ${input} 的导数计算`);
   }
 
   /**
-   * 计算积分
+   * 计算 x 趋于 point 时表达式的极限，point 可以是 ±Infinity；direction 为 left、right 或 both（双侧）
+   *
+   * 优先使用标准极限、洛必达法则和 ∞ 处的主项分析，无法确定时数值外推；三角函数按弧度计算。
    */
-  public async integrate(
+  public async limit(
     expression: Expression,
     variable: string,
-    bounds?: { lower: number; upper: number }
-  ): Promise<Expression | Decimal> {
-    if (expression.type !== ExpressionType.FUNCTION) {
-      throw new UnsupportedOperationError('只能对函数表达式积分');
-    }
+    point: number,
+    direction: LimitDirection = 'both'
+  ): Promise<LimitReport> {
+    const ast = this.getSymbolicAST(expression, 'limit');
 
-    if (bounds) {
-      // 定积分：使用数值积分方法
-      return this.numericalIntegration(expression, variable, bounds);
-    } else {
-      // 不定积分：返回原函数表达式
-      const integralExpression = this.calculateIntegral(expression.input, variable);
-      return await this.parseExpression(integralExpression, CalculatorType.SCIENTIFIC);
+    let result: LimitResult;
+    try {
+      result = this.findLimit(ast, variable, point, direction, this.variables);
+    } catch (error) {
+      throw new CalculationError(error instanceof Error ? error.message : '极限计算失败', expression);
     }
+
+    const toDecimal = (value: number | null): Decimal | null =>
+      value === null || Number.isNaN(value) ? null : new Decimal(value);
+    return {
+      value: toDecimal(result.value),
+      left: toDecimal(result.left),
+      right: toDecimal(result.right),
+      method: result.method,
+      reason: result.reason,
+    };
   }
 
   /**
-   * 数值积分（辛普森规则）
+   * 泰勒展开：expression 在 variable = point 处的 order 阶泰勒多项式，point 为 0 时即麦克劳林展开
+   *
+   * point 可以是数值或 "pi" 这样的表达式；系数能精确求值时为有理数，三角函数按弧度计算。
    */
-  private async numericalIntegration(
+  public async taylorSeries(
     expression: Expression,
     variable: string,
-    bounds: { lower: number; upper: number }
-  ): Promise<Decimal> {
-    const { lower, upper } = bounds;
-    const n = 1000; // 分割数量
-    const h = (upper - lower) / n;
-
-    let sum = new Decimal(0);
-
-    for (let i = 0; i <= n; i++) {
-      const x = lower + i * h;
-      const variables = new Map([[variable, x]]);
-
-      // 创建临时表达式进行计算
-      const tempExpression = { ...expression, variables };
-      const result = await this.evaluate(tempExpression);
-
-      let weight = 1;
-      if (i === 0 || i === n) {
-        weight = 1;
-      } else if (i % 2 === 1) {
-        weight = 4;
-      } else {
-        weight = 2;
-      }
+    point: number | string = 0,
+    order: number = 5
+  ): Promise<TaylorSeries> {
+    const ast = this.getSymbolicAST(expression, 'series');
+    const pointExpression = await this.parseExpression(String(point), CalculatorType.SCIENTIFIC);
 
-      sum = sum.plus(new Decimal(result.value as Decimal).times(weight));
+    let expansion: TaylorExpansion;
+    try {
+      expansion = this.expandTaylor(ast, variable, this.getAST(pointExpression), order, this.variables);
+    } catch (error) {
+      throw new CalculationError(error instanceof Error ? error.message : '泰勒展开失败', expression);
     }
 
-    return sum.times(h / 3);
+    return {
+      polynomial: await this.parseExpression(ASTUtils.toString(expansion.polynomial), CalculatorType.SCIENTIFIC),
+      remainderOrder: expansion.remainderOrder,
+    };
+  }
+
+  /**
+   * 矩阵运算：加、减、乘、转置和求逆，二元运算需要提供 b；结果元素为当前精度下的 Decimal
+   */
+  public async matrixOperation(operation: MatrixOperation, a: Matrix, b?: Matrix): Promise<Matrix> {
+    const result = this.guard((): Matrix<MatrixEntry> => {
+      const left = MatrixMath.create<MatrixEntry>(a.data);
+      if (operation === 'transpose') {
+        return MatrixMath.transpose(left);
+      }
+      if (operation === 'inverse') {
+        return MatrixMath.inverse(left);
+      }
+
+      if (!b) {
+        throw new CalculationError(`矩阵运算 ${operation} 需要两个矩阵`);
+      }
+      const right = MatrixMath.create<MatrixEntry>(b.data);
+      switch (operation) {
+        case 'add':
+          return MatrixMath.add(left, right);
+        case 'subtract':
+          return MatrixMath.subtract(left, right);
+        case 'multiply':
+          return MatrixMath.multiply(left, right);
+        default:
+          throw new UnsupportedOperationError(`不支持的矩阵运算: ${operation}`, operation);
+      }
+    }, '矩阵运算失败');
+
+    return MatrixMath.map(result, entry => (RationalMath.isRational(entry) ? RationalMath.toDecimal(entry) : entry));
   }
 
   /**
-   * 计算基本积分
+   * 程序员模式求值：整数按字长以二进制补码回绕，^ 为按位异或，支持 0x/0b/0o 字面量、
+   * & | ~ << >> >>> 以及 rol/ror 循环移位
    */
-  private calculateIntegral(input: string, variable: string): string {
-    // 简化的积分计算实现
+  public async evaluateProgrammer(input: string, options: ProgrammerOptions = {}): Promise<ProgrammerResult> {
+    const word: WordOptions = { wordSize: options.wordSize ?? 64, signed: options.signed ?? true };
+    if (!ProgrammerMath.isWordSize(word.wordSize)) {
+      throw new CalculationError(`不支持的字长: ${word.wordSize}，可选 ${ProgrammerMath.WORD_SIZES.join('/')}`);
+    }
 
-    if (!input.includes(variable)) {
-      return `${input}*${variable}`;
+    let ast: ASTNode;
+    try {
+      ast = ProgrammerParser.parse(input);
+    } catch (error) {
+      if (error instanceof ProgrammerSyntaxError) {
+        const span = { start: error.position, end: error.position + Math.max(error.length, 1) };
+        throw new ExpressionParseError(error.message, span.start, span);
+      }
+      throw error;
     }
 
-    if (input === variable) {
-      return `${variable}^2/2`;
+    const value = ProgrammerMath.create(this.evaluateWord(ast, word), word);
+    return { value, bases: ProgrammerMath.toBases(value) };
+  }
+
+  /**
+   * 计算程序员模式的AST节点，每一步结果都按字长截断
+   */
+  private evaluateWord(node: ASTNode, word: WordOptions): bigint {
+    const operands = (node.children ?? []).map(child => this.evaluateWord(child, word));
+
+    return this.guard(() => {
+      switch (node.type) {
+        case 'number':
+          return ProgrammerMath.wrap(ProgrammerMath.parseLiteral(node.value as string), word);
+
+        case 'unary':
+          return ProgrammerMath.unary(node.value as string, operands[0] as bigint, word);
+
+        case 'binary':
+          return ProgrammerMath.binary(node.value as string, operands[0] as bigint, operands[1] as bigint, word);
+
+        case 'function': {
+          const name = node.value as string;
+          this.validateArgumentCount(name, operands, 2);
+          const [value, count] = operands as [bigint, bigint];
+          return name === 'rol'
+            ? ProgrammerMath.rotateLeft(value, count, word)
+            : ProgrammerMath.rotateRight(value, count, word);
+        }
+
+        default:
+          throw new CalculationError(`不支持的节点类型: ${node.type}`);
+      }
+    }, '计算错误');
+  }
+
+  /**
+   * 将表达式编译为同步闭包，参数依次对应 variables，供绘图采样等反复求值的场景使用
+   *
+   * float64 模式按双精度计算，定义域外返回 NaN；decimal 模式按当前精度和复数模式计算，
+   * 带单位的结果取其数值，结果不是实数时抛出 CalculationError。会话变量和自定义函数在编译时固定。
+   */
+  public compile(expression: Expression, variables: string[], options?: { mode?: 'float64' }): CompiledFunction;
+  public compile(
+    expression: Expression,
+    variables: string[],
+    options: { mode: 'decimal' }
+  ): (...args: number[]) => Decimal;
+  public compile(
+    expression: Expression,
+    variables: string[],
+    options: { mode?: 'float64' | 'decimal' } = {}
+  ): CompiledFunction | ((...args: number[]) => Decimal) {
+    const ast = this.getSymbolicAST(expression, 'compile');
+    const bound = new Map([
+      ...this.variables,
+      ...Array.from(expression.variables, ([name, value]): [string, ScalarValue] => [
+        name,
+        new Decimal(value),
+      ]),
+    ]);
+    variables.forEach(name => bound.delete(name));
+
+    if (options.mode === 'decimal') {
+      return (...args: number[]): Decimal => {
+        const context: EvaluationContext = {
+          variables: new Map(bound),
+          angleUnit: this.angleUnit,
+          complexMode: this.complexMode,
+          isExact: true,
+          callDepth: 0,
+        };
+        variables.forEach((name, index) => context.variables.set(name, new Decimal(args[index] ?? NaN)));
+
+        let result: Value;
+        try {
+          result = this.evaluateAST(ast, context);
+        } catch (error) {
+          if (error instanceof CalculationError) {
+            throw error;
+          }
+          throw new CalculationError(error instanceof Error ? error.message : '计算错误', expression);
+        }
+
+        // 带单位的量取其在结果单位下的数值，与 evaluate 的输出一致
+        const output = UnitMath.isQuantity(result) ? this.toOutput(result).value : result;
+        const value = this.isNumericValue(output) ? this.approximate(output, context) : null;
+        if (!(value instanceof Decimal)) {
+          throw new CalculationError('编译后的表达式只能计算实数结果', expression);
+        }
+        return value;
+      };
     }
 
-    // x^n -> x^(n+1)/(n+1)
-    const powerPattern = new RegExp(`${variable}\\^(\\d+)`);
-    const powerMatch = input.match(powerPattern);
-    if (powerMatch) {
-      const exponent = parseInt(powerMatch[1]);
-      return `${variable}^${exponent + 1}/${exponent + 1}`;
+    // 只有实数值的会话变量可以作为编译常量，Ans/PreAns 同时提供键盘输入的小写形式
+    const constants = new Map<string, number>();
+    bound.forEach((value, name) => {
+      const number = value instanceof Decimal
+        ? value.toNumber()
+        : RationalMath.isRational(value) ? RationalMath.toDecimal(value).toNumber() : null;
+      if (number !== null) {
+        constants.set(name, number);
+        if (CalculatorService.ANSWER_VARIABLES.includes(name)) {
+          constants.set(name.toLowerCase(), number);
+        }
+      }
+    });
+
+    try {
+      return ExpressionCompiler.compile(ast, variables, {
+        constants,
+        functions: this.userFunctions,
+        angleUnit: this.angleUnit,
+      });
+    } catch (error) {
+      throw new CalculationError(
+        `表达式编译失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        expression
+      );
     }
+  }
 
-    throw new UnsupportedOperationError(`暂不支持表达式 ${input} 的积分计算`);
+  /**
+   * 条件中 variable 与常量比较的边界值（如 x < 2 中的 2），按升序排列；分段函数只可能在这些点处间断
+   */
+  public breakpoints(expression: Expression, variable: string): number[] {
+    const ast = ASTUtils.expandFunctions(this.getSymbolicAST(expression, 'breakpoints'), this.userFunctions);
+    const bound = new Map([
+      ...this.variables,
+      ...Array.from(expression.variables, ([name, value]): [string, ScalarValue] => [
+        name,
+        new Decimal(value),
+      ]),
+    ]);
+
+    const values = new Set<number>();
+    ASTUtils.conditionBoundaries(ast, variable).forEach(boundary => {
+      const context: EvaluationContext = {
+        variables: new Map(bound),
+        angleUnit: this.angleUnit,
+        complexMode: false,
+        isExact: true,
+        callDepth: 0,
+      };
+      try {
+        const result = this.evaluateAST(boundary, context);
+        const value = this.isNumericValue(result) ? this.approximate(result, context) : null;
+        if (value instanceof Decimal && value.isFinite()) {
+          values.add(value.toNumber());
+        }
+      } catch {
+        // 无法求值的边界（如含有其他未定义变量）不作为分段点
+      }
+    });
+    return Array.from(values).sort((a, b) => a - b);
   }
 
   /**
@@ -707,6 +3434,255 @@ export class CalculatorService {
     return this.precision;
   }
 
+  /**
+   * 注册用户自定义函数，表达式须由 parseExpression 解析自 f(x) = ... 形式的输入
+   */
+  public async defineFunction(expression: Expression): Promise<FunctionDefinition> {
+    const ast = expression.ast;
+    if (!expression.isValid || !ast || ast.type !== 'definition' || !ast.children) {
+      throw new UnsupportedOperationError('表达式不是函数定义', 'defineFunction');
+    }
+
+    const name = ast.value as string;
+    if (this.getSupportedFunctions().includes(name.toLowerCase())) {
+      throw new CalculationError(`不能重新定义内置函数: ${name}`, expression);
+    }
+
+    const parameterNodes = ast.children.slice(0, -1);
+    const body = ast.children[ast.children.length - 1] as ASTNode;
+
+    const definition: FunctionDefinition = {
+      name,
+      parameters: parameterNodes.map(parameter => parameter.value as string),
+      body: expression.input.slice(expression.input.indexOf('=') + 1).trim(),
+      ast: body,
+      createdAt: new Date(),
+    };
+
+    this.userFunctions.set(name, definition);
+    return definition;
+  }
+
+  /**
+   * 批量加载已保存的自定义函数（如从 StorageService 读取）
+   */
+  public loadFunctions(definitions: FunctionDefinition[]): void {
+    for (const definition of definitions) {
+      this.userFunctions.set(definition.name, definition);
+    }
+  }
+
+  /**
+   * 删除自定义函数
+   */
+  public removeFunction(name: string): boolean {
+    return this.userFunctions.delete(name);
+  }
+
+  /**
+   * 获取自定义函数
+   */
+  public getUserFunction(name: string): FunctionDefinition | undefined {
+    return this.userFunctions.get(name);
+  }
+
+  /**
+   * 获取全部自定义函数
+   */
+  public getUserFunctions(): FunctionDefinition[] {
+    return Array.from(this.userFunctions.values());
+  }
+
+  /**
+   * 解析选项：让解析器把已注册的自定义函数名识别为函数调用
+   */
+  private getParseOptions(): ParseOptions {
+    return {
+      functions: Array.from(this.userFunctions.keys()),
+      complexMode: this.complexMode,
+    };
+  }
+
+  /**
+   * 设置会话变量
+   */
+  public setVariable(name: string, value: Decimal.Value): void {
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(name)) {
+      throw new Error(`无效的变量名: ${name}`);
+    }
+    this.validateVariableName(name);
+    this.variables.set(name, new Decimal(value));
+  }
+
+  /**
+   * 获取会话变量（包括 Ans 和 PreAns）
+   */
+  public getVariable(name: string): Value | undefined {
+    const value = this.variables.get(name);
+    if (value === undefined) {
+      return value;
+    }
+    if (MatrixMath.isMatrix(value)) {
+      return MatrixMath.map(value, entry => this.toResultValue(entry) as MatrixEntry);
+    }
+    if (UncertaintyMath.isUncertain(value) || IntervalMath.isInterval(value)) {
+      return value;
+    }
+    const output = (element: ScalarValue): ScalarValue =>
+      UnitMath.isQuantity(element) ? element : this.toResultValue(element);
+    return ListMath.isList(value) ? ListMath.create(value.elements.map(output)) : output(value);
+  }
+
+  /**
+   * 删除会话变量
+   */
+  public removeVariable(name: string): boolean {
+    return this.variables.delete(name);
+  }
+
+  /**
+   * 清空会话变量
+   */
+  public clearVariables(): void {
+    this.variables.clear();
+  }
+
+  /**
+   * 导出全部会话变量，数值以字符串保存以保留完整精度，供 StorageService 持久化；
+   * 带单位的量保存为 SI 数值加单位，如 "25/9 km/h"，列表保存为 "{1; 2; 3}"，矩阵保存为 "[[1; 2]; [3; 4]]"，
+   * 测量值保存为 "9.81 ± 0.02"，区间保存为 "[1; 2]"
+   */
+  public getVariables(): Record<string, string> {
+    return Object.fromEntries(
+      Array.from(this.variables, ([name, value]) => [
+        name,
+        MatrixMath.isMatrix(value)
+          ? `[${value.data.map(row => `[${row.map(entry => this.serializeValue(entry)).join('; ')}]`).join('; ')}]`
+          : ListMath.isList(value)
+            ? `{${value.elements.map(element => this.serializeScalar(element)).join('; ')}}`
+            : UncertaintyMath.isUncertain(value)
+              ? `${value.value.toString()} ± ${value.uncertainty.toString()}`
+              : IntervalMath.isInterval(value)
+                ? `[${value.lower.toString()}; ${value.upper.toString()}]`
+                : this.serializeScalar(value),
+      ])
+    );
+  }
+
+  /**
+   * 批量加载已保存的会话变量
+   */
+  public loadVariables(values: Record<string, string>): void {
+    for (const [name, value] of Object.entries(values)) {
+      this.variables.set(name, this.parseVariable(value));
+    }
+  }
+
+  /**
+   * 按 getVariables 的保存格式解析变量值
+   */
+  private parseVariable(text: string): Value {
+    const matrix = /^\[\[(.*)\]\]$/.exec(text);
+    if (matrix) {
+      return MatrixMath.create(
+        (matrix[1] ?? '').split(']; [').map(row => row.split('; ').map(entry => this.parseValue(entry) as MatrixEntry))
+      );
+    }
+
+    const interval = /^\[([^[\];]+); ([^[\];]+)\]$/.exec(text);
+    if (interval) {
+      return IntervalMath.create(interval[1] as string, interval[2] as string);
+    }
+
+    const list = /^\{(.*)\}$/.exec(text);
+    if (list) {
+      return ListMath.create(list[1] ? list[1].split('; ').map(element => this.parseScalar(element)) : []);
+    }
+
+    const uncertain = /^(\S+) ± (\S+)$/.exec(text);
+    if (uncertain) {
+      return UncertaintyMath.create(uncertain[1] as string, uncertain[2] as string);
+    }
+
+    return this.parseScalar(text);
+  }
+
+  private serializeScalar(value: ScalarValue): string {
+    return UnitMath.isQuantity(value)
+      ? `${this.serializeValue(value.magnitude)} ${UnitMath.format(value.unit)}`
+      : this.serializeValue(value);
+  }
+
+  private parseScalar(text: string): ScalarValue {
+    const separator = text.lastIndexOf(' ');
+    const unit = separator > 0 ? UnitMath.parse(text.slice(separator + 1)) : null;
+    const magnitude = unit ? this.parseValue(text.slice(0, separator)) : null;
+    return unit && magnitude && !ComplexMath.isComplex(magnitude)
+      ? { magnitude, dimension: UnitMath.dimensionOf(unit), unit }
+      : this.parseValue(text);
+  }
+
+  private serializeValue(value: NumericValue): string {
+    if (value instanceof Decimal) {
+      return value.toString();
+    }
+    return RationalMath.isRational(value) ? RationalMath.toString(value) : ComplexMath.toString(value);
+  }
+
+  private parseValue(text: string): NumericValue {
+    return RationalMath.parse(text) ?? ComplexMath.parse(text) ?? new Decimal(text);
+  }
+
+  /**
+   * 设置三角函数使用的默认角度单位
+   */
+  public setAngleUnit(angleUnit: AngleUnit): void {
+    if (!Object.values(AngleUnit).includes(angleUnit)) {
+      throw new Error(`无效的角度单位: ${angleUnit}`);
+    }
+
+    this.angleUnit = angleUnit;
+  }
+
+  /**
+   * 获取当前角度单位
+   */
+  public getAngleUnit(): AngleUnit {
+    return this.angleUnit;
+  }
+
+  /**
+   * 开启或关闭复数模式：开启后 i 解析为虚数单位，sqrt(-1) 等返回复数主值
+   */
+  public setComplexMode(enabled: boolean): void {
+    this.complexMode = enabled;
+  }
+
+  /**
+   * 是否处于复数模式
+   */
+  public isComplexMode(): boolean {
+    return this.complexMode;
+  }
+
+  /**
+   * 设置复数结果的默认显示形式
+   */
+  public setComplexFormat(complexFormat: ComplexFormat): void {
+    if (!Object.values(ComplexFormat).includes(complexFormat)) {
+      throw new Error(`无效的复数格式: ${complexFormat}`);
+    }
+
+    this.complexFormat = complexFormat;
+  }
+
+  /**
+   * 获取复数结果的默认显示形式
+   */
+  public getComplexFormat(): ComplexFormat {
+    return this.complexFormat;
+  }
+
   /**
    * 获取支持的函数列表
    */
@@ -714,7 +3690,9 @@ export class CalculatorService {
     return [
       'sin', 'cos', 'tan', 'asin', 'acos', 'atan',
       'ln', 'log', 'sqrt', 'abs', 'ceil', 'floor', 'round',
-      'exp', 'pow', 'max', 'min'
+      'exp', 'pow', 'max', 'min',
+      'sum', 'prod', 'count', 'mean', 'median', 'var', 'stdev', 'sort',
+      'det', 'inv', 'transpose', 'trace', 'rank', 'limit', 'series', 'if', 'piecewise'
     ];
   }
 
@@ -722,7 +3700,7 @@ export class CalculatorService {
    * 获取支持的运算符列表
    */
   public getSupportedOperators(): string[] {
-    return ['+', '-', '*', '/', '^', '**', '%'];
+    return ['+', '-', '*', '/', '^', '**', '%', '<', '<=', '>', '>=', '==', '!=', 'and', 'or', 'not'];
   }
 
   /**
@@ -17,8 +17,10 @@ import {
   SpecialPoint,
   GraphExportOptions,
   FunctionType,
+  EndpointMarker,
 } from '@/types';
 import { GraphModel } from '@/models/Graph';
+import { CompiledFunction } from '@/utils/compiler';
 import { CalculatorService } from './CalculatorService';
 
 // 自定义错误类
@@ -82,6 +84,13 @@ export interface ImplicitOptions {
   tolerance: number;
 }
 
+// 分段采样结果：曲线在 breaks 处断开，endpoints 为分段点处的端点
+interface PiecewisePoints {
+  points: Point3D[];
+  breaks: number[];
+  endpoints: EndpointMarker[];
+}
+
 // 点值信息接口
 export interface PointValue {
   mathCoordinate: Point3D;
@@ -90,6 +99,15 @@ export interface PointValue {
   distance?: number;
 }
 
+// 切线信息接口
+export interface TangentLine {
+  point: Point3D; // 切点
+  slope: number;
+  intercept: number;
+  derivative: string; // 导函数表达式
+  expression: string; // 切线方程 y = kx + b
+}
+
 // 图像导出数据接口
 export interface ImageExportData {
   data: string; // Base64编码的图像数据
@@ -102,8 +120,11 @@ export interface ImageExportData {
 export class GraphRenderer {
   private calculatorService: CalculatorService;
 
-  constructor() {
-    this.calculatorService = new CalculatorService();
+  /**
+   * 可传入共享的计算服务，使自定义函数等状态在解析和渲染之间保持一致
+   */
+  constructor(calculatorService: CalculatorService = new CalculatorService()) {
+    this.calculatorService = calculatorService;
   }
 
   /**
@@ -118,7 +139,13 @@ export class GraphRenderer {
     }
 
     try {
-      const points = await this.generate2DPoints(expression, options);
+      const { xRange } = options;
+      const breakpoints = this.calculatorService
+        .breakpoints(expression, 'x')
+        .filter(x => x > xRange.min && x < xRange.max);
+      const { points, breaks, endpoints } = breakpoints.length > 0
+        ? this.generatePiecewisePoints(expression, breakpoints, options)
+        : { points: this.generate2DPoints(expression, options), breaks: [], endpoints: [] };
 
       const graph = new GraphModel(
         expression.id,
@@ -129,6 +156,8 @@ export class GraphRenderer {
         {
           resolution: options.resolution,
           style: options.style,
+          breaks,
+          endpoints,
         }
       );
 
@@ -145,46 +174,94 @@ export class GraphRenderer {
   }
 
   /**
-   * 生成2D函数点
+   * 生成2D函数点，表达式先编译为双精度闭包再逐点采样
    */
-  private async generate2DPoints(
-    expression: Expression,
-    options: Render2DOptions
-  ): Promise<Point3D[]> {
+  private generate2DPoints(expression: Expression, options: Render2DOptions): Point3D[] {
     const points: Point3D[] = [];
     const { xRange, resolution } = options;
     const step = (xRange.max - xRange.min) / resolution;
+    const f = this.compile(expression, ['x']);
 
     for (let i = 0; i <= resolution; i++) {
       const x = xRange.min + i * step;
+      const y = f(x);
 
-      try {
-        // 设置变量值
-        const variables = new Map(expression.variables);
-        variables.set('x', x);
+      // 跳过定义域外的点（如除零、负数开方等）
+      if (isFinite(y)) {
+        points.push({ x, y, z: 0 });
+      }
+    }
 
-        // 创建临时表达式进行计算
-        const tempExpression = { ...expression, variables };
-        const result = await this.calculatorService.evaluate(tempExpression);
+    if (points.length === 0) {
+      throw new RenderError('无法生成有效的函数点', expression);
+    }
 
-        if (result.value && typeof result.value === 'object' && 'toNumber' in result.value) {
-          const y = (result.value as any).toNumber();
+    return points;
+  }
 
-          if (isFinite(y)) {
-            points.push({ x, y, z: 0 });
-          }
-        }
-      } catch (error) {
-        // 跳过计算错误的点（如除零、定义域外等）
-        continue;
+  /**
+   * 分段函数采样：在每个分段点两侧紧贴处各取一点，左右极限在图上不重合时曲线在此断开，
+   * 并按函数在分段点处的值标出实心（取到）或空心（取不到）的端点
+   */
+  private generatePiecewisePoints(
+    expression: Expression,
+    breakpoints: number[],
+    options: Render2DOptions
+  ): PiecewisePoints {
+    const { xRange, yRange, resolution } = options;
+    const step = (xRange.max - xRange.min) / resolution;
+    const f = this.compile(expression, ['x']);
+    // 分段点两侧采样点的偏移，远小于采样间隔
+    const offset = step * 1e-4;
+    // 两个值之差小于纵轴范围的千分之一时在图上重合
+    const tolerance = (yRange.max - yRange.min) * 1e-3;
+    const near = (a: number, b: number): boolean => isFinite(a) && isFinite(b) && Math.abs(a - b) <= tolerance;
+
+    const xs: number[] = [];
+    for (let i = 0; i <= resolution; i++) {
+      const x = xRange.min + i * step;
+      if (breakpoints.every(c => Math.abs(x - c) > offset)) {
+        xs.push(x);
       }
     }
+    breakpoints.forEach(c => xs.push(c - offset, c + offset));
+    xs.sort((a, b) => a - b);
 
+    const points = xs
+      .map(x => ({ x, y: f(x), z: 0 }))
+      .filter(point => isFinite(point.y));
     if (points.length === 0) {
       throw new RenderError('无法生成有效的函数点', expression);
     }
 
-    return points;
+    const breaks: number[] = [];
+    const endpoints: EndpointMarker[] = [];
+    // 单侧极限：由紧贴分段点的两个采样值线性外推
+    const limit = (c: number, direction: number): number =>
+      2 * f(c + direction * offset) - f(c + 2 * direction * offset);
+    breakpoints.forEach(c => {
+      const left = limit(c, -1);
+      const right = limit(c, 1);
+      const value = f(c);
+      const jump = !near(left, right);
+      if (jump) {
+        breaks.push(c);
+      } else if (near(value, left)) {
+        return;
+      }
+
+      const sides = (jump ? [left, right] : [left]).filter(y => isFinite(y));
+      sides.forEach(y => {
+        const closed = near(value, y);
+        endpoints.push({ position: { x: c, y: closed ? value : y, z: 0 }, closed });
+      });
+      // 函数值与两侧都不重合时单独标出，如可去间断点处另行定义的值
+      if (isFinite(value) && !sides.some(y => near(value, y))) {
+        endpoints.push({ position: { x: c, y: value, z: 0 }, closed: true });
+      }
+    });
+
+    return { points, breaks, endpoints };
   }
 
   /**
@@ -199,7 +276,7 @@ export class GraphRenderer {
     }
 
     try {
-      const points = await this.generate3DPoints(expression, options);
+      const points = this.generate3DPoints(expression, options);
 
       const graph = new GraphModel(
         expression.id,
@@ -228,40 +305,22 @@ export class GraphRenderer {
   /**
    * 生成3D函数点
    */
-  private async generate3DPoints(
-    expression: Expression,
-    options: Render3DOptions
-  ): Promise<Point3D[]> {
+  private generate3DPoints(expression: Expression, options: Render3DOptions): Point3D[] {
     const points: Point3D[] = [];
     const { xRange, yRange, xResolution, yResolution } = options;
     const xStep = (xRange.max - xRange.min) / xResolution;
     const yStep = (yRange.max - yRange.min) / yResolution;
+    const f = this.compile(expression, ['x', 'y']);
 
     for (let i = 0; i <= xResolution; i++) {
       for (let j = 0; j <= yResolution; j++) {
         const x = xRange.min + i * xStep;
         const y = yRange.min + j * yStep;
+        const z = f(x, y);
 
-        try {
-          // 设置变量值
-          const variables = new Map(expression.variables);
-          variables.set('x', x);
-          variables.set('y', y);
-
-          // 创建临时表达式进行计算
-          const tempExpression = { ...expression, variables };
-          const result = await this.calculatorService.evaluate(tempExpression);
-
-          if (result.value && typeof result.value === 'object' && 'toNumber' in result.value) {
-            const z = (result.value as any).toNumber();
-
-            if (isFinite(z)) {
-              points.push({ x, y, z });
-            }
-          }
-        } catch (error) {
-          // 跳过计算错误的点
-          continue;
+        // 跳过定义域外的点
+        if (isFinite(z)) {
+          points.push({ x, y, z });
         }
       }
     }
@@ -289,7 +348,7 @@ export class GraphRenderer {
     const zExpression = expressions.length > 2 ? expressions[2] : null;
 
     try {
-      const points = await this.generateParametricPoints(
+      const points = this.generateParametricPoints(
         xExpression,
         yExpression,
         zExpression,
@@ -323,50 +382,29 @@ export class GraphRenderer {
   /**
    * 生成参数方程点
    */
-  private async generateParametricPoints(
+  private generateParametricPoints(
     xExpression: Expression,
     yExpression: Expression,
     zExpression: Expression | null,
     options: ParametricOptions
-  ): Promise<Point3D[]> {
+  ): Point3D[] {
     const points: Point3D[] = [];
     const { parameterRange, resolution } = options;
     const step = (parameterRange.max - parameterRange.min) / resolution;
+    const fx = this.compile(xExpression, ['t']);
+    const fy = this.compile(yExpression, ['t']);
+    // 没有z表达式时z坐标恒为0
+    const fz = zExpression ? this.compile(zExpression, ['t']) : () => 0;
 
     for (let i = 0; i <= resolution; i++) {
       const t = parameterRange.min + i * step;
+      const x = fx(t);
+      const y = fy(t);
+      const z = fz(t);
 
-      try {
-        // 计算x坐标
-        const xVariables = new Map(xExpression.variables);
-        xVariables.set('t', t);
-        const xTempExpression = { ...xExpression, variables: xVariables };
-        const xResult = await this.calculatorService.evaluate(xTempExpression);
-        const x = (xResult.value as any).toNumber();
-
-        // 计算y坐标
-        const yVariables = new Map(yExpression.variables);
-        yVariables.set('t', t);
-        const yTempExpression = { ...yExpression, variables: yVariables };
-        const yResult = await this.calculatorService.evaluate(yTempExpression);
-        const y = (yResult.value as any).toNumber();
-
-        // 计算z坐标（如果有）
-        let z = 0;
-        if (zExpression) {
-          const zVariables = new Map(zExpression.variables);
-          zVariables.set('t', t);
-          const zTempExpression = { ...zExpression, variables: zVariables };
-          const zResult = await this.calculatorService.evaluate(zTempExpression);
-          z = (zResult.value as any).toNumber();
-        }
-
-        if (isFinite(x) && isFinite(y) && isFinite(z)) {
-          points.push({ x, y, z });
-        }
-      } catch (error) {
-        // 跳过计算错误的点
-        continue;
+      // 跳过任一坐标无定义的点
+      if (isFinite(x) && isFinite(y) && isFinite(z)) {
+        points.push({ x, y, z });
       }
     }
 
@@ -385,7 +423,7 @@ export class GraphRenderer {
     }
 
     try {
-      const points = await this.generatePolarPoints(expression, options);
+      const points = this.generatePolarPoints(expression, options);
 
       const graph = new GraphModel(
         expression.id,
@@ -411,37 +449,22 @@ export class GraphRenderer {
   /**
    * 生成极坐标点
    */
-  private async generatePolarPoints(
-    expression: Expression,
-    options: PolarOptions
-  ): Promise<Point3D[]> {
+  private generatePolarPoints(expression: Expression, options: PolarOptions): Point3D[] {
     const points: Point3D[] = [];
     const { angleRange, resolution, angleUnit } = options;
     const step = (angleRange.max - angleRange.min) / resolution;
+    const f = this.compile(expression, ['theta']);
 
     for (let i = 0; i <= resolution; i++) {
       const theta = angleRange.min + i * step;
       const thetaInRadians = angleUnit === 'degree' ? (theta * Math.PI) / 180 : theta;
+      const r = f(theta);
 
-      try {
-        // 设置角度变量
-        const variables = new Map(expression.variables);
-        variables.set('theta', theta);
-
-        // 创建临时表达式进行计算
-        const tempExpression = { ...expression, variables };
-        const result = await this.calculatorService.evaluate(tempExpression);
-        const r = (result.value as any).toNumber();
-
-        if (isFinite(r) && r >= 0) {
-          // 转换为直角坐标
-          const x = r * Math.cos(thetaInRadians);
-          const y = r * Math.sin(thetaInRadians);
-          points.push({ x, y, z: 0 });
-        }
-      } catch (error) {
-        // 跳过计算错误的点
-        continue;
+      if (isFinite(r) && r >= 0) {
+        // 转换为直角坐标
+        const x = r * Math.cos(thetaInRadians);
+        const y = r * Math.sin(thetaInRadians);
+        points.push({ x, y, z: 0 });
       }
     }
 
@@ -460,7 +483,7 @@ export class GraphRenderer {
     }
 
     try {
-      const points = await this.generateImplicitPoints(expression, options);
+      const points = this.generateImplicitPoints(expression, options);
 
       const graph = new GraphModel(
         expression.id,
@@ -486,14 +509,12 @@ export class GraphRenderer {
   /**
    * 生成隐函数点（使用等值线方法）
    */
-  private async generateImplicitPoints(
-    expression: Expression,
-    options: ImplicitOptions
-  ): Promise<Point3D[]> {
+  private generateImplicitPoints(expression: Expression, options: ImplicitOptions): Point3D[] {
     const points: Point3D[] = [];
     const { xRange, yRange, resolution, contourValue, tolerance } = options;
     const xStep = (xRange.max - xRange.min) / resolution;
     const yStep = (yRange.max - yRange.min) / resolution;
+    const f = this.compile(expression, ['x', 'y']);
 
     // 简化的等值线算法
     for (let i = 0; i < resolution; i++) {
@@ -501,42 +522,19 @@ export class GraphRenderer {
         const x = xRange.min + i * xStep;
         const y = yRange.min + j * yStep;
 
-        try {
-          // 计算四个角点的函数值
-          const corners = [
-            { x, y },
-            { x: x + xStep, y },
-            { x: x + xStep, y: y + yStep },
-            { x, y: y + yStep },
-          ];
-
-          const values = await Promise.all(
-            corners.map(async corner => {
-              const variables = new Map(expression.variables);
-              variables.set('x', corner.x);
-              variables.set('y', corner.y);
-              const tempExpression = { ...expression, variables };
-              const result = await this.calculatorService.evaluate(tempExpression);
-              return (result.value as any).toNumber();
-            })
-          );
-
-          // 检查是否有等值线穿过此网格
-          const hasContour = this.checkContourCrossing(values, contourValue);
-
-          if (hasContour) {
-            // 在网格内查找更精确的等值线点
-            const contourPoints = await this.findContourPoints(
-              expression,
-              corners,
-              contourValue,
-              tolerance
-            );
-            points.push(...contourPoints);
-          }
-        } catch (error) {
-          // 跳过计算错误的网格
-          continue;
+        // 计算四个角点的函数值
+        const corners = [
+          { x, y },
+          { x: x + xStep, y },
+          { x: x + xStep, y: y + yStep },
+          { x, y: y + yStep },
+        ];
+        const values = corners.map(corner => f(corner.x, corner.y));
+
+        // 跳过角点无定义的网格，检查是否有等值线穿过此网格
+        if (values.every(isFinite) && this.checkContourCrossing(values, contourValue)) {
+          // 在网格内查找更精确的等值线点
+          points.push(...this.findContourPoints(f, corners, contourValue, tolerance));
         }
       }
     }
@@ -564,31 +562,21 @@ export class GraphRenderer {
   /**
    * 在网格内查找等值线点
    */
-  private async findContourPoints(
-    expression: Expression,
+  private findContourPoints(
+    f: CompiledFunction,
     corners: Array<{ x: number; y: number }>,
     contourValue: number,
     tolerance: number
-  ): Promise<Point3D[]> {
+  ): Point3D[] {
     const points: Point3D[] = [];
 
     // 简化实现：返回网格中心点
     const centerX = (corners[0].x + corners[2].x) / 2;
     const centerY = (corners[0].y + corners[2].y) / 2;
+    const value = f(centerX, centerY);
 
-    try {
-      const variables = new Map(expression.variables);
-      variables.set('x', centerX);
-      variables.set('y', centerY);
-      const tempExpression = { ...expression, variables };
-      const result = await this.calculatorService.evaluate(tempExpression);
-      const value = (result.value as any).toNumber();
-
-      if (Math.abs(value - contourValue) <= tolerance) {
-        points.push({ x: centerX, y: centerY, z: 0 });
-      }
-    } catch (error) {
-      // 忽略计算错误
+    if (Math.abs(value - contourValue) <= tolerance) {
+      points.push({ x: centerX, y: centerY, z: 0 });
     }
 
     return points;
@@ -642,7 +630,7 @@ export class GraphRenderer {
         },
       };
 
-      const points = await this.generate2DPoints(expression, options);
+      const points = this.generate2DPoints(expression, options);
 
       // 使用GraphModel的特殊点查找功能
       const graph = new GraphModel(
@@ -662,6 +650,67 @@ export class GraphRenderer {
     }
   }
 
+  /**
+   * 计算函数在 x0 处的切线，斜率由符号导数求值得到
+   */
+  public async findTangentLine(expression: Expression, x0: number): Promise<TangentLine> {
+    if (!expression.isValid) {
+      throw new RenderError('无法分析无效表达式', expression);
+    }
+
+    try {
+      const derivative = await this.calculatorService.derivative(expression, 'x');
+      const y0 = this.evaluateAt(expression, x0);
+      const slope = this.evaluateAt(derivative, x0);
+      const intercept = y0 - slope * x0;
+      const sign = intercept < 0 ? '-' : '+';
+
+      return {
+        point: { x: x0, y: y0, z: 0 },
+        slope,
+        intercept,
+        derivative: derivative.input,
+        expression: `${slope}*x ${sign} ${Math.abs(intercept)}`,
+      };
+    } catch (error) {
+      throw new RenderError(
+        `计算切线失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        expression
+      );
+    }
+  }
+
+  /**
+   * 将表达式编译为双精度闭包；无法编译（如含求和、极限、单位或复数常数）时退回逐点的 Decimal 求值，
+   * 没有实数结果的点返回 NaN
+   */
+  private compile(expression: Expression, variables: string[]): CompiledFunction {
+    try {
+      return this.calculatorService.compile(expression, variables);
+    } catch {
+      const f = this.calculatorService.compile(expression, variables, { mode: 'decimal' });
+      return (...args: number[]): number => {
+        try {
+          return f(...args).toNumber();
+        } catch {
+          return NaN;
+        }
+      };
+    }
+  }
+
+  /**
+   * 在给定 x 处求值，结果必须是有限实数
+   */
+  private evaluateAt(expression: Expression, x: number): number {
+    const value = this.compile(expression, ['x'])(x);
+
+    if (!isFinite(value)) {
+      throw new Error(`函数在 x = ${x} 处无定义`);
+    }
+    return value;
+  }
+
   /**
    * 导出图形为图像
    */
@@ -13,6 +13,7 @@ import {
   Graph,
   HistoryQueryOptions,
   CalculatorType,
+  FunctionDefinition,
 } from '@/types';
 import { SettingsModel } from '@/models/Settings';
 
@@ -38,6 +39,8 @@ const STORAGE_KEYS = {
   HISTORY: 'calculator_history',
   SETTINGS: 'calculator_settings',
   GRAPHS: 'calculator_graphs',
+  FUNCTIONS: 'calculator_functions',
+  VARIABLES: 'calculator_variables',
   METADATA: 'calculator_metadata',
 } as const;
 
@@ -154,7 +157,7 @@ export class StorageService {
    */
   private async setItem(key: string, value: any): Promise<boolean> {
     try {
-      const serializedValue = JSON.stringify(value);
+      const serializedValue = JSON.stringify(value, this.serializeBigInt);
       await AsyncStorage.setItem(key, serializedValue);
       this.setCacheItem(key, value);
       await this.updateMetadata();
@@ -167,6 +170,23 @@ export class StorageService {
     }
   }
 
+  /**
+   * JSON 序列化时将 BigInt（精确分数结果的分子分母）保存为字符串
+   */
+  private serializeBigInt(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+
+  /**
+   * JSON 解析时将 serializeBigInt 保存的分子分母字符串还原为 BigInt
+   */
+  private reviveBigInt(key: string, value: unknown): unknown {
+    const isFractionPart = key === 'numerator' || key === 'denominator';
+    return isFractionPart && typeof value === 'string' && /^-?\d+$/.test(value)
+      ? BigInt(value)
+      : value;
+  }
+
   /**
    * 通用获取方法
    */
@@ -183,7 +203,7 @@ export class StorageService {
         return null;
       }
 
-      const parsed = JSON.parse(value);
+      const parsed = JSON.parse(value, this.reviveBigInt);
       this.setCacheItem(key, parsed);
       return parsed;
     } catch (error) {
@@ -514,6 +534,74 @@ export class StorageService {
     return (await this.getItem<Graph[]>(STORAGE_KEYS.GRAPHS)) || [];
   }
 
+  /**
+   * 自定义函数管理
+   */
+  public async saveFunctionDefinition(definition: FunctionDefinition): Promise<boolean> {
+    if (!definition || !definition.name) {
+      throw new StorageError('无效的函数定义');
+    }
+
+    try {
+      const definitions = await this.getFunctionDefinitions();
+      const existingIndex = definitions.findIndex(d => d.name === definition.name);
+
+      if (existingIndex >= 0) {
+        definitions[existingIndex] = definition;
+      } else {
+        definitions.push(definition);
+      }
+
+      return await this.setItem(STORAGE_KEYS.FUNCTIONS, definitions);
+    } catch (error) {
+      throw new StorageError(
+        `保存函数定义失败: ${error instanceof Error ? error.message : '未知错误'}`
+      );
+    }
+  }
+
+  public async getFunctionDefinitions(): Promise<FunctionDefinition[]> {
+    return (await this.getItem<FunctionDefinition[]>(STORAGE_KEYS.FUNCTIONS)) || [];
+  }
+
+  public async deleteFunctionDefinition(name: string): Promise<boolean> {
+    try {
+      const definitions = await this.getFunctionDefinitions();
+      const filteredDefinitions = definitions.filter(d => d.name !== name);
+
+      if (filteredDefinitions.length === definitions.length) {
+        return false; // 没有找到要删除的项
+      }
+
+      return await this.setItem(STORAGE_KEYS.FUNCTIONS, filteredDefinitions);
+    } catch (error) {
+      throw new StorageError(
+        `删除函数定义失败: ${error instanceof Error ? error.message : '未知错误'}`
+      );
+    }
+  }
+
+  /**
+   * 会话变量管理（含 Ans/PreAns），数值以字符串保存以保留完整精度
+   */
+  public async saveVariables(variables: Record<string, string>): Promise<boolean> {
+    if (!variables) {
+      throw new StorageError('无效的变量集合');
+    }
+
+    try {
+      return await this.setItem(STORAGE_KEYS.VARIABLES, variables);
+    } catch (error) {
+      throw new StorageError(
+        `保存变量失败: ${error instanceof Error ? error.message : '未知错误'}`
+      );
+    }
+  }
+
+  public async getVariables(): Promise<Record<string, string>> {
+    return (await this.getItem<Record<string, string>>(STORAGE_KEYS.VARIABLES)) || {};
+  }
+
   /**
    * 数据导出
    */
@@ -657,7 +745,7 @@ export class StorageService {
    */
   private estimateStorageSize(data: any): number {
     try {
-      return JSON.stringify(data).length * 2; // UTF-16编码，每字符2字节
+      return JSON.stringify(data, this.serializeBigInt).length * 2; // UTF-16编码，每字符2字节
     } catch {
       return 0;
     }
@@ -17,6 +17,7 @@ export enum TokenType {
   VARIABLE = 'variable',
   PARENTHESIS = 'parenthesis',
   CONSTANT = 'constant',
+  SEPARATOR = 'separator',
   UNKNOWN = 'unknown',
 }
 
@@ -52,12 +53,44 @@ export interface Expression {
 export interface ValidationRule {
   check: (expression: Expression) => boolean;
   errorMessage: string;
+  locate?: (expression: Expression) => SourceSpan | null; // 出错位置
+}
+
+// 输入中的区间 [start, end)，end 等于 start 时表示插入点
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// 一键修复：将输入中 span 区间替换为 text
+export interface DiagnosticFix {
+  label: string;
+  span: SourceSpan;
+  text: string;
+}
+
+// 带位置的诊断信息，合并了语法分析错误和输入验证结果
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  span: SourceSpan | null;
+  fixes: DiagnosticFix[];
 }
 
 export interface ParseOptions {
   allowVariables?: boolean;
   strictMode?: boolean;
   maxComplexity?: number;
+  functions?: string[];           // 用户自定义函数名，按函数调用解析
+  complexMode?: boolean;          // 复数模式下 i 解析为虚数单位
+}
+
+export interface FunctionDefinition {
+  name: string;
+  parameters: string[];
+  body: string;                   // 函数体的原始输入
+  ast: ASTNode;                   // 函数体的抽象语法树
+  createdAt: Date;
 }
 
 export interface ExpressionState {
@@ -89,9 +89,17 @@ export interface Graph {
   style: GraphStyle | Graph3DStyle;
   viewport: Viewport;
   annotations: Annotation[];
+  breaks?: number[]; // 曲线在这些 x 处断开，如分段函数的跳跃点
+  endpoints?: EndpointMarker[];
   createdAt: Date;
 }
 
+// 分段函数在分段点处的端点：函数取到该点时为实心点，否则为空心点
+export interface EndpointMarker {
+  position: Point3D;
+  closed: boolean;
+}
+
 export interface SpecialPoint {
   type: 'maximum' | 'minimum' | 'zero' | 'discontinuity' | 'inflection';
   position: Point3D;
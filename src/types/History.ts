@@ -55,7 +55,7 @@ export interface HistoryStatistics {
 }
 
 export interface HistoryExportOptions {
-  format: 'json' | 'csv' | 'txt';
+  format: 'json' | 'csv' | 'txt' | 'latex' | 'mathml';
   includeResults?: boolean;
   includeMetadata?: boolean;
   dateRange?: {
@@ -5,26 +5,61 @@
  */
 
 import { Decimal } from 'decimal.js';
+import { AngleUnit, ComplexFormat } from './Settings';
+import { EndpointMarker } from './Graph';
 
 export enum ResultFormat {
   DECIMAL = 'decimal',            // 十进制
   SCIENTIFIC = 'scientific',     // 科学计数法
   FRACTION = 'fraction',         // 分数形式
+  MIXED_NUMBER = 'mixed',        // 带分数形式
   PERCENTAGE = 'percentage',     // 百分比
   BINARY = 'binary',             // 二进制
   HEXADECIMAL = 'hexadecimal',   // 十六进制
+  RECTANGULAR = 'rectangular',   // 复数直角坐标形式
+  POLAR = 'polar',               // 复数极坐标形式
 }
 
-export interface Matrix {
+export interface ComplexNumber {
+  real: Decimal;
+  imaginary: Decimal;
+}
+
+// 精确有理数，numerator/denominator 互质且分母为正
+export interface Rational {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+// 列表，如 {1, 2, 3}，运算按元素进行
+export interface ValueList<T = Decimal | Rational | ComplexNumber> {
+  elements: T[];
+}
+
+export interface Matrix<T = Decimal> {
   rows: number;
   cols: number;
-  data: Decimal[][];
+  data: T[][];
+}
+
+// 带测量不确定度的值，如 9.81 ± 0.02，uncertainty 为标准不确定度
+export interface Uncertain {
+  value: Decimal;
+  uncertainty: Decimal;
+}
+
+// 闭区间 [lower, upper]，运算结果严格包含所有可能取值
+export interface Interval {
+  lower: Decimal;
+  upper: Decimal;
 }
 
 export interface Graph {
   id: string;
   points: Point[];
   metadata: GraphMetadata;
+  breaks?: number[]; // 曲线在这些 x 处断开，如分段函数的跳跃点
+  endpoints?: EndpointMarker[];
 }
 
 export interface Point {
@@ -45,7 +80,16 @@ export interface Range {
   max: number;
 }
 
-export type ResultValue = Decimal | Matrix | Graph | null;
+export type ResultValue =
+  | Decimal
+  | Rational
+  | ComplexNumber
+  | Uncertain
+  | Interval
+  | ValueList
+  | Matrix
+  | Graph
+  | null;
 
 export interface Result {
   id: string;
@@ -65,6 +109,9 @@ export interface FormatOptions {
   notation?: 'fixed' | 'exponential' | 'engineering';
   unit?: string;
   locale?: string;
+  angleUnit?: AngleUnit;          // 三角函数的角度单位，默认使用服务设置
+  complexMode?: boolean;          // 允许复数运算，默认使用服务设置
+  complexFormat?: ComplexFormat;  // 复数结果的显示形式
 }
 
 export interface ValidationConstraints {
@@ -17,6 +17,11 @@ export enum NumberFormat {
   ENGINEERING = 'engineering',   // 工程记数法
 }
 
+export enum ComplexFormat {
+  RECTANGULAR = 'rectangular',   // 直角坐标形式 a + bi
+  POLAR = 'polar',               // 极坐标形式 r∠θ
+}
+
 export enum Theme {
   LIGHT = 'light',
   DARK = 'dark',
@@ -28,6 +33,8 @@ export interface Settings {
   angleUnit: AngleUnit;
   numberFormat: NumberFormat;
   precision: number;
+  complexMode: boolean;
+  complexFormat: ComplexFormat;
   theme: Theme;
   language: string;
   maxHistoryItems: number;
@@ -54,6 +61,8 @@ export interface SettingsDefaults {
   angleUnit: AngleUnit;
   numberFormat: NumberFormat;
   precision: number;
+  complexMode: boolean;
+  complexFormat: ComplexFormat;
   theme: Theme;
   language: string;
   maxHistoryItems: number;
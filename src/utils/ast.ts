@@ -0,0 +1,759 @@
+/**
+ * AST Utilities
+ *
+ * 抽象语法树的构造、比较、输出和代数化简，供符号计算（求导、积分等）共用
+ */
+
+import { Decimal } from 'decimal.js';
+import { ASTNode, FunctionDefinition, Rational } from '@/types';
+
+// 运算符优先级，与 ExpressionModel 的解析器保持一致
+const PRECEDENCE = {
+  or: 0,
+  and: 1,
+  not: 2,
+  comparison: 3,
+  conversion: 4,
+  uncertainty: 5,
+  additive: 6,
+  multiplicative: 7,
+  unary: 8,
+  power: 9,
+  atom: 10,
+} as const;
+
+// 带约束变量的函数及其参数个数：sum(expr, k, a, b)、prod(expr, k, a, b) 和 limit(expr, x, a)，
+// 第二个参数为约束变量，只在 expr 内有效
+const BINDING_FUNCTIONS: Record<string, number> = { sum: 4, prod: 4, limit: 3 };
+
+export class ASTUtils {
+  // 比较运算符，结果为 1 或 0
+  public static readonly COMPARISON_OPERATORS = ['<', '<=', '>', '>=', '==', '!='];
+  // 二元逻辑运算符，not 为一元运算符
+  public static readonly LOGICAL_OPERATORS = ['and', 'or'];
+
+  // 整数幂折叠为常数的最大指数，避免产生过长的数字
+  private static readonly MAX_FOLDED_EXPONENT = 64;
+  // 展开自定义函数的最大嵌套层数，防止递归定义无限展开
+  private static readonly MAX_EXPANSION_DEPTH = 64;
+
+  /**
+   * 数字节点，超过双精度有效位数的值以字符串保存
+   */
+  public static number(value: Decimal.Value): ASTNode {
+    const decimal = new Decimal(value);
+    return {
+      type: 'number',
+      value: decimal.sd() > 15 ? decimal.toString() : decimal.toNumber(),
+    };
+  }
+
+  /**
+   * 有理数节点：整数为数字节点，否则为分数 p/q，负数在外层取负
+   */
+  public static rational(r: Rational): ASTNode {
+    const negative = r.numerator < 0n;
+    const numerator = ASTUtils.number((negative ? -r.numerator : r.numerator).toString());
+    const node = r.denominator === 1n
+      ? numerator
+      : ASTUtils.divide(numerator, ASTUtils.number(r.denominator.toString()));
+    return negative ? ASTUtils.negate(node) : node;
+  }
+
+  /**
+   * 变量节点
+   */
+  public static variable(name: string): ASTNode {
+    return { type: 'variable', value: name };
+  }
+
+  /**
+   * 常数节点（π、e）
+   */
+  public static constant(name: string): ASTNode {
+    return { type: 'constant', value: name };
+  }
+
+  /**
+   * 二元运算节点
+   */
+  public static binary(operator: string, left: ASTNode, right: ASTNode): ASTNode {
+    return { type: 'binary', value: operator, children: [left, right] };
+  }
+
+  /**
+   * 一元运算节点
+   */
+  public static unary(operator: string, operand: ASTNode): ASTNode {
+    return { type: 'unary', value: operator, children: [operand] };
+  }
+
+  /**
+   * 函数调用节点
+   */
+  public static call(name: string, ...args: ASTNode[]): ASTNode {
+    return { type: 'function', value: name, children: args };
+  }
+
+  public static add(left: ASTNode, right: ASTNode): ASTNode {
+    return ASTUtils.binary('+', left, right);
+  }
+
+  public static subtract(left: ASTNode, right: ASTNode): ASTNode {
+    return ASTUtils.binary('-', left, right);
+  }
+
+  public static multiply(left: ASTNode, right: ASTNode): ASTNode {
+    return ASTUtils.binary('*', left, right);
+  }
+
+  public static divide(left: ASTNode, right: ASTNode): ASTNode {
+    return ASTUtils.binary('/', left, right);
+  }
+
+  public static power(base: ASTNode, exponent: ASTNode): ASTNode {
+    return ASTUtils.binary('^', base, exponent);
+  }
+
+  public static negate(operand: ASTNode): ASTNode {
+    return ASTUtils.unary('-', operand);
+  }
+
+  /**
+   * 获取数字节点的值，非数字节点返回 null
+   */
+  public static numericValue(node: ASTNode): Decimal | null {
+    return node.type === 'number' ? new Decimal(node.value as Decimal.Value) : null;
+  }
+
+  /**
+   * 判断是否为等于指定值的数字节点
+   */
+  public static isNumber(node: ASTNode, value?: Decimal.Value): boolean {
+    const numeric = ASTUtils.numericValue(node);
+    return numeric !== null && (value === undefined || numeric.equals(value));
+  }
+
+  /**
+   * 判断子树中是否出现指定的自由变量，求和、求积与极限的约束变量不计
+   */
+  public static containsVariable(node: ASTNode, name: string): boolean {
+    if (node.type === 'variable' && node.value === name) {
+      return true;
+    }
+    const children = ASTUtils.boundVariable(node) === name ? (node.children ?? []).slice(2) : node.children ?? [];
+    return children.some(child => ASTUtils.containsVariable(child, name));
+  }
+
+  /**
+   * 子树中出现的全部自由变量名，求和、求积与极限的约束变量不计
+   */
+  public static freeVariables(node: ASTNode): Set<string> {
+    if (node.type === 'variable') {
+      return new Set([String(node.value)]);
+    }
+    const bound = ASTUtils.boundVariable(node);
+    const names = new Set<string>();
+    (node.children ?? []).forEach((child, index) => {
+      if (bound !== null && index === 1) {
+        return;
+      }
+      ASTUtils.freeVariables(child).forEach(name => {
+        if (!(index === 0 && name === bound)) {
+          names.add(name);
+        }
+      });
+    });
+    return names;
+  }
+
+  /**
+   * 条件表达式 if(c, a, b) 与 piecewise((c₁, v₁), …, 默认值) 的各段：[条件, 值]，默认值的条件为 null
+   */
+  public static pieces(node: ASTNode): Array<[ASTNode | null, ASTNode]> {
+    const children = node.children ?? [];
+    const pieces: Array<[ASTNode | null, ASTNode]> = [];
+    for (let i = 0; i < children.length; i += 2) {
+      const value = children[i + 1];
+      pieces.push(value ? [children[i] as ASTNode, value] : [null, children[i] as ASTNode]);
+    }
+    return pieces;
+  }
+
+  /**
+   * 形如 variable < c、c >= variable 的比较中 c 的表达式（c 不含 variable），即分段函数可能的分段点
+   */
+  public static conditionBoundaries(node: ASTNode, variable: string): ASTNode[] {
+    const boundaries = (node.children ?? []).flatMap(child => ASTUtils.conditionBoundaries(child, variable));
+    if (node.type !== 'binary' || !ASTUtils.COMPARISON_OPERATORS.includes(String(node.value))) {
+      return boundaries;
+    }
+
+    const [left, right] = node.children as [ASTNode, ASTNode];
+    const isVariable = (side: ASTNode): boolean => side.type === 'variable' && side.value === variable;
+    if (isVariable(left) && !ASTUtils.containsVariable(right, variable)) {
+      boundaries.push(right);
+    } else if (isVariable(right) && !ASTUtils.containsVariable(left, variable)) {
+      boundaries.push(left);
+    }
+    return boundaries;
+  }
+
+  /**
+   * 求和、求积与极限 sum(expr, k, a, b)、prod(expr, k, a, b)、limit(expr, x, a) 的约束变量名，其他节点返回 null
+   */
+  public static boundVariable(node: ASTNode): string | null {
+    const [, index] = node.children ?? [];
+    return node.type === 'function' &&
+      node.children?.length === BINDING_FUNCTIONS[String(node.value).toLowerCase()] &&
+      index?.type === 'variable'
+      ? String(index.value)
+      : null;
+  }
+
+  /**
+   * 结构相等比较（忽略位置信息）
+   */
+  public static equals(a: ASTNode, b: ASTNode): boolean {
+    if (a.type !== b.type) {
+      return false;
+    }
+
+    if (a.type === 'number') {
+      return new Decimal(a.value as Decimal.Value).equals(b.value as Decimal.Value);
+    }
+
+    const childrenA = a.children ?? [];
+    const childrenB = b.children ?? [];
+    return (
+      a.value === b.value &&
+      childrenA.length === childrenB.length &&
+      childrenA.every((child, index) => ASTUtils.equals(child, childrenB[index] as ASTNode))
+    );
+  }
+
+  /**
+   * 将变量替换为给定的子树
+   */
+  public static substitute(node: ASTNode, replacements: Map<string, ASTNode>): ASTNode {
+    if (node.type === 'variable') {
+      return replacements.get(node.value as string) ?? node;
+    }
+    if (!node.children) {
+      return node;
+    }
+
+    // 约束变量在求和式和极限内遮蔽同名的替换，上下限和趋近点仍按外层替换
+    const bound = ASTUtils.boundVariable(node);
+    if (bound && replacements.has(bound)) {
+      const [body, index, ...rest] = node.children as ASTNode[];
+      const inner = new Map(replacements);
+      inner.delete(bound);
+      return {
+        ...node,
+        children: [
+          ASTUtils.substitute(body as ASTNode, inner),
+          index as ASTNode,
+          ...rest.map(child => ASTUtils.substitute(child, replacements)),
+        ],
+      };
+    }
+    return {
+      ...node,
+      children: node.children.map(child => ASTUtils.substitute(child, replacements)),
+    };
+  }
+
+  /**
+   * 展开用户自定义函数调用：用实参替换函数体中的形参
+   */
+  public static expandFunctions(
+    node: ASTNode,
+    functions: Map<string, FunctionDefinition> = new Map(),
+    depth: number = 0
+  ): ASTNode {
+    if (!node.children) {
+      return node;
+    }
+    if (depth > ASTUtils.MAX_EXPANSION_DEPTH) {
+      throw new Error('自定义函数嵌套过深，可能存在递归定义');
+    }
+
+    const children = node.children.map(child => ASTUtils.expandFunctions(child, functions, depth));
+    const definition = node.type === 'function' ? functions.get(node.value as string) : undefined;
+
+    if (!definition) {
+      return { ...node, children };
+    }
+
+    if (children.length !== definition.parameters.length) {
+      throw new Error(
+        `${definition.name}函数需要${definition.parameters.length}个参数，但得到${children.length}个`
+      );
+    }
+    const replacements = new Map(
+      definition.parameters.map((parameter, index) => [parameter, children[index] as ASTNode])
+    );
+    return ASTUtils.expandFunctions(
+      ASTUtils.substitute(definition.ast, replacements),
+      functions,
+      depth + 1
+    );
+  }
+
+  /**
+   * 输出为可被 ExpressionModel 重新解析的中缀表达式，只在必要处加括号
+   */
+  public static toString(node: ASTNode): string {
+    const children = node.children ?? [];
+
+    switch (node.type) {
+      case 'number':
+        return new Decimal(node.value as Decimal.Value).toString();
+
+      case 'constant':
+      case 'variable':
+        return String(node.value);
+
+      case 'function':
+        if (String(node.value).toLowerCase() === 'piecewise') {
+          return `${String(node.value)}(${ASTUtils.pieces(node)
+            .map(([condition, value]) =>
+              condition ? `(${ASTUtils.toString(condition)}, ${ASTUtils.toString(value)})` : ASTUtils.toString(value)
+            )
+            .join(', ')})`;
+        }
+        return `${String(node.value)}(${children.map(child => ASTUtils.toString(child)).join(', ')})`;
+
+      case 'list':
+        return `{${children.map(child => ASTUtils.toString(child)).join(', ')}}`;
+
+      case 'interval':
+        return `[${children.map(child => ASTUtils.toString(child)).join(', ')}]`;
+
+      case 'matrix':
+        return `[${children
+          .map(row => `[${(row.children ?? []).map(child => ASTUtils.toString(child)).join(', ')}]`)
+          .join(', ')}]`;
+
+      case 'unary': {
+        const [operand] = children as [ASTNode];
+        if (node.value === 'not') {
+          return `not ${ASTUtils.wrap(operand, ASTUtils.precedence(operand) < PRECEDENCE.not)}`;
+        }
+        return `${String(node.value)}${ASTUtils.wrap(operand, ASTUtils.precedence(operand) <= PRECEDENCE.unary)}`;
+      }
+
+      case 'binary': {
+        const [left, right] = children as [ASTNode, ASTNode];
+        const operator = String(node.value);
+        const precedence = ASTUtils.precedence(node);
+        const leftPrecedence = ASTUtils.precedence(left);
+        const rightPrecedence = ASTUtils.precedence(right);
+
+        if (operator === '^') {
+          // 右结合：底数同级也要加括号，指数可以直接是一元负号
+          return `${ASTUtils.wrap(left, leftPrecedence <= precedence)}^${ASTUtils.wrap(
+            right,
+            rightPrecedence < precedence && rightPrecedence !== PRECEDENCE.unary
+          )}`;
+        }
+
+        // 减法、除法、取余和比较的右操作数同级时需要括号；加减号后不能紧跟负号
+        const comparison = precedence === PRECEDENCE.comparison;
+        const wrapRight =
+          rightPrecedence < precedence ||
+          (rightPrecedence === precedence && (operator === '-' || operator === '/' || operator === '%' || comparison)) ||
+          (precedence === PRECEDENCE.additive && rightPrecedence === PRECEDENCE.unary);
+        const separator = precedence <= PRECEDENCE.additive ? ` ${operator} ` : operator;
+
+        return `${ASTUtils.wrap(left, leftPrecedence < precedence || (comparison && leftPrecedence === precedence))}${separator}${ASTUtils.wrap(right, wrapRight)}`;
+      }
+
+      case 'equation':
+        return `${ASTUtils.toString(children[0] as ASTNode)} = ${ASTUtils.toString(children[1] as ASTNode)}`;
+
+      case 'assignment':
+        return `${String(node.value)} := ${ASTUtils.toString(children[0] as ASTNode)}`;
+
+      case 'conversion':
+        return `${ASTUtils.toString(children[0] as ASTNode)} ${String(node.value)} ${ASTUtils.toString(children[1] as ASTNode)}`;
+
+      case 'definition': {
+        const parameters = children.slice(0, -1).map(child => String(child.value));
+        const body = children[children.length - 1] as ASTNode;
+        return `${String(node.value)}(${parameters.join(', ')}) = ${ASTUtils.toString(body)}`;
+      }
+
+      default:
+        throw new Error(`无法输出节点类型: ${node.type}`);
+    }
+  }
+
+  /**
+   * 代数化简：常数折叠、恒等式消去、负号整理和数字系数合并，自底向上进行
+   */
+  public static simplify(node: ASTNode): ASTNode {
+    if (!node.children) {
+      return node;
+    }
+
+    const children = node.children.map(child => ASTUtils.simplify(child));
+
+    switch (node.type) {
+      case 'unary':
+        return ASTUtils.simplifyUnary(String(node.value), children[0] as ASTNode);
+      case 'binary':
+        return ASTUtils.simplifyBinary(
+          String(node.value),
+          children[0] as ASTNode,
+          children[1] as ASTNode
+        );
+      default:
+        return { ...node, children };
+    }
+  }
+
+  /**
+   * 化简一元运算
+   */
+  private static simplifyUnary(operator: string, operand: ASTNode): ASTNode {
+    if (operator === '+') {
+      return operand;
+    }
+    if (operator !== '-') {
+      return ASTUtils.unary(operator, operand);
+    }
+
+    const numeric = ASTUtils.numericValue(operand);
+    if (numeric) {
+      return ASTUtils.number(numeric.negated());
+    }
+
+    // --a = a
+    if (operand.type === 'unary' && operand.value === '-') {
+      return (operand.children as [ASTNode])[0];
+    }
+
+    // -(c*a) = (-c)*a
+    if (operand.type === 'binary' && operand.value === '*') {
+      const [left, right] = operand.children as [ASTNode, ASTNode];
+      const coefficient = ASTUtils.numericValue(left);
+      if (coefficient) {
+        return ASTUtils.simplifyBinary('*', ASTUtils.number(coefficient.negated()), right);
+      }
+    }
+
+    // -(a - b) = b - a
+    if (operand.type === 'binary' && operand.value === '-') {
+      const [left, right] = operand.children as [ASTNode, ASTNode];
+      return ASTUtils.subtract(right, left);
+    }
+
+    return ASTUtils.negate(operand);
+  }
+
+  /**
+   * 化简二元运算
+   */
+  private static simplifyBinary(operator: string, left: ASTNode, right: ASTNode): ASTNode {
+    const leftValue = ASTUtils.numericValue(left);
+    const rightValue = ASTUtils.numericValue(right);
+
+    if (leftValue && rightValue) {
+      const folded = ASTUtils.foldConstants(operator, leftValue, rightValue);
+      if (folded) {
+        return ASTUtils.number(folded);
+      }
+    }
+
+    switch (operator) {
+      case '+':
+        return ASTUtils.simplifySum(left, right);
+      case '-':
+        return ASTUtils.simplifyDifference(left, right);
+      case '*':
+        return ASTUtils.simplifyProduct(left, right);
+      case '/':
+        return ASTUtils.simplifyQuotient(left, right);
+      case '^':
+      case '**':
+        return ASTUtils.simplifyPower(left, right);
+      default:
+        return ASTUtils.binary(operator, left, right);
+    }
+  }
+
+  private static simplifySum(left: ASTNode, right: ASTNode): ASTNode {
+    if (ASTUtils.isNumber(left, 0)) return right;
+    if (ASTUtils.isNumber(right, 0)) return left;
+
+    // a + (-b) = a - b
+    const negatedRight = ASTUtils.negatedForm(right);
+    if (negatedRight) {
+      return ASTUtils.simplifyDifference(left, negatedRight);
+    }
+
+    // (-a) + b = b - a
+    const negatedLeft = ASTUtils.negatedForm(left);
+    if (negatedLeft) {
+      return ASTUtils.simplifyDifference(right, negatedLeft);
+    }
+
+    // 常数项移到末尾：c + a = a + c
+    if (ASTUtils.isNumber(left) && !ASTUtils.isNumber(right)) {
+      return ASTUtils.add(right, left);
+    }
+
+    return ASTUtils.add(left, right);
+  }
+
+  private static simplifyDifference(left: ASTNode, right: ASTNode): ASTNode {
+    if (ASTUtils.isNumber(right, 0)) return left;
+    if (ASTUtils.isNumber(left, 0)) return ASTUtils.simplifyUnary('-', right);
+    if (ASTUtils.equals(left, right)) return ASTUtils.number(0);
+
+    // a - (-b) = a + b
+    const negatedRight = ASTUtils.negatedForm(right);
+    if (negatedRight) {
+      return ASTUtils.simplifySum(left, negatedRight);
+    }
+
+    return ASTUtils.subtract(left, right);
+  }
+
+  private static simplifyProduct(left: ASTNode, right: ASTNode): ASTNode {
+    if (ASTUtils.isNumber(left, 0) || ASTUtils.isNumber(right, 0)) return ASTUtils.number(0);
+    if (ASTUtils.isNumber(left, 1)) return right;
+    if (ASTUtils.isNumber(right, 1)) return left;
+    if (ASTUtils.isNumber(left, -1)) return ASTUtils.simplifyUnary('-', right);
+    if (ASTUtils.isNumber(right, -1)) return ASTUtils.simplifyUnary('-', left);
+
+    // 负号提到乘积外：(-a)*b = -(a*b)
+    const negatedLeft = left.type === 'unary' && left.value === '-';
+    const negatedRight = right.type === 'unary' && right.value === '-';
+    if (negatedLeft || negatedRight) {
+      const product = ASTUtils.simplifyProduct(
+        negatedLeft ? (left.children as [ASTNode])[0] : left,
+        negatedRight ? (right.children as [ASTNode])[0] : right
+      );
+      return negatedLeft && negatedRight ? product : ASTUtils.simplifyUnary('-', product);
+    }
+
+    // 数字系数合并并前置：a*c = c*a，c1*(c2*a) = (c1·c2)*a
+    const [leftCoefficient, leftRest] = ASTUtils.splitCoefficient(left);
+    const [rightCoefficient, rightRest] = ASTUtils.splitCoefficient(right);
+    if (leftCoefficient && rightCoefficient) {
+      const coefficient = leftCoefficient.times(rightCoefficient);
+      const rest = leftRest && rightRest
+        ? ASTUtils.simplifyProduct(leftRest, rightRest)
+        : leftRest ?? rightRest;
+      return rest ? ASTUtils.simplifyProduct(ASTUtils.number(coefficient), rest) : ASTUtils.number(coefficient);
+    }
+    if (rightCoefficient && !ASTUtils.isNumber(left)) {
+      return ASTUtils.simplifyProduct(
+        ASTUtils.number(rightCoefficient),
+        rightRest ? ASTUtils.simplifyProduct(left, rightRest) : left
+      );
+    }
+    if (leftCoefficient && leftRest && !ASTUtils.isNumber(right)) {
+      return ASTUtils.multiply(ASTUtils.number(leftCoefficient), ASTUtils.simplifyProduct(leftRest, right));
+    }
+
+    // 商并入分子：a*(b/c) = (a*b)/c，(a/b)*c = (a*c)/b
+    if (right.type === 'binary' && right.value === '/') {
+      const [numerator, denominator] = right.children as [ASTNode, ASTNode];
+      return ASTUtils.simplifyQuotient(ASTUtils.simplifyProduct(left, numerator), denominator);
+    }
+    if (left.type === 'binary' && left.value === '/') {
+      const [numerator, denominator] = left.children as [ASTNode, ASTNode];
+      return ASTUtils.simplifyQuotient(ASTUtils.simplifyProduct(numerator, right), denominator);
+    }
+
+    // a*a = a^2
+    if (ASTUtils.equals(left, right)) {
+      return ASTUtils.power(left, ASTUtils.number(2));
+    }
+
+    return ASTUtils.multiply(left, right);
+  }
+
+  private static simplifyQuotient(left: ASTNode, right: ASTNode): ASTNode {
+    if (ASTUtils.isNumber(right, 1)) return left;
+    if (ASTUtils.isNumber(left, 0) && !ASTUtils.isNumber(right, 0)) return ASTUtils.number(0);
+    if (ASTUtils.equals(left, right) && !ASTUtils.isNumber(right, 0)) return ASTUtils.number(1);
+
+    const negatedLeft = left.type === 'unary' && left.value === '-';
+    if (negatedLeft) {
+      return ASTUtils.simplifyUnary(
+        '-',
+        ASTUtils.simplifyQuotient((left.children as [ASTNode])[0], right)
+      );
+    }
+
+    // 整数系数约分：(6*a)/4 = (3*a)/2
+    const [coefficient, rest] = ASTUtils.splitCoefficient(left);
+    const divisor = ASTUtils.numericValue(right);
+    if (coefficient && rest && divisor && coefficient.isInteger() && divisor.isInteger() && !divisor.isZero()) {
+      let [a, b] = [coefficient.abs(), divisor.abs()];
+      while (!b.isZero()) {
+        [a, b] = [b, a.modulo(b)];
+      }
+      if (a.gt(1)) {
+        return ASTUtils.simplifyQuotient(
+          ASTUtils.simplifyProduct(ASTUtils.number(coefficient.dividedBy(a)), rest),
+          ASTUtils.number(divisor.dividedBy(a))
+        );
+      }
+    }
+
+    return ASTUtils.divide(left, right);
+  }
+
+  private static simplifyPower(base: ASTNode, exponent: ASTNode): ASTNode {
+    if (ASTUtils.isNumber(exponent, 0)) return ASTUtils.number(1);
+    if (ASTUtils.isNumber(exponent, 1)) return base;
+    if (ASTUtils.isNumber(base, 1)) return ASTUtils.number(1);
+
+    // (a^m)^n = a^(m·n)，仅在指数均为整数时成立
+    if (base.type === 'binary' && (base.value === '^' || base.value === '**')) {
+      const [innerBase, innerExponent] = base.children as [ASTNode, ASTNode];
+      const m = ASTUtils.numericValue(innerExponent);
+      const n = ASTUtils.numericValue(exponent);
+      if (m && n && m.isInteger() && n.isInteger()) {
+        return ASTUtils.simplifyPower(innerBase, ASTUtils.number(m.times(n)));
+      }
+    }
+
+    // (c*a)^n = c^n * a^n，系数的幂可以精确折叠时展开
+    const n = ASTUtils.numericValue(exponent);
+    const [coefficient, rest] = ASTUtils.splitCoefficient(base);
+    if (n && coefficient && rest) {
+      const folded = ASTUtils.foldConstants('^', coefficient, n);
+      if (folded) {
+        return ASTUtils.simplifyProduct(ASTUtils.number(folded), ASTUtils.simplifyPower(rest, exponent));
+      }
+    }
+
+    return ASTUtils.power(base, exponent);
+  }
+
+  /**
+   * 折叠两个数字的运算，只保留精确结果（如 1/3 保持为分式）
+   */
+  private static foldConstants(operator: string, left: Decimal, right: Decimal): Decimal | null {
+    switch (operator) {
+      case '+':
+        return left.plus(right);
+      case '-':
+        return left.minus(right);
+      case '*':
+        return left.times(right);
+      case '/':
+        if (right.isZero() || !left.isInteger() || !right.isInteger()) return null;
+        return left.modulo(right).isZero() ? left.dividedBy(right) : null;
+      case '^':
+      case '**':
+        if (
+          !right.isInteger() ||
+          right.isNegative() ||
+          right.gt(ASTUtils.MAX_FOLDED_EXPONENT) ||
+          (left.isZero() && right.isZero())
+        ) {
+          return null;
+        }
+        return left.pow(right);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 若节点为负值形式（一元负号或负数），返回其相反数，否则返回 null
+   */
+  private static negatedForm(node: ASTNode): ASTNode | null {
+    if (node.type === 'unary' && node.value === '-') {
+      return (node.children as [ASTNode])[0];
+    }
+
+    const numeric = ASTUtils.numericValue(node);
+    if (numeric && numeric.isNegative() && !numeric.isZero()) {
+      return ASTUtils.number(numeric.negated());
+    }
+
+    if (node.type === 'binary' && node.value === '*') {
+      const [coefficient, rest] = ASTUtils.splitCoefficient(node);
+      if (coefficient && rest && coefficient.isNegative()) {
+        return ASTUtils.simplifyProduct(ASTUtils.number(coefficient.negated()), rest);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 拆出乘积的数字系数：c → [c, null]，c*a → [c, a]，其他 → [null, node]
+   */
+  private static splitCoefficient(node: ASTNode): [Decimal | null, ASTNode | null] {
+    const numeric = ASTUtils.numericValue(node);
+    if (numeric) {
+      return [numeric, null];
+    }
+
+    if (node.type === 'binary' && node.value === '*') {
+      const [left, right] = node.children as [ASTNode, ASTNode];
+      const coefficient = ASTUtils.numericValue(left);
+      if (coefficient) {
+        return [coefficient, right];
+      }
+    }
+
+    return [null, node];
+  }
+
+  /**
+   * 节点在中缀表达式中的优先级，负数视同一元负号
+   */
+  private static precedence(node: ASTNode): number {
+    switch (node.type) {
+      case 'binary':
+        if (ASTUtils.COMPARISON_OPERATORS.includes(String(node.value))) {
+          return PRECEDENCE.comparison;
+        }
+        switch (node.value) {
+          case 'or':
+            return PRECEDENCE.or;
+          case 'and':
+            return PRECEDENCE.and;
+          case '±':
+            return PRECEDENCE.uncertainty;
+          case '+':
+          case '-':
+            return PRECEDENCE.additive;
+          case '^':
+          case '**':
+            return PRECEDENCE.power;
+          default:
+            return PRECEDENCE.multiplicative;
+        }
+      case 'unary':
+        return node.value === 'not' ? PRECEDENCE.not : PRECEDENCE.unary;
+      case 'conversion':
+        return PRECEDENCE.conversion;
+      case 'number':
+        return new Decimal(node.value as Decimal.Value).isNegative()
+          ? PRECEDENCE.unary
+          : PRECEDENCE.atom;
+      default:
+        return PRECEDENCE.atom;
+    }
+  }
+
+  /**
+   * 按需加括号
+   */
+  private static wrap(node: ASTNode, parenthesize: boolean): string {
+    const text = ASTUtils.toString(node);
+    return parenthesize ? `(${text})` : text;
+  }
+}
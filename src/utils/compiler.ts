@@ -0,0 +1,321 @@
+/**
+ * Expression Compiler
+ *
+ * 将AST编译为同步的双精度闭包，供绘图采样、数值积分等需要反复求值的场景使用；
+ * 定义域外的值得到 NaN 或 ±Infinity 而不是抛出异常
+ */
+
+import { ASTNode, AngleUnit, FunctionDefinition } from '@/types';
+
+// 编译结果，参数顺序与编译时给出的变量名一致
+export type CompiledFunction = (...args: number[]) => number;
+
+export interface CompileEnvironment {
+  constants: ReadonlyMap<string, number>; // 编译时确定的变量值，如会话变量
+  functions: ReadonlyMap<string, FunctionDefinition>; // 自定义函数，编译时内联
+  angleUnit: AngleUnit;
+}
+
+// 编译后的节点：从参数数组求值
+type Evaluator = (args: readonly number[]) => number;
+
+export class ExpressionCompiler {
+  // 自定义函数内联的最大嵌套层数，与 CalculatorService 的调用层数限制一致
+  private static readonly MAX_INLINE_DEPTH = 64;
+  // 负数底的非整数指数按分母不超过此值的分数识别，如 0.333… 识别为 1/3
+  private static readonly MAX_ROOT_DENOMINATOR = 999;
+
+  /**
+   * 编译AST，parameters 中的变量名依次对应闭包的参数
+   */
+  public static compile(
+    ast: ASTNode,
+    parameters: string[],
+    environment: CompileEnvironment
+  ): CompiledFunction {
+    const scope = new Map<string, Evaluator>(
+      parameters.map((name, index): [string, Evaluator] => [name, args => args[index] as number])
+    );
+    const evaluator = ExpressionCompiler.compileNode(ast, scope, environment, 0);
+    return (...args: number[]) => evaluator(args);
+  }
+
+  private static compileNode(
+    node: ASTNode,
+    scope: ReadonlyMap<string, Evaluator>,
+    environment: CompileEnvironment,
+    depth: number
+  ): Evaluator {
+    const children = (node.children ?? []).map(child =>
+      ExpressionCompiler.compileNode(child, scope, environment, depth)
+    );
+
+    switch (node.type) {
+      case 'number': {
+        const value = Number(node.value);
+        return () => value;
+      }
+
+      case 'constant':
+        return ExpressionCompiler.compileConstant(node.value as string);
+
+      case 'variable': {
+        const name = node.value as string;
+        const bound = scope.get(name);
+        if (bound) {
+          return bound;
+        }
+        const value = environment.constants.get(name);
+        if (value === undefined) {
+          throw new Error(`未定义的变量: ${name}`);
+        }
+        return () => value;
+      }
+
+      case 'binary':
+        return ExpressionCompiler.compileBinary(node.value as string, children);
+
+      case 'unary': {
+        const [operand] = children as [Evaluator];
+        if (node.value === 'not') {
+          return args => ExpressionCompiler.truth(operand(args), value => !value);
+        }
+        return node.value === '-' ? args => -operand(args) : operand;
+      }
+
+      case 'function': {
+        const definition = environment.functions.get(node.value as string);
+        if (definition) {
+          return ExpressionCompiler.inlineFunction(definition, children, scope, environment, depth);
+        }
+        return ExpressionCompiler.compileFunction(
+          (node.value as string).toLowerCase(),
+          children,
+          environment.angleUnit
+        );
+      }
+
+      default:
+        throw new Error(`无法编译 ${node.type} 节点`);
+    }
+  }
+
+  private static compileConstant(name: string): Evaluator {
+    switch (name) {
+      case 'π':
+      case 'pi':
+        return () => Math.PI;
+      case 'e':
+        return () => Math.E;
+      default:
+        throw new Error(`编译模式不支持常数: ${name}`);
+    }
+  }
+
+  private static compileBinary(operator: string, children: Evaluator[]): Evaluator {
+    const [left, right] = children as [Evaluator, Evaluator];
+
+    switch (operator) {
+      case '+':
+        return args => left(args) + right(args);
+      case '-':
+        return args => left(args) - right(args);
+      case '*':
+        return args => left(args) * right(args);
+      case '/':
+        return args => left(args) / right(args);
+      case '^':
+      case '**':
+        return args => ExpressionCompiler.power(left(args), right(args));
+      case '%':
+        // 与 Decimal 的 ROUND_DOWN 取余一致：余数与被除数同号
+        return args => left(args) % right(args);
+      case '<':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a < b);
+      case '<=':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a <= b);
+      case '>':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a > b);
+      case '>=':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a >= b);
+      case '==':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a === b);
+      case '!=':
+        return args => ExpressionCompiler.compare(left(args), right(args), (a, b) => a !== b);
+      // 与 CalculatorService 一致：左侧已能确定结果时不再计算右侧
+      case 'and':
+        return args => ExpressionCompiler.logical(left(args), false, () => right(args));
+      case 'or':
+        return args => ExpressionCompiler.logical(left(args), true, () => right(args));
+      default:
+        throw new Error(`不支持的运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 与 CalculatorService 的实数运算一致：负数的奇数分母分数次幂取实根，如 (-8)^(1/3) = -2、(-8)^(2/3) = 4；
+   * 偶数分母或无法识别为分数的指数得到 NaN
+   */
+  private static power(base: number, exponent: number): number {
+    if (base >= 0 || Number.isInteger(exponent) || !Number.isFinite(exponent)) {
+      return Math.pow(base, exponent);
+    }
+    for (let denominator = 3; denominator <= ExpressionCompiler.MAX_ROOT_DENOMINATOR; denominator += 2) {
+      const numerator = Math.round(exponent * denominator);
+      if (Math.abs(exponent * denominator - numerator) < 1e-9) {
+        const magnitude = Math.pow(-base, exponent);
+        return numerator % 2 === 0 ? magnitude : -magnitude;
+      }
+    }
+    return NaN;
+  }
+
+  /**
+   * 比较结果为 1 或 0，任一侧为 NaN（定义域外）时结果也是 NaN
+   */
+  private static compare(left: number, right: number, test: (a: number, b: number) => boolean): number {
+    return Number.isNaN(left) || Number.isNaN(right) ? NaN : Number(test(left, right));
+  }
+
+  /**
+   * 按真值（非零为真）变换后输出 1 或 0，NaN 保持不变
+   */
+  private static truth(value: number, transform: (truth: boolean) => boolean): number {
+    return Number.isNaN(value) ? NaN : Number(transform(value !== 0));
+  }
+
+  /**
+   * and（shortCircuit 为 false）与 or（shortCircuit 为 true）：左侧的真值等于 shortCircuit 时直接作为结果
+   */
+  private static logical(left: number, shortCircuit: boolean, right: () => number): number {
+    if (Number.isNaN(left)) {
+      return NaN;
+    }
+    return left !== 0 === shortCircuit ? Number(shortCircuit) : ExpressionCompiler.truth(right(), Boolean);
+  }
+
+  /**
+   * 自定义函数在编译时展开：函数体中的参数直接绑定到实参的编译结果
+   */
+  private static inlineFunction(
+    definition: FunctionDefinition,
+    args: Evaluator[],
+    scope: ReadonlyMap<string, Evaluator>,
+    environment: CompileEnvironment,
+    depth: number
+  ): Evaluator {
+    if (args.length !== definition.parameters.length) {
+      throw new Error(`${definition.name}函数需要${definition.parameters.length}个参数`);
+    }
+    if (depth >= ExpressionCompiler.MAX_INLINE_DEPTH) {
+      throw new Error(
+        `函数 ${definition.name} 的调用层数超过${ExpressionCompiler.MAX_INLINE_DEPTH}层，可能存在无限递归`
+      );
+    }
+
+    const bodyScope = new Map(scope);
+    definition.parameters.forEach((parameter, index) => {
+      bodyScope.set(parameter, args[index] as Evaluator);
+    });
+    return ExpressionCompiler.compileNode(definition.ast, bodyScope, environment, depth + 1);
+  }
+
+  private static compileFunction(name: string, args: Evaluator[], angleUnit: AngleUnit): Evaluator {
+    const arity = (count: number): void => {
+      if (args.length !== count) {
+        throw new Error(`${name}函数需要${count}个参数`);
+      }
+    };
+    const [x, y] = args as [Evaluator, Evaluator];
+    const toRadians = angleUnit === AngleUnit.DEGREE
+      ? Math.PI / 180
+      : angleUnit === AngleUnit.GRADIAN ? Math.PI / 200 : 1;
+
+    switch (name) {
+      case 'sin':
+        arity(1);
+        return a => Math.sin(x(a) * toRadians);
+      case 'cos':
+        arity(1);
+        return a => Math.cos(x(a) * toRadians);
+      case 'tan':
+        arity(1);
+        return a => Math.tan(x(a) * toRadians);
+      case 'asin':
+        arity(1);
+        return a => Math.asin(x(a)) / toRadians;
+      case 'acos':
+        arity(1);
+        return a => Math.acos(x(a)) / toRadians;
+      case 'atan':
+        arity(1);
+        return a => Math.atan(x(a)) / toRadians;
+      case 'ln':
+        arity(1);
+        return a => Math.log(x(a));
+      case 'log':
+        arity(1);
+        return a => Math.log10(x(a));
+      case 'sqrt':
+        arity(1);
+        return a => Math.sqrt(x(a));
+      case 'abs':
+        arity(1);
+        return a => Math.abs(x(a));
+      case 'ceil':
+        arity(1);
+        return a => Math.ceil(x(a));
+      case 'floor':
+        arity(1);
+        return a => Math.floor(x(a));
+      case 'round':
+        arity(1);
+        // 与 Decimal.ROUND_HALF_UP 一致：恰好一半时远离零
+        return a => {
+          const value = x(a);
+          return Math.sign(value) * Math.round(Math.abs(value));
+        };
+      case 'exp':
+        arity(1);
+        return a => Math.exp(x(a));
+      case 'pow':
+        arity(2);
+        return a => ExpressionCompiler.power(x(a), y(a));
+      case 'if':
+      case 'piecewise': {
+        if (name === 'if') {
+          arity(3);
+        }
+        // children 依次为各段的条件和值，个数为奇数时最后一项是无条件的默认值；
+        // 条件为 NaN 或没有满足的段时结果为 NaN
+        return a => {
+          for (let i = 0; i < args.length; i += 2) {
+            const condition = args[i] as Evaluator;
+            const value = args[i + 1];
+            if (!value) {
+              return condition(a);
+            }
+            const truth = condition(a);
+            if (Number.isNaN(truth)) {
+              return NaN;
+            }
+            if (truth !== 0) {
+              return value(a);
+            }
+          }
+          return NaN;
+        };
+      }
+      case 'max':
+      case 'min': {
+        if (args.length < 2) {
+          throw new Error(`${name}函数至少需要2个参数`);
+        }
+        const pick = name === 'max' ? Math.max : Math.min;
+        return a => pick(...args.map(arg => arg(a)));
+      }
+      default:
+        throw new Error(`不支持的函数: ${name}`);
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Complex Utilities
+ *
+ * 基于 Decimal.js 的复数运算，多值函数均取主值分支
+ */
+
+import { Decimal } from 'decimal.js';
+import { ComplexNumber } from '@/types';
+
+export class ComplexMath {
+  // 整数次幂使用逐次平方，超过该范围改用 exp(w·ln z)
+  private static readonly MAX_INTEGER_EXPONENT = 1024;
+  // toString 的输出格式，如 3+4i、-1.5e-20-2i
+  private static readonly SERIALIZED_PATTERN =
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([+-])((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)i$/;
+
+  /**
+   * 创建复数
+   */
+  public static create(real: Decimal.Value, imaginary: Decimal.Value = 0): ComplexNumber {
+    return { real: new Decimal(real), imaginary: new Decimal(imaginary) };
+  }
+
+  /**
+   * 将实数或复数统一转换为复数
+   */
+  public static from(value: Decimal | ComplexNumber): ComplexNumber {
+    return value instanceof Decimal ? ComplexMath.create(value) : value;
+  }
+
+  /**
+   * 类型守卫：检查是否为复数
+   */
+  public static isComplex(value: unknown): value is ComplexNumber {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      'real' in value &&
+      'imaginary' in value
+    );
+  }
+
+  /**
+   * 虚部为零时化简为实数
+   */
+  public static simplify(z: ComplexNumber): Decimal | ComplexNumber {
+    return z.imaginary.isZero() ? ComplexMath.normalizeZero(z.real) : z;
+  }
+
+  /**
+   * 加法
+   */
+  public static add(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+    return { real: a.real.plus(b.real), imaginary: a.imaginary.plus(b.imaginary) };
+  }
+
+  /**
+   * 减法
+   */
+  public static subtract(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+    return { real: a.real.minus(b.real), imaginary: a.imaginary.minus(b.imaginary) };
+  }
+
+  /**
+   * 乘法
+   */
+  public static multiply(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+    return {
+      real: a.real.times(b.real).minus(a.imaginary.times(b.imaginary)),
+      imaginary: a.real.times(b.imaginary).plus(a.imaginary.times(b.real)),
+    };
+  }
+
+  /**
+   * 除法
+   */
+  public static divide(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+    const denominator = b.real.pow(2).plus(b.imaginary.pow(2));
+    if (denominator.isZero()) {
+      throw new Error('除零错误');
+    }
+
+    return {
+      real: a.real.times(b.real).plus(a.imaginary.times(b.imaginary)).dividedBy(denominator),
+      imaginary: a.imaginary.times(b.real).minus(a.real.times(b.imaginary)).dividedBy(denominator),
+    };
+  }
+
+  /**
+   * 取负
+   */
+  public static negate(z: ComplexNumber): ComplexNumber {
+    return { real: z.real.negated(), imaginary: z.imaginary.negated() };
+  }
+
+  /**
+   * 共轭
+   */
+  public static conjugate(z: ComplexNumber): ComplexNumber {
+    return { real: z.real, imaginary: z.imaginary.negated() };
+  }
+
+  /**
+   * 模长
+   */
+  public static magnitude(z: ComplexNumber): Decimal {
+    if (z.imaginary.isZero()) return z.real.abs();
+    if (z.real.isZero()) return z.imaginary.abs();
+    return z.real.pow(2).plus(z.imaginary.pow(2)).sqrt();
+  }
+
+  /**
+   * 幅角主值，范围 (-π, π]
+   */
+  public static argument(z: ComplexNumber): Decimal {
+    if (z.real.isZero() && z.imaginary.isZero()) {
+      throw new Error('零的幅角无定义');
+    }
+    return Decimal.atan2(ComplexMath.normalizeZero(z.imaginary), z.real);
+  }
+
+  /**
+   * 由模长和幅角构造复数
+   */
+  public static fromPolar(magnitude: Decimal, angle: Decimal): ComplexNumber {
+    return { real: magnitude.times(angle.cos()), imaginary: magnitude.times(angle.sin()) };
+  }
+
+  /**
+   * 指数函数 e^z
+   */
+  public static exp(z: ComplexNumber): ComplexNumber {
+    return ComplexMath.fromPolar(z.real.exp(), z.imaginary);
+  }
+
+  /**
+   * 自然对数主值 ln|z| + i·arg(z)
+   */
+  public static ln(z: ComplexNumber): ComplexNumber {
+    const magnitude = ComplexMath.magnitude(z);
+    if (magnitude.isZero()) {
+      throw new Error('ln参数不能为0');
+    }
+    return { real: magnitude.ln(), imaginary: ComplexMath.argument(z) };
+  }
+
+  /**
+   * 常用对数主值
+   */
+  public static log10(z: ComplexNumber): ComplexNumber {
+    const ln10 = new Decimal(10).ln();
+    const logarithm = ComplexMath.ln(z);
+    return {
+      real: logarithm.real.dividedBy(ln10),
+      imaginary: logarithm.imaginary.dividedBy(ln10),
+    };
+  }
+
+  /**
+   * 平方根主值，实部非负
+   */
+  public static sqrt(z: ComplexNumber): ComplexNumber {
+    const magnitude = ComplexMath.magnitude(z);
+    const real = magnitude.plus(z.real).dividedBy(2).sqrt();
+    const imaginary = magnitude.minus(z.real).dividedBy(2).sqrt();
+
+    return {
+      real,
+      imaginary: z.imaginary.isNegative() && !z.imaginary.isZero() ? imaginary.negated() : imaginary,
+    };
+  }
+
+  /**
+   * 幂运算主值 z^w
+   */
+  public static pow(z: ComplexNumber, w: ComplexNumber): ComplexNumber {
+    // 整数次幂直接相乘，保证 i^2 = -1 这类结果是精确的
+    if (
+      w.imaginary.isZero() &&
+      w.real.isInteger() &&
+      w.real.abs().lte(ComplexMath.MAX_INTEGER_EXPONENT)
+    ) {
+      return ComplexMath.integerPow(z, w.real.toNumber());
+    }
+
+    if (z.real.isZero() && z.imaginary.isZero()) {
+      if (w.real.gt(0)) {
+        return ComplexMath.create(0);
+      }
+      throw new Error('0的非正数次幂无定义');
+    }
+
+    return ComplexMath.exp(ComplexMath.multiply(w, ComplexMath.ln(z)));
+  }
+
+  /**
+   * 正弦 sin(a + bi) = sin a·cosh b + i·cos a·sinh b
+   */
+  public static sin(z: ComplexNumber): ComplexNumber {
+    return {
+      real: z.real.sin().times(z.imaginary.cosh()),
+      imaginary: z.real.cos().times(z.imaginary.sinh()),
+    };
+  }
+
+  /**
+   * 余弦 cos(a + bi) = cos a·cosh b - i·sin a·sinh b
+   */
+  public static cos(z: ComplexNumber): ComplexNumber {
+    return {
+      real: z.real.cos().times(z.imaginary.cosh()),
+      imaginary: z.real.sin().times(z.imaginary.sinh()).negated(),
+    };
+  }
+
+  /**
+   * 正切
+   */
+  public static tan(z: ComplexNumber): ComplexNumber {
+    return ComplexMath.divide(ComplexMath.sin(z), ComplexMath.cos(z));
+  }
+
+  /**
+   * 反正弦主值 -i·ln(iz + √(1 - z²))
+   */
+  public static asin(z: ComplexNumber): ComplexNumber {
+    const i = ComplexMath.create(0, 1);
+    const root = ComplexMath.sqrt(
+      ComplexMath.subtract(ComplexMath.create(1), ComplexMath.multiply(z, z))
+    );
+    const logarithm = ComplexMath.ln(ComplexMath.add(ComplexMath.multiply(i, z), root));
+    return { real: logarithm.imaginary, imaginary: logarithm.real.negated() };
+  }
+
+  /**
+   * 反余弦主值 π/2 - asin(z)
+   */
+  public static acos(z: ComplexNumber): ComplexNumber {
+    const halfPi = Decimal.acos(-1).dividedBy(2);
+    const asin = ComplexMath.asin(z);
+    return { real: halfPi.minus(asin.real), imaginary: asin.imaginary.negated() };
+  }
+
+  /**
+   * 反正切主值 (i/2)·(ln(1 - iz) - ln(1 + iz))
+   */
+  public static atan(z: ComplexNumber): ComplexNumber {
+    const iz = ComplexMath.multiply(ComplexMath.create(0, 1), z);
+    const one = ComplexMath.create(1);
+    const difference = ComplexMath.subtract(
+      ComplexMath.ln(ComplexMath.subtract(one, iz)),
+      ComplexMath.ln(ComplexMath.add(one, iz))
+    );
+    return {
+      real: difference.imaginary.negated().dividedBy(2),
+      imaginary: difference.real.dividedBy(2),
+    };
+  }
+
+  /**
+   * 序列化为 a+bi 形式，保留完整精度
+   */
+  public static toString(z: ComplexNumber): string {
+    const sign = z.imaginary.isNegative() ? '-' : '+';
+    return `${z.real.toString()}${sign}${z.imaginary.abs().toString()}i`;
+  }
+
+  /**
+   * 解析 toString 生成的字符串，不是复数形式时返回 null
+   */
+  public static parse(text: string): ComplexNumber | null {
+    const match = ComplexMath.SERIALIZED_PATTERN.exec(text.trim());
+    if (!match || match[1] === undefined || match[3] === undefined) {
+      return null;
+    }
+
+    const imaginary = new Decimal(match[3]);
+    return {
+      real: new Decimal(match[1]),
+      imaginary: match[2] === '-' ? imaginary.negated() : imaginary,
+    };
+  }
+
+  /**
+   * 逐次平方计算整数次幂
+   */
+  private static integerPow(z: ComplexNumber, exponent: number): ComplexNumber {
+    if (exponent < 0) {
+      return ComplexMath.divide(ComplexMath.create(1), ComplexMath.integerPow(z, -exponent));
+    }
+
+    let result = ComplexMath.create(1);
+    let base = z;
+    let remaining = exponent;
+
+    while (remaining > 0) {
+      if (remaining % 2 === 1) {
+        result = ComplexMath.multiply(result, base);
+      }
+      base = ComplexMath.multiply(base, base);
+      remaining = Math.floor(remaining / 2);
+    }
+
+    return result;
+  }
+
+  /**
+   * 将 -0 规范化为 0，避免幅角落在 -π
+   */
+  private static normalizeZero(value: Decimal): Decimal {
+    return value.isZero() ? new Decimal(0) : value;
+  }
+}
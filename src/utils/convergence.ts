@@ -0,0 +1,233 @@
+/**
+ * Infinite Series Utilities
+ *
+ * 无穷级数 Σ_{k=start}^{∞} f(k) 的数值求和：按几何速度收敛时直接累加，交错级数用 Euler 变换，
+ * 其余对部分和的幂律余项做 Richardson 外推，并判断级数是否收敛
+ */
+
+import { RealFunction } from '@/utils/solver';
+
+export interface SeriesOptions {
+  tolerance: number; // 相对误差
+  absoluteTolerance: number;
+  maxTerms: number;
+}
+
+export type SeriesMethod = 'direct' | 'euler' | 'richardson';
+
+export interface SeriesResult {
+  value: number;
+  error: number; // 绝对误差估计，发散时为 Infinity
+  terms: number; // 计算过的项数
+  method: SeriesMethod;
+  converged: boolean;
+}
+
+export class InfiniteSum {
+  public static readonly DEFAULT_OPTIONS: SeriesOptions = {
+    tolerance: 1e-10,
+    absoluteTolerance: 1e-12,
+    maxTerms: 16384,
+  };
+
+  // 判断收敛方式时采样的前若干项，以及按几何速度收敛所要求的相邻项之比上限
+  private static readonly SAMPLE_SIZE = 32;
+  private static readonly GEOMETRIC_RATIO = 0.9;
+  // Euler 变换使用的部分和个数
+  private static readonly EULER_TERMS = 40;
+  // Richardson 外推的最小部分和项数，之后逐级加倍
+  private static readonly RICHARDSON_START = 8;
+
+  /**
+   * 计算 Σ_{k=start}^{∞} f(k)，start 为整数；项无定义时抛出错误，发散或未达到容差时 converged 为 false
+   */
+  public static evaluate(f: RealFunction, start: number, options: Partial<SeriesOptions> = {}): SeriesResult {
+    const settings = { ...InfiniteSum.DEFAULT_OPTIONS, ...options };
+    if (!Number.isInteger(start)) {
+      throw new Error('求和下限必须是整数');
+    }
+
+    const term = (k: number): number => {
+      const value = f(k);
+      if (!isFinite(value)) {
+        throw new Error(`级数在 ${k} 处的项无定义`);
+      }
+      return value;
+    };
+
+    const sample = Array.from({ length: InfiniteSum.SAMPLE_SIZE }, (_, i) => term(start + i));
+
+    if (InfiniteSum.isGeometric(sample)) {
+      return InfiniteSum.direct(term, start, sample, settings);
+    }
+    if (InfiniteSum.isAlternating(sample)) {
+      return InfiniteSum.euler(term, start, sample, settings);
+    }
+    return InfiniteSum.richardson(term, start, settings);
+  }
+
+  /**
+   * 末尾若干项的相邻项之比都不超过 GEOMETRIC_RATIO（或已为 0）
+   */
+  private static isGeometric(sample: number[]): boolean {
+    const tail = sample.slice(-8);
+    return tail.every((value, i) => {
+      const previous = tail[i - 1];
+      if (previous === undefined || value === 0) {
+        return true;
+      }
+      return previous !== 0 && Math.abs(value / previous) <= InfiniteSum.GEOMETRIC_RATIO;
+    });
+  }
+
+  private static isAlternating(sample: number[]): boolean {
+    return sample.every((value, i) => {
+      const previous = sample[i - 1];
+      return value !== 0 && (previous === undefined || Math.sign(value) !== Math.sign(previous));
+    });
+  }
+
+  /**
+   * 直接累加，直到按几何余项估计的误差满足容差
+   */
+  private static direct(
+    term: RealFunction,
+    start: number,
+    sample: number[],
+    options: SeriesOptions
+  ): SeriesResult {
+    let value = sample.reduce((sum, t) => sum + t, 0);
+    let last = sample[sample.length - 1] as number;
+    let ratio = InfiniteSum.GEOMETRIC_RATIO;
+    let count = sample.length;
+
+    for (;;) {
+      // 余项 |t| · r / (1 - r)
+      const error = Math.abs(last) * ratio / (1 - ratio);
+      const target = Math.max(options.absoluteTolerance, options.tolerance * Math.abs(value));
+      if (error <= target || count >= options.maxTerms) {
+        return { value, error, terms: count, method: 'direct', converged: error <= target };
+      }
+
+      const next = term(start + count);
+      ratio = last === 0 ? 0 : Math.min(Math.abs(next / last), InfiniteSum.GEOMETRIC_RATIO);
+      value += next;
+      last = next;
+      count++;
+    }
+  }
+
+  /**
+   * Euler 变换：对部分和反复取相邻平均，相当于按二项式系数加权；要求各项趋于 0
+   */
+  private static euler(
+    term: RealFunction,
+    start: number,
+    sample: number[],
+    options: SeriesOptions
+  ): SeriesResult {
+    const magnitude = Math.max(...sample.map(Math.abs));
+    const far = Math.abs(term(start + options.maxTerms));
+    if (far > magnitude * 0.1) {
+      return InfiniteSum.divergent(sample.reduce((sum, t) => sum + t, 0), options.maxTerms, 'euler');
+    }
+
+    const partialSums: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < InfiniteSum.EULER_TERMS; i++) {
+      sum += sample[i] ?? term(start + i);
+      partialSums.push(sum);
+    }
+
+    const average = (sums: number[]): number => {
+      let row = sums;
+      while (row.length > 1) {
+        row = row.slice(1).map((value, i) => (value + (row[i] as number)) / 2);
+      }
+      return row[0] as number;
+    };
+
+    const value = average(partialSums);
+    const error = Math.abs(value - average(partialSums.slice(0, -1)));
+    const target = Math.max(options.absoluteTolerance, options.tolerance * Math.abs(value));
+    return { value, error, terms: partialSums.length, method: 'euler', converged: error <= target };
+  }
+
+  /**
+   * 部分和 S(N) 在 N = N₀·2ʲ 处取值，余项按 N^(-q)、N^(-q-1)… 展开做 Richardson 外推，
+   * q 由相邻两级增量之比估计；q 接近 0（增量不再减小）判定为发散
+   */
+  private static richardson(term: RealFunction, start: number, options: SeriesOptions): SeriesResult {
+    const sums: number[] = [];
+    let sum = 0;
+    let count = 0;
+
+    for (let n = InfiniteSum.RICHARDSON_START; n <= options.maxTerms; n *= 2) {
+      for (; count < n; count++) {
+        sum += term(start + count);
+      }
+      sums.push(sum);
+
+      // 外推表至少比估计指数所用的三个部分和多一级，误差估计才有意义
+      const level = sums.length - 1;
+      if (level < 3) {
+        continue;
+      }
+
+      const increment = (sums[level] as number) - (sums[level - 1] as number);
+      const previous = (sums[level - 1] as number) - (sums[level - 2] as number);
+      if (increment === 0) {
+        return { value: sum, error: 0, terms: count, method: 'richardson', converged: true };
+      }
+      const exponent = Math.log2(previous / increment);
+      if (!(exponent > 0.05)) {
+        if (level >= 4) {
+          return InfiniteSum.divergent(sum, count, 'richardson');
+        }
+        continue;
+      }
+
+      const [value, error] = InfiniteSum.extrapolate(sums, InfiniteSum.roundExponent(exponent));
+      const target = Math.max(options.absoluteTolerance, options.tolerance * Math.abs(value));
+      if (error <= target || n * 2 > options.maxTerms) {
+        return { value, error, terms: count, method: 'richardson', converged: error <= target };
+      }
+    }
+
+    return InfiniteSum.divergent(sum, count, 'richardson');
+  }
+
+  /**
+   * Richardson 外推表：R[j][m] = R[j][m-1] + (R[j][m-1] - R[j-1][m-1]) / (2^(q+m-1) - 1)，
+   * 返回对角线最后一项及其与前一项之差
+   */
+  private static extrapolate(sums: number[], exponent: number): [number, number] {
+    let row = [sums[0] as number];
+    let previousDiagonal = row[0] as number;
+
+    for (let j = 1; j < sums.length; j++) {
+      const next = [sums[j] as number];
+      for (let m = 1; m <= j; m++) {
+        const current = next[m - 1] as number;
+        next.push(current + (current - (row[m - 1] as number)) / (Math.pow(2, exponent + m - 1) - 1));
+      }
+      previousDiagonal = row[row.length - 1] as number;
+      row = next;
+    }
+
+    const value = row[row.length - 1] as number;
+    return [value, Math.abs(value - previousDiagonal)];
+  }
+
+  /**
+   * 有理函数项的余项指数为整数或半整数，估计值足够接近时取整以提高外推精度
+   */
+  private static roundExponent(exponent: number): number {
+    const rounded = Math.round(exponent * 2) / 2;
+    return Math.abs(exponent - rounded) < 0.05 ? rounded : exponent;
+  }
+
+  private static divergent(value: number, terms: number, method: SeriesMethod): SeriesResult {
+    return { value, error: Infinity, terms, method, converged: false };
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Differentiation Utilities
+ *
+ * 基于AST的符号求导：和、积、商及链式法则，支持高阶导数和偏导数
+ */
+
+import { ASTNode, FunctionDefinition } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+
+export interface DifferentiationOptions {
+  functions?: Map<string, FunctionDefinition>; // 用户自定义函数，求导前展开
+}
+
+export class DifferentiationUtils {
+  /**
+   * 对指定变量求 order 阶导数，每一阶结果都经过代数化简
+   *
+   * 三角函数按弧度求导。
+   */
+  public static differentiate(
+    node: ASTNode,
+    variable: string,
+    order: number = 1,
+    options: DifferentiationOptions = {}
+  ): ASTNode {
+    if (!Number.isInteger(order) || order < 0) {
+      throw new Error('求导阶数必须是非负整数');
+    }
+
+    let result = ASTUtils.simplify(ASTUtils.expandFunctions(node, options.functions));
+    for (let i = 0; i < order; i++) {
+      result = ASTUtils.simplify(DifferentiationUtils.derive(result, variable));
+    }
+    return result;
+  }
+
+  /**
+   * 依次对各变量求偏导，如 ['x', 'y'] 表示 ∂²f/∂y∂x
+   */
+  public static partial(
+    node: ASTNode,
+    variables: string[],
+    options: DifferentiationOptions = {}
+  ): ASTNode {
+    return variables.reduce(
+      (result, variable) => DifferentiationUtils.differentiate(result, variable, 1, options),
+      node
+    );
+  }
+
+  /**
+   * 单步求导（不化简）
+   */
+  private static derive(node: ASTNode, variable: string): ASTNode {
+    if (!ASTUtils.containsVariable(node, variable)) {
+      return ASTUtils.number(0);
+    }
+
+    const children = node.children ?? [];
+
+    switch (node.type) {
+      case 'variable':
+        return ASTUtils.number(node.value === variable ? 1 : 0);
+
+      case 'unary': {
+        // 逻辑非的值只在条件边界处跳变，其余处导数为 0
+        if (node.value === 'not') {
+          return ASTUtils.number(0);
+        }
+        const operand = DifferentiationUtils.derive(children[0] as ASTNode, variable);
+        return node.value === '-' ? ASTUtils.negate(operand) : operand;
+      }
+
+      case 'binary':
+        if (ASTUtils.COMPARISON_OPERATORS.includes(String(node.value)) || ASTUtils.LOGICAL_OPERATORS.includes(String(node.value))) {
+          return ASTUtils.number(0);
+        }
+        return DifferentiationUtils.deriveBinary(
+          String(node.value),
+          children[0] as ASTNode,
+          children[1] as ASTNode,
+          variable
+        );
+
+      case 'function':
+        if (ASTUtils.boundVariable(node)) {
+          return DifferentiationUtils.deriveSeries(node, variable);
+        }
+        return DifferentiationUtils.deriveFunction(String(node.value), children, variable);
+
+      default:
+        throw new Error(`无法对 ${node.type} 节点求导`);
+    }
+  }
+
+  /**
+   * 二元运算：和差法则、乘积法则、商法则和幂法则
+   */
+  private static deriveBinary(
+    operator: string,
+    left: ASTNode,
+    right: ASTNode,
+    variable: string
+  ): ASTNode {
+    const dLeft = (): ASTNode => DifferentiationUtils.derive(left, variable);
+    const dRight = (): ASTNode => DifferentiationUtils.derive(right, variable);
+    const leftVaries = ASTUtils.containsVariable(left, variable);
+    const rightVaries = ASTUtils.containsVariable(right, variable);
+
+    switch (operator) {
+      case '+':
+        return ASTUtils.add(dLeft(), dRight());
+
+      case '-':
+        return ASTUtils.subtract(dLeft(), dRight());
+
+      case '*':
+        // 常数因子直接提出
+        if (!leftVaries) return ASTUtils.multiply(left, dRight());
+        if (!rightVaries) return ASTUtils.multiply(dLeft(), right);
+        return ASTUtils.add(
+          ASTUtils.multiply(dLeft(), right),
+          ASTUtils.multiply(left, dRight())
+        );
+
+      case '/':
+        if (!rightVaries) return ASTUtils.divide(dLeft(), right);
+        return ASTUtils.divide(
+          ASTUtils.subtract(
+            ASTUtils.multiply(dLeft(), right),
+            ASTUtils.multiply(left, dRight())
+          ),
+          ASTUtils.power(right, ASTUtils.number(2))
+        );
+
+      case '^':
+      case '**':
+        return DifferentiationUtils.derivePower(left, right, variable);
+
+      default:
+        throw new Error(`不支持对运算符 ${operator} 求导`);
+    }
+  }
+
+  /**
+   * 幂函数求导：u^c、c^v 和一般的 u^v
+   */
+  private static derivePower(base: ASTNode, exponent: ASTNode, variable: string): ASTNode {
+    const baseVaries = ASTUtils.containsVariable(base, variable);
+    const exponentVaries = ASTUtils.containsVariable(exponent, variable);
+
+    // (u^c)' = c·u^(c-1)·u'
+    if (!exponentVaries) {
+      return ASTUtils.multiply(
+        ASTUtils.multiply(
+          exponent,
+          ASTUtils.power(base, ASTUtils.subtract(exponent, ASTUtils.number(1)))
+        ),
+        DifferentiationUtils.derive(base, variable)
+      );
+    }
+
+    // (c^v)' = c^v·ln(c)·v'
+    if (!baseVaries) {
+      return ASTUtils.multiply(
+        ASTUtils.multiply(ASTUtils.power(base, exponent), DifferentiationUtils.naturalLog(base)),
+        DifferentiationUtils.derive(exponent, variable)
+      );
+    }
+
+    // (u^v)' = u^v·(v'·ln(u) + v·u'/u)
+    return ASTUtils.multiply(
+      ASTUtils.power(base, exponent),
+      ASTUtils.add(
+        ASTUtils.multiply(DifferentiationUtils.derive(exponent, variable), ASTUtils.call('ln', base)),
+        ASTUtils.divide(
+          ASTUtils.multiply(exponent, DifferentiationUtils.derive(base, variable)),
+          base
+        )
+      )
+    );
+  }
+
+  /**
+   * 求和逐项求导：d/dx Σ f = Σ df/dx；求积按对数求导 d/dx Π f = Π f · Σ (df/dx)/f。上下限须与求导变量无关
+   */
+  private static deriveSeries(node: ASTNode, variable: string): ASTNode {
+    if (String(node.value).toLowerCase() === 'limit') {
+      throw new Error('不支持对 limit 求导，请先计算极限');
+    }
+
+    const [body, index, lower, upper] = node.children as [ASTNode, ASTNode, ASTNode, ASTNode];
+    if (ASTUtils.containsVariable(lower, variable) || ASTUtils.containsVariable(upper, variable)) {
+      throw new Error(`${String(node.value)}的上下限含有 ${variable}，无法求导`);
+    }
+
+    const derivative = DifferentiationUtils.derive(body, variable);
+    if (String(node.value).toLowerCase() === 'sum') {
+      return ASTUtils.call('sum', derivative, index, lower, upper);
+    }
+    return ASTUtils.multiply(node, ASTUtils.call('sum', ASTUtils.divide(derivative, body), index, lower, upper));
+  }
+
+  /**
+   * 函数求导：外层导数乘以内层导数（链式法则）
+   */
+  private static deriveFunction(name: string, args: ASTNode[], variable: string): ASTNode {
+    const functionName = name.toLowerCase();
+    const [u] = args;
+    if (!u) {
+      throw new Error(`${name}函数缺少参数`);
+    }
+
+    // pow、max、min 改写为等价的运算后求导
+    switch (functionName) {
+      case 'pow':
+        DifferentiationUtils.expectArguments(name, args, 2);
+        return DifferentiationUtils.derivePower(u, args[1] as ASTNode, variable);
+      case 'max':
+      case 'min':
+        return DifferentiationUtils.derive(DifferentiationUtils.expandExtremum(functionName, args), variable);
+      case 'if':
+      case 'piecewise':
+        // 条件不变，逐段对值求导（分段点处的导数由所在段决定）
+        return ASTUtils.call(
+          name,
+          ...ASTUtils.pieces({ type: 'function', value: name, children: args }).flatMap(([condition, value]) => {
+            const derivative = DifferentiationUtils.derive(value, variable);
+            return condition ? [condition, derivative] : [derivative];
+          })
+        );
+    }
+
+    DifferentiationUtils.expectArguments(name, args, 1);
+    const chain = (outer: ASTNode): ASTNode =>
+      ASTUtils.multiply(outer, DifferentiationUtils.derive(u, variable));
+    const one = ASTUtils.number(1);
+    const squared = ASTUtils.power(u, ASTUtils.number(2));
+
+    switch (functionName) {
+      case 'sin':
+        return chain(ASTUtils.call('cos', u));
+      case 'cos':
+        return chain(ASTUtils.negate(ASTUtils.call('sin', u)));
+      case 'tan':
+        return chain(ASTUtils.divide(one, ASTUtils.power(ASTUtils.call('cos', u), ASTUtils.number(2))));
+      case 'asin':
+        return chain(ASTUtils.divide(one, ASTUtils.call('sqrt', ASTUtils.subtract(one, squared))));
+      case 'acos':
+        return chain(ASTUtils.negate(ASTUtils.divide(one, ASTUtils.call('sqrt', ASTUtils.subtract(one, squared)))));
+      case 'atan':
+        return chain(ASTUtils.divide(one, ASTUtils.add(one, squared)));
+      case 'ln':
+        return chain(ASTUtils.divide(one, u));
+      case 'log':
+        return chain(ASTUtils.divide(one, ASTUtils.multiply(u, ASTUtils.call('ln', ASTUtils.number(10)))));
+      case 'sqrt':
+        return chain(ASTUtils.divide(one, ASTUtils.multiply(ASTUtils.number(2), ASTUtils.call('sqrt', u))));
+      case 'exp':
+        return chain(ASTUtils.call('exp', u));
+      case 'abs':
+        return chain(ASTUtils.divide(u, ASTUtils.call('abs', u)));
+      case 'ceil':
+      case 'floor':
+      case 'round':
+        // 阶梯函数在间断点以外导数为0
+        return ASTUtils.number(0);
+      default:
+        throw new Error(`不支持对函数 ${name} 求导`);
+    }
+  }
+
+  /**
+   * max(a, b) = (a + b + |a - b|)/2，min(a, b) = (a + b - |a - b|)/2，多参数时逐个折叠
+   */
+  private static expandExtremum(name: 'max' | 'min', args: ASTNode[]): ASTNode {
+    if (args.length < 2) {
+      throw new Error(`${name}函数至少需要2个参数`);
+    }
+
+    return args.slice(1).reduce((accumulated, next) => {
+      const sum = ASTUtils.add(accumulated, next);
+      const distance = ASTUtils.call('abs', ASTUtils.subtract(accumulated, next));
+      return ASTUtils.divide(
+        name === 'max' ? ASTUtils.add(sum, distance) : ASTUtils.subtract(sum, distance),
+        ASTUtils.number(2)
+      );
+    }, args[0] as ASTNode);
+  }
+
+  /**
+   * 底数为 e 时 ln(e) = 1
+   */
+  private static naturalLog(base: ASTNode): ASTNode {
+    return base.type === 'constant' && base.value === 'e'
+      ? ASTUtils.number(1)
+      : ASTUtils.call('ln', base);
+  }
+
+  /**
+   * 验证参数数量
+   */
+  private static expectArguments(name: string, args: ASTNode[], expected: number): void {
+    if (args.length !== expected) {
+      throw new Error(`${name}函数需要${expected}个参数，但得到${args.length}个`);
+    }
+  }
+}
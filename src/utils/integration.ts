@@ -0,0 +1,475 @@
+/**
+ * Integration Utilities
+ *
+ * 基于AST的规则积分：线性性、幂法则、基本积分表、线性换元和分部积分
+ */
+
+import { Decimal } from 'decimal.js';
+import { ASTNode, FunctionDefinition } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { DifferentiationUtils } from '@/utils/differentiation';
+
+export interface IntegrationOptions {
+  functions?: Map<string, FunctionDefinition>; // 用户自定义函数，积分前展开
+}
+
+export class IntegrationUtils {
+  // 分部积分时多项式因子允许的最高次数
+  private static readonly MAX_PARTS_DEGREE = 16;
+
+  /**
+   * 求不定积分（不含积分常数），找不到初等原函数时返回 null
+   *
+   * 三角函数按弧度积分。
+   */
+  public static integrate(
+    node: ASTNode,
+    variable: string,
+    options: IntegrationOptions = {}
+  ): ASTNode | null {
+    const expanded = ASTUtils.simplify(ASTUtils.expandFunctions(node, options.functions));
+    const result = IntegrationUtils.antiderivative(expanded, variable);
+    return result ? ASTUtils.simplify(result) : null;
+  }
+
+  /**
+   * 按节点类型分派积分规则
+   */
+  private static antiderivative(node: ASTNode, variable: string): ASTNode | null {
+    // 常数：∫c dx = c·x
+    if (!ASTUtils.containsVariable(node, variable)) {
+      return ASTUtils.multiply(node, ASTUtils.variable(variable));
+    }
+
+    const children = node.children ?? [];
+
+    switch (node.type) {
+      case 'variable':
+        return ASTUtils.divide(ASTUtils.power(node, ASTUtils.number(2)), ASTUtils.number(2));
+
+      case 'unary': {
+        if (node.value === 'not') {
+          return null;
+        }
+        const operand = IntegrationUtils.antiderivative(children[0] as ASTNode, variable);
+        if (!operand) return null;
+        return node.value === '-' ? ASTUtils.negate(operand) : operand;
+      }
+
+      case 'binary':
+        return IntegrationUtils.integrateBinary(
+          String(node.value),
+          children[0] as ASTNode,
+          children[1] as ASTNode,
+          variable
+        );
+
+      case 'function':
+        return IntegrationUtils.integrateFunction(String(node.value), children, variable);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 二元运算：线性性、常数因子、分部积分和幂法则
+   */
+  private static integrateBinary(
+    operator: string,
+    left: ASTNode,
+    right: ASTNode,
+    variable: string
+  ): ASTNode | null {
+    const leftVaries = ASTUtils.containsVariable(left, variable);
+    const rightVaries = ASTUtils.containsVariable(right, variable);
+
+    switch (operator) {
+      case '+':
+      case '-': {
+        const leftIntegral = IntegrationUtils.antiderivative(left, variable);
+        const rightIntegral = IntegrationUtils.antiderivative(right, variable);
+        if (!leftIntegral || !rightIntegral) return null;
+        return operator === '+'
+          ? ASTUtils.add(leftIntegral, rightIntegral)
+          : ASTUtils.subtract(leftIntegral, rightIntegral);
+      }
+
+      case '*': {
+        if (!leftVaries) {
+          const integral = IntegrationUtils.antiderivative(right, variable);
+          return integral ? ASTUtils.multiply(left, integral) : null;
+        }
+        if (!rightVaries) {
+          const integral = IntegrationUtils.antiderivative(left, variable);
+          return integral ? ASTUtils.multiply(integral, right) : null;
+        }
+        return (
+          IntegrationUtils.integrateByParts(left, right, variable) ??
+          IntegrationUtils.integrateByParts(right, left, variable)
+        );
+      }
+
+      case '/': {
+        if (!rightVaries) {
+          const integral = IntegrationUtils.antiderivative(left, variable);
+          return integral ? ASTUtils.divide(integral, right) : null;
+        }
+        if (leftVaries) {
+          return null;
+        }
+
+        // c/g = c·g^(-1)，c/√w = c·w^(-1/2)
+        const reciprocal = right.type === 'function' && right.value === 'sqrt' && right.children?.length === 1
+          ? ASTUtils.power(right.children[0] as ASTNode, IntegrationUtils.fraction(new Decimal(-1), new Decimal(2)))
+          : ASTUtils.power(right, ASTUtils.number(-1));
+        const integral = IntegrationUtils.antiderivative(ASTUtils.simplify(reciprocal), variable);
+        return integral ? ASTUtils.multiply(left, integral) : null;
+      }
+
+      case '^':
+      case '**':
+        return IntegrationUtils.integratePower(left, right, variable);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 幂：u^n（n = -1 时为 ln|u|）、c^u 以及反三角函数形式，u 须为线性函数
+   */
+  private static integratePower(base: ASTNode, exponent: ASTNode, variable: string): ASTNode | null {
+    const baseVaries = ASTUtils.containsVariable(base, variable);
+    const exponentVaries = ASTUtils.containsVariable(exponent, variable);
+
+    if (baseVaries && !exponentVaries) {
+      const slope = IntegrationUtils.linearSlope(base, variable);
+      if (!slope) {
+        return IntegrationUtils.integrateInverseTrig(base, exponent, variable);
+      }
+
+      const rational = IntegrationUtils.rationalValue(exponent);
+      if (rational) {
+        const [p, q] = rational;
+        if (p.equals(q.negated())) {
+          return ASTUtils.divide(ASTUtils.call('ln', ASTUtils.call('abs', base)), slope);
+        }
+        // u^(p/q) → q/(p+q)·u^((p+q)/q)
+        const raised = p.plus(q);
+        return ASTUtils.divide(
+          ASTUtils.multiply(
+            IntegrationUtils.fraction(q, raised),
+            ASTUtils.power(base, IntegrationUtils.fraction(raised, q))
+          ),
+          slope
+        );
+      }
+
+      // 符号指数，假定 n ≠ -1
+      const raised = ASTUtils.add(exponent, ASTUtils.number(1));
+      return ASTUtils.divide(ASTUtils.power(base, raised), ASTUtils.multiply(raised, slope));
+    }
+
+    if (!baseVaries && exponentVaries) {
+      // c^u → c^u/(ln(c)·a)
+      const slope = IntegrationUtils.linearSlope(exponent, variable);
+      if (!slope) return null;
+      const isE = base.type === 'constant' && base.value === 'e';
+      return ASTUtils.divide(
+        ASTUtils.power(base, exponent),
+        isE ? slope : ASTUtils.multiply(ASTUtils.call('ln', base), slope)
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * (1 + u²)^(-1) → atan(u)，(1 - u²)^(-1/2) → asin(u)
+   */
+  private static integrateInverseTrig(base: ASTNode, exponent: ASTNode, variable: string): ASTNode | null {
+    const rational = IntegrationUtils.rationalValue(exponent);
+    if (!rational || base.type !== 'binary' || !base.children) {
+      return null;
+    }
+
+    const [p, q] = rational;
+    const [left, right] = base.children as [ASTNode, ASTNode];
+    const squaredOperand = (node: ASTNode): ASTNode | null =>
+      node.type === 'binary' && node.value === '^' && ASTUtils.isNumber((node.children as ASTNode[])[1] as ASTNode, 2)
+        ? (node.children as ASTNode[])[0] as ASTNode
+        : null;
+
+    let inner: ASTNode | null = null;
+    let name = '';
+    if (base.value === '+' && p.equals(-1) && q.equals(1)) {
+      inner = ASTUtils.isNumber(left, 1) ? squaredOperand(right) : ASTUtils.isNumber(right, 1) ? squaredOperand(left) : null;
+      name = 'atan';
+    } else if (base.value === '-' && p.equals(-1) && q.equals(2) && ASTUtils.isNumber(left, 1)) {
+      inner = squaredOperand(right);
+      name = 'asin';
+    }
+
+    const slope = inner ? IntegrationUtils.linearSlope(inner, variable) : null;
+    return inner && slope ? ASTUtils.divide(ASTUtils.call(name, inner), slope) : null;
+  }
+
+  /**
+   * 基本积分表，内层函数为线性函数 ax + b 时除以 a（线性换元）
+   */
+  private static integrateFunction(name: string, args: ASTNode[], variable: string): ASTNode | null {
+    const functionName = name.toLowerCase();
+    if (functionName === 'pow' && args.length === 2) {
+      return IntegrationUtils.integratePower(args[0] as ASTNode, args[1] as ASTNode, variable);
+    }
+
+    const [u] = args;
+    if (!u || args.length !== 1) {
+      return null;
+    }
+    const slope = IntegrationUtils.linearSlope(u, variable);
+    if (!slope) {
+      return null;
+    }
+
+    const one = ASTUtils.number(1);
+    const complement = ASTUtils.call('sqrt', ASTUtils.subtract(one, ASTUtils.power(u, ASTUtils.number(2))));
+    let integral: ASTNode;
+
+    switch (functionName) {
+      case 'sin':
+        integral = ASTUtils.negate(ASTUtils.call('cos', u));
+        break;
+      case 'cos':
+        integral = ASTUtils.call('sin', u);
+        break;
+      case 'tan':
+        integral = ASTUtils.negate(ASTUtils.call('ln', ASTUtils.call('abs', ASTUtils.call('cos', u))));
+        break;
+      case 'exp':
+        integral = ASTUtils.call('exp', u);
+        break;
+      case 'sqrt':
+        integral = ASTUtils.multiply(
+          IntegrationUtils.fraction(new Decimal(2), new Decimal(3)),
+          ASTUtils.power(u, IntegrationUtils.fraction(new Decimal(3), new Decimal(2)))
+        );
+        break;
+      case 'ln':
+        integral = ASTUtils.subtract(ASTUtils.multiply(u, ASTUtils.call('ln', u)), u);
+        break;
+      case 'log':
+        integral = ASTUtils.divide(
+          ASTUtils.subtract(ASTUtils.multiply(u, ASTUtils.call('ln', u)), u),
+          ASTUtils.call('ln', ASTUtils.number(10))
+        );
+        break;
+      case 'asin':
+        integral = ASTUtils.add(ASTUtils.multiply(u, ASTUtils.call('asin', u)), complement);
+        break;
+      case 'acos':
+        integral = ASTUtils.subtract(ASTUtils.multiply(u, ASTUtils.call('acos', u)), complement);
+        break;
+      case 'atan':
+        integral = ASTUtils.subtract(
+          ASTUtils.multiply(u, ASTUtils.call('atan', u)),
+          ASTUtils.divide(
+            ASTUtils.call('ln', ASTUtils.add(one, ASTUtils.power(u, ASTUtils.number(2)))),
+            ASTUtils.number(2)
+          )
+        );
+        break;
+      case 'abs':
+        integral = ASTUtils.divide(ASTUtils.multiply(u, ASTUtils.call('abs', u)), ASTUtils.number(2));
+        break;
+      default:
+        return null;
+    }
+
+    return ASTUtils.divide(integral, slope);
+  }
+
+  /**
+   * 分部积分（表格法）：∫p·f = p·F₁ - p'·F₂ + p''·F₃ - ...，p 为多项式
+   */
+  private static integrateByParts(polynomial: ASTNode, factor: ASTNode, variable: string): ASTNode | null {
+    if (
+      !IntegrationUtils.isPolynomial(polynomial, variable) ||
+      !(IntegrationUtils.isPolynomial(factor, variable) || IntegrationUtils.isCyclic(factor, variable))
+    ) {
+      return null;
+    }
+
+    let derivative = polynomial;
+    let integral = IntegrationUtils.antiderivative(factor, variable);
+    let result: ASTNode | null = null;
+
+    for (let k = 0; k <= IntegrationUtils.MAX_PARTS_DEGREE; k++) {
+      if (!integral) {
+        return null;
+      }
+      integral = ASTUtils.simplify(integral);
+
+      const term = ASTUtils.multiply(derivative, integral);
+      result = result === null
+        ? term
+        : k % 2 === 1 ? ASTUtils.subtract(result, term) : ASTUtils.add(result, term);
+
+      derivative = DifferentiationUtils.differentiate(derivative, variable);
+      if (ASTUtils.isNumber(derivative, 0)) {
+        return result;
+      }
+      integral = IntegrationUtils.antiderivative(integral, variable);
+    }
+
+    return null;
+  }
+
+  /**
+   * 线性函数 ax + b 的斜率 a，非线性时返回 null
+   */
+  private static linearSlope(node: ASTNode, variable: string): ASTNode | null {
+    try {
+      const slope = DifferentiationUtils.differentiate(node, variable);
+      return ASTUtils.containsVariable(slope, variable) || ASTUtils.isNumber(slope, 0) ? null : slope;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 判断是否为关于变量的多项式
+   */
+  private static isPolynomial(node: ASTNode, variable: string): boolean {
+    if (!ASTUtils.containsVariable(node, variable) || node.type === 'variable') {
+      return true;
+    }
+
+    const children = (node.children ?? []) as ASTNode[];
+    switch (node.type) {
+      case 'unary':
+        return node.value !== 'not' && IntegrationUtils.isPolynomial(children[0] as ASTNode, variable);
+      case 'binary':
+        switch (node.value) {
+          case '+':
+          case '-':
+          case '*':
+            return children.every(child => IntegrationUtils.isPolynomial(child, variable));
+          case '/':
+            return (
+              !ASTUtils.containsVariable(children[1] as ASTNode, variable) &&
+              IntegrationUtils.isPolynomial(children[0] as ASTNode, variable)
+            );
+          case '^': {
+            const exponent = ASTUtils.numericValue(children[1] as ASTNode);
+            return (
+              exponent !== null &&
+              exponent.isInteger() &&
+              !exponent.isNegative() &&
+              exponent.lte(IntegrationUtils.MAX_PARTS_DEGREE) &&
+              IntegrationUtils.isPolynomial(children[0] as ASTNode, variable)
+            );
+          }
+          default:
+            return false;
+        }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 判断是否为反复积分后形式不变的因子：e^u、c^u、sin(u)、cos(u)，u 为线性函数
+   */
+  private static isCyclic(node: ASTNode, variable: string): boolean {
+    const children = (node.children ?? []) as ASTNode[];
+
+    switch (node.type) {
+      case 'unary':
+        return IntegrationUtils.isCyclic(children[0] as ASTNode, variable);
+      case 'function':
+        return (
+          ['sin', 'cos', 'exp'].includes(String(node.value).toLowerCase()) &&
+          children.length === 1 &&
+          IntegrationUtils.linearSlope(children[0] as ASTNode, variable) !== null
+        );
+      case 'binary': {
+        const [left, right] = children as [ASTNode, ASTNode];
+        switch (node.value) {
+          case '*':
+            if (!ASTUtils.containsVariable(left, variable)) return IntegrationUtils.isCyclic(right, variable);
+            if (!ASTUtils.containsVariable(right, variable)) return IntegrationUtils.isCyclic(left, variable);
+            return false;
+          case '/':
+            return !ASTUtils.containsVariable(right, variable) && IntegrationUtils.isCyclic(left, variable);
+          case '^':
+            return (
+              !ASTUtils.containsVariable(left, variable) &&
+              IntegrationUtils.linearSlope(right, variable) !== null
+            );
+          default:
+            return false;
+        }
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 将数字或整数分式节点转换为最简分数 [p, q]（q > 0），否则返回 null
+   */
+  private static rationalValue(node: ASTNode): [Decimal, Decimal] | null {
+    const numeric = ASTUtils.numericValue(node);
+    if (numeric) {
+      const [p, q] = numeric.toFraction() as [Decimal, Decimal];
+      return p.dividedBy(q).equals(numeric) ? [p, q] : null;
+    }
+
+    if (node.type === 'unary' && node.value === '-' && node.children) {
+      const inner = IntegrationUtils.rationalValue(node.children[0] as ASTNode);
+      return inner ? [inner[0].negated(), inner[1]] : null;
+    }
+
+    if (node.type === 'binary' && node.value === '/' && node.children) {
+      const p = ASTUtils.numericValue(node.children[0] as ASTNode);
+      const q = ASTUtils.numericValue(node.children[1] as ASTNode);
+      if (p && q && p.isInteger() && q.isInteger() && !q.isZero()) {
+        const divisor = IntegrationUtils.gcd(p.abs(), q.abs());
+        const sign = q.isNegative() ? -1 : 1;
+        return [p.dividedBy(divisor).times(sign), q.abs().dividedBy(divisor)];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 构造最简分数节点 p/q
+   */
+  private static fraction(p: Decimal, q: Decimal): ASTNode {
+    const divisor = IntegrationUtils.gcd(p.abs(), q.abs());
+    const sign = q.isNegative() ? -1 : 1;
+    const numerator = p.dividedBy(divisor).times(sign);
+    const denominator = q.abs().dividedBy(divisor);
+
+    if (denominator.equals(1)) {
+      return ASTUtils.number(numerator);
+    }
+    const quotient = ASTUtils.divide(ASTUtils.number(numerator.abs()), ASTUtils.number(denominator));
+    return numerator.isNegative() ? ASTUtils.negate(quotient) : quotient;
+  }
+
+  /**
+   * 最大公约数（非负整数）
+   */
+  private static gcd(a: Decimal, b: Decimal): Decimal {
+    let x = a;
+    let y = b;
+    while (!y.isZero()) {
+      [x, y] = [y, x.modulo(y)];
+    }
+    return x.isZero() ? new Decimal(1) : x;
+  }
+}
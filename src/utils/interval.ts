@@ -0,0 +1,216 @@
+/**
+ * Interval Utilities
+ *
+ * 区间算术：四则运算按定向舍入（下界向下、上界向上）计算，初等函数的端点结果向外扩展一个末位单位，
+ * 保证结果区间严格包含所有可能的取值
+ */
+
+import { Decimal } from 'decimal.js';
+import { Interval, Rational } from '@/types';
+import { RationalMath } from './rational';
+
+/**
+ * 在指定舍入模式下计算，完成后恢复全局舍入模式
+ */
+const withRounding = <T>(rounding: Decimal.Rounding, fn: () => T): T => {
+  const previous = Decimal.rounding;
+  Decimal.set({ rounding });
+  try {
+    return fn();
+  } finally {
+    Decimal.set({ rounding: previous });
+  }
+};
+
+const down = <T>(fn: () => T): T => withRounding(Decimal.ROUND_FLOOR, fn);
+const up = <T>(fn: () => T): T => withRounding(Decimal.ROUND_CEIL, fn);
+
+/**
+ * 工作精度下的一个末位单位；有效数字未占满精度的结果视为精确，不需要扩展
+ */
+const ulp = (value: Decimal): Decimal =>
+  value.isZero() || value.sd() < Decimal.precision ? new Decimal(0) : new Decimal(10).pow(value.e - Decimal.precision + 1);
+
+export class IntervalMath {
+  /**
+   * 类型守卫：检查是否为区间
+   */
+  public static isInterval(value: unknown): value is Interval {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      (value as Interval).lower instanceof Decimal &&
+      (value as Interval).upper instanceof Decimal
+    );
+  }
+
+  /**
+   * 创建区间，下界不能大于上界
+   */
+  public static create(lower: Decimal.Value, upper: Decimal.Value): Interval {
+    const interval = { lower: new Decimal(lower), upper: new Decimal(upper) };
+    if (interval.lower.greaterThan(interval.upper)) {
+      throw new Error(`区间下界不能大于上界: [${interval.lower.toString()}, ${interval.upper.toString()}]`);
+    }
+    return interval;
+  }
+
+  /**
+   * 单点区间；分数按定向舍入得到包含它的最小区间
+   */
+  public static point(value: Decimal | Rational): Interval {
+    if (!RationalMath.isRational(value)) {
+      return { lower: value, upper: value };
+    }
+    const numerator = new Decimal(value.numerator.toString());
+    const denominator = new Decimal(value.denominator.toString());
+    return {
+      lower: down(() => numerator.dividedBy(denominator)),
+      upper: up(() => numerator.dividedBy(denominator)),
+    };
+  }
+
+  /**
+   * 端点结果向外扩展一个末位单位
+   */
+  public static outward(lower: Decimal, upper: Decimal): Interval {
+    return { lower: lower.minus(ulp(lower)), upper: upper.plus(ulp(upper)) };
+  }
+
+  public static contains(interval: Interval, value: Decimal.Value): boolean {
+    return interval.lower.lessThanOrEqualTo(value) && interval.upper.greaterThanOrEqualTo(value);
+  }
+
+  public static negate(a: Interval): Interval {
+    return { lower: a.upper.negated(), upper: a.lower.negated() };
+  }
+
+  public static add(a: Interval, b: Interval): Interval {
+    return { lower: down(() => a.lower.plus(b.lower)), upper: up(() => a.upper.plus(b.upper)) };
+  }
+
+  public static subtract(a: Interval, b: Interval): Interval {
+    return { lower: down(() => a.lower.minus(b.upper)), upper: up(() => a.upper.minus(b.lower)) };
+  }
+
+  /**
+   * 乘法取四个端点乘积的最小值和最大值
+   */
+  public static multiply(a: Interval, b: Interval): Interval {
+    return IntervalMath.corners(a, b, (x, y) => x.times(y));
+  }
+
+  /**
+   * 除法要求除数区间不含 0
+   */
+  public static divide(a: Interval, b: Interval): Interval {
+    if (IntervalMath.contains(b, 0)) {
+      throw new Error('除数区间包含 0');
+    }
+    return IntervalMath.corners(a, b, (x, y) => x.dividedBy(y));
+  }
+
+  /**
+   * 绝对值：区间跨过 0 时下界为 0
+   */
+  public static abs(a: Interval): Interval {
+    if (a.lower.greaterThanOrEqualTo(0)) {
+      return a;
+    }
+    if (a.upper.lessThanOrEqualTo(0)) {
+      return IntervalMath.negate(a);
+    }
+    return { lower: new Decimal(0), upper: Decimal.max(a.lower.negated(), a.upper) };
+  }
+
+  /**
+   * 幂：指数为单点整数时按奇偶分情况，其余情况要求底数非负，在 x^y 单调的四个角点上取最值
+   */
+  public static power(base: Interval, exponent: Interval): Interval {
+    const isPoint = exponent.lower.equals(exponent.upper);
+    if (isPoint && exponent.lower.isInteger()) {
+      return IntervalMath.integerPower(base, exponent.lower);
+    }
+    if (base.lower.isNegative()) {
+      throw new Error('非整数次幂要求底数区间非负');
+    }
+    if (base.lower.isZero() && exponent.lower.lessThanOrEqualTo(0)) {
+      throw new Error('0 的非正数次幂无定义');
+    }
+
+    const candidates = [base.lower, base.upper].flatMap(x => [exponent.lower, exponent.upper].map(y => x.pow(y)));
+    return IntervalMath.outward(Decimal.min(...candidates), Decimal.max(...candidates));
+  }
+
+  /**
+   * 正弦：端点之间包含 π/2 + 2kπ 时上界为 1，包含 -π/2 + 2kπ 时下界为 -1；参数为弧度
+   */
+  public static sin(a: Interval): Interval {
+    const pi = Decimal.acos(-1);
+    const halfPi = pi.dividedBy(2);
+    const containsPeak = (peak: Decimal): boolean => {
+      const k = a.lower.minus(peak).dividedBy(pi.times(2)).ceil();
+      return peak.plus(k.times(pi).times(2)).lessThanOrEqualTo(a.upper);
+    };
+
+    const ends = [a.lower.sin(), a.upper.sin()];
+    const bounds = IntervalMath.outward(Decimal.min(...ends), Decimal.max(...ends));
+    return {
+      lower: containsPeak(halfPi.negated()) ? new Decimal(-1) : Decimal.max(bounds.lower, -1),
+      upper: containsPeak(halfPi) ? new Decimal(1) : Decimal.min(bounds.upper, 1),
+    };
+  }
+
+  /**
+   * 余弦：cos x = sin(x + π/2)
+   */
+  public static cos(a: Interval): Interval {
+    const halfPi = Decimal.acos(-1).dividedBy(2);
+    return IntervalMath.sin({ lower: a.lower.plus(halfPi), upper: a.upper.plus(halfPi) });
+  }
+
+  /**
+   * 按元素取最大值或最小值，端点各自比较
+   */
+  public static max(intervals: Interval[]): Interval {
+    return {
+      lower: Decimal.max(...intervals.map(interval => interval.lower)),
+      upper: Decimal.max(...intervals.map(interval => interval.upper)),
+    };
+  }
+
+  public static min(intervals: Interval[]): Interval {
+    return {
+      lower: Decimal.min(...intervals.map(interval => interval.lower)),
+      upper: Decimal.min(...intervals.map(interval => interval.upper)),
+    };
+  }
+
+  private static integerPower(base: Interval, exponent: Decimal): Interval {
+    if (exponent.isZero()) {
+      return { lower: new Decimal(1), upper: new Decimal(1) };
+    }
+    if (exponent.isNegative()) {
+      return IntervalMath.divide(IntervalMath.point(new Decimal(1)), IntervalMath.integerPower(base, exponent.negated()));
+    }
+
+    // 偶数次幂关于 0 对称，先取绝对值再按单调递增计算
+    const isEven = exponent.modulo(2).isZero();
+    const monotone = isEven ? IntervalMath.abs(base) : base;
+    return {
+      lower: down(() => monotone.lower.pow(exponent)),
+      upper: up(() => monotone.upper.pow(exponent)),
+    };
+  }
+
+  /**
+   * 在四个端点组合上按定向舍入计算，取下界的最小值和上界的最大值
+   */
+  private static corners(a: Interval, b: Interval, fn: (x: Decimal, y: Decimal) => Decimal): Interval {
+    const pairs = [a.lower, a.upper].flatMap(x => [b.lower, b.upper].map((y): [Decimal, Decimal] => [x, y]));
+    return {
+      lower: Decimal.min(...down(() => pairs.map(([x, y]) => fn(x, y)))),
+      upper: Decimal.max(...up(() => pairs.map(([x, y]) => fn(x, y)))),
+    };
+  }
+}
@@ -0,0 +1,644 @@
+/**
+ * LaTeX Input Utilities
+ *
+ * 将论文、网页中复制的 LaTeX 公式解析为与 ExpressionModel 相同结构的AST，
+ * 如 \frac{a}{b}、\sqrt[n]{x}、\sin^2 x、\left( \right)、e^{x}
+ */
+
+import { ASTNode } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+
+// 带位置信息的 LaTeX 语法错误，position 和 length 对应原始输入
+export class LatexSyntaxError extends Error {
+  constructor(message: string, public position: number, public length: number = 0) {
+    super(message);
+    this.name = 'LatexSyntaxError';
+  }
+}
+
+export interface LatexParseOptions {
+  functions?: string[]; // 用户自定义函数名，f(x) 按函数调用解析
+}
+
+interface LatexToken {
+  kind: 'number' | 'letter' | 'command' | 'symbol';
+  value: string;
+  position: number;
+}
+
+// 与计算器同名的函数命令，以及映射到计算器函数名的命令
+const FUNCTION_COMMANDS: Record<string, string> = {
+  sin: 'sin', cos: 'cos', tan: 'tan',
+  arcsin: 'asin', arccos: 'acos', arctan: 'atan',
+  ln: 'ln', log: 'log', exp: 'exp', max: 'max', min: 'min', det: 'det',
+};
+
+// 计算器支持的函数名，可通过 \operatorname{} 或 \mathrm{} 书写
+const FUNCTION_NAMES = [
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan',
+  'ln', 'log', 'sqrt', 'abs', 'ceil', 'floor', 'round',
+  'exp', 'pow', 'max', 'min',
+  'sum', 'prod', 'count', 'mean', 'median', 'var', 'stdev', 'sort',
+  'det', 'inv', 'transpose', 'trace', 'rank', 'limit', 'series', 'if', 'piecewise',
+];
+
+// 上标 -1 表示反函数，如 \sin^{-1} x
+const INVERSE_FUNCTIONS: Record<string, string> = {
+  sin: 'asin',
+  cos: 'acos',
+  tan: 'atan',
+};
+
+// 希腊字母作为变量名，\pi 除外
+const GREEK_LETTERS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta',
+  'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi',
+  'chi', 'psi', 'omega',
+];
+
+// 只影响排版的命令，解析时忽略
+const IGNORED_COMMANDS = [
+  ',', ';', ':', '!', ' ', 'quad', 'qquad', 'displaystyle', 'textstyle',
+  'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'biggl', 'biggr', 'Biggl', 'Biggr',
+];
+
+// 定界符命令统一为符号，\left 和 \right 本身忽略
+const DELIMITER_COMMANDS: Record<string, string> = {
+  '{': '(', '}': ')', lvert: '|', rvert: '|', vert: '|',
+  lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+};
+
+// 成对的定界符，及其对应的函数（绝对值、取整）
+const CLOSING_DELIMITERS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '|': '|', '⌊': '⌋', '⌈': '⌉' };
+const DELIMITER_FUNCTIONS: Record<string, string> = { '|': 'abs', '⌊': 'floor', '⌈': 'ceil' };
+
+// 与 ExpressionModel 一致：超过双精度有效位数的字面量保留字符串
+const MAX_NUMBER_DIGITS = 15;
+
+export class LatexParser {
+  private tokens: LatexToken[] = [];
+  private cursor = 0;
+  private closers: string[] = []; // 当前等待的右定界符，用于区分 | 的开合
+
+  private constructor(private readonly input: string, private readonly options: LatexParseOptions) {}
+
+  /**
+   * 判断输入是否为 LaTeX：含有 \命令，或 ^{ _{ 形式的分组
+   */
+  public static isLaTeX(input: string): boolean {
+    return /\\[a-zA-Z,;:!{}|]|[\^_]\{/.test(input);
+  }
+
+  /**
+   * 解析 LaTeX 为AST，语法错误抛出 LatexSyntaxError
+   */
+  public static parse(input: string, options: LatexParseOptions = {}): ASTNode {
+    const parser = new LatexParser(input, options);
+    parser.tokens = parser.tokenize();
+    if (parser.tokens.length === 0) {
+      throw new LatexSyntaxError('表达式不能为空', 0);
+    }
+
+    const ast = parser.parseStatement();
+    const leftover = parser.peek();
+    if (leftover) {
+      throw new LatexSyntaxError(`意外的符号: ${leftover.value}`, leftover.position, leftover.value.length);
+    }
+    return ast;
+  }
+
+  /**
+   * 转换为计算器的中缀表达式输入
+   */
+  public static toInput(input: string, options: LatexParseOptions = {}): string {
+    return ASTUtils.toString(LatexParser.parse(input, options));
+  }
+
+  private tokenize(): LatexToken[] {
+    const tokens: LatexToken[] = [];
+    const input = this.input;
+    let position = 0;
+
+    while (position < input.length) {
+      const char = input.charAt(position);
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      if (/\d/.test(char) || (char === '.' && /\d/.test(input.charAt(position + 1)))) {
+        const match = /^(\d+\.?\d*|\.\d+)/.exec(input.slice(position)) as RegExpExecArray;
+        tokens.push({ kind: 'number', value: match[0], position });
+        position += match[0].length;
+        continue;
+      }
+
+      if (/[a-zA-Z]/.test(char)) {
+        tokens.push({ kind: 'letter', value: char, position });
+        position++;
+        continue;
+      }
+
+      if (char === '\\') {
+        const match = /^\\([a-zA-Z]+|.)/.exec(input.slice(position));
+        const name = match?.[1] ?? '';
+        const length = name.length + 1;
+
+        if (name === 'left' || name === 'right' || IGNORED_COMMANDS.includes(name)) {
+          // \left. 和 \right. 表示不显示的定界符
+          if ((name === 'left' || name === 'right') && input.charAt(position + length) === '.') {
+            position++;
+          }
+        } else if (DELIMITER_COMMANDS[name]) {
+          tokens.push({ kind: 'symbol', value: DELIMITER_COMMANDS[name] as string, position });
+        } else {
+          tokens.push({ kind: 'command', value: name, position });
+        }
+        position += length;
+        continue;
+      }
+
+      tokens.push({ kind: 'symbol', value: char, position });
+      position++;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 语句：表达式，或以 = 连接的方程
+   */
+  private parseStatement(): ASTNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token && this.isSymbol(token, '=')) {
+      this.cursor++;
+      const right = this.parseAdditive();
+      return { type: 'equation', value: '=', children: [left, right], position: token.position };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ASTNode {
+    let left = this.parseMultiplicative();
+
+    let token = this.peek();
+    while (token && this.isSymbol(token, '+', '-')) {
+      this.cursor++;
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', value: token.value, children: [left, right], position: token.position };
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  /**
+   * 乘除：* / \cdot \times \div，以及 2x、2\pi、\frac{1}{2}x 形式的隐式乘法
+   */
+  private parseMultiplicative(): ASTNode {
+    let left = this.parseUnary();
+
+    let token = this.peek();
+    while (token) {
+      const operator = this.multiplicativeOperator(token);
+      if (operator) {
+        this.cursor++;
+        const right = this.parseUnary();
+        left = { type: 'binary', value: operator, children: [left, right], position: token.position };
+      } else if (this.startsImplicitOperand(token)) {
+        const right = this.parsePower();
+        left = { type: 'binary', value: '*', children: [left, right], position: token.position };
+      } else {
+        break;
+      }
+      token = this.peek();
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ASTNode {
+    const token = this.peek();
+    if (token && this.isSymbol(token, '+', '-')) {
+      this.cursor++;
+      const operand = this.parseUnary();
+      return { type: 'unary', value: token.value, children: [operand], position: token.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ASTNode {
+    const base = this.parsePrimary();
+
+    const token = this.peek();
+    if (token && this.isSymbol(token, '^')) {
+      this.cursor++;
+      const exponent = this.parseScript();
+      return { type: 'binary', value: '^', children: [base, exponent], position: token.position };
+    }
+
+    return base;
+  }
+
+  /**
+   * 上标或下标：{...} 分组，或单个字符（x^23 的指数只有 2）
+   */
+  private parseScript(): ASTNode {
+    const token = this.peek();
+    if (!token) {
+      throw new LatexSyntaxError('上标或下标缺少内容', this.input.length);
+    }
+
+    if (this.isSymbol(token, '{')) {
+      return this.parseGroup('{');
+    }
+
+    // 未加括号的负指数，如 x^-1
+    if (this.isSymbol(token, '-')) {
+      this.cursor++;
+      return { type: 'unary', value: '-', children: [this.parseScript()], position: token.position };
+    }
+
+    if (token.kind === 'number' && token.value.length > 1) {
+      this.tokens.splice(this.cursor, 1,
+        { kind: 'number', value: token.value.charAt(0), position: token.position },
+        { kind: 'number', value: token.value.slice(1), position: token.position + 1 });
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ASTNode {
+    const token = this.peek();
+    if (!token) {
+      throw new LatexSyntaxError('意外的表达式结束', this.input.length);
+    }
+
+    switch (token.kind) {
+      case 'number':
+        this.cursor++;
+        return { type: 'number', value: this.parseNumericLiteral(token.value), position: token.position };
+
+      case 'letter':
+        return this.parseLetter();
+
+      case 'command':
+        return this.parseCommand();
+
+      default:
+        if (CLOSING_DELIMITERS[token.value] && !this.isClosing(token)) {
+          return this.parseDelimited();
+        }
+        throw new LatexSyntaxError(
+          this.isSymbol(token, '+', '-', '*', '/', '^', '=')
+            ? `运算符 ${token.value} 缺少操作数`
+            : `意外的符号: ${token.value}`,
+          token.position,
+          token.value.length
+        );
+    }
+  }
+
+  /**
+   * 单个字母：e 为常数，其余为变量（可带下标，如 x_1）；用户函数名后接括号时为函数调用
+   */
+  private parseLetter(): ASTNode {
+    const token = this.advance();
+    const next = this.peek();
+
+    if (next && this.isSymbol(next, '(') && (this.options.functions ?? []).includes(token.value)) {
+      return { type: 'function', value: token.value, children: this.parseArguments(token.value), position: token.position };
+    }
+
+    if (next && this.isSymbol(next, '_')) {
+      this.cursor++;
+      return { type: 'variable', value: token.value + this.parseSubscriptName(), position: token.position };
+    }
+
+    return token.value === 'e'
+      ? { type: 'constant', value: 'e', position: token.position }
+      : { type: 'variable', value: token.value, position: token.position };
+  }
+
+  private parseCommand(): ASTNode {
+    const token = this.advance();
+    const name = token.value;
+
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac': {
+        const numerator = this.parseRequiredGroup(name);
+        const denominator = this.parseRequiredGroup(name);
+        return { type: 'binary', value: '/', children: [numerator, denominator], position: token.position };
+      }
+
+      case 'sqrt':
+        return this.parseRoot(token);
+
+      case 'pi':
+        return { type: 'constant', value: 'π', position: token.position };
+
+      case 'cdot':
+      case 'times':
+      case 'div':
+        throw new LatexSyntaxError(`运算符 \\${name} 缺少操作数`, token.position, name.length + 1);
+
+      case 'operatorname':
+      case 'mathrm':
+      case 'text': {
+        const identifier = this.parseName(name);
+        if (FUNCTION_NAMES.includes(identifier) || (this.options.functions ?? []).includes(identifier)) {
+          return this.parseFunction(identifier, token);
+        }
+        return identifier === 'e'
+          ? { type: 'constant', value: 'e', position: token.position }
+          : { type: 'variable', value: identifier, position: token.position };
+      }
+    }
+
+    const functionName = FUNCTION_COMMANDS[name];
+    if (functionName) {
+      return this.parseFunction(functionName, token);
+    }
+
+    if (GREEK_LETTERS.includes(name)) {
+      return { type: 'variable', value: name.replace(/^var/, ''), position: token.position };
+    }
+
+    throw new LatexSyntaxError(`不支持的 LaTeX 命令: \\${name}`, token.position, name.length + 1);
+  }
+
+  /**
+   * \sqrt{x} 为平方根，\sqrt[n]{x} 为 x^(1/n)
+   */
+  private parseRoot(token: LatexToken): ASTNode {
+    const next = this.peek();
+    let index: ASTNode | null = null;
+    if (next && this.isSymbol(next, '[')) {
+      index = this.parseGroup('[');
+    }
+
+    const radicand = this.parseRequiredGroup('sqrt');
+    if (!index || ASTUtils.isNumber(index, 2)) {
+      return { type: 'function', value: 'sqrt', children: [radicand], position: token.position };
+    }
+
+    const exponent: ASTNode = {
+      type: 'binary',
+      value: '/',
+      children: [{ type: 'number', value: 1, position: token.position }, index],
+      position: token.position,
+    };
+    return { type: 'binary', value: '^', children: [radicand, exponent], position: token.position };
+  }
+
+  /**
+   * 函数：可带底数（\log_2 x）和上标（\sin^2 x 为 sin(x)^2，\sin^{-1} x 为反函数），
+   * 参数可以加括号，也可以是紧随的乘积（\sin 2x 为 sin(2x)）
+   */
+  private parseFunction(name: string, token: LatexToken): ASTNode {
+    let base: ASTNode | null = null;
+    let exponent: ASTNode | null = null;
+
+    for (let next = this.peek(); next && this.isSymbol(next, '_', '^'); next = this.peek()) {
+      this.cursor++;
+      if (next.value === '_') {
+        base = this.parseScript();
+      } else {
+        exponent = this.parseScript();
+      }
+    }
+
+    let functionName = name;
+    if (exponent && INVERSE_FUNCTIONS[name] && this.isNegativeOne(exponent)) {
+      functionName = INVERSE_FUNCTIONS[name] as string;
+      exponent = null;
+    }
+
+    const next = this.peek();
+    const args = next && this.isSymbol(next, '(')
+      ? this.parseArguments(functionName)
+      : [next && this.isSymbol(next, '{') ? this.parseGroup('{') : this.parseImplicitArgument(functionName)];
+
+    let call: ASTNode = { type: 'function', value: functionName, children: args, position: token.position };
+
+    // 其他底数的对数用换底公式表示，log_10 即 log
+    if (base && functionName === 'log' && !ASTUtils.isNumber(base, 10)) {
+      call = {
+        type: 'binary',
+        value: '/',
+        children: [
+          { type: 'function', value: 'ln', children: args, position: token.position },
+          { type: 'function', value: 'ln', children: [base], position: token.position },
+        ],
+        position: token.position,
+      };
+    } else if (base && functionName !== 'log') {
+      throw new LatexSyntaxError(`函数 ${functionName} 不能带下标`, token.position, token.value.length + 1);
+    }
+
+    return exponent
+      ? { type: 'binary', value: '^', children: [call, exponent], position: token.position }
+      : call;
+  }
+
+  /**
+   * 不加括号的函数参数：可带符号的隐式乘积，遇到运算符或下一个函数命令时结束
+   */
+  private parseImplicitArgument(name: string): ASTNode {
+    const token = this.peek();
+    if (!token) {
+      throw new LatexSyntaxError(`函数 ${name} 缺少参数`, this.input.length);
+    }
+
+    if (this.isSymbol(token, '+', '-')) {
+      this.cursor++;
+      return { type: 'unary', value: token.value, children: [this.parseImplicitArgument(name)], position: token.position };
+    }
+
+    let argument = this.parsePower();
+    for (let next = this.peek(); next && this.startsImplicitOperand(next) && !this.isFunctionCommand(next); next = this.peek()) {
+      argument = { type: 'binary', value: '*', children: [argument, this.parsePower()], position: next.position };
+    }
+    return argument;
+  }
+
+  /**
+   * 括号内以逗号分隔的参数列表
+   */
+  private parseArguments(name: string): ASTNode[] {
+    const open = this.advance();
+    this.closers.push(')');
+
+    const args = [this.parseAdditive()];
+    for (let next = this.peek(); next && this.isSymbol(next, ','); next = this.peek()) {
+      this.cursor++;
+      args.push(this.parseAdditive());
+    }
+
+    this.closers.pop();
+    this.expect(')', `函数 ${name} 缺少右括号`, open);
+    return args;
+  }
+
+  /**
+   * 定界符内的表达式：括号、方括号和花括号为分组，|x| 为绝对值，⌊x⌋ ⌈x⌉ 为取整
+   */
+  private parseDelimited(): ASTNode {
+    const open = this.peek() as LatexToken;
+    const inner = this.parseGroup(open.value);
+    const functionName = DELIMITER_FUNCTIONS[open.value];
+    return functionName
+      ? { type: 'function', value: functionName, children: [inner], position: open.position }
+      : inner;
+  }
+
+  private parseGroup(openSymbol: string): ASTNode {
+    const open = this.advance();
+    const closing = CLOSING_DELIMITERS[openSymbol] as string;
+    this.closers.push(closing);
+
+    const next = this.peek();
+    if (next && this.isSymbol(next, closing)) {
+      throw new LatexSyntaxError('括号内缺少表达式', next.position, next.value.length);
+    }
+    const inner = this.parseAdditive();
+
+    this.closers.pop();
+    this.expect(closing, `缺少 ${closing}`, open);
+    return inner;
+  }
+
+  private parseRequiredGroup(command: string): ASTNode {
+    const next = this.peek();
+    if (!next || !this.isSymbol(next, '{')) {
+      throw new LatexSyntaxError(
+        `\\${command} 的参数需要用 {} 括起`,
+        next ? next.position : this.input.length,
+        next ? next.value.length : 0
+      );
+    }
+    return this.parseGroup('{');
+  }
+
+  /**
+   * \operatorname{name}、\mathrm{name} 中的名称，只允许字母和数字
+   */
+  private parseName(command: string): string {
+    const open = this.peek();
+    if (!open || !this.isSymbol(open, '{')) {
+      throw new LatexSyntaxError(`\\${command} 的参数需要用 {} 括起`, open ? open.position : this.input.length);
+    }
+    this.cursor++;
+
+    let name = '';
+    for (let next = this.peek(); next && (next.kind === 'letter' || next.kind === 'number'); next = this.peek()) {
+      name += next.value;
+      this.cursor++;
+    }
+
+    this.expect('}', `\\${command} 缺少 }`, open);
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(name)) {
+      throw new LatexSyntaxError(`\\${command} 中的名称无效`, open.position);
+    }
+    return name;
+  }
+
+  /**
+   * 变量下标，如 x_1、x_{12}、v_{max}，拼接为变量名
+   */
+  private parseSubscriptName(): string {
+    const token = this.peek();
+    if (token && this.isSymbol(token, '{')) {
+      return this.parseName('_');
+    }
+    if (token && (token.kind === 'letter' || token.kind === 'number')) {
+      this.cursor++;
+      return token.value.charAt(0);
+    }
+    throw new LatexSyntaxError('下标缺少内容', token ? token.position : this.input.length);
+  }
+
+  private multiplicativeOperator(token: LatexToken): string | null {
+    if (this.isSymbol(token, '*', '/')) {
+      return token.value;
+    }
+    if (token.kind === 'command') {
+      switch (token.value) {
+        case 'cdot':
+        case 'times':
+          return '*';
+        case 'div':
+          return '/';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 能否作为隐式乘法的右操作数：字母、命令、左定界符（不含正在等待的右 |），
+   * 以及不紧跟数字的数字，如 x^23 中的 3 或 \frac{1}{2}3
+   */
+  private startsImplicitOperand(token: LatexToken): boolean {
+    switch (token.kind) {
+      case 'letter':
+        return true;
+      case 'number': {
+        const previous = this.tokens[this.cursor - 1];
+        const script = this.tokens[this.cursor - 2];
+        return previous?.kind !== 'number' || (script !== undefined && this.isSymbol(script, '^', '_'));
+      }
+      case 'command':
+        return this.multiplicativeOperator(token) === null;
+      case 'symbol':
+        return Boolean(CLOSING_DELIMITERS[token.value]) && !this.isClosing(token);
+      default:
+        return false;
+    }
+  }
+
+  private isFunctionCommand(token: LatexToken): boolean {
+    return token.kind === 'command' &&
+      (Boolean(FUNCTION_COMMANDS[token.value]) || token.value === 'operatorname');
+  }
+
+  private isClosing(token: LatexToken): boolean {
+    return this.closers[this.closers.length - 1] === token.value && token.value === '|';
+  }
+
+  private isNegativeOne(node: ASTNode): boolean {
+    return node.type === 'unary' && node.value === '-' && ASTUtils.isNumber((node.children ?? [])[0] as ASTNode, 1);
+  }
+
+  private parseNumericLiteral(literal: string): number | string {
+    const significantDigits = literal.replace('.', '').replace(/^0+/, '').length;
+    return significantDigits > MAX_NUMBER_DIGITS ? literal : parseFloat(literal);
+  }
+
+  private peek(): LatexToken | undefined {
+    return this.tokens[this.cursor];
+  }
+
+  private advance(): LatexToken {
+    const token = this.tokens[this.cursor];
+    if (!token) {
+      throw new LatexSyntaxError('意外的表达式结束', this.input.length);
+    }
+    this.cursor++;
+    return token;
+  }
+
+  private expect(symbol: string, message: string, open: LatexToken): void {
+    const token = this.peek();
+    if (!token || !this.isSymbol(token, symbol)) {
+      throw new LatexSyntaxError(message, open.position, open.value.length);
+    }
+    this.cursor++;
+  }
+
+  private isSymbol(token: LatexToken, ...symbols: string[]): boolean {
+    return token.kind === 'symbol' && symbols.includes(token.value);
+  }
+}
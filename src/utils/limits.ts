@@ -0,0 +1,678 @@
+/**
+ * Limit Utilities
+ *
+ * 极限 lim_{x→a} f(x)：先尝试常见的标准极限、直接代入和 ∞ 处的主项分析，不定式 0/0、∞/∞ 用洛必达法则，
+ * 0·∞ 化为商，1^∞、0^0、∞^0 取对数，趋于 0 的量乘以有界量用夹逼定理；
+ * 以上都无法确定时在趋近点附近取值做 Richardson 外推
+ */
+
+import { ASTNode } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { DifferentiationUtils } from '@/utils/differentiation';
+import { SimplificationUtils } from '@/utils/simplification';
+
+export type LimitDirection = 'left' | 'right' | 'both';
+
+export type LimitMethod = 'substitution' | 'dominant' | 'standard' | 'squeeze' | 'lhopital' | 'numeric';
+
+// 在 x 处计算 node 的实数值，三角函数按弧度；无定义时返回 NaN
+export type PointEvaluator = (node: ASTNode, x: number) => number;
+
+export interface LimitResult {
+  value: number; // ±Infinity 表示趋于无穷，NaN 表示极限不存在
+  left: number | null; // 左极限，趋近点为 -∞ 或函数在左侧无定义时为 null
+  right: number | null; // 右极限，趋近点为 +∞ 或函数在右侧无定义时为 null
+  method: LimitMethod;
+  reason: string | null; // 极限不存在的原因，如函数振荡或左右极限不相等
+}
+
+// 单侧极限及所用的方法，极限不存在时附带原因
+interface Approach {
+  value: number;
+  method: LimitMethod;
+  reason?: string;
+}
+
+// 单侧趋近：point 可以是 ±Infinity，side 为 -1 表示从左侧、1 表示从右侧
+interface LimitContext {
+  variable: string;
+  point: number;
+  side: -1 | 1;
+  evaluate: PointEvaluator;
+}
+
+// ∞ 处的主项 coefficient·x^order，恒为 0 时 order 为 -Infinity
+interface Growth {
+  order: number;
+  coefficient: number;
+}
+
+// 方法按可靠程度排列，组合多个子极限时取最后一个
+const METHOD_RANK: LimitMethod[] = ['substitution', 'dominant', 'standard', 'squeeze', 'lhopital', 'numeric'];
+
+// 形如 f(u)/u、u 趋于 0 时极限为 1 的函数
+const UNIT_RATIO_FUNCTIONS = ['sin', 'tan', 'asin', 'atan'];
+
+// 在整数点不连续的函数，不能直接代入子极限
+const STEP_FUNCTIONS = ['floor', 'ceil', 'round'];
+
+// 极限不存在的原因
+const UNDEFINED_NEARBY = '函数在趋近点附近无定义';
+const OSCILLATING = '函数振荡，不趋于确定的值';
+const SIDES_DIFFER = '左右极限不相等';
+
+// 值域有界的函数及其绝对值的上界
+const BOUNDED_FUNCTIONS: Record<string, number> = {
+  sin: 1,
+  cos: 1,
+  atan: Math.PI / 2,
+};
+
+export class LimitUtils {
+  // 洛必达法则和递归分析的最大深度
+  private static readonly MAX_DEPTH = 8;
+  // 数值外推的取样级数
+  private static readonly NUMERIC_LEVELS = 12;
+  private static readonly TOLERANCE = 1e-9;
+  // 数值外推只精确到约 6 位有效数字，比较其左右极限时放宽容差
+  private static readonly NUMERIC_TOLERANCE = 1e-6;
+
+  /**
+   * 计算 x 趋于 point 时 node 的极限，point 可以是 ±Infinity；双侧极限要求左右极限相等，
+   * 函数只在一侧有定义时（如 sqrt(x)、x·ln(x) 在 0 处）取该侧的极限
+   */
+  public static limit(
+    node: ASTNode,
+    variable: string,
+    point: number,
+    direction: LimitDirection,
+    evaluate: PointEvaluator
+  ): LimitResult {
+    if (Number.isNaN(point)) {
+      throw new Error('趋近点无效');
+    }
+
+    const oneSided = (side: -1 | 1): Approach | null =>
+      LimitUtils.oneSided(node, { variable, point, side, evaluate });
+
+    if (point === Infinity || point === -Infinity) {
+      const result: Approach = oneSided(point === Infinity ? -1 : 1) ?? { value: NaN, method: 'numeric', reason: UNDEFINED_NEARBY };
+      return {
+        value: result.value,
+        left: point === Infinity ? result.value : null,
+        right: point === Infinity ? null : result.value,
+        method: result.method,
+        reason: result.reason ?? null,
+      };
+    }
+
+    const left = direction === 'right' ? null : oneSided(-1);
+    const right = direction === 'left' ? null : oneSided(1);
+    const sides = [left, right].filter((side): side is Approach => side !== null);
+    const [first, second] = sides as [Approach | undefined, Approach | undefined];
+    if (!first) {
+      return { value: NaN, left: null, right: null, method: 'numeric', reason: UNDEFINED_NEARBY };
+    }
+
+    const tolerance = sides.some(side => side.method === 'numeric') ? LimitUtils.NUMERIC_TOLERANCE : LimitUtils.TOLERANCE;
+    const agree = !second || LimitUtils.close(first.value, second.value, tolerance);
+    const missing = sides.find(side => Number.isNaN(side.value));
+
+    return {
+      value: agree ? first.value : NaN,
+      left: left ? left.value : null,
+      right: right ? right.value : null,
+      method: LimitUtils.combine(...sides.map(side => side.method)),
+      reason: missing ? missing.reason ?? null : agree ? null : SIDES_DIFFER,
+    };
+  }
+
+  /**
+   * 单侧极限：函数在趋近的一侧无定义时返回 null，符号方法都失败时数值外推
+   */
+  private static oneSided(node: ASTNode, context: LimitContext): Approach | null {
+    if (Number.isFinite(context.point)) {
+      const defined = [1e-3, 1e-6].some(scale => Number.isFinite(context.evaluate(node, LimitUtils.near(context, scale))));
+      if (!defined) {
+        return null;
+      }
+    }
+    const result = LimitUtils.approach(node, context, 0) ?? LimitUtils.numeric(node, context);
+    // -0 与 0 不作区分
+    return result.value === 0 ? { ...result, value: 0 } : result;
+  }
+
+  private static approach(node: ASTNode, context: LimitContext, depth: number): Approach | null {
+    if (!ASTUtils.containsVariable(node, context.variable)) {
+      const value = context.evaluate(node, 0);
+      return Number.isNaN(value) ? null : { value, method: 'substitution' };
+    }
+    if (depth > LimitUtils.MAX_DEPTH) {
+      return null;
+    }
+
+    return (
+      LimitUtils.standard(node, context, depth) ??
+      LimitUtils.substitute(node, context) ??
+      LimitUtils.dominant(node, context) ??
+      LimitUtils.structural(node, context, depth)
+    );
+  }
+
+  /**
+   * 标准极限（u → 0）：sin u/u、tan u/u、arcsin u/u、arctan u/u、(eᵘ - 1)/u、ln(1 + u)/u 趋于 1，
+   * (1 - cos u)/u² 趋于 1/2，以及前几种的倒数
+   */
+  private static standard(node: ASTNode, context: LimitContext, depth: number): Approach | null {
+    if (node.type !== 'binary' || node.value !== '/') {
+      return null;
+    }
+
+    const [numerator, denominator] = node.children as [ASTNode, ASTNode];
+    const match = LimitUtils.standardRatio(numerator, denominator) ??
+      LimitUtils.standardRatio(denominator, numerator, true);
+    if (!match) {
+      return null;
+    }
+
+    const [u, value] = match;
+    const inner = LimitUtils.approach(u, context, depth + 1);
+    return inner && inner.value === 0 ? { value, method: 'standard' } : null;
+  }
+
+  /**
+   * 匹配标准极限的分子分母，返回 [u, 极限值]；reciprocal 为 true 时只匹配极限为 1 的形式
+   */
+  private static standardRatio(numerator: ASTNode, denominator: ASTNode, reciprocal = false): [ASTNode, number] | null {
+    const argument = (node: ASTNode, names: string[]): ASTNode | null =>
+      node.type === 'function' && names.includes(String(node.value).toLowerCase()) && node.children?.length === 1
+        ? (node.children[0] as ASTNode)
+        : null;
+    const exponential = (node: ASTNode): ASTNode | null => {
+      if (node.type === 'binary' && (node.value === '^' || node.value === '**')) {
+        const [base, exponent] = node.children as [ASTNode, ASTNode];
+        return base.type === 'constant' && base.value === 'e' ? exponent : null;
+      }
+      return argument(node, ['exp']);
+    };
+    const minusOne = (node: ASTNode): ASTNode | null =>
+      node.type === 'binary' && node.value === '-' && ASTUtils.isNumber((node.children as [ASTNode, ASTNode])[1], 1)
+        ? (node.children as [ASTNode, ASTNode])[0]
+        : null;
+    const onePlus = (node: ASTNode): ASTNode | null => {
+      if (node.type !== 'binary' || node.value !== '+') {
+        return null;
+      }
+      const [left, right] = node.children as [ASTNode, ASTNode];
+      return ASTUtils.isNumber(left, 1) ? right : ASTUtils.isNumber(right, 1) ? left : null;
+    };
+    const same = (u: ASTNode | null): u is ASTNode => u !== null && ASTUtils.equals(u, denominator);
+
+    const trigonometric = argument(numerator, UNIT_RATIO_FUNCTIONS);
+    if (same(trigonometric)) {
+      return [trigonometric, 1];
+    }
+    const shifted = minusOne(numerator);
+    const exponent = shifted && exponential(shifted);
+    if (same(exponent)) {
+      return [exponent, 1];
+    }
+    const logarithm = argument(numerator, ['ln']);
+    const increment = logarithm && onePlus(logarithm);
+    if (same(increment)) {
+      return [increment, 1];
+    }
+
+    // (1 - cos u)/u²
+    if (!reciprocal && numerator.type === 'binary' && numerator.value === '-') {
+      const [one, cosine] = numerator.children as [ASTNode, ASTNode];
+      const u = argument(cosine, ['cos']);
+      const square = ASTUtils.power(u ?? denominator, ASTUtils.number(2));
+      if (ASTUtils.isNumber(one, 1) && u && ASTUtils.equals(square, denominator)) {
+        return [u, 0.5];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 直接代入：函数在有限的趋近点有定义，且在趋近一侧的邻近点取值接近
+   */
+  private static substitute(node: ASTNode, context: LimitContext): Approach | null {
+    if (!Number.isFinite(context.point)) {
+      return null;
+    }
+    const value = context.evaluate(node, context.point);
+    const nearby = context.evaluate(node, LimitUtils.near(context, 1e-7));
+    if (!Number.isFinite(value) || !Number.isFinite(nearby)) {
+      return null;
+    }
+    return Math.abs(nearby - value) <= 1e-5 * Math.max(1, Math.abs(value)) ? { value, method: 'substitution' } : null;
+  }
+
+  /**
+   * ∞ 处的主项分析：多项式、有理函数和根式按最高次项决定极限
+   */
+  private static dominant(node: ASTNode, context: LimitContext): Approach | null {
+    if (Number.isFinite(context.point)) {
+      return null;
+    }
+    const growth = LimitUtils.growth(node, context);
+    if (!growth) {
+      return null;
+    }
+
+    const { order, coefficient } = growth;
+    if (order < 0 || coefficient === 0) {
+      return { value: 0, method: 'dominant' };
+    }
+    if (order === 0) {
+      return { value: coefficient, method: 'dominant' };
+    }
+    // 趋于 -∞ 时 x^order 的符号由次数的奇偶性决定，非整数次无定义
+    if (context.point < 0 && !Number.isInteger(order)) {
+      return null;
+    }
+    const sign = context.point < 0 && order % 2 !== 0 ? -Math.sign(coefficient) : Math.sign(coefficient);
+    return { value: sign * Infinity, method: 'dominant' };
+  }
+
+  /**
+   * 主项 c·x^p；同次项相互抵消或含有其他函数时返回 null
+   */
+  private static growth(node: ASTNode, context: LimitContext): Growth | null {
+    if (!ASTUtils.containsVariable(node, context.variable)) {
+      const value = context.evaluate(node, 0);
+      if (!Number.isFinite(value)) {
+        return null;
+      }
+      return value === 0 ? { order: -Infinity, coefficient: 0 } : { order: 0, coefficient: value };
+    }
+
+    const children = node.children ?? [];
+    switch (node.type) {
+      case 'variable':
+        return { order: 1, coefficient: 1 };
+
+      case 'unary': {
+        if (node.value === 'not') {
+          return null;
+        }
+        const operand = LimitUtils.growth(children[0] as ASTNode, context);
+        return operand && node.value === '-' ? { ...operand, coefficient: -operand.coefficient } : operand;
+      }
+
+      case 'function':
+        if (String(node.value).toLowerCase() === 'sqrt' && children.length === 1) {
+          return LimitUtils.growthPower(LimitUtils.growth(children[0] as ASTNode, context), 0.5);
+        }
+        return null;
+
+      case 'binary': {
+        const [leftNode, rightNode] = children as [ASTNode, ASTNode];
+        if (node.value === '^' || node.value === '**') {
+          if (ASTUtils.containsVariable(rightNode, context.variable)) {
+            return null;
+          }
+          return LimitUtils.growthPower(LimitUtils.growth(leftNode, context), context.evaluate(rightNode, 0));
+        }
+
+        const left = LimitUtils.growth(leftNode, context);
+        const right = LimitUtils.growth(rightNode, context);
+        if (!left || !right) {
+          return null;
+        }
+        switch (node.value) {
+          case '+':
+          case '-': {
+            const sign = node.value === '+' ? 1 : -1;
+            if (left.order !== right.order) {
+              return left.order > right.order ? left : { ...right, coefficient: sign * right.coefficient };
+            }
+            const coefficient = left.coefficient + sign * right.coefficient;
+            return coefficient === 0 && left.coefficient !== 0 ? null : { order: left.order, coefficient };
+          }
+          case '*':
+            return { order: left.order + right.order, coefficient: left.coefficient * right.coefficient };
+          case '/':
+            return right.coefficient === 0
+              ? null
+              : { order: left.order - right.order, coefficient: left.coefficient / right.coefficient };
+          default:
+            return null;
+        }
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private static growthPower(base: Growth | null, exponent: number): Growth | null {
+    if (!base || !Number.isFinite(exponent) || base.coefficient === 0) {
+      return null;
+    }
+    const coefficient = Math.pow(base.coefficient, exponent);
+    return Number.isFinite(coefficient) ? { order: base.order * exponent, coefficient } : null;
+  }
+
+  /**
+   * 按运算结构组合子极限，遇到不定式时改写后再求
+   */
+  private static structural(node: ASTNode, context: LimitContext, depth: number): Approach | null {
+    const children = node.children ?? [];
+    const limitOf = (child: ASTNode): Approach | null => LimitUtils.approach(child, context, depth + 1);
+
+    switch (node.type) {
+      case 'variable':
+        return { value: context.point, method: 'substitution' };
+
+      case 'unary': {
+        if (node.value === 'not') {
+          return null;
+        }
+        const operand = limitOf(children[0] as ASTNode);
+        return operand && node.value === '-' ? { ...operand, value: -operand.value } : operand;
+      }
+
+      case 'function':
+        return LimitUtils.functionLimit(node, context, depth);
+
+      case 'binary': {
+        const [left, right] = children as [ASTNode, ASTNode];
+        switch (node.value) {
+          case '+':
+          case '-':
+            return LimitUtils.sumLimit(String(node.value), limitOf(left), limitOf(right));
+          case '*':
+            return LimitUtils.productLimit(left, right, context, depth);
+          case '/':
+            return LimitUtils.quotientLimit(left, right, context, depth);
+          case '^':
+          case '**':
+            return LimitUtils.powerLimit(left, right, context, depth);
+          default:
+            return null;
+        }
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 和差：∞ - ∞ 为不定式，交给数值外推
+   */
+  private static sumLimit(operator: string, left: Approach | null, right: Approach | null): Approach | null {
+    if (!left || !right) {
+      return null;
+    }
+    const value = operator === '+' ? left.value + right.value : left.value - right.value;
+    return Number.isNaN(value) ? null : { value, method: LimitUtils.combine(left.method, right.method) };
+  }
+
+  /**
+   * 乘积：0·∞ 化为 ∞/(1/0) 按商求极限，不能确定时再化为 0/(1/∞)；
+   * 一个因子趋于 0、另一个因子没有极限但有界时按夹逼定理趋于 0，如 x·sin(1/x)
+   */
+  private static productLimit(left: ASTNode, right: ASTNode, context: LimitContext, depth: number): Approach | null {
+    const leftLimit = LimitUtils.approach(left, context, depth + 1);
+    const rightLimit = LimitUtils.approach(right, context, depth + 1);
+    if (!leftLimit || !rightLimit) {
+      const other = leftLimit?.value === 0 ? right : rightLimit?.value === 0 ? left : null;
+      return other && LimitUtils.bound(other, context) !== null ? { value: 0, method: 'squeeze' } : null;
+    }
+
+    const value = leftLimit.value * rightLimit.value;
+    if (!Number.isNaN(value)) {
+      return { value, method: LimitUtils.combine(leftLimit.method, rightLimit.method) };
+    }
+    const [zero, infinite] = leftLimit.value === 0 ? [left, right] : [right, left];
+    const reciprocal = (node: ASTNode): ASTNode => ASTUtils.divide(ASTUtils.number(1), node);
+    return (
+      LimitUtils.quotientLimit(infinite, reciprocal(zero), context, depth) ??
+      LimitUtils.quotientLimit(zero, reciprocal(infinite), context, depth)
+    );
+  }
+
+  /**
+   * 商：0/0 和 ∞/∞ 用洛必达法则；非零数除以 0 时由分母在趋近一侧的符号决定 ±∞；
+   * 没有极限的有界量除以趋于 ±∞ 的量按夹逼定理趋于 0，如 x → ∞ 时的 sin(x)/x
+   */
+  private static quotientLimit(
+    numerator: ASTNode,
+    denominator: ASTNode,
+    context: LimitContext,
+    depth: number
+  ): Approach | null {
+    const top = LimitUtils.approach(numerator, context, depth + 1);
+    const bottom = LimitUtils.approach(denominator, context, depth + 1);
+    if (!top || !bottom) {
+      const unbounded = bottom !== null && Math.abs(bottom.value) === Infinity;
+      return !top && unbounded && LimitUtils.bound(numerator, context) !== null ? { value: 0, method: 'squeeze' } : null;
+    }
+    const method = LimitUtils.combine(top.method, bottom.method);
+
+    const indeterminate =
+      (top.value === 0 && bottom.value === 0) ||
+      (!Number.isFinite(top.value) && !Number.isFinite(bottom.value));
+    if (indeterminate) {
+      return LimitUtils.lhopital(numerator, denominator, context, depth);
+    }
+
+    if (bottom.value === 0) {
+      const sign = Math.sign(context.evaluate(denominator, LimitUtils.near(context, 1e-9)));
+      return sign === 0 || Number.isNaN(sign) ? null : { value: Math.sign(top.value) * sign * Infinity, method };
+    }
+    return { value: top.value / bottom.value, method };
+  }
+
+  /**
+   * 洛必达法则：lim f/g = lim f'/g'
+   */
+  private static lhopital(
+    numerator: ASTNode,
+    denominator: ASTNode,
+    context: LimitContext,
+    depth: number
+  ): Approach | null {
+    let ratio: ASTNode;
+    try {
+      // 规范化简合并同底幂，使 (1/x)/(-1/x²) 这类商约为 -x，避免反复求导
+      ratio = SimplificationUtils.simplify(
+        ASTUtils.divide(
+          DifferentiationUtils.differentiate(numerator, context.variable),
+          DifferentiationUtils.differentiate(denominator, context.variable)
+        )
+      );
+    } catch {
+      return null;
+    }
+
+    const result = LimitUtils.approach(ratio, context, depth + 1);
+    return result ? { value: result.value, method: LimitUtils.combine(result.method, 'lhopital') } : null;
+  }
+
+  /**
+   * 幂：指数为常数时直接计算，否则 f^g = e^(g·ln f)，处理 1^∞、0^0 和 ∞^0
+   */
+  private static powerLimit(base: ASTNode, exponent: ASTNode, context: LimitContext, depth: number): Approach | null {
+    if (!ASTUtils.containsVariable(exponent, context.variable)) {
+      const baseLimit = LimitUtils.approach(base, context, depth + 1);
+      const power = context.evaluate(exponent, 0);
+      if (!baseLimit || !Number.isFinite(power)) {
+        return null;
+      }
+      if (baseLimit.value === 0 && power < 0) {
+        const sign = Math.sign(Math.pow(context.evaluate(base, LimitUtils.near(context, 1e-9)), power));
+        return Number.isNaN(sign) ? null : { value: sign * Infinity, method: baseLimit.method };
+      }
+      const value = Math.pow(baseLimit.value, power);
+      return Number.isNaN(value) ? null : { value, method: baseLimit.method };
+    }
+
+    const logarithm = LimitUtils.approach(
+      ASTUtils.multiply(exponent, ASTUtils.call('ln', base)),
+      context,
+      depth + 1
+    );
+    return logarithm ? { value: Math.exp(logarithm.value), method: logarithm.method } : null;
+  }
+
+  /**
+   * 单参数初等函数：在子极限处连续时直接代入；子极限为 ±∞ 或落在定义域边界时按函数的渐近行为
+   */
+  private static functionLimit(node: ASTNode, context: LimitContext, depth: number): Approach | null {
+    const name = String(node.value).toLowerCase();
+    const args = node.children ?? [];
+    if (name === 'pow' && args.length === 2) {
+      return LimitUtils.powerLimit(args[0] as ASTNode, args[1] as ASTNode, context, depth);
+    }
+    if (args.length !== 1 || STEP_FUNCTIONS.includes(name)) {
+      return null;
+    }
+
+    const inner = LimitUtils.approach(args[0] as ASTNode, context, depth + 1);
+    if (!inner) {
+      return null;
+    }
+    const method = inner.method;
+
+    if (Number.isFinite(inner.value)) {
+      const value = context.evaluate(ASTUtils.call(name, ASTUtils.number(inner.value)), 0);
+      if (Number.isFinite(value)) {
+        return { value, method };
+      }
+      // ln u、log u 在 u → 0⁺ 时趋于 -∞
+      return (name === 'ln' || name === 'log') && inner.value === 0 ? { value: -Infinity, method } : null;
+    }
+
+    const positive = inner.value > 0;
+    switch (name) {
+      case 'exp':
+        return { value: positive ? Infinity : 0, method };
+      case 'ln':
+      case 'log':
+      case 'sqrt':
+        return positive ? { value: Infinity, method } : null;
+      case 'abs':
+        return { value: Infinity, method };
+      case 'atan':
+        return { value: (positive ? Math.PI : -Math.PI) / 2, method };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 数值外推：在 h = h₀·2⁻ⁿ 处取值（∞ 处取 x = ±2ⁿ，即 h = 1/x），按 h 的幂级数做 Richardson 外推；
+   * 取值单调增大时判定趋于无穷，不收敛时判定极限不存在
+   */
+  private static numeric(node: ASTNode, context: LimitContext): Approach {
+    const finite = Number.isFinite(context.point);
+    const scale = finite ? Math.max(1, Math.abs(context.point)) / 8 : 1;
+    const values: number[] = [];
+
+    for (let n = 0; n < LimitUtils.NUMERIC_LEVELS; n++) {
+      const x = finite
+        ? context.point + context.side * scale * Math.pow(2, -n)
+        : -context.side * scale * Math.pow(2, n);
+      const value = context.evaluate(node, x);
+      if (Number.isNaN(value)) {
+        return { value: NaN, method: 'numeric', reason: UNDEFINED_NEARBY };
+      }
+      values.push(value);
+    }
+
+    // 最后几项同号且绝对值持续成倍增大
+    const tail = values.slice(-5);
+    const growing = tail.every((value, i) => i === 0 || (Math.abs(value) > Math.abs(tail[i - 1] as number) && Math.sign(value) === Math.sign(tail[0] as number)));
+    if (growing && Math.abs(tail[4] as number) >= 8 * Math.abs(tail[0] as number)) {
+      return { value: Math.sign(tail[4] as number) * Infinity, method: 'numeric' };
+    }
+
+    let row = [values[0] as number];
+    let previousDiagonal = row[0] as number;
+    for (let j = 1; j < values.length; j++) {
+      const next = [values[j] as number];
+      for (let m = 1; m <= j; m++) {
+        const current = next[m - 1] as number;
+        next.push(current + (current - (row[m - 1] as number)) / (Math.pow(2, m) - 1));
+      }
+      previousDiagonal = row[row.length - 1] as number;
+      row = next;
+    }
+
+    const value = row[row.length - 1] as number;
+    const magnitude = Math.max(1, ...values.map(Math.abs));
+    const converged = Math.abs(value - previousDiagonal) <= 1e-6 * Math.max(1, Math.abs(value));
+    if (!converged) {
+      return { value: NaN, method: 'numeric', reason: OSCILLATING };
+    }
+    // 相对取值量级可以忽略的结果是抵消误差，视为 0
+    return { value: Math.abs(value) <= 1e-9 * magnitude ? 0 : value, method: 'numeric' };
+  }
+
+  /**
+   * |node| 的上界：常数、sin、cos、atan 及其相反数、和、差、积；无法确定时返回 null
+   */
+  private static bound(node: ASTNode, context: LimitContext): number | null {
+    if (!ASTUtils.containsVariable(node, context.variable)) {
+      const value = Math.abs(context.evaluate(node, 0));
+      return Number.isFinite(value) ? value : null;
+    }
+
+    const children = node.children ?? [];
+    switch (node.type) {
+      case 'unary':
+        return node.value === '-' ? LimitUtils.bound(children[0] as ASTNode, context) : null;
+
+      case 'function':
+        return children.length === 1 ? BOUNDED_FUNCTIONS[String(node.value).toLowerCase()] ?? null : null;
+
+      case 'binary': {
+        const left = LimitUtils.bound(children[0] as ASTNode, context);
+        const right = LimitUtils.bound(children[1] as ASTNode, context);
+        if (left === null || right === null) {
+          return null;
+        }
+        switch (node.value) {
+          case '+':
+          case '-':
+            return left + right;
+          case '*':
+            return left * right;
+          default:
+            return null;
+        }
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 趋近一侧的邻近点：有限点取 a ± scale·max(1, |a|)，∞ 处取 ±1/scale
+   */
+  private static near(context: LimitContext, scale: number): number {
+    return Number.isFinite(context.point)
+      ? context.point + context.side * scale * Math.max(1, Math.abs(context.point))
+      : -context.side / scale;
+  }
+
+  private static close(a: number, b: number, tolerance: number): boolean {
+    if (!Number.isFinite(a) || !Number.isFinite(b)) {
+      return a === b;
+    }
+    return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+
+  private static combine(...methods: LimitMethod[]): LimitMethod {
+    return methods.reduce(
+      (strongest, method) => (METHOD_RANK.indexOf(method) > METHOD_RANK.indexOf(strongest) ? method : strongest),
+      'substitution'
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * List Utilities
+ *
+ * 列表值的构造与按元素运算：列表与标量运算时标量扩展到每个元素，两个列表运算时要求长度相同
+ */
+
+import { ValueList } from '@/types';
+
+export class ListMath {
+  /**
+   * 类型守卫：检查是否为列表
+   */
+  public static isList(value: unknown): value is ValueList<unknown> {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      Array.isArray((value as ValueList<unknown>).elements)
+    );
+  }
+
+  /**
+   * 创建列表
+   */
+  public static create<T>(elements: T[]): ValueList<T> {
+    return { elements };
+  }
+
+  /**
+   * 按元素运算：参数中的列表逐元素取值，标量在每次运算中重复使用；没有列表参数时直接运算
+   */
+  public static broadcast<T, R>(args: Array<T | ValueList<T>>, apply: (values: T[]) => R): R | ValueList<R> {
+    const lists = args.filter((arg): arg is ValueList<T> => ListMath.isList(arg));
+    const [first] = lists;
+    if (!first) {
+      return apply(args as T[]);
+    }
+
+    const length = first.elements.length;
+    const mismatched = lists.find(list => list.elements.length !== length);
+    if (mismatched) {
+      throw new Error(`列表长度不一致: ${length} 与 ${mismatched.elements.length}`);
+    }
+
+    return ListMath.create(
+      first.elements.map((_, index) =>
+        apply(args.map(arg => (ListMath.isList(arg) ? (arg.elements[index] as T) : (arg as T))))
+      )
+    );
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Matrix Utilities
+ *
+ * 矩阵运算：元素为有理数时按精确分数运算，出现小数元素时退化为 Decimal 运算
+ */
+
+import { Decimal } from 'decimal.js';
+import { Matrix, Rational } from '@/types';
+import { RationalMath } from './rational';
+
+export type MatrixEntry = Decimal | Rational;
+
+const ZERO: Rational = { numerator: 0n, denominator: 1n };
+const ONE: Rational = { numerator: 1n, denominator: 1n };
+
+const toDecimal = (entry: MatrixEntry): Decimal =>
+  RationalMath.isRational(entry) ? RationalMath.toDecimal(entry) : entry;
+
+const plus = (a: MatrixEntry, b: MatrixEntry): MatrixEntry =>
+  RationalMath.isRational(a) && RationalMath.isRational(b) ? RationalMath.add(a, b) : toDecimal(a).plus(toDecimal(b));
+
+const minus = (a: MatrixEntry, b: MatrixEntry): MatrixEntry =>
+  RationalMath.isRational(a) && RationalMath.isRational(b)
+    ? RationalMath.subtract(a, b)
+    : toDecimal(a).minus(toDecimal(b));
+
+const times = (a: MatrixEntry, b: MatrixEntry): MatrixEntry =>
+  RationalMath.isRational(a) && RationalMath.isRational(b)
+    ? RationalMath.multiply(a, b)
+    : toDecimal(a).times(toDecimal(b));
+
+const divide = (a: MatrixEntry, b: MatrixEntry): MatrixEntry =>
+  RationalMath.isRational(a) && RationalMath.isRational(b)
+    ? RationalMath.divide(a, b)
+    : toDecimal(a).dividedBy(toDecimal(b));
+
+/**
+ * 小数元素的消元误差会留下极小的残差，按工作精度的容差视为零
+ */
+const isZero = (entry: MatrixEntry): boolean =>
+  RationalMath.isRational(entry)
+    ? RationalMath.isZero(entry)
+    : entry.abs().lessThan(new Decimal(10).pow(5 - Decimal.precision));
+
+export class MatrixMath {
+  /**
+   * 类型守卫：检查是否为矩阵
+   */
+  public static isMatrix(value: unknown): value is Matrix<unknown> {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      Array.isArray((value as Matrix<unknown>).data) &&
+      typeof (value as Matrix<unknown>).rows === 'number' &&
+      typeof (value as Matrix<unknown>).cols === 'number'
+    );
+  }
+
+  /**
+   * 由行数组创建矩阵，各行元素个数必须相同
+   */
+  public static create<T>(data: T[][]): Matrix<T> {
+    const cols = data[0]?.length ?? 0;
+    if (cols === 0) {
+      throw new Error('矩阵不能为空');
+    }
+    if (data.some(row => row.length !== cols)) {
+      throw new Error('矩阵各行的元素个数必须相同');
+    }
+    return { rows: data.length, cols, data };
+  }
+
+  /**
+   * 单位矩阵
+   */
+  public static identity(size: number): Matrix<MatrixEntry> {
+    return MatrixMath.create(
+      Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? ONE : ZERO)))
+    );
+  }
+
+  /**
+   * 逐元素映射
+   */
+  public static map<T, R>(matrix: Matrix<T>, fn: (entry: T) => R): Matrix<R> {
+    return MatrixMath.create(matrix.data.map(row => row.map(fn)));
+  }
+
+  /**
+   * 矩阵加法
+   */
+  public static add(a: Matrix<MatrixEntry>, b: Matrix<MatrixEntry>): Matrix<MatrixEntry> {
+    MatrixMath.requireSameShape(a, b);
+    return MatrixMath.create(a.data.map((row, i) => row.map((entry, j) => plus(entry, b.data[i]![j]!))));
+  }
+
+  /**
+   * 矩阵减法
+   */
+  public static subtract(a: Matrix<MatrixEntry>, b: Matrix<MatrixEntry>): Matrix<MatrixEntry> {
+    MatrixMath.requireSameShape(a, b);
+    return MatrixMath.create(a.data.map((row, i) => row.map((entry, j) => minus(entry, b.data[i]![j]!))));
+  }
+
+  /**
+   * 矩阵乘法，要求左矩阵的列数等于右矩阵的行数
+   */
+  public static multiply(a: Matrix<MatrixEntry>, b: Matrix<MatrixEntry>): Matrix<MatrixEntry> {
+    if (a.cols !== b.rows) {
+      throw new Error(`矩阵维度不匹配: ${a.rows}×${a.cols} 与 ${b.rows}×${b.cols} 不能相乘`);
+    }
+    return MatrixMath.create(
+      a.data.map(row =>
+        b.data[0]!.map((_, j) => row.reduce<MatrixEntry>((sum, entry, k) => plus(sum, times(entry, b.data[k]![j]!)), ZERO))
+      )
+    );
+  }
+
+  /**
+   * 数乘
+   */
+  public static scale(matrix: Matrix<MatrixEntry>, factor: MatrixEntry): Matrix<MatrixEntry> {
+    return MatrixMath.map(matrix, entry => times(entry, factor));
+  }
+
+  /**
+   * 整数次幂：零次幂为单位矩阵，负数次幂先求逆，按二进制分解做快速幂
+   */
+  public static power(matrix: Matrix<MatrixEntry>, exponent: bigint): Matrix<MatrixEntry> {
+    MatrixMath.requireSquare(matrix, '矩阵幂');
+    let base = exponent < 0n ? MatrixMath.inverse(matrix) : matrix;
+    let remaining = exponent < 0n ? -exponent : exponent;
+    let result = MatrixMath.identity(matrix.rows);
+
+    while (remaining > 0n) {
+      if (remaining & 1n) {
+        result = MatrixMath.multiply(result, base);
+      }
+      remaining >>= 1n;
+      if (remaining > 0n) {
+        base = MatrixMath.multiply(base, base);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 转置
+   */
+  public static transpose<T>(matrix: Matrix<T>): Matrix<T> {
+    return MatrixMath.create(matrix.data[0]!.map((_, j) => matrix.data.map(row => row[j]!)));
+  }
+
+  /**
+   * 迹
+   */
+  public static trace(matrix: Matrix<MatrixEntry>): MatrixEntry {
+    MatrixMath.requireSquare(matrix, '迹');
+    return matrix.data.reduce<MatrixEntry>((sum, row, i) => plus(sum, row[i]!), ZERO);
+  }
+
+  /**
+   * 行列式：消元为上三角后取主对角线乘积，每次换行改变一次符号
+   */
+  public static determinant(matrix: Matrix<MatrixEntry>): MatrixEntry {
+    MatrixMath.requireSquare(matrix, '行列式');
+    const { rows, rank, swaps } = MatrixMath.eliminate(matrix.data, matrix.cols);
+    if (rank < matrix.rows) {
+      return ZERO;
+    }
+    const product = rows.reduce<MatrixEntry>((result, row, i) => times(result, row[i]!), ONE);
+    return swaps % 2 === 0 ? product : times(product, { numerator: -1n, denominator: 1n });
+  }
+
+  /**
+   * 逆矩阵：对增广矩阵 [A | I] 做高斯-约当消元
+   */
+  public static inverse(matrix: Matrix<MatrixEntry>): Matrix<MatrixEntry> {
+    MatrixMath.requireSquare(matrix, '逆矩阵');
+    const size = matrix.rows;
+    const identity = MatrixMath.identity(size);
+    const augmented = matrix.data.map((row, i) => [...row, ...identity.data[i]!]);
+    const { rows, rank } = MatrixMath.eliminate(augmented, size, true);
+    if (rank < size) {
+      throw new Error('矩阵不可逆');
+    }
+    return MatrixMath.create(rows.map(row => row.slice(size)));
+  }
+
+  /**
+   * 秩：行阶梯形中主元的个数
+   */
+  public static rank(matrix: Matrix<MatrixEntry>): number {
+    return MatrixMath.eliminate(matrix.data, matrix.cols).rank;
+  }
+
+  /**
+   * 对前 columns 列做消元，选绝对值最大的主元以减小小数误差；reduce 为真时化为简化行阶梯形
+   */
+  private static eliminate(
+    data: MatrixEntry[][],
+    columns: number,
+    reduce = false
+  ): { rows: MatrixEntry[][]; rank: number; swaps: number } {
+    const rows = data.map(row => [...row]);
+    let rank = 0;
+    let swaps = 0;
+
+    for (let col = 0; col < columns && rank < rows.length; col++) {
+      let pivot = -1;
+      for (let r = rank; r < rows.length; r++) {
+        const entry = rows[r]![col]!;
+        if (!isZero(entry) && (pivot < 0 || toDecimal(entry).abs().greaterThan(toDecimal(rows[pivot]![col]!).abs()))) {
+          pivot = r;
+        }
+      }
+      if (pivot < 0) {
+        continue;
+      }
+
+      if (pivot !== rank) {
+        [rows[pivot], rows[rank]] = [rows[rank]!, rows[pivot]!];
+        swaps++;
+      }
+
+      const pivotRow = rows[rank]!;
+      const pivotValue = pivotRow[col]!;
+      if (reduce) {
+        rows[rank] = pivotRow.map(entry => divide(entry, pivotValue));
+      }
+
+      const source = rows[rank]!;
+      for (let r = reduce ? 0 : rank + 1; r < rows.length; r++) {
+        if (r === rank || isZero(rows[r]![col]!)) {
+          continue;
+        }
+        const factor = divide(rows[r]![col]!, source[col]!);
+        rows[r] = rows[r]!.map((entry, j) => minus(entry, times(factor, source[j]!)));
+      }
+      rank++;
+    }
+
+    return { rows, rank, swaps };
+  }
+
+  private static requireSameShape(a: Matrix<MatrixEntry>, b: Matrix<MatrixEntry>): void {
+    if (a.rows !== b.rows || a.cols !== b.cols) {
+      throw new Error(`矩阵维度不匹配: ${a.rows}×${a.cols} 与 ${b.rows}×${b.cols}`);
+    }
+  }
+
+  private static requireSquare(matrix: Matrix<MatrixEntry>, operation: string): void {
+    if (matrix.rows !== matrix.cols) {
+      throw new Error(`${operation}只对方阵有定义，当前矩阵为 ${matrix.rows}×${matrix.cols}`);
+    }
+  }
+}
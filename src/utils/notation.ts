@@ -0,0 +1,645 @@
+/**
+ * Math Notation Utilities
+ *
+ * 将AST输出为 LaTeX、MathML（表现标记）和带上标的 Unicode 文本，只在必要处加括号
+ */
+
+import { Decimal } from 'decimal.js';
+import { ASTNode, Rational } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+
+export type NotationFormat = 'latex' | 'mathml' | 'unicode';
+
+// 排版优先级：分数线在 LaTeX/MathML 中自成一体，只有作为底数时需要括号
+const PRECEDENCE = {
+  statement: -1,
+  or: 0,
+  and: 1,
+  comparison: 2,
+  conversion: 3,
+  uncertainty: 4,
+  additive: 5,
+  multiplicative: 6,
+  unary: 7,
+  fraction: 8,
+  power: 9,
+  atom: 10,
+} as const;
+
+// 各输出格式的排版原语，参数和返回值都是该格式的片段
+interface Renderer {
+  inlineFractions: boolean; // 除法按 a/b 行内输出
+  number(text: string): string;
+  identifier(name: string): string;
+  binary(left: string, operator: string, right: string): string;
+  prefix(operator: string, operand: string): string;
+  juxtapose(left: string, right: string): string;
+  parenthesize(content: string): string;
+  fraction(numerator: string, denominator: string): string;
+  power(base: string, exponent: string, atomicExponent: boolean): string;
+  sqrt(radicand: string, atomic: boolean): string;
+  delimit(open: string, close: string, content: string): string;
+  call(name: string, args: string[]): string;
+  bigOperator(name: 'sum' | 'prod', index: string, lower: string, upper: string, body: string): string;
+  limit(variable: string, point: string, body: string): string;
+  cases(pieces: Array<[string, string | null]>): string; // 各段的值和条件，默认值的条件为 null
+  list(elements: string[]): string;
+  interval(lower: string, upper: string): string;
+  text(content: string): string;
+  matrix(rows: string[][]): string;
+  document(fragments: string[]): string;
+}
+
+const GREEK_LETTERS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', theta: 'θ',
+  lambda: 'λ', mu: 'μ', sigma: 'σ', tau: 'τ', phi: 'φ', omega: 'ω', pi: 'π',
+};
+
+// 反三角函数按数学书写习惯输出
+const FUNCTION_DISPLAY_NAMES: Record<string, string> = {
+  asin: 'arcsin',
+  acos: 'arccos',
+  atan: 'arctan',
+};
+
+// 求和与求积的大型运算符
+const BIG_OPERATORS: Record<'sum' | 'prod', string> = { sum: '∑', prod: '∏' };
+
+// 比较与逻辑运算符的数学符号
+const RELATION_SYMBOLS: Record<string, string> = {
+  '<': '<', '<=': '≤', '>': '>', '>=': '≥', '==': '=', '!=': '≠', and: '∧', or: '∨',
+};
+
+// LaTeX 内置的函数命令，其余函数使用 \operatorname
+const LATEX_FUNCTIONS = ['sin', 'cos', 'tan', 'arcsin', 'arccos', 'arctan', 'ln', 'log', 'exp', 'max', 'min', 'det'];
+
+const LATEX_OPERATORS: Record<string, string> = {
+  '+': ' + ',
+  '−': ' - ',
+  '±': ' \\pm ',
+  '·': ' \\cdot ',
+  '×': ' \\times ',
+  'mod': ' \\bmod ',
+  '=': ' = ',
+  ':=': ' := ',
+  '→': ' \\to ',
+  '≤': ' \\le ',
+  '≥': ' \\ge ',
+  '≠': ' \\ne ',
+  '∧': ' \\land ',
+  '∨': ' \\lor ',
+};
+
+const LATEX_DELIMITERS: Record<string, string> = {
+  '⌊': '\\lfloor',
+  '⌋': '\\rfloor',
+  '⌈': '\\lceil',
+  '⌉': '\\rceil',
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '−': '⁻', '(': '⁽', ')': '⁾', 'n': 'ⁿ', 'i': 'ⁱ',
+};
+
+const escapeXML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const LATEX: Renderer = {
+  inlineFractions: false,
+  number: text => text,
+  identifier: name => {
+    const greek = GREEK_LETTERS[name] ? name : Object.keys(GREEK_LETTERS).find(key => GREEK_LETTERS[key] === name);
+    if (greek) {
+      return `\\${greek}`;
+    }
+    if (name === '∞') {
+      return '\\infty';
+    }
+    return name.length === 1 ? name : `\\mathrm{${name}}`;
+  },
+  binary: (left, operator, right) => `${left}${LATEX_OPERATORS[operator] ?? ` ${operator} `}${right}`,
+  prefix: (operator, operand) => `${operator === '−' ? '-' : operator === '¬' ? '\\lnot ' : operator}${operand}`,
+  juxtapose: (left, right) => `${left}${right}`,
+  parenthesize: content => `\\left(${content}\\right)`,
+  fraction: (numerator, denominator) => `\\frac{${numerator}}{${denominator}}`,
+  power: (base, exponent) => `${base}^{${exponent}}`,
+  sqrt: radicand => `\\sqrt{${radicand}}`,
+  delimit: (open, close, content) =>
+    `\\left${LATEX_DELIMITERS[open] ?? open} ${content} \\right${LATEX_DELIMITERS[close] ?? close}`,
+  call: (name, args) => {
+    const command = LATEX_FUNCTIONS.includes(name) ? `\\${name}` : `\\operatorname{${name}}`;
+    return `${command}\\left(${args.join(', ')}\\right)`;
+  },
+  bigOperator: (name, index, lower, upper, body) => `\\${name}_{${index} = ${lower}}^{${upper}} ${body}`,
+  limit: (variable, point, body) => `\\lim_{${variable} \\to ${point}} ${body}`,
+  cases: pieces =>
+    `\\begin{cases} ${pieces
+      .map(([value, condition]) => `${value} & ${condition ?? '\\text{otherwise}'}`)
+      .join(' \\\\ ')} \\end{cases}`,
+  list: elements => `\\left\\{ ${elements.join(', ')} \\right\\}`,
+  interval: (lower, upper) => `\\left[ ${lower}, ${upper} \\right]`,
+  text: content => `\\text{${content.replace(/([\\{}$&#%_^~])/g, '\\$1')}}`,
+  matrix: rows => `\\begin{pmatrix} ${rows.map(row => row.join(' & ')).join(' \\\\ ')} \\end{pmatrix}`,
+  document: fragments => fragments.join(' '),
+};
+
+const MATHML: Renderer = {
+  inlineFractions: false,
+  number: text => `<mn>${escapeXML(text)}</mn>`,
+  identifier: name => `<mi>${escapeXML(GREEK_LETTERS[name] ?? name)}</mi>`,
+  binary: (left, operator, right) => `<mrow>${left}<mo>${escapeXML(operator)}</mo>${right}</mrow>`,
+  prefix: (operator, operand) => `<mrow><mo>${operator}</mo>${operand}</mrow>`,
+  // 不可见乘号 U+2062，便于屏幕阅读器朗读
+  juxtapose: (left, right) => `<mrow>${left}<mo>&#x2062;</mo>${right}</mrow>`,
+  parenthesize: content => `<mrow><mo>(</mo>${content}<mo>)</mo></mrow>`,
+  fraction: (numerator, denominator) => `<mfrac><mrow>${numerator}</mrow><mrow>${denominator}</mrow></mfrac>`,
+  power: (base, exponent) => `<msup><mrow>${base}</mrow><mrow>${exponent}</mrow></msup>`,
+  sqrt: radicand => `<msqrt>${radicand}</msqrt>`,
+  delimit: (open, close, content) => `<mrow><mo>${open}</mo>${content}<mo>${close}</mo></mrow>`,
+  // 函数应用符 U+2061
+  call: (name, args) =>
+    `<mrow><mi>${escapeXML(name)}</mi><mo>&#x2061;</mo><mrow><mo>(</mo>${args.join('<mo>,</mo>')}<mo>)</mo></mrow></mrow>`,
+  bigOperator: (name, index, lower, upper, body) =>
+    `<mrow><munderover><mo>${BIG_OPERATORS[name]}</mo><mrow>${index}<mo>=</mo>${lower}</mrow><mrow>${upper}</mrow></munderover>${body}</mrow>`,
+  limit: (variable, point, body) =>
+    `<mrow><munder><mo>lim</mo><mrow>${variable}<mo>→</mo>${point}</mrow></munder>${body}</mrow>`,
+  cases: pieces =>
+    `<mrow><mo>{</mo><mtable columnalign="left">${pieces
+      .map(([value, condition]) => `<mtr><mtd>${value}</mtd><mtd>${condition ?? '<mtext>otherwise</mtext>'}</mtd></mtr>`)
+      .join('')}</mtable></mrow>`,
+  list: elements => `<mrow><mo>{</mo>${elements.join('<mo>,</mo>')}<mo>}</mo></mrow>`,
+  interval: (lower, upper) => `<mrow><mo>[</mo>${lower}<mo>,</mo>${upper}<mo>]</mo></mrow>`,
+  text: content => `<mtext>${escapeXML(content)}</mtext>`,
+  matrix: rows =>
+    `<mrow><mo>(</mo><mtable>${rows
+      .map(row => `<mtr>${row.map(cell => `<mtd>${cell}</mtd>`).join('')}</mtr>`)
+      .join('')}</mtable><mo>)</mo></mrow>`,
+  document: fragments =>
+    `<math xmlns="http://www.w3.org/1998/Math/MathML"><mrow>${fragments.join('')}</mrow></math>`,
+};
+
+const UNICODE: Renderer = {
+  inlineFractions: true,
+  number: text => text,
+  identifier: name => GREEK_LETTERS[name] ?? name,
+  binary: (left, operator, right) =>
+    ['·', '×', '/'].includes(operator) ? `${left}${operator}${right}` : `${left} ${operator} ${right}`,
+  prefix: (operator, operand) => `${operator}${operand}`,
+  juxtapose: (left, right) => `${left}${right}`,
+  parenthesize: content => `(${content})`,
+  fraction: (numerator, denominator) => `${numerator}/${denominator}`,
+  power: (base, exponent, atomicExponent) => {
+    const characters = Array.from(exponent);
+    if (characters.every(character => SUPERSCRIPTS[character])) {
+      return base + characters.map(character => SUPERSCRIPTS[character]).join('');
+    }
+    return `${base}^${atomicExponent ? exponent : `(${exponent})`}`;
+  },
+  sqrt: (radicand, atomic) => `√${atomic ? radicand : `(${radicand})`}`,
+  delimit: (open, close, content) => `${open}${content}${close}`,
+  call: (name, args) => `${name}(${args.join(', ')})`,
+  bigOperator: (name, index, lower, upper, body) => `${BIG_OPERATORS[name]}(${index}=${lower}..${upper}) ${body}`,
+  limit: (variable, point, body) => `lim(${variable}→${point}) ${body}`,
+  cases: pieces =>
+    `{${pieces.map(([value, condition]) => `${value} ${condition ? `if ${condition}` : 'otherwise'}`).join('; ')}}`,
+  list: elements => `{${elements.join(', ')}}`,
+  interval: (lower, upper) => `[${lower}, ${upper}]`,
+  text: content => content,
+  matrix: rows => `[${rows.map(row => `[${row.join(', ')}]`).join(', ')}]`,
+  document: fragments => fragments.join(' '),
+};
+
+const RENDERERS: Record<NotationFormat, Renderer> = {
+  latex: LATEX,
+  mathml: MATHML,
+  unicode: UNICODE,
+};
+
+export class MathNotation {
+  /**
+   * 输出为 LaTeX，如 \frac{1}{2}x^{2}
+   */
+  public static toLaTeX(node: ASTNode): string {
+    return MathNotation.document([MathNotation.render(node, 'latex')], 'latex');
+  }
+
+  /**
+   * 输出为完整的 <math> 元素
+   */
+  public static toMathML(node: ASTNode): string {
+    return MathNotation.document([MathNotation.render(node, 'mathml')], 'mathml');
+  }
+
+  /**
+   * 输出为 Unicode 文本，如 x^2 写作 x²、sqrt(x) 写作 √x
+   */
+  public static toUnicode(node: ASTNode): string {
+    return MathNotation.document([MathNotation.render(node, 'unicode')], 'unicode');
+  }
+
+  /**
+   * 输出AST片段，可与其他片段经 document 组合
+   */
+  public static render(node: ASTNode, format: NotationFormat): string {
+    return MathNotation.renderNode(node, RENDERERS[format]);
+  }
+
+  /**
+   * 数字片段，支持负号和 1.5e-7 形式的科学计数法
+   */
+  public static number(text: string, format: NotationFormat): string {
+    return MathNotation.renderNumber(text, RENDERERS[format]);
+  }
+
+  /**
+   * 有理数片段：分数，或整数部分与真分数并排的带分数
+   */
+  public static rational(value: Rational, mixed: boolean, format: NotationFormat): string {
+    const renderer = RENDERERS[format];
+    const negative = value.numerator < 0n;
+    const magnitude = negative ? -value.numerator : value.numerator;
+    const whole = mixed ? magnitude / value.denominator : 0n;
+    const remainder = magnitude - whole * value.denominator;
+
+    let body: string;
+    if (value.denominator === 1n) {
+      body = renderer.number(magnitude.toString());
+    } else {
+      const fraction = renderer.fraction(
+        renderer.number(remainder.toString()),
+        renderer.number(value.denominator.toString())
+      );
+      body = whole === 0n
+        ? fraction
+        : renderer.inlineFractions
+          ? `${whole} ${fraction}`
+          : renderer.juxtapose(renderer.number(whole.toString()), fraction);
+    }
+
+    return negative ? renderer.prefix('−', body) : body;
+  }
+
+  /**
+   * 矩阵片段，元素为已输出的片段
+   */
+  public static matrix(rows: string[][], format: NotationFormat): string {
+    return RENDERERS[format].matrix(rows);
+  }
+
+  /**
+   * 列表片段 {a, b, c}，元素为已输出的片段
+   */
+  public static list(elements: string[], format: NotationFormat): string {
+    return RENDERERS[format].list(elements);
+  }
+
+  /**
+   * 普通文本片段
+   */
+  public static text(content: string, format: NotationFormat): string {
+    return RENDERERS[format].text(content);
+  }
+
+  /**
+   * 单位片段，与数值之间留空且使用正体
+   */
+  public static unit(unit: string, format: NotationFormat): string {
+    switch (format) {
+      case 'latex':
+        return `\\,\\mathrm{${unit}}`;
+      case 'mathml':
+        return `<mspace width="0.2em"/><mi mathvariant="normal">${escapeXML(unit)}</mi>`;
+      default:
+        return ` ${unit}`;
+    }
+  }
+
+  /**
+   * 独立的运算符片段，如等式两侧之间的 =
+   */
+  public static operator(symbol: string, format: NotationFormat): string {
+    switch (format) {
+      case 'latex':
+        return (LATEX_OPERATORS[symbol] ?? symbol).trim();
+      case 'mathml':
+        return `<mo>${escapeXML(symbol)}</mo>`;
+      default:
+        return symbol;
+    }
+  }
+
+  /**
+   * 将片段组合为完整输出，MathML 包装为 <math> 元素
+   */
+  public static document(fragments: string[], format: NotationFormat): string {
+    return RENDERERS[format].document(fragments);
+  }
+
+  private static renderNode(node: ASTNode, renderer: Renderer): string {
+    const children = node.children ?? [];
+    const render = (child: ASTNode): string => MathNotation.renderNode(child, renderer);
+
+    switch (node.type) {
+      case 'number':
+        return MathNotation.renderNumber(String(node.value), renderer);
+
+      case 'constant':
+      case 'variable':
+        return renderer.identifier(String(node.value));
+
+      case 'function':
+        return MathNotation.renderFunction(String(node.value), children, renderer);
+
+      case 'list':
+        return renderer.list(children.map(render));
+
+      case 'interval':
+        return renderer.interval(render(children[0] as ASTNode), render(children[1] as ASTNode));
+
+      case 'matrix':
+        return renderer.matrix(children.map(row => (row.children ?? []).map(render)));
+
+      case 'unary': {
+        const [operand] = children as [ASTNode];
+        const precedence = MathNotation.precedence(operand, renderer);
+        if (node.value === 'not') {
+          return renderer.prefix('¬', MathNotation.wrap(operand, renderer, precedence < PRECEDENCE.unary));
+        }
+        const text = MathNotation.wrap(operand, renderer, precedence <= PRECEDENCE.additive || precedence === PRECEDENCE.unary);
+        return node.value === '-' ? renderer.prefix('−', text) : text;
+      }
+
+      case 'binary':
+        return MathNotation.renderBinary(String(node.value), children as [ASTNode, ASTNode], renderer);
+
+      case 'equation':
+        return renderer.binary(render(children[0] as ASTNode), '=', render(children[1] as ASTNode));
+
+      case 'assignment':
+        return renderer.binary(renderer.identifier(String(node.value)), ':=', render(children[0] as ASTNode));
+
+      case 'conversion':
+        return renderer.binary(render(children[0] as ASTNode), '→', render(children[1] as ASTNode));
+
+      case 'definition': {
+        const parameters = children.slice(0, -1).map(child => renderer.identifier(String(child.value)));
+        const body = children[children.length - 1] as ASTNode;
+        return renderer.binary(renderer.call(String(node.value), parameters), '=', render(body));
+      }
+
+      default:
+        throw new Error(`无法输出节点类型: ${node.type}`);
+    }
+  }
+
+  private static renderBinary(operator: string, [left, right]: [ASTNode, ASTNode], renderer: Renderer): string {
+    const leftPrecedence = MathNotation.precedence(left, renderer);
+    const rightPrecedence = MathNotation.precedence(right, renderer);
+
+    switch (operator) {
+      case '±':
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence < PRECEDENCE.uncertainty),
+          '±',
+          MathNotation.wrap(right, renderer, rightPrecedence < PRECEDENCE.additive)
+        );
+
+      case '+':
+      case '-':
+        // 右侧的负号和同级减法都需要括号，如 a - (b - c)、a + (-b)
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence < PRECEDENCE.additive),
+          operator === '-' ? '−' : '+',
+          MathNotation.wrap(
+            right,
+            renderer,
+            rightPrecedence < PRECEDENCE.additive ||
+              rightPrecedence === PRECEDENCE.unary ||
+              (operator === '-' && rightPrecedence === PRECEDENCE.additive)
+          )
+        );
+
+      case '*': {
+        const wrapLeft = leftPrecedence < PRECEDENCE.multiplicative;
+        const wrapRight = rightPrecedence <= PRECEDENCE.multiplicative || rightPrecedence === PRECEDENCE.unary;
+        const leftText = MathNotation.wrap(left, renderer, wrapLeft);
+        const rightText = MathNotation.wrap(right, renderer, wrapRight);
+        // 数字系数后紧跟字母、函数或括号时省略乘号，如 2x、3sin(x)、2(x + 1)
+        if (left.type === 'number' && !new Decimal(left.value as Decimal.Value).isNegative() &&
+            (wrapRight || MathNotation.leadsWithSymbol(right))) {
+          return renderer.juxtapose(leftText, rightText);
+        }
+        return renderer.binary(leftText, '·', rightText);
+      }
+
+      case '/':
+        if (!renderer.inlineFractions) {
+          return renderer.fraction(MathNotation.renderNode(left, renderer), MathNotation.renderNode(right, renderer));
+        }
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence < PRECEDENCE.multiplicative),
+          '/',
+          MathNotation.wrap(right, renderer, rightPrecedence <= PRECEDENCE.multiplicative || rightPrecedence === PRECEDENCE.unary)
+        );
+
+      case '%':
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence < PRECEDENCE.multiplicative),
+          'mod',
+          MathNotation.wrap(right, renderer, rightPrecedence <= PRECEDENCE.multiplicative || rightPrecedence === PRECEDENCE.unary)
+        );
+
+      case '^':
+      case '**':
+        return MathNotation.renderPower(left, right, renderer);
+
+      case 'and':
+      case 'or': {
+        const precedence = operator === 'and' ? PRECEDENCE.and : PRECEDENCE.or;
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence < precedence),
+          RELATION_SYMBOLS[operator] as string,
+          MathNotation.wrap(right, renderer, rightPrecedence < precedence)
+        );
+      }
+
+      default: {
+        const symbol = RELATION_SYMBOLS[operator];
+        if (!symbol) {
+          throw new Error(`不支持的运算符: ${operator}`);
+        }
+        // 比较不能直接连写，同级的比较加括号
+        return renderer.binary(
+          MathNotation.wrap(left, renderer, leftPrecedence <= PRECEDENCE.comparison),
+          symbol,
+          MathNotation.wrap(right, renderer, rightPrecedence <= PRECEDENCE.comparison)
+        );
+      }
+    }
+  }
+
+  /**
+   * 乘方：底数同级或更低时加括号；LaTeX/MathML 的指数自成一组，Unicode 尽量使用上标
+   */
+  private static renderPower(base: ASTNode, exponent: ASTNode, renderer: Renderer): string {
+    const baseText = MathNotation.wrap(base, renderer, MathNotation.precedence(base, renderer) <= PRECEDENCE.power);
+    return renderer.power(
+      baseText,
+      MathNotation.renderNode(exponent, renderer),
+      MathNotation.precedence(exponent, renderer) === PRECEDENCE.atom
+    );
+  }
+
+  private static renderFunction(name: string, args: ASTNode[], renderer: Renderer): string {
+    const [argument] = args;
+    const lowerName = name.toLowerCase();
+
+    if (args.length === 1 && argument) {
+      const content = MathNotation.renderNode(argument, renderer);
+      switch (lowerName) {
+        case 'sqrt':
+          return renderer.sqrt(content, MathNotation.precedence(argument, renderer) === PRECEDENCE.atom);
+        case 'abs':
+          return renderer.delimit('|', '|', content);
+        case 'floor':
+          return renderer.delimit('⌊', '⌋', content);
+        case 'ceil':
+          return renderer.delimit('⌈', '⌉', content);
+      }
+    }
+
+    // sum(f, k, a, b) 输出为带上下限的 ∑ 或 ∏
+    if ((lowerName === 'sum' || lowerName === 'prod') && args.length === 4 && args[1]?.type === 'variable') {
+      const [body, index, lower, upper] = args as [ASTNode, ASTNode, ASTNode, ASTNode];
+      return renderer.bigOperator(
+        lowerName,
+        MathNotation.renderNode(index, renderer),
+        MathNotation.renderNode(lower, renderer),
+        MathNotation.renderNode(upper, renderer),
+        MathNotation.wrap(body, renderer, MathNotation.precedence(body, renderer) <= PRECEDENCE.additive)
+      );
+    }
+
+    // limit(f, x, a) 输出为 lim 下标趋近点
+    if (lowerName === 'limit' && args.length === 3 && args[1]?.type === 'variable') {
+      const [body, variable, point] = args as [ASTNode, ASTNode, ASTNode];
+      return renderer.limit(
+        MathNotation.renderNode(variable, renderer),
+        MathNotation.renderNode(point, renderer),
+        MathNotation.wrap(body, renderer, MathNotation.precedence(body, renderer) <= PRECEDENCE.additive)
+      );
+    }
+
+    // if(c, a, b) 和 piecewise((c₁, v₁), …) 输出为分情况定义
+    if ((lowerName === 'if' && args.length === 3) || lowerName === 'piecewise') {
+      return renderer.cases(
+        ASTUtils.pieces({ type: 'function', value: name, children: args }).map(([condition, value]) => [
+          MathNotation.renderNode(value, renderer),
+          condition && MathNotation.renderNode(condition, renderer),
+        ])
+      );
+    }
+
+    if (lowerName === 'pow' && args.length === 2) {
+      return MathNotation.renderPower(args[0] as ASTNode, args[1] as ASTNode, renderer);
+    }
+
+    return renderer.call(
+      FUNCTION_DISPLAY_NAMES[lowerName] ?? name,
+      args.map(arg => MathNotation.renderNode(arg, renderer))
+    );
+  }
+
+  /**
+   * 负数输出为负号加数字，科学计数法输出为 m × 10ᵏ
+   */
+  private static renderNumber(text: string, renderer: Renderer): string {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('-')) {
+      return renderer.prefix('−', MathNotation.renderNumber(trimmed.slice(1), renderer));
+    }
+
+    const match = /^([\d.]+)e([+-]?)(\d+)$/i.exec(trimmed);
+    if (!match) {
+      return renderer.number(trimmed);
+    }
+
+    const negativeExponent = match[2] === '-';
+    const exponent = renderer.number(match[3] as string);
+    const power = renderer.power(
+      renderer.number('10'),
+      negativeExponent ? renderer.prefix('−', exponent) : exponent,
+      !negativeExponent
+    );
+    return renderer.binary(renderer.number(match[1] as string), '×', power);
+  }
+
+  /**
+   * 输出时是否以字母、函数或根号开头，数字系数与之相邻时可省略乘号
+   */
+  private static leadsWithSymbol(node: ASTNode): boolean {
+    switch (node.type) {
+      case 'variable':
+      case 'constant':
+      case 'function':
+        return true;
+      case 'binary':
+        return (node.value === '^' || node.value === '**' || node.value === '*') &&
+          MathNotation.leadsWithSymbol((node.children ?? [])[0] as ASTNode);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 节点的排版优先级，负数视同一元负号
+   */
+  private static precedence(node: ASTNode, renderer: Renderer): number {
+    switch (node.type) {
+      case 'binary':
+        switch (node.value) {
+          case 'or':
+            return PRECEDENCE.or;
+          case 'and':
+            return PRECEDENCE.and;
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+          case '==':
+          case '!=':
+            return PRECEDENCE.comparison;
+          case '±':
+            return PRECEDENCE.uncertainty;
+          case '+':
+          case '-':
+            return PRECEDENCE.additive;
+          case '^':
+          case '**':
+            return PRECEDENCE.power;
+          case '/':
+            return renderer.inlineFractions ? PRECEDENCE.multiplicative : PRECEDENCE.fraction;
+          default:
+            return PRECEDENCE.multiplicative;
+        }
+      case 'unary':
+        return PRECEDENCE.unary;
+      case 'conversion':
+        return PRECEDENCE.conversion;
+      case 'equation':
+      case 'assignment':
+      case 'definition':
+        return PRECEDENCE.statement;
+      case 'number':
+        return /^\s*-|e/i.test(String(node.value)) ? PRECEDENCE.unary : PRECEDENCE.atom;
+      default:
+        return PRECEDENCE.atom;
+    }
+  }
+
+  private static wrap(node: ASTNode, renderer: Renderer, parenthesize: boolean): string {
+    const text = MathNotation.renderNode(node, renderer);
+    return parenthesize ? renderer.parenthesize(text) : text;
+  }
+}
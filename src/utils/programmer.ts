@@ -0,0 +1,333 @@
+/**
+ * Programmer Utilities
+ *
+ * 程序员模式的整数运算：基于 BigInt，按选定字长以二进制补码截断（溢出回绕），
+ * 支持 0x/0b/0o 字面量、位运算、移位和循环移位，并输出各进制表示
+ */
+
+import { ASTNode } from '@/types';
+
+// 带位置信息的语法错误，position 和 length 对应原始输入
+export class ProgrammerSyntaxError extends Error {
+  constructor(message: string, public position: number, public length: number = 0) {
+    super(message);
+    this.name = 'ProgrammerSyntaxError';
+  }
+}
+
+export type WordSize = 8 | 16 | 32 | 64 | 128;
+
+export type NumberBase = 'binary' | 'octal' | 'decimal' | 'hexadecimal';
+
+// 字长和有无符号：有符号时最高位为符号位
+export interface WordOptions {
+  wordSize: WordSize;
+  signed: boolean;
+}
+
+// 按字长截断后的整数，value 为有符号或无符号解释下的值
+export interface WordValue extends WordOptions {
+  value: bigint;
+}
+
+const RADIX: Record<NumberBase, number> = { binary: 2, octal: 8, decimal: 10, hexadecimal: 16 };
+const PREFIX: Record<NumberBase, string> = { binary: '0b', octal: '0o', decimal: '', hexadecimal: '0x' };
+const INTEGER_LITERAL = /^(0[xX][0-9a-fA-F]+|0[bB][01]+|0[oO][0-7]+|\d+)$/;
+
+// 二元运算符按优先级从低到高排列，与 C 语言一致
+const BINARY_LEVELS = [['|'], ['^'], ['&'], ['<<', '>>', '>>>'], ['+', '-'], ['*', '/', '%']];
+const UNARY_OPERATORS = ['~', '-', '+'];
+// 按最长匹配识别的运算符
+const OPERATORS = ['>>>', '<<', '>>', '|', '^', '&', '+', '-', '*', '/', '%', '~', '(', ')', ','];
+
+// 循环移位函数，rol(x, n) 和 ror(x, n)
+const ROTATE_FUNCTIONS = ['rol', 'ror'];
+
+export class ProgrammerMath {
+  public static readonly WORD_SIZES: WordSize[] = [8, 16, 32, 64, 128];
+
+  /**
+   * 检查是否为支持的字长
+   */
+  public static isWordSize(size: number): size is WordSize {
+    return (ProgrammerMath.WORD_SIZES as number[]).includes(size);
+  }
+
+  /**
+   * 按字长截断：有符号取补码解释，无符号取模 2^wordSize
+   */
+  public static wrap(value: bigint, options: WordOptions): bigint {
+    return options.signed ? BigInt.asIntN(options.wordSize, value) : BigInt.asUintN(options.wordSize, value);
+  }
+
+  /**
+   * 创建按字长截断的整数
+   */
+  public static create(value: bigint, options: WordOptions): WordValue {
+    return { value: ProgrammerMath.wrap(value, options), wordSize: options.wordSize, signed: options.signed };
+  }
+
+  /**
+   * 解析整数字面量：0x 十六进制、0b 二进制、0o 八进制，其余为十进制
+   */
+  public static parseLiteral(literal: string): bigint {
+    if (!INTEGER_LITERAL.test(literal)) {
+      throw new Error(`无效的整数: ${literal}`);
+    }
+    return BigInt(literal);
+  }
+
+  /**
+   * 二元运算，结果按字长截断；除法向零取整，>> 对有符号数为算术右移，>>> 总是逻辑右移
+   */
+  public static binary(operator: string, left: bigint, right: bigint, options: WordOptions): bigint {
+    const wrap = (value: bigint): bigint => ProgrammerMath.wrap(value, options);
+
+    switch (operator) {
+      case '+':
+        return wrap(left + right);
+      case '-':
+        return wrap(left - right);
+      case '*':
+        return wrap(left * right);
+      case '/':
+      case '%':
+        if (right === 0n) {
+          throw new Error('除零错误');
+        }
+        return wrap(operator === '/' ? left / right : left % right);
+      case '&':
+        return wrap(left & right);
+      case '|':
+        return wrap(left | right);
+      case '^':
+        return wrap(left ^ right);
+      case '<<':
+        return wrap(left << ProgrammerMath.shiftCount(right, options));
+      case '>>':
+        return wrap(left >> ProgrammerMath.shiftCount(right, options));
+      case '>>>':
+        return wrap(BigInt.asUintN(options.wordSize, left) >> ProgrammerMath.shiftCount(right, options));
+      default:
+        throw new Error(`不支持的运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 一元运算：按位取反、取负
+   */
+  public static unary(operator: string, operand: bigint, options: WordOptions): bigint {
+    switch (operator) {
+      case '~':
+        return ProgrammerMath.wrap(~operand, options);
+      case '-':
+        return ProgrammerMath.wrap(-operand, options);
+      case '+':
+        return operand;
+      default:
+        throw new Error(`不支持的运算符: ${operator}`);
+    }
+  }
+
+  /**
+   * 循环左移，移出字长的高位补到低位；位数按字长取模，负数表示循环右移
+   */
+  public static rotateLeft(value: bigint, count: bigint, options: WordOptions): bigint {
+    const size = BigInt(options.wordSize);
+    const shift = ((count % size) + size) % size;
+    const bits = BigInt.asUintN(options.wordSize, value);
+    return ProgrammerMath.wrap(shift === 0n ? bits : (bits << shift) | (bits >> (size - shift)), options);
+  }
+
+  /**
+   * 循环右移
+   */
+  public static rotateRight(value: bigint, count: bigint, options: WordOptions): bigint {
+    return ProgrammerMath.rotateLeft(value, -count, options);
+  }
+
+  /**
+   * 以指定进制输出整数，负数输出符号和绝对值，如 -0xFF
+   */
+  public static format(value: bigint, base: NumberBase): string {
+    const magnitude = value < 0n ? -value : value;
+    const digits = magnitude.toString(RADIX[base]).toUpperCase();
+    return `${value < 0n ? '-' : ''}${PREFIX[base]}${digits}`;
+  }
+
+  /**
+   * 各进制表示：十进制按有无符号解释，其余进制输出字长内的补码位模式
+   */
+  public static toBases(word: WordValue): Record<NumberBase, string> {
+    const bits = BigInt.asUintN(word.wordSize, word.value);
+    return {
+      hexadecimal: bits.toString(16).toUpperCase(),
+      decimal: word.value.toString(),
+      octal: bits.toString(8),
+      binary: bits.toString(2),
+    };
+  }
+
+  /**
+   * 移位位数不能为负；超过字长时按字长计，避免生成过大的中间值
+   */
+  private static shiftCount(count: bigint, options: WordOptions): bigint {
+    if (count < 0n) {
+      throw new Error('移位位数不能为负数');
+    }
+    const size = BigInt(options.wordSize);
+    return count > size ? size : count;
+  }
+}
+
+interface ProgrammerToken {
+  kind: 'number' | 'name' | 'operator';
+  value: string;
+  position: number;
+}
+
+export class ProgrammerParser {
+  private tokens: ProgrammerToken[] = [];
+  private cursor = 0;
+
+  private constructor(private readonly input: string) {}
+
+  /**
+   * 解析程序员模式的表达式为AST，运算符优先级与 C 语言一致（^ 为按位异或），语法错误抛出 ProgrammerSyntaxError
+   */
+  public static parse(input: string): ASTNode {
+    const parser = new ProgrammerParser(input);
+    parser.tokens = parser.tokenize();
+    if (parser.tokens.length === 0) {
+      throw new ProgrammerSyntaxError('表达式不能为空', 0);
+    }
+
+    const ast = parser.parseBinary(0);
+    const leftover = parser.peek();
+    if (leftover) {
+      throw new ProgrammerSyntaxError(`意外的符号: ${leftover.value}`, leftover.position, leftover.value.length);
+    }
+    return ast;
+  }
+
+  private tokenize(): ProgrammerToken[] {
+    const tokens: ProgrammerToken[] = [];
+    const input = this.input;
+    let position = 0;
+
+    while (position < input.length) {
+      const rest = input.slice(position);
+
+      if (/^\s/.test(rest)) {
+        position++;
+        continue;
+      }
+
+      const number = /^\d\w*/.exec(rest);
+      if (number) {
+        if (!INTEGER_LITERAL.test(number[0])) {
+          throw new ProgrammerSyntaxError(`无效的整数: ${number[0]}`, position, number[0].length);
+        }
+        tokens.push({ kind: 'number', value: number[0], position });
+        position += number[0].length;
+        continue;
+      }
+
+      const name = /^[a-zA-Z]\w*/.exec(rest);
+      if (name) {
+        tokens.push({ kind: 'name', value: name[0], position });
+        position += name[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+      if (!operator) {
+        throw new ProgrammerSyntaxError(`无法识别的字符: ${rest.charAt(0)}`, position, 1);
+      }
+      tokens.push({ kind: 'operator', value: operator, position });
+      position += operator.length;
+    }
+
+    return tokens;
+  }
+
+  private parseBinary(level: number): ASTNode {
+    const operators = BINARY_LEVELS[level];
+    if (!operators) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let token = this.peek();
+    while (token && token.kind === 'operator' && operators.includes(token.value)) {
+      this.cursor++;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', value: token.value, children: [left, right], position: token.position };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): ASTNode {
+    const token = this.peek();
+    if (token && token.kind === 'operator' && UNARY_OPERATORS.includes(token.value)) {
+      this.cursor++;
+      return { type: 'unary', value: token.value, children: [this.parseUnary()], position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ASTNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ProgrammerSyntaxError('意外的表达式结束', this.input.length);
+    }
+    this.cursor++;
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value, position: token.position };
+    }
+
+    if (token.kind === 'name') {
+      if (!ROTATE_FUNCTIONS.includes(token.value.toLowerCase())) {
+        throw new ProgrammerSyntaxError(`无法识别的名称: ${token.value}`, token.position, token.value.length);
+      }
+      return this.parseFunction(token);
+    }
+
+    if (token.value === '(') {
+      const inner = this.parseBinary(0);
+      this.expect(')', '缺少右括号', token);
+      return inner;
+    }
+
+    throw new ProgrammerSyntaxError(`运算符 ${token.value} 缺少操作数`, token.position, token.value.length);
+  }
+
+  private parseFunction(name: ProgrammerToken): ASTNode {
+    this.expect('(', `函数 ${name.value} 调用缺少左括号`, name);
+
+    const args = [this.parseBinary(0)];
+    while (this.peek()?.value === ',') {
+      this.cursor++;
+      args.push(this.parseBinary(0));
+    }
+    this.expect(')', `函数 ${name.value} 缺少右括号`, name);
+
+    return { type: 'function', value: name.value.toLowerCase(), children: args, position: name.position };
+  }
+
+  private expect(value: string, message: string, opening: ProgrammerToken): void {
+    const token = this.peek();
+    if (!token || token.value !== value) {
+      throw token
+        ? new ProgrammerSyntaxError(message, token.position, token.value.length)
+        : new ProgrammerSyntaxError(message, opening.position, opening.value.length);
+    }
+    this.cursor++;
+  }
+
+  private peek(): ProgrammerToken | undefined {
+    return this.tokens[this.cursor];
+  }
+}
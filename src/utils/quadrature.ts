@@ -0,0 +1,276 @@
+/**
+ * Quadrature Utilities
+ *
+ * 自适应 Gauss–Kronrod (G7/K15) 数值积分，支持无穷区间和端点可积奇点
+ */
+
+import { RealFunction } from '@/utils/solver';
+
+export interface QuadratureOptions {
+  tolerance: number; // 相对误差
+  absoluteTolerance: number;
+  maxSubdivisions: number;
+}
+
+export interface QuadratureResult {
+  value: number;
+  error: number; // 绝对误差估计
+  evaluations: number;
+  subdivisions: number;
+  converged: boolean;
+}
+
+interface Panel {
+  lower: number;
+  upper: number;
+  value: number;
+  error: number;
+}
+
+// Kronrod 15 点节点（非负半轴）及权重，其中奇数下标同时是 Gauss 7 点节点
+const KRONROD_NODES = [
+  0.991455371120812639206854697526329,
+  0.949107912342758524526189684047851,
+  0.864864423359769072789712788640926,
+  0.741531185599394439863864773280788,
+  0.586087235467691130294144845693013,
+  0.405845151377397166906606412076961,
+  0.207784955007898467600689403773245,
+  0,
+];
+const KRONROD_WEIGHTS = [
+  0.02293532201052922496373200805897,
+  0.063092092629978553290700663189204,
+  0.104790010322250183839876322541518,
+  0.140653259715525918745189590510238,
+  0.16900472663926790282658342659855,
+  0.190350578064785409913256402421014,
+  0.204432940075298892414161999234649,
+  0.209482141084727828012999174891714,
+];
+const GAUSS_WEIGHTS = [
+  0.129484966168869693270611432679082,
+  0.27970539148927666790146777142378,
+  0.381830050505118944950369775488975,
+  0.417959183673469387755102040816327,
+];
+
+export class Quadrature {
+  public static readonly DEFAULT_OPTIONS: QuadratureOptions = {
+    tolerance: 1e-10,
+    absoluteTolerance: 1e-12,
+    maxSubdivisions: 500,
+  };
+
+  // 判断无穷区间是否发散时，在 |x| = 10³ 到 10⁷ 之间按几何间隔采样的点数
+  private static readonly TAIL_SAMPLES = 21;
+
+  /**
+   * 计算 ∫[lower, upper] f(x) dx，上下限可以是 ±Infinity
+   *
+   * 无穷区间先映射到有限区间；端点处无定义（可积奇点）时再做光滑化换元。
+   * 无穷区间上未能收敛且被积函数在无穷远处衰减不快于 1/x 时，报告积分发散。
+   */
+  public static integrate(
+    f: RealFunction,
+    lower: number,
+    upper: number,
+    options: Partial<QuadratureOptions> = {}
+  ): QuadratureResult {
+    const settings = { ...Quadrature.DEFAULT_OPTIONS, ...options };
+
+    if (Number.isNaN(lower) || Number.isNaN(upper)) {
+      throw new Error('积分限无效');
+    }
+    if (lower === upper) {
+      return { value: 0, error: 0, evaluations: 0, subdivisions: 0, converged: true };
+    }
+    if (lower > upper) {
+      const result = Quadrature.integrate(f, upper, lower, options);
+      return { ...result, value: -result.value };
+    }
+
+    const [g, a, b, toX] = Quadrature.toFiniteInterval(f, lower, upper);
+    const singular = !isFinite(Quadrature.safeEvaluate(g, a)) || !isFinite(Quadrature.safeEvaluate(g, b));
+    const integrand = singular ? Quadrature.smoothEndpoints(g, a, b) : g;
+    const position = singular ? (u: number): number => toX(a + (b - a) * u * u * (3 - 2 * u)) : toX;
+
+    const divergence = (): Error | null => {
+      const end = upper === Infinity && Quadrature.divergesAtInfinity(f, lower)
+        ? '+∞'
+        : lower === -Infinity && Quadrature.divergesAtInfinity(x => f(-x), -upper) ? '-∞' : null;
+      return end && new Error(`积分发散：x → ${end} 时被积函数衰减不快于 1/x`);
+    };
+
+    let result: QuadratureResult;
+    try {
+      result = Quadrature.adaptive(integrand, singular ? 0 : a, singular ? 1 : b, position, settings);
+    } catch (error) {
+      throw divergence() ?? error;
+    }
+    if (!result.converged) {
+      const error = divergence();
+      if (error) {
+        throw error;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 被积函数在 +∞ 方向不变号，且 x·|f(x)| 在采样范围内没有明显减小（衰减不快于 1/x）时，
+   * ∫ f dx 在 +∞ 处发散；振荡的被积函数（如 sin(x)/x）不会被判为发散
+   */
+  private static divergesAtInfinity(f: RealFunction, start: number): boolean {
+    const scale = Math.max(1, Number.isFinite(start) ? Math.abs(start) : 1);
+    const samples = Array.from({ length: Quadrature.TAIL_SAMPLES }, (_, i) => {
+      const x = scale * Math.pow(10, 3 + (4 * i) / (Quadrature.TAIL_SAMPLES - 1));
+      return x * Quadrature.safeEvaluate(f, x);
+    });
+
+    const first = samples[0] as number;
+    const last = samples[samples.length - 1] as number;
+    return (
+      samples.every(value => isFinite(value) && value !== 0 && Math.sign(value) === Math.sign(first)) &&
+      Math.abs(last) >= Math.abs(first) / 2
+    );
+  }
+
+  /**
+   * 将无穷区间映射到有限区间，返回换元后的被积函数、新的积分限和由 t 求 x 的换元函数
+   */
+  private static toFiniteInterval(
+    f: RealFunction,
+    lower: number,
+    upper: number
+  ): [RealFunction, number, number, RealFunction] {
+    const lowerInfinite = lower === -Infinity;
+    const upperInfinite = upper === Infinity;
+
+    // (-∞, ∞)：x = t/(1 - t²)，t ∈ (-1, 1)
+    if (lowerInfinite && upperInfinite) {
+      return [
+        t => {
+          const denominator = 1 - t * t;
+          return f(t / denominator) * (1 + t * t) / (denominator * denominator);
+        },
+        -1,
+        1,
+        t => t / (1 - t * t),
+      ];
+    }
+
+    // [a, ∞)：x = a + t/(1 - t)，t ∈ [0, 1)
+    if (upperInfinite) {
+      return [t => f(lower + t / (1 - t)) / ((1 - t) * (1 - t)), 0, 1, t => lower + t / (1 - t)];
+    }
+
+    // (-∞, b]：x = b - t/(1 - t)，t ∈ [0, 1)
+    if (lowerInfinite) {
+      return [t => f(upper - t / (1 - t)) / ((1 - t) * (1 - t)), 0, 1, t => upper - t / (1 - t)];
+    }
+
+    return [f, lower, upper, x => x];
+  }
+
+  /**
+   * 光滑化换元 x = a + (b - a)(3u² - 2u³)，dx/du 在两端为 0，可抵消 1/√x 型奇点
+   */
+  private static smoothEndpoints(g: RealFunction, a: number, b: number): RealFunction {
+    const width = b - a;
+    return u => {
+      const weight = 6 * u * (1 - u) * width;
+      return weight === 0 ? 0 : g(a + width * u * u * (3 - 2 * u)) * weight;
+    };
+  }
+
+  /**
+   * 自适应细分：每次二分误差估计最大的子区间，直到总误差满足容差；
+   * position 把换元后的积分变量换回 x，用于报告无定义的位置
+   */
+  private static adaptive(
+    f: RealFunction,
+    a: number,
+    b: number,
+    position: RealFunction,
+    options: QuadratureOptions
+  ): QuadratureResult {
+    const panels: Panel[] = [Quadrature.kronrod(f, a, b, position)];
+    let evaluations = 15;
+
+    for (;;) {
+      const value = panels.reduce((sum, panel) => sum + panel.value, 0);
+      const error = panels.reduce((sum, panel) => sum + panel.error, 0);
+      const target = Math.max(options.absoluteTolerance, options.tolerance * Math.abs(value));
+
+      if (error <= target || panels.length >= options.maxSubdivisions) {
+        return { value, error, evaluations, subdivisions: panels.length, converged: error <= target };
+      }
+
+      let worst = 0;
+      for (let i = 1; i < panels.length; i++) {
+        if ((panels[i] as Panel).error > (panels[worst] as Panel).error) {
+          worst = i;
+        }
+      }
+
+      const panel = panels[worst] as Panel;
+      const middle = (panel.lower + panel.upper) / 2;
+      // 区间已无法在双精度下继续二分
+      if (middle <= panel.lower || middle >= panel.upper) {
+        return { value, error, evaluations, subdivisions: panels.length, converged: false };
+      }
+
+      panels.splice(
+        worst,
+        1,
+        Quadrature.kronrod(f, panel.lower, middle, position),
+        Quadrature.kronrod(f, middle, panel.upper, position)
+      );
+      evaluations += 30;
+    }
+  }
+
+  /**
+   * 单个区间上的 K15 积分值，误差估计取 |K15 - G7|
+   */
+  private static kronrod(f: RealFunction, lower: number, upper: number, position: RealFunction): Panel {
+    const center = (lower + upper) / 2;
+    const half = (upper - lower) / 2;
+    const evaluate = (x: number): number => {
+      const y = Quadrature.safeEvaluate(f, x);
+      if (!isFinite(y)) {
+        throw new Error(`被积函数在 x ≈ ${Number(position(x).toPrecision(6))} 处无定义`);
+      }
+      return y;
+    };
+
+    const centerValue = evaluate(center);
+    let kronrod = centerValue * (KRONROD_WEIGHTS[7] as number);
+    let gauss = centerValue * (GAUSS_WEIGHTS[3] as number);
+
+    for (let j = 0; j < 7; j++) {
+      const offset = half * (KRONROD_NODES[j] as number);
+      const pair = evaluate(center - offset) + evaluate(center + offset);
+      kronrod += (KRONROD_WEIGHTS[j] as number) * pair;
+      if (j % 2 === 1) {
+        gauss += (GAUSS_WEIGHTS[(j - 1) / 2] as number) * pair;
+      }
+    }
+
+    return {
+      lower,
+      upper,
+      value: kronrod * half,
+      error: Math.abs((kronrod - gauss) * half),
+    };
+  }
+
+  private static safeEvaluate(f: RealFunction, x: number): number {
+    try {
+      return f(x);
+    } catch {
+      return NaN;
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Rational Utilities
+ *
+ * 基于 BigInt 的精确有理数运算，结果始终为既约分数且分母为正
+ */
+
+import { Decimal } from 'decimal.js';
+import { Rational } from '@/types';
+
+export class RationalMath {
+  // 精确乘方结果的最大位数，超过时由调用方改用 Decimal 近似计算
+  private static readonly MAX_EXACT_BITS = 16384;
+  // 精确开方尝试的最大根指数
+  private static readonly MAX_ROOT_INDEX = 64;
+  // toString 的输出格式，如 -7/3
+  private static readonly SERIALIZED_PATTERN = /^([+-]?\d+)\/(\d+)$/;
+
+  /**
+   * 创建有理数并约分
+   */
+  public static create(numerator: bigint, denominator: bigint = 1n): Rational {
+    if (denominator === 0n) {
+      throw new Error('除零错误');
+    }
+
+    const sign = denominator < 0n ? -1n : 1n;
+    const divisor = RationalMath.gcd(numerator, denominator);
+    return {
+      numerator: (sign * numerator) / divisor,
+      denominator: (sign * denominator) / divisor,
+    };
+  }
+
+  /**
+   * 将有限的 Decimal 精确转换为有理数（十进制小数总是有限分数）
+   */
+  public static fromDecimal(value: Decimal): Rational {
+    if (!value.isFinite()) {
+      throw new Error('无法将非有限值转换为分数');
+    }
+
+    const [integerPart, fractionPart = ''] = value.toFixed().split('.') as [string, string?];
+    return RationalMath.create(
+      BigInt(integerPart + fractionPart),
+      10n ** BigInt(fractionPart.length)
+    );
+  }
+
+  /**
+   * 类型守卫：检查是否为有理数
+   */
+  public static isRational(value: unknown): value is Rational {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      typeof (value as Rational).numerator === 'bigint' &&
+      typeof (value as Rational).denominator === 'bigint'
+    );
+  }
+
+  /**
+   * 是否为整数
+   */
+  public static isInteger(r: Rational): boolean {
+    return r.denominator === 1n;
+  }
+
+  /**
+   * 是否为零
+   */
+  public static isZero(r: Rational): boolean {
+    return r.numerator === 0n;
+  }
+
+  /**
+   * 是否为负数
+   */
+  public static isNegative(r: Rational): boolean {
+    return r.numerator < 0n;
+  }
+
+  /**
+   * 按当前 Decimal 精度转换为小数
+   */
+  public static toDecimal(r: Rational): Decimal {
+    const numerator = new Decimal(r.numerator.toString());
+    return r.denominator === 1n ? numerator : numerator.dividedBy(r.denominator.toString());
+  }
+
+  /**
+   * 分母只含因子 2 和 5 时化简为精确的 Decimal，否则保持分数形式
+   */
+  public static simplify(r: Rational): Decimal | Rational {
+    let rest = r.denominator;
+    let twos = 0;
+    let fives = 0;
+    while (rest % 2n === 0n) {
+      rest /= 2n;
+      twos++;
+    }
+    while (rest % 5n === 0n) {
+      rest /= 5n;
+      fives++;
+    }
+    if (rest !== 1n) {
+      return r;
+    }
+
+    // n/d = n·(10^k/d)·10^-k，Decimal 构造函数不做舍入
+    const digits = Math.max(twos, fives);
+    const scaled = r.numerator * (10n ** BigInt(digits) / r.denominator);
+    return new Decimal(`${scaled}e-${digits}`);
+  }
+
+  /**
+   * 加法
+   */
+  public static add(a: Rational, b: Rational): Rational {
+    return RationalMath.create(
+      a.numerator * b.denominator + b.numerator * a.denominator,
+      a.denominator * b.denominator
+    );
+  }
+
+  /**
+   * 减法
+   */
+  public static subtract(a: Rational, b: Rational): Rational {
+    return RationalMath.add(a, RationalMath.negate(b));
+  }
+
+  /**
+   * 乘法
+   */
+  public static multiply(a: Rational, b: Rational): Rational {
+    return RationalMath.create(a.numerator * b.numerator, a.denominator * b.denominator);
+  }
+
+  /**
+   * 除法
+   */
+  public static divide(a: Rational, b: Rational): Rational {
+    if (b.numerator === 0n) {
+      throw new Error('除零错误');
+    }
+    return RationalMath.create(a.numerator * b.denominator, a.denominator * b.numerator);
+  }
+
+  /**
+   * 取余，与 Decimal 的 modulo 配置一致：商向零截断，余数与被除数同号
+   */
+  public static modulo(a: Rational, b: Rational): Rational {
+    if (b.numerator === 0n) {
+      throw new Error('除零错误');
+    }
+    const quotient = (a.numerator * b.denominator) / (a.denominator * b.numerator);
+    return RationalMath.subtract(a, RationalMath.multiply(b, RationalMath.create(quotient)));
+  }
+
+  /**
+   * 取相反数
+   */
+  public static negate(r: Rational): Rational {
+    return { numerator: -r.numerator, denominator: r.denominator };
+  }
+
+  /**
+   * 绝对值
+   */
+  public static abs(r: Rational): Rational {
+    return r.numerator < 0n ? RationalMath.negate(r) : r;
+  }
+
+  /**
+   * 比较大小，返回 -1、0 或 1
+   */
+  public static compare(a: Rational, b: Rational): number {
+    const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  }
+
+  /**
+   * 向下取整
+   */
+  public static floor(r: Rational): Rational {
+    const quotient = r.numerator / r.denominator;
+    const adjust = r.numerator < 0n && quotient * r.denominator !== r.numerator ? 1n : 0n;
+    return RationalMath.create(quotient - adjust);
+  }
+
+  /**
+   * 向上取整
+   */
+  public static ceil(r: Rational): Rational {
+    return RationalMath.negate(RationalMath.floor(RationalMath.negate(r)));
+  }
+
+  /**
+   * 四舍五入，恰好一半时远离零（与 Decimal.ROUND_HALF_UP 一致）
+   */
+  public static round(r: Rational): Rational {
+    const magnitude = RationalMath.abs(r);
+    const rounded = RationalMath.floor(RationalMath.add(magnitude, RationalMath.create(1n, 2n)));
+    return r.numerator < 0n ? RationalMath.negate(rounded) : rounded;
+  }
+
+  /**
+   * 有理数次幂：整数指数直接计算，p/q 次幂仅在底数非负且能精确开 q 次方时计算；
+   * 无法精确表示或结果过大时返回 null
+   */
+  public static pow(base: Rational, exponent: Rational): Rational | null {
+    if (exponent.denominator !== 1n) {
+      if (base.numerator < 0n || exponent.denominator > BigInt(RationalMath.MAX_ROOT_INDEX)) {
+        return null;
+      }
+      const root = RationalMath.root(base, exponent.denominator);
+      return root && RationalMath.pow(root, RationalMath.create(exponent.numerator));
+    }
+
+    const n = exponent.numerator;
+    const magnitude = n < 0n ? -n : n;
+    const bits = Math.max(base.numerator.toString(2).length, base.denominator.toString(2).length);
+    if (Number(magnitude) * bits > RationalMath.MAX_EXACT_BITS) {
+      return null;
+    }
+    if (n < 0n && base.numerator === 0n) {
+      throw new Error('除零错误');
+    }
+
+    const numerator = base.numerator ** magnitude;
+    const denominator = base.denominator ** magnitude;
+    return n < 0n
+      ? RationalMath.create(denominator, numerator)
+      : RationalMath.create(numerator, denominator);
+  }
+
+  /**
+   * 非负有理数的精确 q 次方根，不是完全 q 次方时返回 null
+   */
+  private static root(r: Rational, index: bigint): Rational | null {
+    const numerator = RationalMath.integerRoot(r.numerator, index);
+    const denominator = RationalMath.integerRoot(r.denominator, index);
+    return numerator === null || denominator === null
+      ? null
+      : RationalMath.create(numerator, denominator);
+  }
+
+  /**
+   * 非负整数的精确整数次方根（牛顿迭代），不是完全方幂时返回 null
+   */
+  private static integerRoot(value: bigint, index: bigint): bigint | null {
+    if (value < 2n) {
+      return value;
+    }
+
+    // 初值取 2^ceil(bits/index)，保证不小于真实根，迭代单调递减
+    const bits = BigInt(value.toString(2).length);
+    let x = 1n << ((bits + index - 1n) / index);
+    for (;;) {
+      const next = ((index - 1n) * x + value / x ** (index - 1n)) / index;
+      if (next >= x) {
+        break;
+      }
+      x = next;
+    }
+
+    return x ** index === value ? x : null;
+  }
+
+  /**
+   * 转换为字符串，如 7/3、-2
+   */
+  public static toString(r: Rational): string {
+    return r.denominator === 1n ? r.numerator.toString() : `${r.numerator}/${r.denominator}`;
+  }
+
+  /**
+   * 带分数形式，如 2 1/3、-1 1/2；真分数和整数与 toString 相同
+   */
+  public static toMixedString(r: Rational): string {
+    const magnitude = RationalMath.abs(r);
+    const whole = magnitude.numerator / magnitude.denominator;
+    if (whole === 0n || magnitude.denominator === 1n) {
+      return RationalMath.toString(r);
+    }
+
+    const remainder = magnitude.numerator % magnitude.denominator;
+    const sign = r.numerator < 0n ? '-' : '';
+    return `${sign}${whole} ${remainder}/${magnitude.denominator}`;
+  }
+
+  /**
+   * 解析 toString 的输出（仅分数形式），格式不符时返回 null
+   */
+  public static parse(text: string): Rational | null {
+    const match = RationalMath.SERIALIZED_PATTERN.exec(text.trim());
+    if (!match) {
+      return null;
+    }
+    return RationalMath.create(BigInt(match[1] as string), BigInt(match[2] as string));
+  }
+
+  private static gcd(a: bigint, b: bigint): bigint {
+    let x = a < 0n ? -a : a;
+    let y = b < 0n ? -b : b;
+    while (y !== 0n) {
+      [x, y] = [y, x % y];
+    }
+    return x === 0n ? 1n : x;
+  }
+}
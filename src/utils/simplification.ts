@@ -0,0 +1,615 @@
+/**
+ * Simplification Utilities
+ *
+ * 规范化代数化简：常数折叠、同类项合并、同底幂合并、恒等式消去和规范排序
+ */
+
+import { Decimal } from 'decimal.js';
+import { ASTNode } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { SummationUtils } from '@/utils/summation';
+
+// 精确有理数 numerator/denominator，分母为正且已约分
+interface Rational {
+  numerator: Decimal;
+  denominator: Decimal;
+}
+
+// 幂因子 base^exponent，指数本身也是规范和式
+interface Factor {
+  base: ASTNode;
+  exponent: Sum;
+}
+
+// 单项式：有理系数乘以若干幂因子，因子按底数的规范字符串索引
+interface Term {
+  coefficient: Rational;
+  factors: Map<string, Factor>;
+}
+
+// 和式：单项式按其规范字符串索引，空和式表示 0
+type Sum = Map<string, Term>;
+
+// 因子排序：数字、常数、变量、函数、复合表达式
+const BASE_RANK: Record<string, number> = {
+  number: 0,
+  constant: 1,
+  variable: 2,
+  function: 3,
+};
+
+export class SimplificationUtils {
+  // 数字系数的整数次幂超过该值时不再展开，避免产生过长的数字
+  private static readonly MAX_FOLDED_EXPONENT = 64;
+
+  /**
+   * 化简为规范形式，输出可被 ExpressionModel 重新解析且再次化简结果不变
+   *
+   * 语句节点（方程、赋值、函数定义）化简其中的表达式部分，单位换算只化简被换算的表达式。
+   */
+  public static simplify(node: ASTNode): ASTNode {
+    const children = node.children ?? [];
+
+    switch (node.type) {
+      case 'equation':
+        return {
+          type: 'equation',
+          value: node.value,
+          children: children.map(child => SimplificationUtils.simplify(child)),
+        };
+
+      case 'conversion':
+        return {
+          type: 'conversion',
+          value: node.value,
+          children: [SimplificationUtils.simplify(children[0] as ASTNode), children[1] as ASTNode],
+        };
+
+      case 'assignment':
+        return {
+          type: 'assignment',
+          value: node.value,
+          children: [SimplificationUtils.simplify(children[0] as ASTNode)],
+        };
+
+      case 'definition':
+        return {
+          type: 'definition',
+          value: node.value,
+          children: [
+            ...children.slice(0, -1),
+            SimplificationUtils.simplify(children[children.length - 1] as ASTNode),
+          ],
+        };
+
+      default:
+        return SimplificationUtils.toAST(SimplificationUtils.fromAST(node));
+    }
+  }
+
+  /**
+   * AST 转换为规范和式
+   */
+  private static fromAST(node: ASTNode): Sum {
+    const children = node.children ?? [];
+
+    switch (node.type) {
+      case 'number':
+        return SimplificationUtils.constantSum(
+          SimplificationUtils.rationalFromDecimal(new Decimal(node.value as Decimal.Value))
+        );
+
+      case 'constant':
+      case 'variable':
+        return SimplificationUtils.atomSum({ type: node.type, value: node.value });
+
+      case 'function': {
+        // 求和与求积有闭式时展开为闭式
+        const closedForm = SummationUtils.closedForm(node);
+        if (closedForm) {
+          return SimplificationUtils.fromAST(closedForm);
+        }
+        return SimplificationUtils.atomSum(
+          ASTUtils.call(String(node.value), ...children.map(child => SimplificationUtils.simplify(child)))
+        );
+      }
+
+      case 'unary': {
+        // 逻辑非整体视为一个因子
+        if (node.value === 'not') {
+          return SimplificationUtils.atomSum(ASTUtils.unary('not', SimplificationUtils.simplify(children[0] as ASTNode)));
+        }
+        const operand = SimplificationUtils.fromAST(children[0] as ASTNode);
+        return node.value === '-' ? SimplificationUtils.negateSum(operand) : operand;
+      }
+
+      case 'binary': {
+        // 比较和逻辑运算整体视为一个因子，两侧分别化简
+        const operator = String(node.value);
+        if (ASTUtils.COMPARISON_OPERATORS.includes(operator) || ASTUtils.LOGICAL_OPERATORS.includes(operator)) {
+          return SimplificationUtils.atomSum(
+            ASTUtils.binary(operator, ...(children.map(child => SimplificationUtils.simplify(child)) as [ASTNode, ASTNode]))
+          );
+        }
+        const left = SimplificationUtils.fromAST(children[0] as ASTNode);
+        const right = SimplificationUtils.fromAST(children[1] as ASTNode);
+
+        switch (node.value) {
+          case '+':
+            return SimplificationUtils.addSums(left, right);
+          case '-':
+            return SimplificationUtils.addSums(left, SimplificationUtils.negateSum(right));
+          case '*':
+            return SimplificationUtils.multiplySums(left, right);
+          case '/':
+            return SimplificationUtils.multiplySums(
+              left,
+              SimplificationUtils.powerSum(right, SimplificationUtils.constantSum(SimplificationUtils.rational(-1)))
+            );
+          case '^':
+          case '**':
+            return SimplificationUtils.powerSum(left, right);
+          default:
+            throw new Error(`不支持的运算符: ${String(node.value)}`);
+        }
+      }
+
+      default:
+        throw new Error(`无法化简 ${node.type} 节点`);
+    }
+  }
+
+  // ---------- 和式运算 ----------
+
+  private static constantSum(value: Rational): Sum {
+    const sum: Sum = new Map();
+    if (!value.numerator.isZero()) {
+      sum.set('', { coefficient: value, factors: new Map() });
+    }
+    return sum;
+  }
+
+  private static atomSum(base: ASTNode): Sum {
+    return SimplificationUtils.termSum({
+      coefficient: SimplificationUtils.rational(1),
+      factors: new Map([
+        [ASTUtils.toString(base), { base, exponent: SimplificationUtils.constantSum(SimplificationUtils.rational(1)) }],
+      ]),
+    });
+  }
+
+  private static termSum(term: Term): Sum {
+    const sum: Sum = new Map();
+    if (!term.coefficient.numerator.isZero()) {
+      sum.set(SimplificationUtils.termKey(term), term);
+    }
+    return sum;
+  }
+
+  /**
+   * 合并同类项，系数为 0 的项消去
+   */
+  private static addSums(a: Sum, b: Sum): Sum {
+    const result: Sum = new Map(a);
+    for (const [key, term] of b) {
+      const existing = result.get(key);
+      if (!existing) {
+        result.set(key, term);
+        continue;
+      }
+
+      const coefficient = SimplificationUtils.addRationals(existing.coefficient, term.coefficient);
+      if (coefficient.numerator.isZero()) {
+        result.delete(key);
+      } else {
+        result.set(key, { coefficient, factors: existing.factors });
+      }
+    }
+    return result;
+  }
+
+  private static negateSum(sum: Sum): Sum {
+    return SimplificationUtils.scaleSum(sum, SimplificationUtils.rational(-1));
+  }
+
+  private static scaleSum(sum: Sum, factor: Rational): Sum {
+    if (factor.numerator.isZero()) {
+      return new Map();
+    }
+
+    const result: Sum = new Map();
+    for (const [key, term] of sum) {
+      result.set(key, {
+        coefficient: SimplificationUtils.multiplyRationals(term.coefficient, factor),
+        factors: term.factors,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 乘法：常数因子分配到和式中，多项和式作为整体参与同底幂合并
+   */
+  private static multiplySums(a: Sum, b: Sum): Sum {
+    if (a.size === 0 || b.size === 0) {
+      return new Map();
+    }
+
+    const constantA = SimplificationUtils.constantValue(a);
+    if (constantA) return SimplificationUtils.scaleSum(b, constantA);
+    const constantB = SimplificationUtils.constantValue(b);
+    if (constantB) return SimplificationUtils.scaleSum(a, constantB);
+
+    return SimplificationUtils.termSum(
+      SimplificationUtils.multiplyTerms(SimplificationUtils.asTerm(a), SimplificationUtils.asTerm(b))
+    );
+  }
+
+  private static multiplyTerms(a: Term, b: Term): Term {
+    const factors = new Map(a.factors);
+    for (const [key, factor] of b.factors) {
+      const existing = factors.get(key);
+      if (!existing) {
+        factors.set(key, factor);
+        continue;
+      }
+
+      const exponent = SimplificationUtils.addSums(existing.exponent, factor.exponent);
+      if (exponent.size === 0) {
+        factors.delete(key);
+      } else {
+        factors.set(key, { base: existing.base, exponent });
+      }
+    }
+
+    return SimplificationUtils.foldNumericFactors({
+      coefficient: SimplificationUtils.multiplyRationals(a.coefficient, b.coefficient),
+      factors,
+    });
+  }
+
+  /**
+   * 幂运算：整数次幂逐因子展开，其余情况作为幂因子保留
+   */
+  private static powerSum(base: Sum, exponent: Sum): Sum {
+    const constantExponent = exponent.size === 0
+      ? SimplificationUtils.rational(0)
+      : SimplificationUtils.constantValue(exponent);
+
+    if (constantExponent?.numerator.isZero()) {
+      return SimplificationUtils.constantSum(SimplificationUtils.rational(1));
+    }
+
+    if (base.size === 0) {
+      if (constantExponent && constantExponent.numerator.isNegative()) {
+        throw new Error('除零错误');
+      }
+      if (constantExponent) {
+        return new Map();
+      }
+    }
+
+    if (base.size === 1) {
+      const term = SimplificationUtils.asTerm(base);
+      const [single] = [...term.factors.values()];
+
+      // (c·a^m·b^n)^k = c^k·a^(mk)·b^(nk)，k 为整数
+      if (
+        constantExponent &&
+        constantExponent.denominator.equals(1) &&
+        (constantExponent.numerator.abs().lte(SimplificationUtils.MAX_FOLDED_EXPONENT) ||
+          term.coefficient.numerator.abs().equals(term.coefficient.denominator))
+      ) {
+        const k = constantExponent.numerator;
+        const factors = new Map<string, Factor>();
+        for (const [key, factor] of term.factors) {
+          factors.set(key, {
+            base: factor.base,
+            exponent: SimplificationUtils.scaleSum(factor.exponent, constantExponent),
+          });
+        }
+        return SimplificationUtils.termSum(
+          SimplificationUtils.foldNumericFactors({
+            coefficient: SimplificationUtils.powerRational(term.coefficient, k),
+            factors,
+          })
+        );
+      }
+
+      // 单个一次幂因子 a^e
+      if (
+        single &&
+        term.factors.size === 1 &&
+        SimplificationUtils.isOne(term.coefficient) &&
+        SimplificationUtils.isOne(SimplificationUtils.constantValue(single.exponent))
+      ) {
+        return SimplificationUtils.powerAtom(single.base, exponent);
+      }
+
+      // 纯数字底数 c^e
+      if (term.factors.size === 0) {
+        return SimplificationUtils.powerAtom(SimplificationUtils.rationalToAST(term.coefficient), exponent);
+      }
+    }
+
+    return SimplificationUtils.powerAtom(SimplificationUtils.toAST(base), exponent);
+  }
+
+  private static powerAtom(base: ASTNode, exponent: Sum): Sum {
+    return SimplificationUtils.termSum(
+      SimplificationUtils.foldNumericFactors({
+        coefficient: SimplificationUtils.rational(1),
+        factors: new Map([[ASTUtils.toString(base), { base, exponent }]]),
+      })
+    );
+  }
+
+  /**
+   * 数字底数的整数次幂并入系数
+   */
+  private static foldNumericFactors(term: Term): Term {
+    let coefficient = term.coefficient;
+    const factors = new Map<string, Factor>();
+
+    for (const [key, factor] of term.factors) {
+      const exponent = SimplificationUtils.constantValue(factor.exponent);
+      const base = SimplificationUtils.numericBase(factor.base);
+      if (
+        base &&
+        exponent &&
+        exponent.denominator.equals(1) &&
+        exponent.numerator.abs().lte(SimplificationUtils.MAX_FOLDED_EXPONENT) &&
+        !(base.numerator.isZero() && exponent.numerator.isNegative())
+      ) {
+        coefficient = SimplificationUtils.multiplyRationals(
+          coefficient,
+          SimplificationUtils.powerRational(base, exponent.numerator)
+        );
+      } else {
+        factors.set(key, factor);
+      }
+    }
+
+    return { coefficient, factors };
+  }
+
+  /**
+   * 把和式视为单项式；多项和式作为一次幂的整体因子
+   */
+  private static asTerm(sum: Sum): Term {
+    if (sum.size === 1) {
+      return [...sum.values()][0] as Term;
+    }
+
+    const base = SimplificationUtils.toAST(sum);
+    return {
+      coefficient: SimplificationUtils.rational(1),
+      factors: new Map([
+        [ASTUtils.toString(base), { base, exponent: SimplificationUtils.constantSum(SimplificationUtils.rational(1)) }],
+      ]),
+    };
+  }
+
+  /**
+   * 和式为常数时返回其值
+   */
+  private static constantValue(sum: Sum): Rational | null {
+    if (sum.size !== 1) {
+      return null;
+    }
+    const constant = sum.get('');
+    return constant ? constant.coefficient : null;
+  }
+
+  private static numericBase(node: ASTNode): Rational | null {
+    if (node.type === 'number') {
+      return SimplificationUtils.rationalFromDecimal(new Decimal(node.value as Decimal.Value));
+    }
+    if (node.type === 'binary' && node.value === '/' && node.children) {
+      const numerator = SimplificationUtils.numericBase(node.children[0] as ASTNode);
+      const denominator = SimplificationUtils.numericBase(node.children[1] as ASTNode);
+      return numerator && denominator && !denominator.numerator.isZero()
+        ? SimplificationUtils.multiplyRationals(numerator, SimplificationUtils.invertRational(denominator))
+        : null;
+    }
+    if (node.type === 'unary' && node.value === '-' && node.children) {
+      const operand = SimplificationUtils.numericBase(node.children[0] as ASTNode);
+      return operand ? SimplificationUtils.multiplyRationals(operand, SimplificationUtils.rational(-1)) : null;
+    }
+    return null;
+  }
+
+  // ---------- 输出 ----------
+
+  /**
+   * 规范和式转换为 AST：按次数降序排列，常数项在最后，负项写成减法
+   */
+  private static toAST(sum: Sum): ASTNode {
+    const terms = [...sum.values()].sort(SimplificationUtils.compareTerms);
+    if (terms.length === 0) {
+      return ASTUtils.number(0);
+    }
+
+    return terms.slice(1).reduce((result, term) => {
+      const negative = term.coefficient.numerator.isNegative();
+      const node = SimplificationUtils.termToAST(term, false);
+      return negative ? ASTUtils.subtract(result, node) : ASTUtils.add(result, node);
+    }, SimplificationUtils.termToAST(terms[0] as Term, true));
+  }
+
+  /**
+   * 单项式输出为 系数·正幂因子 / (分母·负幂因子)，signed 为 false 时输出系数绝对值
+   */
+  private static termToAST(term: Term, signed: boolean): ASTNode {
+    const { numerator, denominator } = term.coefficient;
+    const negative = signed && numerator.isNegative();
+    const numeratorFactors: ASTNode[] = [];
+    const denominatorFactors: ASTNode[] = [];
+
+    const factors = [...term.factors.values()].sort((a, b) => SimplificationUtils.compareBases(a.base, b.base));
+    for (const { base, exponent } of factors) {
+      const constant = SimplificationUtils.constantValue(exponent);
+      if (constant && constant.numerator.isNegative()) {
+        denominatorFactors.push(SimplificationUtils.powerToAST(base, SimplificationUtils.negateSum(exponent)));
+      } else {
+        numeratorFactors.push(SimplificationUtils.powerToAST(base, exponent));
+      }
+    }
+
+    if (!numerator.abs().equals(1) || numeratorFactors.length === 0) {
+      numeratorFactors.unshift(ASTUtils.number(negative ? numerator : numerator.abs()));
+    } else if (negative) {
+      numeratorFactors[0] = ASTUtils.negate(numeratorFactors[0] as ASTNode);
+    }
+    if (!denominator.equals(1)) {
+      denominatorFactors.unshift(ASTUtils.number(denominator));
+    }
+
+    const product = (nodes: ASTNode[]): ASTNode =>
+      nodes.slice(1).reduce((result, node) => ASTUtils.multiply(result, node), nodes[0] as ASTNode);
+
+    return denominatorFactors.length === 0
+      ? product(numeratorFactors)
+      : ASTUtils.divide(product(numeratorFactors), product(denominatorFactors));
+  }
+
+  private static powerToAST(base: ASTNode, exponent: Sum): ASTNode {
+    return SimplificationUtils.isOne(SimplificationUtils.constantValue(exponent))
+      ? base
+      : ASTUtils.power(base, SimplificationUtils.toAST(exponent));
+  }
+
+  private static rationalToAST(value: Rational): ASTNode {
+    return SimplificationUtils.toAST(SimplificationUtils.constantSum(value));
+  }
+
+  // ---------- 规范排序 ----------
+
+  private static termKey(term: Term): string {
+    return [...term.factors.entries()]
+      .sort(([, a], [, b]) => SimplificationUtils.compareBases(a.base, b.base))
+      .map(([key, factor]) => `${key}^${ASTUtils.toString(SimplificationUtils.toAST(factor.exponent))}`)
+      .join('*');
+  }
+
+  /**
+   * 项的次数：各因子常数指数之和
+   */
+  private static degree(term: Term): Decimal {
+    let degree = new Decimal(0);
+    for (const factor of term.factors.values()) {
+      const exponent = SimplificationUtils.constantValue(factor.exponent);
+      if (exponent) {
+        degree = degree.plus(exponent.numerator.dividedBy(exponent.denominator));
+      }
+    }
+    return degree;
+  }
+
+  /**
+   * 分次字典序：常数项最后，次数高的在前，同次数按底数顺序比较指数
+   */
+  private static compareTerms(a: Term, b: Term): number {
+    if (a.factors.size === 0 || b.factors.size === 0) {
+      return (a.factors.size === 0 ? 1 : 0) - (b.factors.size === 0 ? 1 : 0);
+    }
+
+    const degreeOrder = SimplificationUtils.degree(b).comparedTo(SimplificationUtils.degree(a));
+    if (degreeOrder !== 0) {
+      return degreeOrder;
+    }
+
+    const bases = new Map<string, ASTNode>();
+    for (const [key, factor] of [...a.factors, ...b.factors]) {
+      bases.set(key, factor.base);
+    }
+    const keys = [...bases.entries()]
+      .sort(([, x], [, y]) => SimplificationUtils.compareBases(x, y))
+      .map(([key]) => key);
+
+    for (const key of keys) {
+      const exponentOf = (term: Term): Decimal => {
+        const exponent = term.factors.get(key);
+        const constant = exponent ? SimplificationUtils.constantValue(exponent.exponent) : null;
+        return constant ? constant.numerator.dividedBy(constant.denominator) : new Decimal(exponent ? 1 : 0);
+      };
+      const order = exponentOf(b).comparedTo(exponentOf(a));
+      if (order !== 0) {
+        return order;
+      }
+    }
+
+    const keyA = SimplificationUtils.termKey(a);
+    const keyB = SimplificationUtils.termKey(b);
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  }
+
+  private static compareBases(a: ASTNode, b: ASTNode): number {
+    const rank = (node: ASTNode): number => BASE_RANK[node.type] ?? Object.keys(BASE_RANK).length;
+    const rankOrder = rank(a) - rank(b);
+    if (rankOrder !== 0) {
+      return rankOrder;
+    }
+
+    const keyA = ASTUtils.toString(a);
+    const keyB = ASTUtils.toString(b);
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  }
+
+  // ---------- 有理数 ----------
+
+  private static rational(numerator: Decimal.Value, denominator: Decimal.Value = 1): Rational {
+    const p = new Decimal(numerator);
+    const q = new Decimal(denominator);
+    if (q.isZero()) {
+      throw new Error('除零错误');
+    }
+
+    let a = p.abs();
+    let b = q.abs();
+    while (!b.isZero()) {
+      [a, b] = [b, a.modulo(b)];
+    }
+    const divisor = a.isZero() ? new Decimal(1) : a;
+    const sign = q.isNegative() ? -1 : 1;
+
+    return {
+      numerator: p.dividedBy(divisor).times(sign),
+      denominator: q.abs().dividedBy(divisor),
+    };
+  }
+
+  private static rationalFromDecimal(value: Decimal): Rational {
+    const [numerator, denominator] = value.toFraction() as [Decimal, Decimal];
+    return SimplificationUtils.rational(numerator, denominator);
+  }
+
+  private static addRationals(a: Rational, b: Rational): Rational {
+    return SimplificationUtils.rational(
+      a.numerator.times(b.denominator).plus(b.numerator.times(a.denominator)),
+      a.denominator.times(b.denominator)
+    );
+  }
+
+  private static multiplyRationals(a: Rational, b: Rational): Rational {
+    return SimplificationUtils.rational(
+      a.numerator.times(b.numerator),
+      a.denominator.times(b.denominator)
+    );
+  }
+
+  private static invertRational(value: Rational): Rational {
+    return SimplificationUtils.rational(value.denominator, value.numerator);
+  }
+
+  private static powerRational(value: Rational, exponent: Decimal): Rational {
+    if (exponent.isNegative()) {
+      return SimplificationUtils.powerRational(SimplificationUtils.invertRational(value), exponent.negated());
+    }
+    return SimplificationUtils.rational(value.numerator.pow(exponent), value.denominator.pow(exponent));
+  }
+
+  private static isOne(value: Rational | null): boolean {
+    return value !== null && value.numerator.equals(1) && value.denominator.equals(1);
+  }
+}
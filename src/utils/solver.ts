@@ -0,0 +1,305 @@
+/**
+ * Solver Utilities
+ *
+ * 单变量方程 f(x) = 0 的数值求根：扫描变号区间，Brent 法细化，牛顿法处理不变号的重根
+ */
+
+// 实值函数，无定义处返回 NaN
+export type RealFunction = (x: number) => number;
+
+export interface RootSearchOptions {
+  min: number;
+  max: number;
+  samples: number; // 扫描采样区间数
+  tolerance: number; // 根的相对精度
+  maxIterations: number;
+}
+
+export interface NumericRoot {
+  value: number;
+  multiplicity: number;
+  converged: boolean;
+  iterations: number;
+  residual: number; // |f(root)|
+  method: 'sample' | 'brent' | 'newton';
+}
+
+export interface RootSearchResult {
+  roots: NumericRoot[];
+  diagnostics: string[];
+}
+
+interface Refinement {
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export class NumericSolver {
+  public static readonly DEFAULT_OPTIONS: RootSearchOptions = {
+    min: -100,
+    max: 100,
+    samples: 2000,
+    tolerance: 1e-12,
+    maxIterations: 100,
+  };
+
+  // 估计重数时允许的最大值
+  private static readonly MAX_MULTIPLICITY = 8;
+  // 变号点处残差与端点函数值之比超过该值时视为间断点而非根
+  private static readonly POLE_RATIO = 1e-6;
+  // |f| 局部极小值低于两侧该比例时视为可疑的切点
+  private static readonly DIP_RATIO = 1e-3;
+
+  /**
+   * 在 [min, max] 内查找 f 的全部实根，返回去重排序后的根和可能遗漏根的诊断信息
+   */
+  public static findRoots(f: RealFunction, options: Partial<RootSearchOptions> = {}): RootSearchResult {
+    const settings = { ...NumericSolver.DEFAULT_OPTIONS, ...options };
+    const { min, max, samples } = settings;
+    if (!(max > min) || samples < 2) {
+      throw new Error('无效的搜索范围');
+    }
+
+    const roots: NumericRoot[] = [];
+    const diagnostics: string[] = [];
+    const step = (max - min) / samples;
+    const xs = Array.from({ length: samples + 1 }, (_, i) => (i === samples ? max : min + i * step));
+    const ys = xs.map(x => NumericSolver.safeEvaluate(f, x));
+
+    for (let i = 0; i <= samples; i++) {
+      const x = xs[i] as number;
+      const y = ys[i] as number;
+      if (!isFinite(y)) continue;
+
+      // 采样点恰好是根
+      if (y === 0) {
+        roots.push(NumericSolver.describe(f, x, 'sample', { value: x, iterations: 0, converged: true }));
+        continue;
+      }
+
+      const nextY = ys[i + 1];
+      if (i < samples && nextY !== undefined && isFinite(nextY) && nextY !== 0 && Math.sign(y) !== Math.sign(nextY)) {
+        const refinement = NumericSolver.brent(f, x, xs[i + 1] as number, settings);
+        const residual = Math.abs(NumericSolver.safeEvaluate(f, refinement.value));
+        const scale = Math.max(Math.abs(y), Math.abs(nextY));
+
+        if (!(residual <= scale * NumericSolver.POLE_RATIO)) {
+          diagnostics.push(`x ≈ ${NumericSolver.format(refinement.value)} 处函数变号但不连续，可能为间断点，已忽略`);
+        } else {
+          if (!refinement.converged) {
+            diagnostics.push(`x ≈ ${NumericSolver.format(refinement.value)} 处的根未在 ${settings.maxIterations} 次迭代内收敛`);
+          }
+          roots.push(NumericSolver.describe(f, refinement.value, 'brent', refinement));
+        }
+        continue;
+      }
+
+      // 不变号的局部极小值：可能是偶数重根（切点）
+      const previousY = ys[i - 1];
+      if (
+        i > 0 && i < samples &&
+        previousY !== undefined && nextY !== undefined &&
+        isFinite(previousY) && isFinite(nextY) &&
+        Math.sign(previousY) === Math.sign(y) && Math.sign(nextY) === Math.sign(y) &&
+        Math.abs(y) < Math.abs(previousY) && Math.abs(y) <= Math.abs(nextY)
+      ) {
+        const refinement = NumericSolver.newton(f, x, settings);
+        const withinInterval = Math.abs(refinement.value - x) <= step;
+        if (refinement.converged && withinInterval) {
+          roots.push(NumericSolver.describe(f, refinement.value, 'newton', refinement));
+        } else if (Math.abs(y) < NumericSolver.DIP_RATIO * Math.min(Math.abs(previousY), Math.abs(nextY))) {
+          diagnostics.push(`x ≈ ${NumericSolver.format(x)} 附近 |f| 接近 0 但未能收敛，可能遗漏根`);
+        }
+      }
+    }
+
+    const unique = NumericSolver.deduplicate(roots, settings.tolerance);
+    if (unique.length === 0) {
+      diagnostics.push(`在 [${min}, ${max}] 内未找到实根，可扩大搜索范围`);
+    }
+
+    return { roots: unique, diagnostics };
+  }
+
+  /**
+   * Brent 法：在变号区间内结合二分、割线和逆二次插值
+   */
+  public static brent(f: RealFunction, lower: number, upper: number, options: Partial<RootSearchOptions> = {}): Refinement {
+    const { tolerance, maxIterations } = { ...NumericSolver.DEFAULT_OPTIONS, ...options };
+    let a = lower;
+    let b = upper;
+    let fa = f(a);
+    let fb = f(b);
+
+    if (Math.sign(fa) === Math.sign(fb) && fa !== 0 && fb !== 0) {
+      throw new Error('区间端点函数值同号');
+    }
+
+    if (Math.abs(fa) < Math.abs(fb)) {
+      [a, b, fa, fb] = [b, a, fb, fa];
+    }
+
+    let c = a;
+    let fc = fa;
+    let d = b - a;
+    let bisected = true;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      if (fb === 0 || Math.abs(b - a) <= tolerance * Math.max(1, Math.abs(b))) {
+        return { value: b, iterations: iteration, converged: true };
+      }
+
+      let s: number;
+      if (fa !== fc && fb !== fc) {
+        // 逆二次插值
+        s =
+          (a * fb * fc) / ((fa - fb) * (fa - fc)) +
+          (b * fa * fc) / ((fb - fa) * (fb - fc)) +
+          (c * fa * fb) / ((fc - fa) * (fc - fb));
+      } else {
+        // 割线法
+        s = b - (fb * (b - a)) / (fb - fa);
+      }
+
+      const boundary = (3 * a + b) / 4;
+      const outside = !((s > Math.min(boundary, b)) && (s < Math.max(boundary, b)));
+      const slow = bisected
+        ? Math.abs(s - b) >= Math.abs(b - c) / 2
+        : Math.abs(s - b) >= Math.abs(c - d) / 2;
+      if (outside || slow || !isFinite(s)) {
+        s = (a + b) / 2;
+        bisected = true;
+      } else {
+        bisected = false;
+      }
+
+      const fs = f(s);
+      d = c;
+      c = b;
+      fc = fb;
+
+      if (Math.sign(fa) !== Math.sign(fs)) {
+        b = s;
+        fb = fs;
+      } else {
+        a = s;
+        fa = fs;
+      }
+
+      if (Math.abs(fa) < Math.abs(fb)) {
+        [a, b, fa, fb] = [b, a, fb, fa];
+      }
+    }
+
+    return { value: b, iterations: maxIterations, converged: false };
+  }
+
+  /**
+   * 牛顿法（数值导数），用于不变号的重根，线性收敛也能在迭代次数内达到精度
+   */
+  public static newton(f: RealFunction, start: number, options: Partial<RootSearchOptions> = {}): Refinement {
+    const { tolerance, maxIterations } = { ...NumericSolver.DEFAULT_OPTIONS, ...options };
+    let x = start;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const y = f(x);
+      if (y === 0) {
+        return { value: x, iterations: iteration, converged: true };
+      }
+
+      const slope = NumericSolver.derivative(f, x);
+      if (!isFinite(slope) || slope === 0 || !isFinite(y)) {
+        break;
+      }
+
+      const next = x - y / slope;
+      if (Math.abs(next - x) <= tolerance * Math.max(1, Math.abs(x))) {
+        return { value: next, iterations: iteration, converged: true };
+      }
+      x = next;
+    }
+
+    return { value: x, iterations: maxIterations, converged: false };
+  }
+
+  /**
+   * 记录根的残差并估计重数
+   */
+  private static describe(
+    f: RealFunction,
+    value: number,
+    method: NumericRoot['method'],
+    refinement: Refinement
+  ): NumericRoot {
+    return {
+      value,
+      multiplicity: NumericSolver.estimateMultiplicity(f, value),
+      converged: refinement.converged,
+      iterations: refinement.iterations,
+      residual: Math.abs(NumericSolver.safeEvaluate(f, value)),
+      method,
+    };
+  }
+
+  /**
+   * 由根附近 |f| 的衰减速度估计重数：|f(r + δ)| ≈ C·δ^m
+   */
+  private static estimateMultiplicity(f: RealFunction, root: number): number {
+    const delta = 1e-2 * Math.max(1, Math.abs(root));
+    const estimates = [1, -1].map(direction => {
+      const far = Math.abs(NumericSolver.safeEvaluate(f, root + direction * delta));
+      const near = Math.abs(NumericSolver.safeEvaluate(f, root + direction * delta / 10));
+      return far > 0 && near > 0 ? Math.log10(far / near) : NaN;
+    }).filter(estimate => isFinite(estimate));
+
+    if (estimates.length === 0) {
+      return 1;
+    }
+
+    const average = estimates.reduce((sum, estimate) => sum + estimate, 0) / estimates.length;
+    return Math.min(NumericSolver.MAX_MULTIPLICITY, Math.max(1, Math.round(average)));
+  }
+
+  /**
+   * 合并相距小于容差的根，保留残差较小者
+   */
+  private static deduplicate(roots: NumericRoot[], tolerance: number): NumericRoot[] {
+    const sorted = [...roots].sort((a, b) => a.value - b.value);
+    const unique: NumericRoot[] = [];
+    const mergeDistance = Math.max(tolerance * 1e4, 1e-8);
+
+    for (const root of sorted) {
+      const last = unique[unique.length - 1];
+      if (last && Math.abs(root.value - last.value) <= mergeDistance * Math.max(1, Math.abs(root.value))) {
+        if (root.residual < last.residual) {
+          unique[unique.length - 1] = root;
+        }
+        continue;
+      }
+      unique.push(root);
+    }
+
+    return unique;
+  }
+
+  /**
+   * 中心差分数值导数
+   */
+  private static derivative(f: RealFunction, x: number): number {
+    const h = 1e-7 * Math.max(1, Math.abs(x));
+    return (f(x + h) - f(x - h)) / (2 * h);
+  }
+
+  private static safeEvaluate(f: RealFunction, x: number): number {
+    try {
+      return f(x);
+    } catch {
+      return NaN;
+    }
+  }
+
+  private static format(value: number): string {
+    return Number(value.toPrecision(6)).toString();
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Summation Utilities
+ *
+ * 求和 sum(f, k, a, b) 与求积 prod(f, k, a, b) 的闭式：等差、等比、幂和（Faulhaber 公式）以及裂项相消，
+ * 上下限可以是 n 这样的符号
+ */
+
+import { ASTNode, Rational } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { DifferentiationUtils } from '@/utils/differentiation';
+import { RationalMath } from '@/utils/rational';
+
+// 伯努利数 B⁺₀ … B⁺₁₀（B₁ = +1/2 的约定），[分子, 分母]
+const BERNOULLI: Array<[bigint, bigint]> = [
+  [1n, 1n],
+  [1n, 2n],
+  [1n, 6n],
+  [0n, 1n],
+  [-1n, 30n],
+  [0n, 1n],
+  [1n, 42n],
+  [0n, 1n],
+  [-1n, 30n],
+  [0n, 1n],
+  [5n, 66n],
+];
+
+// 部分分式裂项时各因子的根之间允许的最大间隔
+const MAX_ROOT_GAP = 10;
+
+// 带常数系数的项：coefficient · part，part 为含求和变量的部分
+interface ScaledTerm {
+  coefficient: ASTNode;
+  part: ASTNode;
+}
+
+// 分母的线性因子 slope · (k + root)，不含求和变量的常数因子 root 为 null
+interface LinearFactor {
+  slope: Rational;
+  root: Rational | null;
+}
+
+export class SummationUtils {
+  // Faulhaber 公式支持的最高次数
+  public static readonly MAX_POWER = BERNOULLI.length - 1;
+
+  /**
+   * 求和或求积的闭式，未找到时返回 null；node 须为 sum/prod(f, k, a, b) 形式
+   */
+  public static closedForm(node: ASTNode): ASTNode | null {
+    const index = ASTUtils.boundVariable(node);
+    const name = String(node.value).toLowerCase();
+    if (!index || (name !== 'sum' && name !== 'prod')) {
+      return null;
+    }
+
+    // 无穷级数的值需要取极限，交给数值求和
+    const [body, , lower, upper] = node.children as [ASTNode, ASTNode, ASTNode, ASTNode];
+    if (SummationUtils.isInfinite(lower) || SummationUtils.isInfinite(upper)) {
+      return null;
+    }
+
+    const result = name === 'sum'
+      ? SummationUtils.sum(body, index, lower, upper)
+      : SummationUtils.product(body, index, lower, upper);
+    return result ? ASTUtils.simplify(result) : null;
+  }
+
+  /**
+   * Σ f(k)：常数、裂项相消（含部分分式后相消的有理项），其余按线性性拆分为幂和与等比项
+   */
+  private static sum(body: ASTNode, index: string, lower: ASTNode, upper: ASTNode): ASTNode | null {
+    if (!ASTUtils.containsVariable(body, index)) {
+      return ASTUtils.multiply(body, SummationUtils.count(lower, upper));
+    }
+
+    const telescoped =
+      SummationUtils.telescope(body, '-', index, lower, upper) ??
+      SummationUtils.telescopeFractions(body, index, lower, upper);
+    if (telescoped) {
+      return telescoped;
+    }
+
+    let result: ASTNode | null = null;
+    for (const term of SummationUtils.splitTerms(body, index)) {
+      const partial = SummationUtils.sumTerm(term.part, index, lower, upper);
+      if (!partial) {
+        return null;
+      }
+      const scaled = ASTUtils.multiply(term.coefficient, partial);
+      result = result ? ASTUtils.add(result, scaled) : scaled;
+    }
+    return result;
+  }
+
+  /**
+   * Π f(k)：常数、裂项相消、按因子拆分，以及 r^g(k) = r^Σg(k)
+   */
+  private static product(body: ASTNode, index: string, lower: ASTNode, upper: ASTNode): ASTNode | null {
+    if (!ASTUtils.containsVariable(body, index)) {
+      return ASTUtils.power(body, SummationUtils.count(lower, upper));
+    }
+
+    const telescoped = SummationUtils.telescope(body, '/', index, lower, upper);
+    if (telescoped) {
+      return telescoped;
+    }
+
+    if (body.type === 'binary' && (body.value === '*' || body.value === '/')) {
+      const [left, right] = body.children as [ASTNode, ASTNode];
+      const leftProduct = SummationUtils.product(left, index, lower, upper);
+      const rightProduct = SummationUtils.product(right, index, lower, upper);
+      if (!leftProduct || !rightProduct) {
+        return null;
+      }
+      return body.value === '*'
+        ? ASTUtils.multiply(leftProduct, rightProduct)
+        : ASTUtils.divide(leftProduct, rightProduct);
+    }
+
+    const power = SummationUtils.powerParts(body);
+    if (power && !ASTUtils.containsVariable(power[0], index)) {
+      const exponentSum = SummationUtils.sum(power[1], index, lower, upper);
+      return exponentSum ? ASTUtils.power(power[0], exponentSum) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * 裂项相消：Σ (g(k) - g(k+1)) = g(a) - g(b+1)，Π g(k+1)/g(k) = g(b+1)/g(a)，以及相反的次序
+   */
+  private static telescope(
+    body: ASTNode,
+    operator: '-' | '/',
+    index: string,
+    lower: ASTNode,
+    upper: ASTNode
+  ): ASTNode | null {
+    if (body.type !== 'binary' || body.value !== operator) {
+      return null;
+    }
+
+    const [left, right] = body.children as [ASTNode, ASTNode];
+    const combine = (a: ASTNode, b: ASTNode): ASTNode =>
+      operator === '-' ? ASTUtils.subtract(a, b) : ASTUtils.divide(a, b);
+    const next = SummationUtils.shift(upper, 1);
+    const successor = SummationUtils.shift(ASTUtils.variable(index), 1);
+
+    // g(k) ∘ g(k+1) 的结果为 g(a) ∘ g(b+1)，g(k+1) ∘ g(k) 的结果为 g(b+1) ∘ g(a)
+    if (SummationUtils.sameExpression(SummationUtils.at(left, index, successor), right)) {
+      return combine(SummationUtils.at(left, index, lower), SummationUtils.at(left, index, next));
+    }
+    if (SummationUtils.sameExpression(SummationUtils.at(right, index, successor), left)) {
+      return combine(SummationUtils.at(right, index, next), SummationUtils.at(right, index, lower));
+    }
+    return null;
+  }
+
+  /**
+   * 分母为互异线性因子之积的有理项 c / Π(u_i·k + v_i)：部分分式为 Σ A_i / (k + r_i)，其中
+   * A_i = c / (Πu · Π_{j≠i}(r_j - r_i))，且至少两个因子时 ΣA_i = 0。各 r_i 与最小根 r 相差整数 m_i 时，
+   * Σ_{k=a}^{b} 1/(k + r_i) 与 Σ_{k=a}^{b} 1/(k + r) 只差首尾 m_i 项，公共部分相消
+   */
+  private static telescopeFractions(body: ASTNode, index: string, lower: ASTNode, upper: ASTNode): ASTNode | null {
+    if (body.type !== 'binary' || body.value !== '/') {
+      return null;
+    }
+    const [numerator, denominator] = body.children as [ASTNode, ASTNode];
+    const factors = SummationUtils.linearFactors(denominator, index) ?? [];
+    const roots = factors.flatMap(factor => (factor.root ? [factor.root] : []));
+    if (ASTUtils.containsVariable(numerator, index) || roots.length < 2) {
+      return null;
+    }
+
+    const base = roots.reduce((min, root) => (RationalMath.compare(root, min) < 0 ? root : min));
+    const gaps = roots.map(root => RationalMath.subtract(root, base));
+    const distinct = new Set(roots.map(root => RationalMath.toString(root))).size === roots.length;
+    if (!distinct || gaps.some(gap => !RationalMath.isInteger(gap) || gap.numerator > BigInt(MAX_ROOT_GAP))) {
+      return null;
+    }
+
+    const scale = factors.reduce((product, factor) => RationalMath.multiply(product, factor.slope), RationalMath.create(1n));
+    const offset = (bound: ASTNode, shift: number): ASTNode =>
+      ASTUtils.add(bound, ASTUtils.rational(RationalMath.add(base, RationalMath.create(BigInt(shift)))));
+
+    let result: ASTNode = ASTUtils.number(0);
+    roots.forEach((root, i) => {
+      const weight = roots.reduce(
+        (product, other, j) => (j === i ? product : RationalMath.multiply(product, RationalMath.subtract(other, root))),
+        scale
+      );
+      // A_i · Σ_{t=0}^{m_i-1} (1/(b + 1 + t + r) - 1/(a + t + r))
+      for (let t = 0; t < Number((gaps[i] as Rational).numerator); t++) {
+        const edge = ASTUtils.subtract(
+          ASTUtils.divide(ASTUtils.number(1), offset(upper, t + 1)),
+          ASTUtils.divide(ASTUtils.number(1), offset(lower, t))
+        );
+        result = ASTUtils.add(result, ASTUtils.multiply(ASTUtils.divide(numerator, ASTUtils.rational(weight)), edge));
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 将乘积拆分为线性因子 u·k + v，不含求和变量的因子并入斜率；出现非线性因子时返回 null
+   */
+  private static linearFactors(node: ASTNode, index: string): LinearFactor[] | null {
+    if (node.type === 'binary' && node.value === '*') {
+      const [left, right] = node.children as [ASTNode, ASTNode];
+      const leftFactors = SummationUtils.linearFactors(left, index);
+      const rightFactors = SummationUtils.linearFactors(right, index);
+      return leftFactors && rightFactors ? [...leftFactors, ...rightFactors] : null;
+    }
+
+    if (!ASTUtils.containsVariable(node, index)) {
+      const value = SummationUtils.rationalValue(ASTUtils.simplify(node));
+      return value && !RationalMath.isZero(value) ? [{ slope: value, root: null }] : null;
+    }
+
+    const slope = SummationUtils.rationalValue(ASTUtils.simplify(DifferentiationUtils.differentiate(node, index)));
+    const intercept = SummationUtils.rationalValue(
+      ASTUtils.simplify(SummationUtils.at(node, index, ASTUtils.number(0)))
+    );
+    if (!slope || !intercept || RationalMath.isZero(slope)) {
+      return null;
+    }
+    return [{ slope, root: RationalMath.divide(intercept, slope) }];
+  }
+
+  /**
+   * 数字、负数和分数节点的有理数值，其他节点返回 null
+   */
+  private static rationalValue(node: ASTNode): Rational | null {
+    const numeric = ASTUtils.numericValue(node);
+    if (numeric) {
+      return RationalMath.fromDecimal(numeric);
+    }
+    const [left, right] = node.children ?? [];
+    if (node.type === 'unary' && node.value === '-' && left) {
+      const value = SummationUtils.rationalValue(left);
+      return value && RationalMath.negate(value);
+    }
+    if (node.type === 'binary' && node.value === '/' && left && right) {
+      const numerator = SummationUtils.rationalValue(left);
+      const denominator = SummationUtils.rationalValue(right);
+      return numerator && denominator && !RationalMath.isZero(denominator)
+        ? RationalMath.divide(numerator, denominator)
+        : null;
+    }
+    return null;
+  }
+
+  /**
+   * 单项求和：k^p（0 ≤ p ≤ MAX_POWER）按 Faulhaber 公式，r^(u·k + v) 按等比数列
+   */
+  private static sumTerm(part: ASTNode, index: string, lower: ASTNode, upper: ASTNode): ASTNode | null {
+    if (!ASTUtils.containsVariable(part, index)) {
+      return ASTUtils.multiply(part, SummationUtils.count(lower, upper));
+    }
+
+    const exponent = SummationUtils.polynomialPower(part, index);
+    if (exponent !== null) {
+      return ASTUtils.subtract(
+        SummationUtils.powerSum(exponent, upper),
+        SummationUtils.powerSum(exponent, SummationUtils.shift(lower, -1))
+      );
+    }
+
+    const power = SummationUtils.powerParts(part);
+    if (!power || ASTUtils.containsVariable(power[0], index)) {
+      return null;
+    }
+    const [base, linear] = power;
+    const slope = DifferentiationUtils.differentiate(linear, index);
+    if (ASTUtils.containsVariable(slope, index)) {
+      return null;
+    }
+
+    // Σ r^(u·k + v) = r^v · (q^a - q^(b+1)) / (1 - q)，q = r^u
+    const ratio = ASTUtils.simplify(ASTUtils.power(base, slope));
+    if (ASTUtils.isNumber(ratio, 1)) {
+      return null;
+    }
+    const offset = SummationUtils.at(linear, index, ASTUtils.number(0));
+    return ASTUtils.multiply(
+      ASTUtils.power(base, offset),
+      ASTUtils.divide(
+        ASTUtils.subtract(ASTUtils.power(ratio, lower), ASTUtils.power(ratio, SummationUtils.shift(upper, 1))),
+        ASTUtils.subtract(ASTUtils.number(1), ratio)
+      )
+    );
+  }
+
+  /**
+   * Faulhaber 公式：Σ_{k=1}^{n} k^p = 1/(p+1) · Σ_{j=0}^{p} C(p+1, j) · B⁺_j · n^(p+1-j)
+   */
+  private static powerSum(p: number, n: ASTNode): ASTNode {
+    let result: ASTNode = ASTUtils.number(0);
+    let binomial = 1n;
+    for (let j = 0; j <= p; j++) {
+      const [numerator, denominator] = BERNOULLI[j] as [bigint, bigint];
+      if (numerator !== 0n) {
+        const coefficient = RationalMath.create(binomial * numerator, denominator * BigInt(p + 1));
+        const term = ASTUtils.multiply(
+          ASTUtils.rational(coefficient),
+          ASTUtils.power(n, ASTUtils.number(p + 1 - j))
+        );
+        result = ASTUtils.add(result, term);
+      }
+      binomial = (binomial * BigInt(p + 1 - j)) / BigInt(j + 1);
+    }
+    return result;
+  }
+
+  /**
+   * 按加减拆分为若干项，并将不含求和变量的因子提出作为系数
+   */
+  private static splitTerms(node: ASTNode, index: string): ScaledTerm[] {
+    if (node.type === 'binary' && (node.value === '+' || node.value === '-')) {
+      const [left, right] = node.children as [ASTNode, ASTNode];
+      const rightTerms = SummationUtils.splitTerms(right, index);
+      return [
+        ...SummationUtils.splitTerms(left, index),
+        ...(node.value === '+'
+          ? rightTerms
+          : rightTerms.map(term => ({ ...term, coefficient: ASTUtils.negate(term.coefficient) }))),
+      ];
+    }
+    if (node.type === 'unary' && node.value === '-') {
+      return SummationUtils.splitTerms((node.children as [ASTNode])[0], index).map(term => ({
+        ...term,
+        coefficient: ASTUtils.negate(term.coefficient),
+      }));
+    }
+    return [SummationUtils.scale(node, index)];
+  }
+
+  /**
+   * 提出常数因子：c·f、f·c、f/c 和 c/r^g
+   */
+  private static scale(node: ASTNode, index: string): ScaledTerm {
+    if (node.type === 'binary' && (node.value === '*' || node.value === '/')) {
+      const [left, right] = node.children as [ASTNode, ASTNode];
+      if (!ASTUtils.containsVariable(right, index)) {
+        const inner = SummationUtils.scale(left, index);
+        return {
+          coefficient: node.value === '*'
+            ? ASTUtils.multiply(inner.coefficient, right)
+            : ASTUtils.divide(inner.coefficient, right),
+          part: inner.part,
+        };
+      }
+      if (node.value === '*' && !ASTUtils.containsVariable(left, index)) {
+        const inner = SummationUtils.scale(right, index);
+        return { coefficient: ASTUtils.multiply(left, inner.coefficient), part: inner.part };
+      }
+      // c / r^g = c · r^(-g)
+      const power = SummationUtils.powerParts(right);
+      if (node.value === '/' && power && !ASTUtils.containsVariable(left, index)) {
+        return { coefficient: left, part: ASTUtils.power(power[0], ASTUtils.negate(power[1])) };
+      }
+    }
+    return { coefficient: ASTUtils.number(1), part: node };
+  }
+
+  /**
+   * k 或 k^p（p 为不超过 MAX_POWER 的非负整数）的次数，其他形式返回 null
+   */
+  private static polynomialPower(node: ASTNode, index: string): number | null {
+    if (node.type === 'variable' && node.value === index) {
+      return 1;
+    }
+    const power = SummationUtils.powerParts(node);
+    if (!power || power[0].type !== 'variable' || power[0].value !== index) {
+      return null;
+    }
+    const exponent = ASTUtils.numericValue(power[1]);
+    if (!exponent || !exponent.isInteger() || exponent.isNegative() || exponent.greaterThan(SummationUtils.MAX_POWER)) {
+      return null;
+    }
+    return exponent.toNumber();
+  }
+
+  /**
+   * 幂节点的 [底数, 指数]，exp(u) 视为 e^u
+   */
+  private static powerParts(node: ASTNode): [ASTNode, ASTNode] | null {
+    if (node.type === 'binary' && (node.value === '^' || node.value === '**')) {
+      return node.children as [ASTNode, ASTNode];
+    }
+    if (node.type === 'function' && String(node.value).toLowerCase() === 'exp' && node.children?.length === 1) {
+      return [ASTUtils.constant('e'), node.children[0] as ASTNode];
+    }
+    return null;
+  }
+
+  /**
+   * 项数 b - a + 1
+   */
+  private static count(lower: ASTNode, upper: ASTNode): ASTNode {
+    return SummationUtils.shift(ASTUtils.subtract(upper, lower), 1);
+  }
+
+  private static isInfinite(node: ASTNode): boolean {
+    if (node.type === 'unary') {
+      return SummationUtils.isInfinite((node.children as [ASTNode])[0]);
+    }
+    return node.type === 'constant' && node.value === '∞';
+  }
+
+  private static shift(node: ASTNode, offset: number): ASTNode {
+    return ASTUtils.simplify(
+      offset < 0 ? ASTUtils.subtract(node, ASTUtils.number(-offset)) : ASTUtils.add(node, ASTUtils.number(offset))
+    );
+  }
+
+  /**
+   * 代入求和变量的值
+   */
+  private static at(node: ASTNode, index: string, value: ASTNode): ASTNode {
+    return ASTUtils.substitute(node, new Map([[index, value]]));
+  }
+
+  private static sameExpression(a: ASTNode, b: ASTNode): boolean {
+    return ASTUtils.equals(ASTUtils.simplify(a), ASTUtils.simplify(b));
+  }
+}
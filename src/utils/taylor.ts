@@ -0,0 +1,246 @@
+/**
+ * Taylor Series Utilities
+ *
+ * 泰勒展开：逐阶符号求导并在展开点取值，系数 f⁽ᵏ⁾(a)/k! 能精确求值时为有理数，否则由调用方给出符号形式或近似值
+ */
+
+import { ASTNode, Rational } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { DifferentiationUtils } from '@/utils/differentiation';
+import { RationalMath } from '@/utils/rational';
+import { SimplificationUtils } from '@/utils/simplification';
+
+// 计算展开点处的导数值：精确值返回有理数，否则返回化简后的表达式；无定义时抛出错误
+export type DerivativeEvaluator = (node: ASTNode) => Rational | ASTNode;
+
+// 计算导数（仍含展开变量）在展开点处的极限，返回值同 DerivativeEvaluator；极限不存在时抛出错误
+export type DerivativeLimit = (derivative: ASTNode) => Rational | ASTNode;
+
+// 泰勒系数：精确值为有理数，否则为表达式
+type Coefficient = Rational | ASTNode;
+
+export interface TaylorExpansion {
+  polynomial: ASTNode; // 按 (x - a) 的升幂排列
+  coefficients: ASTNode[]; // 第 k 项为 f⁽ᵏ⁾(a)/k!
+  remainderOrder: number; // 余项为 O((x - a)^remainderOrder)
+}
+
+export class TaylorUtils {
+  public static readonly MAX_ORDER = 20;
+  // 可去奇点处分母零点的最高阶数
+  private static readonly MAX_ZERO_ORDER = 4;
+
+  /**
+   * 将 node 在 variable = point 处展开到 order 阶。可去奇点也能展开：分母在展开点为 0 的商
+   * （如 sin(x)/x 在 0 处）对分子分母分别展开后做级数除法，其他导数无定义的情形改用 limit 求极限
+   */
+  public static expand(
+    node: ASTNode,
+    variable: string,
+    point: ASTNode,
+    order: number,
+    evaluate: DerivativeEvaluator,
+    limit?: DerivativeLimit
+  ): TaylorExpansion {
+    if (!Number.isInteger(order) || order < 0 || order > TaylorUtils.MAX_ORDER) {
+      throw new Error(`展开阶数必须是 0 到 ${TaylorUtils.MAX_ORDER} 之间的整数`);
+    }
+    if (ASTUtils.containsVariable(point, variable)) {
+      throw new Error(`展开点不能含有展开变量 ${variable}`);
+    }
+
+    const coefficients = TaylorUtils.coefficients(node, variable, point, order, evaluate, limit).map(value =>
+      SimplificationUtils.simplify(TaylorUtils.toNode(value))
+    );
+
+    const displacement = ASTUtils.isNumber(point, 0)
+      ? ASTUtils.variable(variable)
+      : ASTUtils.subtract(ASTUtils.variable(variable), point);
+
+    return {
+      polynomial: TaylorUtils.polynomial(coefficients, displacement),
+      coefficients,
+      remainderOrder: order + 1,
+    };
+  }
+
+  /**
+   * 前 order + 1 个泰勒系数 f⁽ᵏ⁾(a)/k!
+   */
+  private static coefficients(
+    node: ASTNode,
+    variable: string,
+    point: ASTNode,
+    order: number,
+    evaluate: DerivativeEvaluator,
+    limit?: DerivativeLimit
+  ): Coefficient[] {
+    const replacements = new Map([[variable, point]]);
+    const coefficients: Coefficient[] = [];
+    let derivative = node;
+    let factorial = 1n;
+
+    for (let k = 0; k <= order; k++) {
+      if (k > 0) {
+        derivative = DifferentiationUtils.differentiate(derivative, variable);
+        factorial *= BigInt(k);
+      }
+
+      let value: Coefficient;
+      try {
+        value = evaluate(ASTUtils.substitute(derivative, replacements));
+      } catch (error) {
+        const quotient = k === 0 ? TaylorUtils.quotient(node, variable, point, order, evaluate, limit) : null;
+        if (quotient) {
+          return quotient;
+        }
+        const removable = limit ? TaylorUtils.tryLimit(limit, derivative) : null;
+        if (!removable) {
+          const reason = error instanceof Error ? `：${error.message}` : '';
+          throw new Error(`函数在展开点的 ${k} 阶导数无定义，无法展开${reason}`);
+        }
+        value = removable;
+      }
+
+      coefficients.push(TaylorUtils.divide(value, RationalMath.create(factorial)));
+    }
+
+    return coefficients;
+  }
+
+  /**
+   * 商 n/d 的级数除法：d 的前 m 个系数为 0 时 n 的前 m 个系数也必须为 0（否则是极点），
+   * qⱼ = (nⱼ₊ₘ - Σ dᵢ₊ₘ·qⱼ₋ᵢ) / dₘ；不是商或无法相除时返回 null
+   */
+  private static quotient(
+    node: ASTNode,
+    variable: string,
+    point: ASTNode,
+    order: number,
+    evaluate: DerivativeEvaluator,
+    limit?: DerivativeLimit
+  ): Coefficient[] | null {
+    if (node.type !== 'binary' || node.value !== '/') {
+      return null;
+    }
+    const [numerator, denominator] = node.children as [ASTNode, ASTNode];
+
+    try {
+      const d = TaylorUtils.coefficients(denominator, variable, point, order + TaylorUtils.MAX_ZERO_ORDER, evaluate, limit);
+      const zeros = d.findIndex(value => !TaylorUtils.isZero(value));
+      if (zeros < 0) {
+        return null;
+      }
+      const n = TaylorUtils.coefficients(numerator, variable, point, order + zeros, evaluate, limit);
+      if (n.slice(0, zeros).some(value => !TaylorUtils.isZero(value))) {
+        return null;
+      }
+
+      const leading = d[zeros] as Coefficient;
+      const q: Coefficient[] = [];
+      for (let j = 0; j <= order; j++) {
+        let remainder = n[j + zeros] as Coefficient;
+        for (let i = 1; i <= j; i++) {
+          remainder = TaylorUtils.subtract(remainder, TaylorUtils.multiply(d[i + zeros] as Coefficient, q[j - i] as Coefficient));
+        }
+        q.push(TaylorUtils.divide(remainder, leading));
+      }
+      return q;
+    } catch {
+      return null;
+    }
+  }
+
+  private static isZero(value: Coefficient): boolean {
+    return 'numerator' in value ? RationalMath.isZero(value) : ASTUtils.isNumber(SimplificationUtils.simplify(value), 0);
+  }
+
+  private static toNode(value: Coefficient): ASTNode {
+    return 'numerator' in value ? ASTUtils.rational(value) : value;
+  }
+
+  private static subtract(a: Coefficient, b: Coefficient): Coefficient {
+    return 'numerator' in a && 'numerator' in b
+      ? RationalMath.subtract(a, b)
+      : SimplificationUtils.simplify(ASTUtils.subtract(TaylorUtils.toNode(a), TaylorUtils.toNode(b)));
+  }
+
+  private static multiply(a: Coefficient, b: Coefficient): Coefficient {
+    return 'numerator' in a && 'numerator' in b
+      ? RationalMath.multiply(a, b)
+      : SimplificationUtils.simplify(ASTUtils.multiply(TaylorUtils.toNode(a), TaylorUtils.toNode(b)));
+  }
+
+  private static divide(a: Coefficient, b: Coefficient): Coefficient {
+    return 'numerator' in a && 'numerator' in b
+      ? RationalMath.divide(a, b)
+      : ASTUtils.divide(TaylorUtils.toNode(a), TaylorUtils.toNode(b));
+  }
+
+  /**
+   * 导数在展开点的极限，不存在时返回 null
+   */
+  private static tryLimit(limit: DerivativeLimit, derivative: ASTNode): Rational | ASTNode | null {
+    try {
+      return limit(derivative);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Σ cₖ·dᵏ 按升幂排列：系数 p/q 写成 p·dᵏ/q 而不展开 dᵏ，负项写成减法
+   */
+  private static polynomial(coefficients: ASTNode[], displacement: ASTNode): ASTNode {
+    let result: ASTNode | null = null;
+
+    coefficients.forEach((coefficient, k) => {
+      if (ASTUtils.isNumber(coefficient, 0)) {
+        return;
+      }
+      const magnitude = TaylorUtils.magnitude(coefficient);
+      const negative = magnitude !== null;
+      const term = k === 0
+        ? magnitude ?? coefficient
+        : TaylorUtils.term(magnitude ?? coefficient, k === 1 ? displacement : ASTUtils.power(displacement, ASTUtils.number(k)));
+
+      if (!result) {
+        result = negative ? ASTUtils.negate(term) : term;
+      } else {
+        result = negative ? ASTUtils.subtract(result, term) : ASTUtils.add(result, term);
+      }
+    });
+
+    return result ?? ASTUtils.number(0);
+  }
+
+  /**
+   * 负系数 -c、-p/q 和 -c·d/q 的绝对值，其他系数返回 null
+   */
+  private static magnitude(coefficient: ASTNode): ASTNode | null {
+    const [first, second] = (coefficient.children ?? []) as [ASTNode, ASTNode];
+    switch (coefficient.type) {
+      case 'unary':
+        return coefficient.value === '-' ? first : null;
+      case 'number':
+        return Number(coefficient.value) < 0 ? ASTUtils.number(String(coefficient.value).replace(/^-/, '')) : null;
+      case 'binary': {
+        const leading = coefficient.value === '*' || coefficient.value === '/' ? TaylorUtils.magnitude(first) : null;
+        return leading && ASTUtils.binary(String(coefficient.value), leading, second);
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 系数乘以 (x - a) 的幂：c/q 写成 c·dᵏ/q，系数为 1 时省略
+   */
+  private static term(coefficient: ASTNode, power: ASTNode): ASTNode {
+    const [numerator, denominator] = coefficient.type === 'binary' && coefficient.value === '/'
+      ? (coefficient.children as [ASTNode, ASTNode])
+      : [coefficient, null];
+    const product = ASTUtils.isNumber(numerator, 1) ? power : ASTUtils.multiply(numerator, power);
+    return denominator ? ASTUtils.divide(product, denominator) : product;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Uncertainty Utilities
+ *
+ * 测量不确定度的一阶（高斯）传播：各输入视为相互独立，结果的不确定度为各偏导数贡献的平方和开方
+ */
+
+import { Decimal } from 'decimal.js';
+import { Interval, Uncertain } from '@/types';
+
+const hypot = (...terms: Decimal[]): Decimal =>
+  terms.reduce((sum, term) => sum.plus(term.times(term)), new Decimal(0)).sqrt();
+
+export class UncertaintyMath {
+  /**
+   * 类型守卫：检查是否为带不确定度的值
+   */
+  public static isUncertain(value: unknown): value is Uncertain {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      (value as Uncertain).value instanceof Decimal &&
+      (value as Uncertain).uncertainty instanceof Decimal
+    );
+  }
+
+  /**
+   * 创建带不确定度的值，不确定度不能为负数
+   */
+  public static create(value: Decimal.Value, uncertainty: Decimal.Value): Uncertain {
+    const sigma = new Decimal(uncertainty);
+    if (sigma.isNegative()) {
+      throw new Error('不确定度不能为负数');
+    }
+    return { value: new Decimal(value), uncertainty: sigma };
+  }
+
+  /**
+   * σ(a + b) = √(σa² + σb²)
+   */
+  public static add(a: Uncertain, b: Uncertain): Uncertain {
+    return { value: a.value.plus(b.value), uncertainty: hypot(a.uncertainty, b.uncertainty) };
+  }
+
+  public static subtract(a: Uncertain, b: Uncertain): Uncertain {
+    return { value: a.value.minus(b.value), uncertainty: hypot(a.uncertainty, b.uncertainty) };
+  }
+
+  /**
+   * σ(ab) = √((b·σa)² + (a·σb)²)
+   */
+  public static multiply(a: Uncertain, b: Uncertain): Uncertain {
+    return {
+      value: a.value.times(b.value),
+      uncertainty: hypot(b.value.times(a.uncertainty), a.value.times(b.uncertainty)),
+    };
+  }
+
+  /**
+   * σ(a/b) = √((σa/b)² + (a·σb/b²)²)
+   */
+  public static divide(a: Uncertain, b: Uncertain): Uncertain {
+    if (b.value.isZero()) {
+      throw new Error('除零错误');
+    }
+    return {
+      value: a.value.dividedBy(b.value),
+      uncertainty: hypot(
+        a.uncertainty.dividedBy(b.value),
+        a.value.times(b.uncertainty).dividedBy(b.value.times(b.value))
+      ),
+    };
+  }
+
+  /**
+   * 对任意函数做一阶传播：偏导数用中心差分估计，步长取 max(|x|, 1)·10^(-精度/3)
+   */
+  public static propagate(inputs: Uncertain[], fn: (values: Decimal[]) => Decimal): Uncertain {
+    const values = inputs.map(input => input.value);
+    const step = new Decimal(10).pow(-Math.floor(Decimal.precision / 3));
+
+    const contributions = inputs.map((input, index) => {
+      if (input.uncertainty.isZero()) {
+        return new Decimal(0);
+      }
+      const h = Decimal.max(input.value.abs(), 1).times(step);
+      const shifted = (offset: Decimal): Decimal[] =>
+        values.map((value, i) => (i === index ? value.plus(offset) : value));
+      const slope = fn(shifted(h)).minus(fn(shifted(h.negated()))).dividedBy(h.times(2));
+      return slope.times(input.uncertainty);
+    });
+
+    return { value: fn(values), uncertainty: hypot(...contributions) };
+  }
+
+  /**
+   * 一倍标准不确定度对应的区间 [value - σ, value + σ]
+   */
+  public static toInterval(u: Uncertain): Interval {
+    return { lower: u.value.minus(u.uncertainty), upper: u.value.plus(u.uncertainty) };
+  }
+
+  /**
+   * 显示用的小数位数：不确定度首位为 1 时保留两位有效数字（避免 0.14 舍入为 0.1 损失过多），否则保留一位，
+   * 数值保留到同一位；返回负数表示舍入到十位、百位等
+   */
+  public static decimalPlaces(u: Uncertain): number {
+    if (u.uncertainty.isZero()) {
+      return 0;
+    }
+    const leading = u.uncertainty.toSignificantDigits(2, Decimal.ROUND_HALF_UP).toString().replace(/[^1-9]/g, '');
+    const digits = leading.startsWith('1') ? 2 : 1;
+    const rounded = u.uncertainty.toSignificantDigits(digits, Decimal.ROUND_HALF_UP);
+    return digits - 1 - rounded.e;
+  }
+
+  /**
+   * 数值和不确定度按 decimalPlaces 舍入
+   */
+  public static round(u: Uncertain): Uncertain {
+    const places = UncertaintyMath.decimalPlaces(u);
+    const roundTo = (x: Decimal): Decimal => {
+      const unit = new Decimal(10).pow(-places);
+      return x.dividedBy(unit).toDecimalPlaces(0, Decimal.ROUND_HALF_UP).times(unit);
+    };
+    return { value: roundTo(u.value), uncertainty: roundTo(u.uncertainty) };
+  }
+}
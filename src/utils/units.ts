@@ -0,0 +1,400 @@
+/**
+ * Unit Utilities
+ *
+ * 物理单位与量纲分析：SI 基本量纲、SI 词头、常用英制单位，以及单位组合的化简、格式化和解析
+ */
+
+import { Decimal } from 'decimal.js';
+import { ASTNode, Rational } from '@/types';
+import { RationalMath } from '@/utils/rational';
+
+// 量纲指数，依次为长度、质量、时间、电流、温度、物质的量、发光强度
+export type Dimension = readonly number[];
+
+// 单位组合：单位符号 → 指数，保持书写顺序用于显示，如 { km: 1, h: -1 }
+export type UnitPowers = Readonly<Record<string, number>>;
+
+// 带单位的量，数值统一以 SI 基本单位保存，unit 只决定显示时使用的单位
+export interface Quantity {
+  magnitude: Decimal | Rational;
+  dimension: Dimension;
+  unit: UnitPowers;
+}
+
+interface UnitDefinition {
+  scale: Rational; // 1 单位对应的 SI 基本单位数值
+  dimension: Dimension;
+  prefixable: boolean; // 是否允许加 SI 词头，如 km、mg、kPa
+}
+
+const BASE_SYMBOLS = ['m', 'kg', 's', 'A', 'K', 'mol', 'cd'];
+const BASE_NAMES = ['长度', '质量', '时间', '电流', '温度', '物质的量', '发光强度'];
+
+const dimension = (length = 0, mass = 0, time = 0, current = 0, temperature = 0, amount = 0, luminosity = 0): Dimension =>
+  [length, mass, time, current, temperature, amount, luminosity];
+const exact = (value: Decimal.Value): Rational => RationalMath.fromDecimal(new Decimal(value));
+const ratio = (numerator: Decimal.Value, denominator: Decimal.Value): Rational =>
+  RationalMath.divide(exact(numerator), exact(denominator));
+
+// 英制单位按国际定义换算，均为精确值
+const POUND = exact('0.45359237');
+const POUND_FORCE = RationalMath.multiply(POUND, exact('9.80665'));
+const INCH = exact('0.0254');
+const FOOT = exact('0.3048');
+
+const UNITS: Record<string, UnitDefinition> = {
+  // SI 基本单位（质量以克为单位名，便于加词头）
+  m: { scale: exact(1), dimension: dimension(1), prefixable: true },
+  g: { scale: ratio(1, 1000), dimension: dimension(0, 1), prefixable: true },
+  s: { scale: exact(1), dimension: dimension(0, 0, 1), prefixable: true },
+  A: { scale: exact(1), dimension: dimension(0, 0, 0, 1), prefixable: true },
+  K: { scale: exact(1), dimension: dimension(0, 0, 0, 0, 1), prefixable: true },
+  mol: { scale: exact(1), dimension: dimension(0, 0, 0, 0, 0, 1), prefixable: true },
+  cd: { scale: exact(1), dimension: dimension(0, 0, 0, 0, 0, 0, 1), prefixable: true },
+
+  // SI 导出单位
+  Hz: { scale: exact(1), dimension: dimension(0, 0, -1), prefixable: true },
+  N: { scale: exact(1), dimension: dimension(1, 1, -2), prefixable: true },
+  Pa: { scale: exact(1), dimension: dimension(-1, 1, -2), prefixable: true },
+  J: { scale: exact(1), dimension: dimension(2, 1, -2), prefixable: true },
+  W: { scale: exact(1), dimension: dimension(2, 1, -3), prefixable: true },
+  C: { scale: exact(1), dimension: dimension(0, 0, 1, 1), prefixable: true },
+  V: { scale: exact(1), dimension: dimension(2, 1, -3, -1), prefixable: true },
+  ohm: { scale: exact(1), dimension: dimension(2, 1, -3, -2), prefixable: true },
+  L: { scale: ratio(1, 1000), dimension: dimension(3), prefixable: true },
+  eV: { scale: exact('1.602176634e-19'), dimension: dimension(2, 1, -2), prefixable: true },
+
+  // 时间
+  min: { scale: exact(60), dimension: dimension(0, 0, 1), prefixable: false },
+  h: { scale: exact(3600), dimension: dimension(0, 0, 1), prefixable: false },
+  day: { scale: exact(86400), dimension: dimension(0, 0, 1), prefixable: false },
+  week: { scale: exact(604800), dimension: dimension(0, 0, 1), prefixable: false },
+
+  // 英制长度、面积、体积（in 紧跟数字或作为换算目标时才是英寸，其余位置是换算运算符，也可写作 inch）
+  inch: { scale: INCH, dimension: dimension(1), prefixable: false },
+  in: { scale: INCH, dimension: dimension(1), prefixable: false },
+  ft: { scale: FOOT, dimension: dimension(1), prefixable: false },
+  yd: { scale: exact('0.9144'), dimension: dimension(1), prefixable: false },
+  mi: { scale: exact('1609.344'), dimension: dimension(1), prefixable: false },
+  acre: { scale: exact('4046.8564224'), dimension: dimension(2), prefixable: false },
+  gal: { scale: exact('0.003785411784'), dimension: dimension(3), prefixable: false },
+
+  // 英制质量、力、压强、功率
+  lb: { scale: POUND, dimension: dimension(0, 1), prefixable: false },
+  oz: { scale: RationalMath.divide(POUND, exact(16)), dimension: dimension(0, 1), prefixable: false },
+  lbf: { scale: POUND_FORCE, dimension: dimension(1, 1, -2), prefixable: false },
+  psi: { scale: RationalMath.divide(POUND_FORCE, RationalMath.multiply(INCH, INCH)), dimension: dimension(-1, 1, -2), prefixable: false },
+  hp: { scale: RationalMath.multiply(exact(550), RationalMath.multiply(FOOT, POUND_FORCE)), dimension: dimension(2, 1, -3), prefixable: false },
+
+  // 速度、压强、能量的常用单位
+  mph: { scale: ratio('1609.344', 3600), dimension: dimension(1, 0, -1), prefixable: false },
+  kn: { scale: ratio(1852, 3600), dimension: dimension(1, 0, -1), prefixable: false },
+  atm: { scale: exact(101325), dimension: dimension(-1, 1, -2), prefixable: false },
+  bar: { scale: exact(100000), dimension: dimension(-1, 1, -2), prefixable: true },
+  cal: { scale: exact('4.184'), dimension: dimension(2, 1, -2), prefixable: true },
+};
+
+// SI 词头，两个字符的 da 需要先于 d 匹配
+const PREFIXES: Record<string, Rational> = {
+  da: exact(10),
+  E: exact('1e18'),
+  P: exact('1e15'),
+  T: exact('1e12'),
+  G: exact('1e9'),
+  M: exact('1e6'),
+  k: exact(1000),
+  h: exact(100),
+  d: exact('0.1'),
+  c: exact('0.01'),
+  m: exact('0.001'),
+  u: exact('1e-6'),
+  n: exact('1e-9'),
+  p: exact('1e-12'),
+  f: exact('1e-15'),
+};
+
+// 有专门名称的导出量纲，用于错误提示
+const DIMENSION_NAMES: Array<[Dimension, string]> = [
+  [dimension(2), '面积'],
+  [dimension(3), '体积'],
+  [dimension(1, 0, -1), '速度'],
+  [dimension(1, 0, -2), '加速度'],
+  [dimension(0, 0, -1), '频率'],
+  [dimension(1, 1, -2), '力'],
+  [dimension(-1, 1, -2), '压强'],
+  [dimension(2, 1, -2), '能量'],
+  [dimension(2, 1, -3), '功率'],
+  [dimension(0, 0, 1, 1), '电荷'],
+  [dimension(2, 1, -3, -1), '电压'],
+];
+
+export class UnitMath {
+  public static readonly DIMENSIONLESS: Dimension = dimension();
+
+  /**
+   * 查找单位定义：先匹配完整符号（如 min、mi），再尝试 SI 词头 + 可加词头的单位（如 km、mL）
+   */
+  private static lookup(symbol: string): UnitDefinition | null {
+    const unit = UNITS[symbol];
+    if (unit) {
+      return unit;
+    }
+
+    for (const [prefix, factor] of Object.entries(PREFIXES)) {
+      const base = symbol.startsWith(prefix) ? UNITS[symbol.slice(prefix.length)] : undefined;
+      if (base && base.prefixable) {
+        return {
+          scale: RationalMath.multiply(factor, base.scale),
+          dimension: base.dimension,
+          prefixable: false,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 是否为可识别的单位符号
+   */
+  public static isUnit(symbol: string): boolean {
+    return UnitMath.lookup(symbol) !== null;
+  }
+
+  /**
+   * 1 个指定单位的量
+   */
+  public static unitOf(symbol: string): Quantity {
+    const definition = UnitMath.lookup(symbol);
+    if (!definition) {
+      throw new Error(`未知的单位: ${symbol}`);
+    }
+    return { magnitude: definition.scale, dimension: definition.dimension, unit: { [symbol]: 1 } };
+  }
+
+  /**
+   * 类型守卫：检查是否为带单位的量
+   */
+  public static isQuantity(value: unknown): value is Quantity {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      'magnitude' in value &&
+      'dimension' in value &&
+      'unit' in value
+    );
+  }
+
+  /**
+   * 单位组合的量纲
+   */
+  public static dimensionOf(unit: UnitPowers): Dimension {
+    return Object.entries(unit).reduce<Dimension>(
+      (total, [symbol, power]) => UnitMath.combineDimensions(total, UnitMath.unitOf(symbol).dimension, power),
+      UnitMath.DIMENSIONLESS
+    );
+  }
+
+  /**
+   * 量纲相加：a + factor·b（对应单位相乘、相除和乘方）
+   */
+  public static combineDimensions(a: Dimension, b: Dimension, factor: number = 1): Dimension {
+    return a.map((power, index) => power + factor * (b[index] ?? 0));
+  }
+
+  public static sameDimension(a: Dimension, b: Dimension): boolean {
+    return a.every((power, index) => power === b[index]);
+  }
+
+  public static isDimensionless(d: Dimension): boolean {
+    return d.every(power => power === 0);
+  }
+
+  /**
+   * 合并单位组合：unit·other^factor。与已有单位量纲相同的单位并入已有单位，
+   * 使 km/h × s 化简为 km，km/m 化简为无量纲
+   */
+  public static combine(unit: UnitPowers, other: UnitPowers, factor: number = 1): UnitPowers {
+    const result: Record<string, number> = { ...unit };
+
+    for (const [symbol, power] of Object.entries(other)) {
+      const dimensionOfSymbol = UnitMath.unitOf(symbol).dimension;
+      const target = Object.keys(result).find(existing =>
+        UnitMath.sameDimension(UnitMath.unitOf(existing).dimension, dimensionOfSymbol)
+      ) ?? symbol;
+      result[target] = (result[target] ?? 0) + factor * power;
+      if (result[target] === 0) {
+        delete result[target];
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 单位组合的有理数次幂，指数不能使所有单位指数保持整数时返回 null
+   */
+  public static power(unit: UnitPowers, exponent: Rational): UnitPowers | null {
+    const result: Record<string, number> = {};
+    for (const [symbol, power] of Object.entries(unit)) {
+      const scaled = RationalMath.multiply(RationalMath.create(BigInt(power)), exponent);
+      if (!RationalMath.isInteger(scaled)) {
+        return null;
+      }
+      if (scaled.numerator !== 0n) {
+        result[symbol] = Number(scaled.numerator);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 单位组合对应的 SI 换算系数
+   */
+  public static scaleOf(unit: UnitPowers): Rational {
+    return Object.entries(unit).reduce(
+      (total, [symbol, power]) => RationalMath.multiply(
+        total,
+        RationalMath.pow(UnitMath.unitOf(symbol).magnitude as Rational, RationalMath.create(BigInt(power))) as Rational
+      ),
+      RationalMath.create(1n)
+    );
+  }
+
+  /**
+   * 以指定单位表示的数值换算为 SI 数值
+   */
+  public static toSI(value: Decimal | Rational, unit: UnitPowers): Decimal | Rational {
+    const scale = UnitMath.scaleOf(unit);
+    return RationalMath.isRational(value)
+      ? RationalMath.multiply(value, scale)
+      : value.times(RationalMath.toDecimal(scale));
+  }
+
+  /**
+   * SI 数值换算为以指定单位表示的数值
+   */
+  public static fromSI(value: Decimal | Rational, unit: UnitPowers): Decimal | Rational {
+    const scale = UnitMath.scaleOf(unit);
+    return RationalMath.isRational(value)
+      ? RationalMath.divide(value, scale)
+      : value.dividedBy(RationalMath.toDecimal(scale));
+  }
+
+  /**
+   * 格式化单位组合，如 km/h、m/s^2、kg·m^2/s^2；只有负指数时写作 s^-1
+   */
+  public static format(unit: UnitPowers): string {
+    const entries = Object.entries(unit);
+    const term = ([symbol, power]: [string, number]): string =>
+      power === 1 ? symbol : `${symbol}^${power}`;
+
+    const numerator = entries.filter(([, power]) => power > 0);
+    const denominator = entries.filter(([, power]) => power < 0);
+    if (numerator.length === 0) {
+      return denominator.map(term).join('·');
+    }
+    if (denominator.length === 0) {
+      return numerator.map(term).join('·');
+    }
+
+    const denominatorText = denominator.map(([symbol, power]) => term([symbol, -power])).join('·');
+    return `${numerator.map(term).join('·')}/${denominator.length > 1 ? `(${denominatorText})` : denominatorText}`;
+  }
+
+  /**
+   * 解析 format 的输出（也接受 * 作为乘号），格式不符或含未知单位时返回 null
+   */
+  public static parse(text: string): UnitPowers | null {
+    const match = /^([^/]+?)(?:\/\(?([^/()]+)\)?)?$/.exec(text.trim());
+    if (!match) {
+      return null;
+    }
+
+    const parseTerms = (group: string, sign: number): Array<[string, number]> | null => {
+      const terms: Array<[string, number]> = [];
+      for (const term of group.split(/[·*]/)) {
+        const termMatch = /^([a-zA-Z]+)(?:\^(-?\d+))?$/.exec(term.trim());
+        if (!termMatch || !UnitMath.isUnit(termMatch[1] as string)) {
+          return null;
+        }
+        terms.push([termMatch[1] as string, sign * Number(termMatch[2] ?? 1)]);
+      }
+      return terms;
+    };
+
+    const numerator = parseTerms(match[1] as string, 1);
+    const denominator = match[2] === undefined ? [] : parseTerms(match[2], -1);
+    if (!numerator || !denominator) {
+      return null;
+    }
+
+    return [...numerator, ...denominator].reduce<UnitPowers>(
+      (unit, [symbol, power]) => UnitMath.combine(unit, { [symbol]: power }),
+      {}
+    );
+  }
+
+  /**
+   * 从换算目标的 AST（如 m/s、km^2）构造单位组合，其中的标识符一律按单位解释
+   */
+  public static fromAST(node: ASTNode): UnitPowers {
+    const [left, right] = node.children ?? [];
+
+    switch (node.type) {
+      case 'variable':
+        UnitMath.unitOf(node.value as string);
+        return { [node.value as string]: 1 };
+
+      case 'binary':
+        if (left && right && (node.value === '*' || node.value === '/')) {
+          return UnitMath.combine(UnitMath.fromAST(left), UnitMath.fromAST(right), node.value === '*' ? 1 : -1);
+        }
+        if (left && right && node.value === '^') {
+          const exponent = UnitMath.integerExponent(right);
+          const unit = exponent === null ? null : UnitMath.power(UnitMath.fromAST(left), RationalMath.create(BigInt(exponent)));
+          if (unit) {
+            return unit;
+          }
+        }
+        break;
+    }
+
+    throw new Error('换算目标必须是单位，如 m/s 或 km^2');
+  }
+
+  /**
+   * 量纲的文字描述：基本量纲或常见导出量纲用名称，其他用 SI 基本单位表示
+   */
+  public static describe(d: Dimension): string {
+    if (UnitMath.isDimensionless(d)) {
+      return '无量纲数';
+    }
+
+    const named = DIMENSION_NAMES.find(([candidate]) => UnitMath.sameDimension(candidate, d));
+    if (named) {
+      return named[1];
+    }
+
+    const nonZero = d.map((power, index) => [index, power] as const).filter(([, power]) => power !== 0);
+    const [single] = nonZero;
+    if (nonZero.length === 1 && single && single[1] === 1) {
+      return BASE_NAMES[single[0]] as string;
+    }
+
+    return UnitMath.format(
+      Object.fromEntries(nonZero.map(([index, power]) => [BASE_SYMBOLS[index] as string, power]))
+    );
+  }
+
+  private static integerExponent(node: ASTNode): number | null {
+    if (node.type === 'number' && Number.isInteger(Number(node.value))) {
+      return Number(node.value);
+    }
+    if (node.type === 'unary' && node.value === '-' && node.children?.[0]) {
+      const magnitude = UnitMath.integerExponent(node.children[0]);
+      return magnitude === null ? null : -magnitude;
+    }
+    return null;
+  }
+}
@@ -4,7 +4,15 @@
  * 输入验证相关的工具函数
  */
 
-import { Expression, CalculatorType, ExpressionType, AngleUnit, NumberFormat } from '@/types';
+import {
+  Expression,
+  CalculatorType,
+  ExpressionType,
+  AngleUnit,
+  NumberFormat,
+  Diagnostic,
+  DiagnosticFix,
+} from '@/types';
 
 // 验证结果接口
 export interface ValidationResult {
@@ -32,7 +40,9 @@ export class ValidationUtils {
     'ln', 'log', 'log2', 'log10', 'exp', 'sqrt', 'cbrt',
     'abs', 'ceil', 'floor', 'round', 'trunc', 'sign',
     'max', 'min', 'pow', 'random', 'factorial',
-    'gamma', 'beta', 'erf', 'erfc'
+    'gamma', 'beta', 'erf', 'erfc',
+    'sum', 'prod', 'count', 'mean', 'median', 'var', 'stdev', 'sort',
+    'det', 'inv', 'transpose', 'trace', 'rank', 'limit', 'series', 'if', 'piecewise'
   ];
 
   // 支持的常数
@@ -54,7 +64,8 @@ export class ValidationUtils {
    */
   public static validateExpression(
     input: string,
-    calculatorType: CalculatorType = CalculatorType.BASIC
+    calculatorType: CalculatorType = CalculatorType.BASIC,
+    userFunctions: string[] = []
   ): ExpressionValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -98,7 +109,7 @@ export class ValidationUtils {
     suggestedFixes.push(...parenthesesValidation.suggestedFixes);
 
     // 函数检查
-    const functionValidation = this.validateFunctions(trimmedInput, calculatorType);
+    const functionValidation = this.validateFunctions(trimmedInput, calculatorType, userFunctions);
     errors.push(...functionValidation.errors);
     warnings.push(...functionValidation.warnings);
     suggestedFixes.push(...functionValidation.suggestedFixes);
@@ -120,6 +131,121 @@ export class ValidationUtils {
     };
   }
 
+  /**
+   * 带位置的表达式诊断：与 validateExpression 检查相同的问题，但每条结果都标出输入中的区间，
+   * 并尽可能给出可直接应用的修复，如补全右括号、将 sine 改为 sin
+   */
+  public static diagnoseExpression(
+    input: string,
+    calculatorType: CalculatorType = CalculatorType.BASIC,
+    userFunctions: string[] = []
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!input || input.trim().length === 0) {
+      return [{ severity: 'error', message: '表达式不能为空', span: null, fixes: [] }];
+    }
+
+    // 不支持的字符，连续出现时合并为一个区间
+    const allowedCharacter = calculatorType === CalculatorType.SCIENTIFIC
+      ? /[0-9a-zA-Z+\-*/().,:\s^=<>!±π∞eφγ_{}[\]]/
+      : calculatorType === CalculatorType.MATRIX
+        ? /[0-9a-zA-Z+\-*/().,:\s^=<>!πe[\]]/
+        : /[0-9a-zA-Z+\-*/().,:\s^=<>!πe]/;
+    for (let i = 0; i < input.length; i++) {
+      if (allowedCharacter.test(input.charAt(i))) continue;
+      const start = i;
+      while (i + 1 < input.length && !allowedCharacter.test(input.charAt(i + 1))) i++;
+      const span = { start, end: i + 1 };
+      diagnostics.push({
+        severity: 'error',
+        message: `包含不支持的字符: ${input.slice(span.start, span.end)}`,
+        span,
+        fixes: [{ label: '删除', span, text: '' }],
+      });
+    }
+
+    // 括号匹配
+    const open: number[] = [];
+    for (let i = 0; i < input.length; i++) {
+      if (input[i] === '(') {
+        open.push(i);
+      } else if (input[i] === ')' && open.pop() === undefined) {
+        const span = { start: i, end: i + 1 };
+        diagnostics.push({
+          severity: 'error',
+          message: '多余的右括号',
+          span,
+          fixes: [{ label: '删除右括号', span, text: '' }],
+        });
+      }
+    }
+    const unclosed = open[open.length - 1];
+    if (unclosed !== undefined) {
+      const end = input.trimEnd().length;
+      diagnostics.push({
+        severity: 'error',
+        message: `缺少 ${open.length} 个右括号`,
+        span: { start: unclosed, end: unclosed + 1 },
+        fixes: [{ label: '补全右括号', span: { start: end, end }, text: ')'.repeat(open.length) }],
+      });
+    }
+
+    const emptyPattern = /\(\s*\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = emptyPattern.exec(input)) !== null) {
+      diagnostics.push({
+        severity: 'error',
+        message: '括号内缺少表达式',
+        span: { start: match.index, end: match.index + match[0].length },
+        fixes: [],
+      });
+    }
+
+    // 未知函数给出编辑距离最近的候选；基础模式下高级函数仅提示
+    const knownFunctions = userFunctions.map(name => name.toLowerCase());
+    const definitionMatch = input.trim().match(/^([a-zA-Z][a-zA-Z0-9]*)\s*\([^()]*\)\s*=(?!=)/);
+    if (definitionMatch?.[1]) {
+      knownFunctions.push(definitionMatch[1].toLowerCase());
+    }
+
+    const functionPattern = /([a-zA-Z]+)\s*\(/g;
+    while ((match = functionPattern.exec(input)) !== null) {
+      const name = match[1] as string;
+      const functionName = name.toLowerCase();
+      const span = { start: match.index, end: match.index + name.length };
+      if (knownFunctions.includes(functionName)) continue;
+
+      if (!this.SUPPORTED_FUNCTIONS.includes(functionName)) {
+        const suggestions = this.suggestFunctionNames(functionName);
+        diagnostics.push({
+          severity: 'error',
+          message: suggestions.length > 0 ? `未知函数: ${name}` : `不支持的函数: ${name}`,
+          span,
+          fixes: suggestions.map(suggestion => ({ label: `改为 ${suggestion}`, span, text: suggestion })),
+        });
+      } else if (
+        calculatorType === CalculatorType.BASIC &&
+        !['abs', 'ceil', 'floor', 'round', 'max', 'min', 'pow', 'sqrt'].includes(functionName)
+      ) {
+        diagnostics.push({
+          severity: 'warning',
+          message: `函数 ${name} 在基础计算器模式下可能不可用`,
+          span,
+          fixes: [],
+        });
+      }
+    }
+
+    return diagnostics.sort((a, b) => (a.span?.start ?? -1) - (b.span?.start ?? -1));
+  }
+
+  /**
+   * 应用一键修复，返回修改后的输入
+   */
+  public static applyFix(input: string, fix: DiagnosticFix): string {
+    return input.slice(0, fix.span.start) + fix.text + input.slice(fix.span.end);
+  }
+
   /**
    * 验证字符
    */
@@ -132,15 +258,15 @@ export class ValidationUtils {
     const suggestedFixes: string[] = [];
 
     // 基本字符集
-    let allowedPattern = /^[0-9a-zA-Z+\-*/().,\s\^=<>!πe]+$/;
+    let allowedPattern = /^[0-9a-zA-Z+\-*/().,:\s\^=<>!πe]+$/;
 
     // 根据计算器类型扩展字符集
     switch (calculatorType) {
       case CalculatorType.SCIENTIFIC:
-        allowedPattern = /^[0-9a-zA-Z+\-*/().,\s\^=<>!πeφγ_]+$/;
+        allowedPattern = /^[0-9a-zA-Z+\-*/().,:\s\^=<>!±π∞eφγ_{}[\]]+$/;
         break;
       case CalculatorType.MATRIX:
-        allowedPattern = /^[0-9a-zA-Z+\-*/().,\s\^=<>!πe\[\]]+$/;
+        allowedPattern = /^[0-9a-zA-Z+\-*/().,:\s\^=<>!πe\[\]]+$/;
         break;
     }
 
@@ -286,12 +412,20 @@ export class ValidationUtils {
    */
   private static validateFunctions(
     input: string,
-    calculatorType: CalculatorType
+    calculatorType: CalculatorType,
+    userFunctions: string[] = []
   ): { errors: string[]; warnings: string[]; suggestedFixes: string[] } {
     const errors: string[] = [];
     const warnings: string[] = [];
     const suggestedFixes: string[] = [];
 
+    // 自定义函数及正在定义的函数名视为已知
+    const knownFunctions = userFunctions.map(name => name.toLowerCase());
+    const definitionMatch = input.match(/^([a-zA-Z][a-zA-Z0-9]*)\s*\([^()]*\)\s*=(?!=)/);
+    if (definitionMatch?.[1]) {
+      knownFunctions.push(definitionMatch[1].toLowerCase());
+    }
+
     // 提取函数调用
     const functionPattern = /([a-zA-Z]+)\s*\(/g;
     let match;
@@ -299,6 +433,10 @@ export class ValidationUtils {
     while ((match = functionPattern.exec(input)) !== null) {
       const functionName = match[1].toLowerCase();
 
+      if (knownFunctions.includes(functionName)) {
+        continue;
+      }
+
       if (!this.SUPPORTED_FUNCTIONS.includes(functionName)) {
         // 检查是否为常见的拼写错误
         const suggestions = this.suggestFunctionNames(functionName);
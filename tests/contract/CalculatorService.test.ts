@@ -5,8 +5,23 @@
  * 注意：这些测试应该在实现前失败，遵循TDD原则
  */
 
-import { CalculatorService, ExpressionParseError, CalculationError } from '@/services/CalculatorService';
-import { Expression, Result, CalculatorType, ExpressionType } from '@/types';
+import {
+  CalculatorService,
+  ExpressionParseError,
+  CalculationError,
+  UnsupportedOperationError,
+} from '@/services/CalculatorService';
+import {
+  Expression,
+  Result,
+  CalculatorType,
+  ExpressionType,
+  AngleUnit,
+  ComplexFormat,
+  ComplexNumber,
+  ResultFormat,
+} from '@/types';
+import { ResultModel } from '@/models/Result';
 import { Decimal } from 'decimal.js';
 
 describe('CalculatorService Contract Tests', () => {
@@ -37,6 +52,18 @@ describe('CalculatorService Contract Tests', () => {
       expect(result.isValid).toBe(true);
     });
 
+    it('should only type a bare = as an equation', async () => {
+      const typeOf = async (input: string) =>
+        (await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC)).type;
+
+      expect(await typeOf('2x + 1 = 5')).toBe(ExpressionType.EQUATION);
+      await calculatorService.defineFunction(await calculatorService.parseExpression('f(x) = x^2', CalculatorType.SCIENTIFIC));
+      for (const comparison of ['x <= 3', 'x >= 3', 'x == 3', 'x != 3', 'f(x) == 3']) {
+        expect(await typeOf(comparison)).toBe(ExpressionType.SCIENTIFIC);
+      }
+      expect(await typeOf('g(x) = x^2')).toBe(ExpressionType.FUNCTION);
+    });
+
     it('should reject invalid expression syntax', async () => {
       await expect(
         calculatorService.parseExpression('2 + + 3', CalculatorType.BASIC)
@@ -48,6 +75,53 @@ describe('CalculatorService Contract Tests', () => {
         calculatorService.parseExpression('', CalculatorType.BASIC)
       ).rejects.toThrow(ExpressionParseError);
     });
+
+    it('should attach positioned diagnostics to parse errors', async () => {
+      const error = await calculatorService
+        .parseExpression('  2 * (3 + 4', CalculatorType.BASIC)
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ExpressionParseError);
+      expect((error as ExpressionParseError).position).toBe(6);
+      expect((error as ExpressionParseError).span).toEqual({ start: 6, end: 7 });
+      expect((error as ExpressionParseError).diagnostics[0]?.fixes[0]?.text).toBe(')');
+    });
+
+    it('should detect and parse LaTeX input', async () => {
+      const expression = await calculatorService.parseExpression(
+        '\\frac{\\sqrt{16}}{2} \\cdot 3',
+        CalculatorType.SCIENTIFIC
+      );
+      const result = await calculatorService.evaluate(expression);
+
+      expect(expression.input).toBe('sqrt(16)/2*3');
+      expect(result.value).toEqual(new Decimal(6));
+    });
+
+    it('should report LaTeX syntax errors at their position', async () => {
+      const error = await calculatorService
+        .parseExpression('1 + \\infty', CalculatorType.SCIENTIFIC, { format: 'latex' })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ExpressionParseError);
+      expect((error as ExpressionParseError).span).toEqual({ start: 4, end: 10 });
+    });
+  });
+
+  describe('diagnose', () => {
+    it('should merge parser errors with validation suggestions', () => {
+      expect(calculatorService.diagnose('2 + 3', CalculatorType.BASIC)).toEqual([]);
+
+      const [trailing] = calculatorService.diagnose('2 +', CalculatorType.BASIC);
+      expect(trailing?.span).toEqual({ start: 3, end: 3 });
+      expect(trailing?.fixes[0]?.span).toEqual({ start: 2, end: 3 });
+
+      const diagnostics = calculatorService.diagnose('sine(30', CalculatorType.SCIENTIFIC);
+      expect(diagnostics.map(diagnostic => diagnostic.span?.start)).toEqual([0, 4]);
+      expect(diagnostics.flatMap(diagnostic => diagnostic.fixes).map(fix => fix.text)).toEqual(
+        expect.arrayContaining(['sin', ')'])
+      );
+    });
   });
 
   describe('evaluate', () => {
@@ -109,6 +183,749 @@ describe('CalculatorService Contract Tests', () => {
     });
   });
 
+  describe('angle units', () => {
+    const evaluateInput = async (input: string, angleUnit?: AngleUnit) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression, angleUnit ? { angleUnit } : {});
+    };
+
+    it('should return exact values for standard degree angles', async () => {
+      expect((await evaluateInput('sin(30)', AngleUnit.DEGREE)).value).toEqual(new Decimal(0.5));
+      expect((await evaluateInput('cos(60)', AngleUnit.DEGREE)).value).toEqual(new Decimal(0.5));
+      expect((await evaluateInput('tan(45)', AngleUnit.DEGREE)).value).toEqual(new Decimal(1));
+      expect((await evaluateInput('sin(-390)', AngleUnit.DEGREE)).value).toEqual(new Decimal(-0.5));
+    });
+
+    it('should honor gradians and the service default unit', async () => {
+      expect((await evaluateInput('sin(100)', AngleUnit.GRADIAN)).value).toEqual(new Decimal(1));
+
+      calculatorService.setAngleUnit(AngleUnit.DEGREE);
+      expect((await evaluateInput('cos(180)')).value).toEqual(new Decimal(-1));
+    });
+
+    it('should snap radian multiples of π', async () => {
+      expect((await evaluateInput('sin(π)')).value).toEqual(new Decimal(0));
+      expect(((await evaluateInput('sin(1)')).value as Decimal).toNumber()).toBeCloseTo(Math.sin(1), 12);
+    });
+
+    it('should convert inverse trigonometric results', async () => {
+      expect((await evaluateInput('asin(0.5)', AngleUnit.DEGREE)).value).toEqual(new Decimal(30));
+      expect((await evaluateInput('atan(1)', AngleUnit.GRADIAN)).value).toEqual(new Decimal(50));
+    });
+
+    it('should reject tangent at odd multiples of 90 degrees', async () => {
+      await expect(evaluateInput('tan(90)', AngleUnit.DEGREE)).rejects.toThrow(CalculationError);
+    });
+  });
+
+  describe('precision', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should evaluate transcendental functions at the configured precision', async () => {
+      calculatorService.setPrecision(40);
+
+      const sine = await evaluateInput('sin(10^20)');
+      expect((sine.value as Decimal).toSignificantDigits(40).toString()).toBe(
+        '-0.6452512852657808442058117113125230074069'
+      );
+
+      const logarithm = await evaluateInput('ln(1e-300)');
+      expect((logarithm.value as Decimal).toSignificantDigits(40).toString()).toBe(
+        '-690.7755278982137052053974364053092622803'
+      );
+    });
+
+    it('should report rounded results as inexact with guaranteed digits', async () => {
+      calculatorService.setPrecision(10);
+
+      const logarithm = await evaluateInput('ln(1e-300)');
+      expect(logarithm.isExact).toBe(false);
+      expect(logarithm.precision).toBe(7);
+
+      const exact = await evaluateInput('sqrt(16) + ln(1)');
+      expect(exact.isExact).toBe(true);
+      expect(exact.precision).toBe(10);
+    });
+
+    it('should take the remainder with the sign of the dividend', async () => {
+      expect((await evaluateInput('7 % 3')).value).toEqual(new Decimal(1));
+      expect((await evaluateInput('-7 % 3')).value).toEqual(new Decimal(-1));
+      expect((await evaluateInput('7.5 % 2')).value).toEqual(new Decimal(1.5));
+      await expect(evaluateInput('7 % 0')).rejects.toThrow('除零错误');
+    });
+
+    it('should mark irrational powers inexact even when the last digit is zero', async () => {
+      expect((await evaluateInput('(1/2)^(1/2)')).isExact).toBe(false);
+      expect((await evaluateInput('0.5^0.5')).isExact).toBe(false);
+      expect((await evaluateInput('pow(2, 10)')).isExact).toBe(true);
+    });
+
+    it('should take real odd roots of negative numbers', async () => {
+      expect((await evaluateInput('(-8)^(1/3)')).value).toEqual(new Decimal(-2));
+      expect((await evaluateInput('(-8)^(2/3)')).value).toEqual(new Decimal(4));
+      await expect(evaluateInput('(-8)^(1/2)')).rejects.toThrow(CalculationError);
+    });
+
+    it('should format large and tiny exact values from the decimal digits', async () => {
+      const large = await evaluateInput('2^64');
+      expect(large.displayValue).toBe('18,446,744,073,709,551,616');
+      expect(large.isExact).toBe(true);
+      expect((await evaluateInput('10^-30')).displayValue).toBe('1e-30');
+    });
+
+    it('should switch huge values to exponential notation', async () => {
+      expect((await evaluateInput('exp(1000)')).displayValue).toBe('1.970071114e+434');
+      expect((await evaluateInput('10^400')).displayValue).toBe('1e+400');
+      expect((await evaluateInput('1e300 * 1e300')).displayValue).toBe('1e+600');
+      expect((await evaluateInput('1e20')).displayValue).toBe('100,000,000,000,000,000,000');
+    });
+
+    it('should keep literals beyond the double exponent range exact', async () => {
+      expect((await evaluateInput('1e400')).value).toEqual(new Decimal('1e400'));
+      expect((await evaluateInput('2.5e400')).value).toEqual(new Decimal('2.5e400'));
+      expect((await evaluateInput('1e-400')).value).toEqual(new Decimal('1e-400'));
+      expect((await evaluateInput('1e400 / 1e399')).value).toEqual(new Decimal(10));
+    });
+  });
+
+  describe('user functions', () => {
+    const define = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.defineFunction(expression);
+    };
+
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should define and call single and multi-parameter functions', async () => {
+      const definition = await define('f(x) = x^2 + 1');
+      expect(definition.name).toBe('f');
+      expect(definition.parameters).toEqual(['x']);
+      expect(definition.body).toBe('x^2 + 1');
+
+      await define('hyp(a, b) = sqrt(a^2 + b^2)');
+
+      expect((await evaluateInput('f(3)')).value).toEqual(new Decimal(10));
+      expect((await evaluateInput('hyp(3, 4) + f(0)')).value).toEqual(new Decimal(6));
+    });
+
+    it('should let user functions call each other', async () => {
+      await define('sq(x) = x*x');
+      await define('g(x) = sq(x) + sq(x + 1)');
+
+      expect((await evaluateInput('g(2)')).value).toEqual(new Decimal(13));
+    });
+
+    it('should reject wrong argument counts and unbounded recursion', async () => {
+      await define('f(x) = x + 1');
+      await expect(evaluateInput('f(1, 2)')).rejects.toThrow(CalculationError);
+
+      await define('loop(x) = loop(x) + 1');
+      await expect(evaluateInput('loop(1)')).rejects.toThrow(CalculationError);
+    });
+
+    it('should register definitions passed to evaluate', async () => {
+      const result = await evaluateInput('f(x) = x^2');
+      expect(result.displayValue).toBe('f(x) = x^2');
+      expect(calculatorService.getUserFunctions().map(definition => definition.name)).toEqual(['f']);
+      expect((await evaluateInput('f(3)')).value).toEqual(new Decimal(9));
+    });
+
+    it('should not allow redefining builtin functions', async () => {
+      await expect(define('sin(x) = x')).rejects.toThrow();
+    });
+
+    it('should restore definitions loaded from storage', async () => {
+      const definition = await define('twice(x) = 2x');
+      const restored = new CalculatorService();
+      restored.loadFunctions([definition]);
+
+      const expression = await restored.parseExpression('twice(21)', CalculatorType.SCIENTIFIC);
+      expect((await restored.evaluate(expression)).value).toEqual(new Decimal(42));
+    });
+  });
+
+  describe('session variables', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should assign variables with := and with a bare equals sign', async () => {
+      expect((await evaluateInput('a := 5')).value).toEqual(new Decimal(5));
+      expect((await evaluateInput('r = 2')).value).toEqual(new Decimal(2));
+
+      expect((await evaluateInput('a * r^2')).value).toEqual(new Decimal(20));
+      expect(calculatorService.getVariable('a')).toEqual(new Decimal(5));
+    });
+
+    it('should keep equations that reference the target variable as equations', async () => {
+      await expect(evaluateInput('x = x + 1')).rejects.toThrow(CalculationError);
+      expect(calculatorService.getVariable('x')).toBeUndefined();
+    });
+
+    it('should track Ans and PreAns', async () => {
+      await evaluateInput('2 + 3');
+      await evaluateInput('10');
+
+      expect((await evaluateInput('Ans * PreAns')).value).toEqual(new Decimal(50));
+      expect((await evaluateInput('ans + 1')).value).toEqual(new Decimal(51));
+      expect(calculatorService.getVariable('PreAns')).toEqual(new Decimal(50));
+    });
+
+    it('should reject assignments to reserved names', async () => {
+      await expect(evaluateInput('Ans := 3')).rejects.toThrow(CalculationError);
+      await expect(evaluateInput('answer + 1')).rejects.toThrow('未定义的变量: answer');
+    });
+
+    it('should round-trip variables through their persisted form', async () => {
+      await evaluateInput('g := 9.80665');
+      const restored = new CalculatorService();
+      restored.loadVariables(calculatorService.getVariables());
+
+      const expression = await restored.parseExpression('2g + Ans', CalculatorType.SCIENTIFIC);
+      expect((await restored.evaluate(expression)).value).toEqual(new Decimal('29.41995'));
+    });
+  });
+
+  describe('complex mode', () => {
+    const evaluateInput = async (input: string, options = {}) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression, options);
+    };
+
+    beforeEach(() => {
+      calculatorService.setComplexMode(true);
+    });
+
+    it('should keep rejecting negative square roots outside complex mode', async () => {
+      calculatorService.setComplexMode(false);
+      await expect(evaluateInput('sqrt(-1)')).rejects.toThrow('sqrt参数不能为负数');
+    });
+
+    it('should evaluate i and complex arithmetic', async () => {
+      const sum = await evaluateInput('(2 + 3i)(1 - i)');
+      expect(sum.value).toEqual({ real: new Decimal(5), imaginary: new Decimal(1) });
+      expect(sum.displayValue).toBe('5 + i');
+      expect(sum.format).toBe(ResultFormat.RECTANGULAR);
+
+      expect((await evaluateInput('i^2')).value).toEqual(new Decimal(-1));
+      expect((await evaluateInput('sqrt(-4)')).displayValue).toBe('2i');
+    });
+
+    it('should use principal branches for ln and fractional powers', async () => {
+      const logarithm = (await evaluateInput('ln(-1)')).value as ComplexNumber;
+      expect(logarithm.real.isZero()).toBe(true);
+      expect(logarithm.imaginary.toNumber()).toBeCloseTo(Math.PI, 12);
+
+      const root = (await evaluateInput('(-8)^(1/3)')).value as ComplexNumber;
+      expect(root.real.toNumber()).toBeCloseTo(1, 9);
+      expect(root.imaginary.toNumber()).toBeCloseTo(Math.sqrt(3), 9);
+    });
+
+    it('should format complex results in polar form', async () => {
+      const result = await evaluateInput('1 + i', {
+        complexFormat: ComplexFormat.POLAR,
+        angleUnit: AngleUnit.DEGREE,
+      });
+
+      expect(result.format).toBe(ResultFormat.POLAR);
+      expect(result.displayValue).toMatch(/^1\.41\d*∠45°$/);
+    });
+
+    it('should store complex answers in session variables', async () => {
+      await evaluateInput('z := 3 - 4i');
+      expect((await evaluateInput('abs(z)')).value).toEqual(new Decimal(5));
+
+      const restored = new CalculatorService();
+      restored.loadVariables(calculatorService.getVariables());
+      expect(restored.getVariable('z')).toEqual({ real: new Decimal(3), imaginary: new Decimal(-4) });
+    });
+  });
+
+  describe('exact arithmetic', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+    const formatAs = (result: Result, format: ResultFormat) => {
+      const model = ResultModel.fromJSON(result);
+      model.updateFormat(format);
+      return model.displayValue;
+    };
+
+    it('should keep rational arithmetic exact', async () => {
+      const half = await evaluateInput('1/3 + 1/6');
+      expect(half.value).toEqual(new Decimal(0.5));
+      expect(half.isExact).toBe(true);
+      expect(formatAs(half, ResultFormat.FRACTION)).toBe('1/2');
+
+      expect((await evaluateInput('(1/3) * 3')).value).toEqual(new Decimal(1));
+      expect((await evaluateInput('(2/3)^(-2)')).value).toEqual(new Decimal(2.25));
+      expect((await evaluateInput('10^20 + 1 - 10^20')).value).toEqual(new Decimal(1));
+      expect((await evaluateInput('(4/9)^(3/2)')).value).toEqual({ numerator: 8n, denominator: 27n });
+    });
+
+    it('should return repeating decimals as fractions with mixed-number output', async () => {
+      const result = await evaluateInput('7/3');
+
+      expect(result.value).toEqual({ numerator: 7n, denominator: 3n });
+      expect(result.isExact).toBe(true);
+      expect(result.displayValue).toMatch(/^2\.333/);
+      expect(formatAs(result, ResultFormat.FRACTION)).toBe('7/3');
+      expect(formatAs(result, ResultFormat.MIXED_NUMBER)).toBe('2 1/3');
+      expect(formatAs(await evaluateInput('-3/2'), ResultFormat.MIXED_NUMBER)).toBe('-1 1/2');
+    });
+
+    it('should fall back to Decimal only for irrational functions', async () => {
+      expect((await evaluateInput('abs(-1/3) + floor(7/2)')).value).toEqual({ numerator: 10n, denominator: 3n });
+
+      const root = await evaluateInput('sqrt(2)/3');
+      expect(root.value).toBeInstanceOf(Decimal);
+      expect(root.isExact).toBe(false);
+      expect(formatAs(root, ResultFormat.FRACTION)).not.toContain('/');
+    });
+
+    it('should keep answers and variables exact across evaluations', async () => {
+      await evaluateInput('q := 2/7');
+      expect((await evaluateInput('Ans * 7')).value).toEqual(new Decimal(2));
+      expect(calculatorService.getVariables()['q']).toBe('2/7');
+
+      const restored = new CalculatorService();
+      restored.loadVariables(calculatorService.getVariables());
+      expect(restored.getVariable('q')).toEqual({ numerator: 2n, denominator: 7n });
+    });
+
+    it('should reject division by an exact zero', async () => {
+      await expect(evaluateInput('1/(1/2 - 2/4)')).rejects.toThrow('除零错误');
+      await expect(evaluateInput('0^(-1)')).rejects.toThrow(CalculationError);
+    });
+  });
+
+  describe('units', () => {
+    const evaluateInput = async (input: string, options = {}) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression, options);
+    };
+
+    it('should carry units through multiplication and division', async () => {
+      const distance = await evaluateInput('5 km/h * 2 h');
+      expect(distance.value).toEqual(new Decimal(10));
+      expect(distance.unit).toBe('km');
+      expect(distance.displayValue).toBe('10 km');
+
+      const ratio = await evaluateInput('3 km / (500 m)');
+      expect(ratio.value).toEqual(new Decimal(6));
+      expect(ratio.unit).toBeNull();
+    });
+
+    it('should bind a number to the unit after it before dividing', async () => {
+      const ratio = await evaluateInput('10 m / 2 m');
+      expect(ratio.value).toEqual(new Decimal(5));
+      expect(ratio.unit).toBeNull();
+
+      const frequency = await evaluateInput('1 / 2 s');
+      expect(frequency.value).toEqual(new Decimal(0.5));
+      expect(frequency.unit).toBe('s^-1');
+      expect((await evaluateInput('1/2 * 3')).value).toEqual(new Decimal(1.5));
+    });
+
+    it('should read in as inches after a number or as a conversion target', async () => {
+      expect((await evaluateInput('12 in to cm')).value).toEqual(new Decimal('30.48'));
+      expect((await evaluateInput('2 ft to in')).value).toEqual(new Decimal(24));
+      expect((await evaluateInput('3 inch in cm')).value).toEqual(new Decimal('7.62'));
+    });
+
+    it('should add compatible units in the unit of the left operand', async () => {
+      const length = await evaluateInput('3 ft + 20 cm');
+      expect(length.unit).toBe('ft');
+      expect(length.value).toEqual({ numerator: 1393n, denominator: 381n });
+    });
+
+    it('should convert with to/in and the unit option', async () => {
+      const speed = await evaluateInput('60 mph to m/s');
+      expect(speed.value).toEqual(new Decimal('26.8224'));
+      expect(speed.unit).toBe('m/s');
+
+      expect((await evaluateInput('2 h in s')).value).toEqual(new Decimal(7200));
+      expect((await evaluateInput('1 km + 1 m', { unit: 'm' })).value).toEqual(new Decimal(1001));
+    });
+
+    it('should read min as minutes outside function calls', async () => {
+      const minutes = await evaluateInput('1 h to min');
+      expect(minutes.value).toEqual(new Decimal(60));
+      expect(minutes.unit).toBe('min');
+      expect((await evaluateInput('min(3, 2)')).value).toEqual(new Decimal(2));
+    });
+
+    it('should only read unit symbols after a numeric coefficient', async () => {
+      await expect(evaluateInput('g + 1')).rejects.toThrow('未定义的变量: g');
+      await expect(evaluateInput('km * 2')).rejects.toThrow('未定义的变量: km');
+      expect((await evaluateInput('9.81 m/s^2 * 2 s')).unit).toBe('m/s');
+    });
+
+    it('should reject mismatched dimensions', async () => {
+      await expect(evaluateInput('3 m + 2 s')).rejects.toThrow(CalculationError);
+      await expect(evaluateInput('3 m + 2 s')).rejects.toThrow('量纲不匹配');
+      await expect(evaluateInput('60 mph to kg')).rejects.toThrow('无法将');
+      await expect(evaluateInput('sin(2 m)')).rejects.toThrow('无量纲');
+    });
+
+    it('should prefer session variables over unit symbols', async () => {
+      await evaluateInput('m := 4');
+      expect((await evaluateInput('m * 2')).value).toEqual(new Decimal(8));
+
+      await evaluateInput('v := 36 km/h');
+      const restored = new CalculatorService();
+      restored.loadVariables(calculatorService.getVariables());
+      expect(restored.getVariables()['v']).toBe(calculatorService.getVariables()['v']);
+    });
+  });
+
+  describe('lists', () => {
+    const evaluateInput = async (input: string, options = {}) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression, options);
+    };
+
+    it('should apply arithmetic and functions element-wise', async () => {
+      const result = await evaluateInput('{1, 2, 3} * 2 + [10, 20, 30]');
+      expect(result.value).toEqual({ elements: [new Decimal(12), new Decimal(24), new Decimal(36)] });
+      expect(result.displayValue).toBe('{12, 24, 36}');
+
+      expect((await evaluateInput('sqrt({4, 9})')).displayValue).toBe('{2, 3}');
+      await expect(evaluateInput('{1, 2} + {1, 2, 3}')).rejects.toThrow('列表长度不一致');
+    });
+
+    it('should aggregate lists exactly', async () => {
+      await evaluateInput('data := {2, 4, 4, 4, 5, 5, 7, 9}');
+
+      expect((await evaluateInput('mean(data)')).value).toEqual(new Decimal(5));
+      expect((await evaluateInput('median({3, 1, 2, 10})')).value).toEqual(new Decimal(2.5));
+      expect((await evaluateInput('var(data)')).value).toEqual(new Decimal(4));
+      expect((await evaluateInput('stdev(data)')).value).toEqual(new Decimal(2));
+      expect((await evaluateInput('sum(data) + prod({1, 2, 3}) + count(data)')).value).toEqual(new Decimal(54));
+      expect((await evaluateInput('mean({1, 2, 4})')).value).toEqual({ numerator: 7n, denominator: 3n });
+      expect((await evaluateInput('max({3, 8, 1})')).value).toEqual(new Decimal(8));
+      expect((await evaluateInput('mean([1, 2])')).value).toEqual(new Decimal(1.5));
+      expect((await evaluateInput('count([5, 6])')).value).toEqual(new Decimal(2));
+      expect((await evaluateInput('sort([3, 1])')).displayValue).toBe('{1, 3}');
+      expect((await evaluateInput('max([3, 8])')).value).toEqual(new Decimal(8));
+    });
+
+    it('should sort and keep units', async () => {
+      expect((await evaluateInput('sort({3, -1, 2.5})')).displayValue).toBe('{-1, 2.5, 3}');
+
+      const lengths = await evaluateInput('sort({1 km, 300 m})');
+      expect(lengths.unit).toBe('m');
+      expect(lengths.displayValue).toBe('{300, 1,000} m');
+      expect((await evaluateInput('mean({1 km, 3 km})')).displayValue).toBe('2 km');
+
+      await expect(evaluateInput('mean({})')).rejects.toThrow('列表不能为空');
+    });
+  });
+
+  describe('matrices', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should evaluate matrix arithmetic', async () => {
+      const product = await evaluateInput('[[1, 2], [3, 4]] * [[5, 6], [7, 8]]');
+      expect(product.value).toEqual({
+        rows: 2,
+        cols: 2,
+        data: [[new Decimal(19), new Decimal(22)], [new Decimal(43), new Decimal(50)]],
+      });
+      expect(product.displayValue).toBe('[[19, 22], [43, 50]]');
+
+      expect((await evaluateInput('2 * [[1, 2], [3, 4]] - [[1, 0], [0, 1]]')).displayValue).toBe('[[1, 4], [6, 7]]');
+      expect((await evaluateInput('-[[1, 2], [3, 4]] / 2')).displayValue).toBe('[[-0.5, -1], [-1.5, -2]]');
+      expect((await evaluateInput('[[1, 1], [1, 0]]^10')).displayValue).toBe('[[89, 55], [55, 34]]');
+    });
+
+    it('should evaluate matrix functions exactly', async () => {
+      await evaluateInput('M := [[1, 2], [3, 4]]');
+
+      expect((await evaluateInput('det(M)')).value).toEqual(new Decimal(-2));
+      expect((await evaluateInput('inv(M)')).displayValue).toBe('[[-2, 1], [1.5, -0.5]]');
+      expect((await evaluateInput('trace(M) + rank([[1, 2], [2, 4]])')).value).toEqual(new Decimal(6));
+      expect((await evaluateInput('transpose([[1, 2, 3]])')).displayValue).toBe('[[1], [2], [3]]');
+      expect((await evaluateInput('inv([[3, 0], [0, 3]])')).isExact).toBe(false);
+      expect(calculatorService.getVariables()['M']).toBe('[[1; 2]; [3; 4]]');
+    });
+
+    it('should reject invalid matrix operations', async () => {
+      await expect(evaluateInput('[[1, 2]] + [[1], [2]]')).rejects.toThrow('矩阵维度不匹配');
+      await expect(evaluateInput('inv([[1, 2], [2, 4]])')).rejects.toThrow('矩阵不可逆');
+      await expect(evaluateInput('[[1, 2], [3, 4]]^0.5')).rejects.toThrow('矩阵的幂指数必须是整数');
+      await expect(evaluateInput('sin([[1]])')).rejects.toThrow(CalculationError);
+    });
+  });
+
+  describe('uncertainty and intervals', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should propagate measurement uncertainty', async () => {
+      const measured = await evaluateInput('9.81 ± 0.02');
+      expect(measured.value).toEqual({ value: new Decimal('9.81'), uncertainty: new Decimal('0.02') });
+      expect(measured.displayValue).toBe('9.81 ± 0.02');
+      expect(measured.isExact).toBe(false);
+
+      expect((await evaluateInput('(2 ± 0.1) * (3 ± 0.2)')).displayValue).toBe('6.0 ± 0.5');
+      expect((await evaluateInput('sqrt(16 ± 0.4)')).displayValue).toBe('4.00 ± 0.05');
+      expect((await evaluateInput('x := 1234 ± 56')).displayValue).toBe('1230 ± 60');
+      expect(calculatorService.getVariables()['x']).toBe('1234 ± 56');
+    });
+
+    it('should bound interval arithmetic rigorously', async () => {
+      const product = await evaluateInput('[1, 2] * [-3, 4]');
+      expect(product.value).toEqual({ lower: new Decimal(-6), upper: new Decimal(8) });
+      expect(product.displayValue).toBe('[-6, 8]');
+
+      expect((await evaluateInput('[1, 2] / 3')).displayValue).toBe('[0.3333333333, 0.6666666667]');
+      expect((await evaluateInput('sin([0, 3])')).displayValue).toBe('[0, 1]');
+      expect((await evaluateInput('[-2, 3]^2 + (1 ± 0.5)')).displayValue).toBe('[0.5, 10.5]');
+    });
+
+    it('should reject undefined interval operations', async () => {
+      await expect(evaluateInput('1 / [-1, 2]')).rejects.toThrow('除数区间包含 0');
+      await expect(evaluateInput('ln([0, 1])')).rejects.toThrow('ln参数必须大于0');
+      await expect(evaluateInput('1 ± -0.1')).rejects.toThrow('不确定度不能为负数');
+    });
+  });
+
+  describe('sums and products', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should evaluate finite sums exactly with a scoped index', async () => {
+      const harmonic = await evaluateInput('sum(1/k, k, 1, 4)');
+      expect(harmonic.displayValue).toBe('2.083');
+      expect(harmonic.isExact).toBe(true);
+      expect((await evaluateInput('prod(k, k, 1, 6)')).displayValue).toBe('720');
+      expect((await evaluateInput('sum(k, k, 1, 10^6)')).displayValue).toBe('500,000,500,000');
+      expect((await evaluateInput('sum(k, k, 5, 1)')).displayValue).toBe('0');
+
+      await evaluateInput('k := 3');
+      expect((await evaluateInput('sum(k, k, 1, 3) + k')).displayValue).toBe('9');
+    });
+
+    it('should find closed forms for symbolic bounds', async () => {
+      const expression = await calculatorService.parseExpression('sum(2*k - 1, k, 1, n)', CalculatorType.SCIENTIFIC);
+      expect((await calculatorService.simplify(expression)).input).toBe('n^2');
+
+      const telescoping = await calculatorService.parseExpression('sum(1/(k*(k + 1)), k, 1, n)', CalculatorType.SCIENTIFIC);
+      expect((await calculatorService.simplify(telescoping)).input).toBe('-1/(n + 1) + 1');
+
+      await expect(evaluateInput('sum(k, k, 1, n)')).rejects.toThrow(
+        'sum的上下限含未赋值的符号 n，闭式为 n^2/2 + n/2，可使用化简得到'
+      );
+      await expect(evaluateInput('sum(1/k, k, 1, n)')).rejects.toThrow('sum的上下限含未赋值的符号 n，且未找到闭式');
+    });
+
+    it('should accelerate infinite series and reject divergent ones', async () => {
+      const basel = await evaluateInput('sum(1/k^2, k, 1, inf)');
+      expect((basel.value as Decimal).minus(Math.PI ** 2 / 6).abs().toNumber()).toBeLessThan(1e-10);
+      expect(basel.isExact).toBe(false);
+      expect((await evaluateInput('prod(1 + 1/k^2, k, 1, ∞)')).displayValue).toBe('3.676');
+
+      await expect(evaluateInput('sum(1/k, k, 1, inf)')).rejects.toThrow('级数发散');
+      await expect(evaluateInput('sum(k, k, 1, 2.5)')).rejects.toThrow('sum的上下限必须是整数或 ±∞');
+
+      const expression = await calculatorService.parseExpression('(-1)^(k+1)/k', CalculatorType.SCIENTIFIC);
+      const report = await calculatorService.infiniteSeries(expression, 'k', { lower: 1, upper: Infinity });
+      expect(report.method).toBe('euler');
+      expect(report.converged).toBe(true);
+      expect(report.value.toNumber()).toBeCloseTo(Math.LN2, 12);
+    });
+  });
+
+  describe('limit', () => {
+    const limitOf = async (input: string, point: number, direction?: 'left' | 'right' | 'both') => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.limit(expression, 'x', point, direction);
+    };
+
+    it('should compute two-sided, one-sided and infinite limits', async () => {
+      expect((await limitOf('sin(x)/x', 0)).value?.toNumber()).toBe(1);
+      expect((await limitOf('(3*x^2 + 1)/(x^2 - x)', Infinity)).value?.toNumber()).toBe(3);
+
+      const reciprocal = await limitOf('1/x', 0);
+      expect(reciprocal.value).toBeNull();
+      expect(reciprocal.left?.toNumber()).toBe(-Infinity);
+      expect(reciprocal.right?.toNumber()).toBe(Infinity);
+      expect((await limitOf('1/x', 0, 'right')).value?.toNumber()).toBe(Infinity);
+    });
+
+    it('should fall back to one side and explain missing limits', async () => {
+      expect((await limitOf('x*ln(x)', 0)).value?.toNumber()).toBe(0);
+      expect((await limitOf('sqrt(x)', 0)).value?.toNumber()).toBe(0);
+
+      const oscillating = await limitOf('sin(x)', Infinity);
+      expect(oscillating.value).toBeNull();
+      expect(oscillating.reason).toBe('函数振荡，不趋于确定的值');
+    });
+
+    it('should evaluate limit() inside expressions', async () => {
+      const evaluateInput = async (input: string) => {
+        const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+        return calculatorService.evaluate(expression);
+      };
+
+      const result = await evaluateInput('limit((x^2 - 4)/(x - 2), x, 2)');
+      expect(result.displayValue).toBe('4');
+      expect(result.isExact).toBe(true);
+      expect((await evaluateInput('limit((1 + 1/n)^n, n, inf)')).displayValue).toBe('2.718');
+      expect((await evaluateInput('limit((1 + 1/n)^n, n, inf)')).isExact).toBe(false);
+      expect((await evaluateInput('limit((2^x - 1)/x, x, 0)')).isExact).toBe(false);
+      expect((await evaluateInput('limit((sin(x) - x)/x^3, x, 0)')).value).toEqual({ numerator: -1n, denominator: 6n });
+      expect((await evaluateInput('limit(x*sin(1/x), x, 0)')).displayValue).toBe('0');
+
+      await expect(evaluateInput('limit(abs(x)/x, x, 0)')).rejects.toThrow('极限不存在（左极限 -1，右极限 1）');
+      await expect(evaluateInput('limit(1/x^2, x, 0)')).rejects.toThrow('极限为 ∞');
+      await expect(evaluateInput('limit(sin(x), x, inf)')).rejects.toThrow('极限不存在：函数振荡');
+    });
+  });
+
+  describe('taylorSeries', () => {
+    const expand = async (input: string, point: number | string, order: number) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.taylorSeries(expression, 'x', point, order);
+    };
+
+    it('should return the Taylor polynomial with exact coefficients and the remainder order', async () => {
+      const sine = await expand('sin(x)', 0, 5);
+      expect(sine.polynomial.input).toBe('x - x^3/6 + x^5/120');
+      expect(sine.remainderOrder).toBe(6);
+
+      expect((await expand('sqrt(x)', 4, 2)).polynomial.input).toBe('2 + (x - 4)/4 - (x - 4)^2/64');
+      expect((await expand('sin(x)', 'pi', 3)).polynomial.input).toBe('-(x - π) + (x - π)^3/6');
+      expect((await expand('a*x^2 + sin(b*x)', 0, 3)).polynomial.input).toBe('b*x + a*x^2 - b^3*x^3/6');
+    });
+
+    it('should evaluate series() inside expressions and reject undefined derivatives', async () => {
+      const evaluateInput = async (input: string) => {
+        const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+        return calculatorService.evaluate(expression);
+      };
+
+      await evaluateInput('x := 1/2');
+      const result = await evaluateInput('series(e^x, x, 0, 2)');
+      expect(result.displayValue).toBe('1.625');
+      expect(result.isExact).toBe(true);
+
+      await expect(expand('ln(x)', 0, 2)).rejects.toThrow('函数在展开点的 0 阶导数无定义');
+      await expect(evaluateInput('series(e^x, x, 0, 2.5)')).rejects.toThrow('series的展开阶数必须是整数');
+    });
+
+    it('should return the symbolic polynomial when the expansion variable is unassigned', async () => {
+      const parse = (input: string) => calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+
+      const result = await calculatorService.evaluate(await parse('series(sin(t), t, 0, 5)'));
+      expect(result.value).toBeNull();
+      expect(result.displayValue).toBe('t - t^3/6 + t^5/120');
+      expect(result.isExact).toBe(true);
+      expect((await calculatorService.evaluate(await parse('2*series(e^t, t, 0, 2)'))).displayValue).toBe(
+        '2*(1 + t + t^2/2)'
+      );
+
+      expect((await calculatorService.simplify(await parse('series(sin(t), t, 0, 5)'))).input).toBe(
+        't^5/120 - t^3/6 + t'
+      );
+      expect((await calculatorService.simplify(await parse('2*series(e^t, t, 0, 2) - 2'))).input).toBe('t^2 + 2*t');
+    });
+
+    it('should expand across removable singularities', async () => {
+      expect((await expand('sin(x)/x', 0, 6)).polynomial.input).toBe('1 - x^2/6 + x^4/120 - x^6/5040');
+      expect((await expand('(1 - cos(x))/x^2', 0, 2)).polynomial.input).toBe('1/2 - x^2/24');
+      expect((await expand('sin(x)*(1/x)', 0, 2)).polynomial.input).toBe('1 - x^2/6');
+      await expect(expand('1/x', 0, 2)).rejects.toThrow('函数在展开点的 0 阶导数无定义');
+    });
+  });
+
+  describe('conditional expressions', () => {
+    const evaluateInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.evaluate(expression);
+    };
+
+    it('should evaluate comparisons and boolean operators to exact 1 or 0', async () => {
+      expect((await evaluateInput('0.1 + 0.2 == 0.3')).displayValue).toBe('1');
+      expect((await evaluateInput('1 < 3 <= 2')).displayValue).toBe('0');
+      expect((await evaluateInput('5 m > 3 ft and not 2 != 2')).displayValue).toBe('1');
+      expect((await evaluateInput('{1, 2, 3} >= 2')).displayValue).toBe('{0, 1, 1}');
+
+      // 左侧已能确定结果时不计算右侧
+      expect((await evaluateInput('0 and 1/0 > 1')).displayValue).toBe('0');
+    });
+
+    it('should evaluate only the branch whose condition holds', async () => {
+      await evaluateInput('x := -3');
+      expect((await evaluateInput('if(x != 0, 1/x, 1/0)')).value).toEqual({ numerator: -1n, denominator: 3n });
+      expect((await evaluateInput('piecewise((x < 0, -x), (x >= 0, x^2))')).displayValue).toBe('3');
+      expect((await evaluateInput('piecewise((x > 0, 1), 0)')).displayValue).toBe('0');
+
+      await expect(evaluateInput('piecewise((x > 0, 1))')).rejects.toThrow('没有满足条件的分段');
+      await expect(evaluateInput('[1, 2] < 3')).rejects.toThrow('测量值和区间不能比较大小');
+    });
+  });
+
+  describe('evaluateProgrammer', () => {
+    it('should evaluate bitwise expressions in all bases', async () => {
+      const result = await calculatorService.evaluateProgrammer('0xFF & ~0b1010 | 1 << 4', { wordSize: 16, signed: false });
+
+      expect(result.value).toEqual({ value: 245n, wordSize: 16, signed: false });
+      expect(result.bases).toEqual({ hexadecimal: 'F5', decimal: '245', octal: '365', binary: '11110101' });
+    });
+
+    it('should wrap around the selected word size', async () => {
+      const overflow = await calculatorService.evaluateProgrammer('127 + 1', { wordSize: 8 });
+      expect(overflow.bases.decimal).toBe('-128');
+      expect(overflow.bases.binary).toBe('10000000');
+
+      const minusOne = await calculatorService.evaluateProgrammer('-1', { signed: false });
+      expect(minusOne.bases.decimal).toBe('18446744073709551615');
+      expect(minusOne.bases.hexadecimal).toBe('FFFFFFFFFFFFFFFF');
+
+      const wide = await calculatorService.evaluateProgrammer('0x7FFFFFFFFFFFFFFF + 1');
+      expect(wide.value.value).toBe(-(2n ** 63n));
+      expect((await calculatorService.evaluateProgrammer('1 << 100', { wordSize: 128 })).value.value).toBe(2n ** 100n);
+    });
+
+    it('should reject invalid programmer input', async () => {
+      await expect(calculatorService.evaluateProgrammer('1 / 0')).rejects.toThrow('除零错误');
+      await expect(calculatorService.evaluateProgrammer('1 +')).rejects.toThrow(ExpressionParseError);
+      await expect(calculatorService.evaluateProgrammer('0x1G')).rejects.toMatchObject({ span: { start: 0, end: 4 } });
+      await expect(calculatorService.evaluateProgrammer('1', { wordSize: 12 as 8 })).rejects.toThrow('不支持的字长');
+    });
+
+    it('should format integer results in binary and hexadecimal without losing precision', async () => {
+      const expression = await calculatorService.parseExpression('2^60 + 1', CalculatorType.SCIENTIFIC);
+      const model = ResultModel.fromJSON(await calculatorService.evaluate(expression));
+
+      model.updateFormat(ResultFormat.HEXADECIMAL);
+      expect(model.displayValue).toBe('0x1000000000000001');
+
+      const negative = ResultModel.fromJSON(
+        await calculatorService.evaluate(await calculatorService.parseExpression('-5', CalculatorType.SCIENTIFIC))
+      );
+      negative.updateFormat(ResultFormat.BINARY);
+      expect(negative.displayValue).toBe('-0b101');
+    });
+  });
+
   describe('simplify', () => {
     it('should simplify algebraic expression', async () => {
       const expression: Expression = {
@@ -127,6 +944,37 @@ describe('CalculatorService Contract Tests', () => {
 
       expect(result.input).toBe('4*x');
     });
+
+    const simplifyInput = async (input: string) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return (await calculatorService.simplify(expression)).input;
+    };
+
+    it('should not corrupt numbers that contain identity digits', async () => {
+      expect(await simplifyInput('x*10')).toBe('10*x');
+      expect(await simplifyInput('10+x')).toBe('x + 10');
+      expect(await simplifyInput('x*1 + 0*y + 0')).toBe('x');
+    });
+
+    it('should collect like terms and merge powers in multivariate input', async () => {
+      expect(await simplifyInput('2*x*y + 3*y*x - x^2 + 1 + x*x')).toBe('5*x*y + 1');
+      expect(await simplifyInput('x^2*x^3/x')).toBe('x^4');
+      expect(await simplifyInput('(x + 1)^2*(x + 1)')).toBe('(x + 1)^3');
+      expect(await simplifyInput('1/2*x + x/3')).toBe('5*x/6');
+      expect(await simplifyInput('y - x*2 + sin(2*x - x)')).toBe('-2*x + y + sin(x)');
+    });
+
+    it('should produce input that round-trips through parseExpression', async () => {
+      const inputs = ['3*y^2 - x/4 + x*y - 7', 'e^(2*x)*e^-x', 'a^-2*b', 'sqrt(x + x)*2'];
+      for (const input of inputs) {
+        const once = await simplifyInput(input);
+        expect(await simplifyInput(once)).toBe(once);
+      }
+    });
+
+    it('should simplify both sides of an equation', async () => {
+      expect(await simplifyInput('x + x = 4 + 2')).toBe('2*x = 6');
+    });
   });
 
   describe('solve', () => {
@@ -148,6 +996,53 @@ describe('CalculatorService Contract Tests', () => {
       expect(solutions).toHaveLength(1);
       expect(solutions[0]).toEqual(new Decimal(2));
     });
+
+    const solveInput = async (input: string, options = {}) => {
+      const equation = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.solveWithDiagnostics(equation, 'x', options);
+    };
+
+    const values = (report: { solutions: { value: Decimal }[] }) =>
+      report.solutions.map(solution => solution.value.toNumber());
+
+    it('should solve nonlinear equations with everything on both sides', async () => {
+      const cubic = values(await solveInput('x^3 - 2x = 5'));
+      expect(cubic).toHaveLength(1);
+      expect(cubic[0]).toBeCloseTo(2.0945514815, 9);
+
+      const trig = values(await solveInput('sin(x) = x/2'));
+      expect(trig).toHaveLength(3);
+      expect(trig[0]).toBeCloseTo(-1.8954942670, 9);
+      expect(trig[1]).toBe(0);
+      expect(trig[2]).toBeCloseTo(1.8954942670, 9);
+
+      const exponential = values(await solveInput('e^x = 3x'));
+      expect(exponential).toHaveLength(2);
+      expect(exponential[0]).toBeCloseTo(0.6190612867, 9);
+      expect(exponential[1]).toBeCloseTo(1.5121345516, 9);
+    });
+
+    it('should find touching roots and report their multiplicity', async () => {
+      const report = await solveInput('(x - 1)^2*(x + 2) = 0');
+
+      expect(values(report)).toEqual([-2, 1]);
+      expect(report.solutions.map(solution => solution.multiplicity)).toEqual([1, 2]);
+      expect(report.solutions.every(solution => solution.converged)).toBe(true);
+    });
+
+    it('should report diagnostics instead of spurious roots', async () => {
+      const none = await solveInput('x^2 + 1 = 0');
+      expect(none.solutions).toHaveLength(0);
+      expect(none.diagnostics.join('\n')).toContain('未找到实根');
+
+      const poles = await solveInput('tan(x) = 0', { min: -2, max: 2 });
+      expect(values(poles)).toEqual([0]);
+      expect(poles.diagnostics.join('\n')).toContain('间断点');
+    });
+
+    it('should still reject equations without solutions', async () => {
+      await expect(solveInput('x + 1 = x')).rejects.toThrow(CalculationError);
+    });
   });
 
   describe('derivative', () => {
@@ -168,6 +1063,50 @@ describe('CalculatorService Contract Tests', () => {
 
       expect(derivative.input).toBe('2*x + 3');
     });
+
+    const differentiate = async (input: string, variable: string = 'x', order: number = 1) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return (await calculatorService.derivative(expression, variable, order)).input;
+    };
+
+    it('should apply product, quotient and chain rules', async () => {
+      expect(await differentiate('3*x^2')).toBe('6*x');
+      expect(await differentiate('x*sin(x)')).toBe('x*cos(x) + sin(x)');
+      expect(await differentiate('1/x')).toBe('-1/x^2');
+      expect(await differentiate('sin(x^2)')).toBe('2*x*cos(x^2)');
+      expect(await differentiate('e^(2*x)')).toBe('2*e^(2*x)');
+    });
+
+    it('should return derivatives in canonical simplified form', async () => {
+      expect(await differentiate('x/(1+x)')).toBe('1/(x + 1)^2');
+      expect(await differentiate('acos(x)')).toBe('-1/sqrt(-x^2 + 1)');
+    });
+
+    it('should compute higher-order and partial derivatives', async () => {
+      expect(await differentiate('x^4', 'x', 3)).toBe('24*x');
+      expect(await differentiate('x^2*y + y^3', 'y')).toBe('x^2 + 3*y^2');
+
+      const expression = await calculatorService.parseExpression('x^2*y^2', CalculatorType.SCIENTIFIC);
+      const mixed = await calculatorService.partialDerivative(expression, ['x', 'y']);
+      expect(mixed.input).toBe('4*x*y');
+    });
+
+    it('should produce output that parses back to the same derivative', async () => {
+      const first = await differentiate('ln(x^2 + 1) - cos(3*x)');
+      expect(await differentiate(first, 'x', 0)).toBe(first);
+    });
+
+    it('should expand user-defined functions before differentiating', async () => {
+      const definition = await calculatorService.parseExpression('f(t) = t^3', CalculatorType.SCIENTIFIC);
+      await calculatorService.defineFunction(definition);
+
+      expect(await differentiate('f(2*x)')).toBe('24*x^2');
+    });
+
+    it('should reject equations and assignments', async () => {
+      await expect(differentiate('y = x^2')).rejects.toThrow(UnsupportedOperationError);
+      await expect(differentiate('a := x^2')).rejects.toThrow(UnsupportedOperationError);
+    });
   });
 
   describe('integrate', () => {
@@ -188,6 +1127,140 @@ describe('CalculatorService Contract Tests', () => {
 
       expect(result).toEqual(new Decimal(8/3));
     });
+
+    const antiderivative = async (input: string, variable: string = 'x') => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return ((await calculatorService.integrate(expression, variable)) as Expression).input;
+    };
+
+    it('should integrate polynomials term by term', async () => {
+      expect(await antiderivative('3*x^2 + 2*x + 1')).toBe('x^3 + x^2 + x');
+      expect(await antiderivative('x^-1')).toBe('ln(abs(x))');
+      expect(await antiderivative('1/x^2')).toBe('-1/x');
+      expect(await antiderivative('sqrt(x)')).toBe('2*x^(3/2)/3');
+    });
+
+    it('should use the table with linear substitution', async () => {
+      expect(await antiderivative('cos(2*x + 1)')).toBe('sin(2*x + 1)/2');
+      expect(await antiderivative('e^(3*x)')).toBe('e^(3*x)/3');
+      expect(await antiderivative('1/(1 + x^2)')).toBe('atan(x)');
+      expect(await antiderivative('1/(2*x + 1)')).toBe('ln(abs(2*x + 1))/2');
+    });
+
+    it('should integrate polynomial times exponential or trig by parts', async () => {
+      expect(await antiderivative('x*e^x')).toBe('e^x*x - e^x');
+      expect(await antiderivative('x*sin(x)')).toBe('-x*cos(x) + sin(x)');
+    });
+
+    it('should return antiderivatives in canonical simplified form', async () => {
+      expect(await antiderivative('(2*x + 1)^5')).toBe('(2*x + 1)^6/12');
+      expect(await antiderivative('x*sin(3*x)')).toBe('-x*cos(3*x)/3 + sin(3*x)/9');
+    });
+
+    const definite = async (input: string, lower: number, upper: number, options = {}) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.numericalIntegration(expression, 'x', { lower, upper }, options);
+    };
+
+    it('should integrate adaptively with an error bound', async () => {
+      const result = await definite('x^2', 0, 2);
+
+      expect(result.converged).toBe(true);
+      expect(result.value.toNumber()).toBeCloseTo(8 / 3, 12);
+      expect(result.error.toNumber()).toBeLessThan(1e-10);
+      expect(result.evaluations).toBeLessThan(100);
+    });
+
+    it('should handle infinite bounds and endpoint singularities', async () => {
+      expect((await definite('e^(-x)', 0, Infinity)).value.toNumber()).toBeCloseTo(1, 9);
+      expect((await definite('e^(-x^2)', -Infinity, Infinity)).value.toNumber()).toBeCloseTo(Math.sqrt(Math.PI), 9);
+      expect((await definite('1/sqrt(x)', 0, 1)).value.toNumber()).toBeCloseTo(2, 9);
+      expect((await definite('ln(x)', 0, 1)).value.toNumber()).toBeCloseTo(-1, 9);
+    });
+
+    it('should report divergence on infinite intervals', async () => {
+      await expect(definite('1/x', 1, Infinity)).rejects.toThrow('积分发散');
+      await expect(definite('x/(x^2 + 1)', -Infinity, 0)).rejects.toThrow('-∞');
+      expect((await definite('1/x^2', 1, Infinity)).value.toNumber()).toBeCloseTo(1, 9);
+    });
+
+    it('should honor the requested tolerance through integrate()', async () => {
+      const coarse = await definite('sin(x^2)', 0, 10, { tolerance: 1e-3 });
+      const fine = await definite('sin(x^2)', 0, 10, { tolerance: 1e-12 });
+      expect(coarse.evaluations).toBeLessThan(fine.evaluations);
+      expect(fine.value.toNumber()).toBeCloseTo(0.5836708999, 9);
+
+      const expression = await calculatorService.parseExpression('1/x', CalculatorType.SCIENTIFIC);
+      await expect(
+        calculatorService.integrate(expression, 'x', { lower: 1, upper: Infinity }, { maxSubdivisions: 50 })
+      ).rejects.toThrow(CalculationError);
+    });
+
+    it('should report when no closed form is found', async () => {
+      await expect(antiderivative('sin(x^2)')).rejects.toThrow(CalculationError);
+      await expect(antiderivative('sin(x^2)')).rejects.toThrow('未找到');
+    });
+  });
+
+  describe('compile', () => {
+    const compile = async (input: string, variables: string[]) => {
+      const expression = await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC);
+      return calculatorService.compile(expression, variables);
+    };
+
+    it('should compile to a synchronous float64 closure', async () => {
+      const f = await compile('x^2 + sin(y)', ['x', 'y']);
+
+      expect(f(3, 0)).toBe(9);
+      expect(f(0, Math.PI / 2)).toBeCloseTo(1, 15);
+      expect(f(-1, 0)).toBe(1);
+    });
+
+    it('should return NaN outside the domain instead of throwing', async () => {
+      const f = await compile('sqrt(x) + ln(x)', ['x']);
+
+      expect(f(-1)).toBeNaN();
+      expect((await compile('1/x', ['x']))(0)).toBe(Infinity);
+    });
+
+    it('should bind session variables, user functions and the angle unit at compile time', async () => {
+      calculatorService.setVariable('k', 3);
+      await calculatorService.defineFunction(
+        await calculatorService.parseExpression('g(t) = k*t + 1', CalculatorType.SCIENTIFIC)
+      );
+      calculatorService.setAngleUnit(AngleUnit.DEGREE);
+
+      expect((await compile('g(x)', ['x']))(2)).toBe(7);
+      expect((await compile('sin(x)', ['x']))(90)).toBe(1);
+
+      calculatorService.setVariable('k', 10);
+      expect((await compile('k', []))()).toBe(10);
+    });
+
+    it('should evaluate at working precision in decimal mode', async () => {
+      const expression = await calculatorService.parseExpression('x/3', CalculatorType.SCIENTIFIC);
+      const f = calculatorService.compile(expression, ['x'], { mode: 'decimal' });
+
+      expect(f(1).toSignificantDigits(10)).toEqual(new Decimal('0.3333333333'));
+      const root = await calculatorService.parseExpression('sqrt(x)', CalculatorType.SCIENTIFIC);
+      expect(() => calculatorService.compile(root, ['x'], { mode: 'decimal' })(-1)).toThrow(CalculationError);
+    });
+
+    it('should match evaluate for powers of negative bases', async () => {
+      for (const input of ['x^(1/3)', 'x^(2/3)', 'x^(5/3)', 'pow(x, 1/5)', 'x^3']) {
+        const f = await compile(input, ['x']);
+        calculatorService.setVariable('x', -8);
+        const expected = await calculatorService.evaluate(
+          await calculatorService.parseExpression(input, CalculatorType.SCIENTIFIC)
+        );
+        expect(f(-8)).toBeCloseTo(Number(expected.value), 10);
+      }
+      expect((await compile('x^(1/2)', ['x']))(-8)).toBeNaN();
+    });
+
+    it('should reject undefined variables when compiling', async () => {
+      await expect(compile('x + unknown', ['x'])).rejects.toThrow(CalculationError);
+    });
   });
 
   describe('matrixOperation', () => {
@@ -67,6 +67,15 @@ describe('GraphRenderer Contract Tests', () => {
       expect(graph.points.every(p => !isNaN(p.y))).toBe(true);
     });
 
+    it('should evaluate point by point when the expression cannot be compiled', async () => {
+      for (const input of ['sum(k*x, k, 1, 3)', 'mean({x, 2*x})', 'x*1 km to m']) {
+        const graph = await graphRenderer.render2D({ ...mockExpression, input }, renderOptions);
+
+        expect(graph.points.length).toBeGreaterThanOrEqual(renderOptions.resolution);
+        expect(graph.points.every(p => isFinite(p.y))).toBe(true);
+      }
+    });
+
     it('should adapt resolution based on function complexity', async () => {
       const adaptiveOptions = {
         ...renderOptions,
@@ -77,6 +86,28 @@ describe('GraphRenderer Contract Tests', () => {
 
       expect(graph.points.length).toBeGreaterThanOrEqual(renderOptions.resolution);
     });
+
+    it('should break piecewise graphs at jumps and mark open and closed endpoints', async () => {
+      const graph = await graphRenderer.render2D(
+        { ...mockExpression, input: 'piecewise((x < 1, -x), (x >= 1, x^2))' },
+        { ...renderOptions, yRange: { min: -5, max: 25 } }
+      );
+
+      expect(graph.breaks).toEqual([1]);
+      const [open, closed] = graph.endpoints ?? [];
+      expect(open?.closed).toBe(false);
+      expect(open?.position.y).toBeCloseTo(-1, 6);
+      expect(closed).toEqual({ position: { x: 1, y: 1, z: 0 }, closed: true });
+      expect(graph.endpoints).toHaveLength(2);
+
+      // 各段在分段点处相接时不断开，也不标端点
+      const continuous = await graphRenderer.render2D(
+        { ...mockExpression, input: 'piecewise((x < 0, -x), (x >= 0, x))' },
+        renderOptions
+      );
+      expect(continuous.breaks).toEqual([]);
+      expect(continuous.endpoints).toEqual([]);
+    });
   });
 
   describe('3D Function Rendering', () => {
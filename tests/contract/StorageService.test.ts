@@ -70,6 +70,21 @@ describe('StorageService Contract Tests', () => {
       const retrieved = await storageService.getResult('result-1');
       expect(retrieved).toEqual(mockResult);
     });
+
+    it('should restore exact fraction values after reload', async () => {
+      const rationalResult = {
+        ...mockResult,
+        id: 'result-rational',
+        value: { numerator: 1n, denominator: 3n },
+        displayValue: '1/3',
+        format: 'fraction',
+      } as unknown as Result;
+      await storageService.saveResult(rationalResult);
+
+      // 新实例没有缓存，必须从存储中解析
+      const reloaded = await new StorageService().getResult('result-rational');
+      expect(reloaded?.value).toEqual({ numerator: 1n, denominator: 3n });
+    });
   });
 
   describe('History Management', () => {
@@ -74,6 +74,25 @@ describe('Basic Calculator E2E', () => {
     await expect(element(by.text('5'))).toBeVisible();
   });
 
+  it('should chain the exact previous result', async () => {
+    // 清除显示
+    await element(by.text('C')).tap();
+
+    // 1 ÷ 3 显示 10 位小数，再乘以 3 应得到 1 而不是 0.9999999999
+    await element(by.text('1')).tap();
+    await element(by.text('÷')).tap();
+    await element(by.text('3')).tap();
+    await element(by.text('=')).tap();
+    await expect(element(by.text('0.3333333333'))).toBeVisible();
+
+    await element(by.text('×')).tap();
+    await element(by.text('3')).tap();
+    await element(by.text('=')).tap();
+
+    // 验证结果
+    await expect(element(by.text('1'))).toBeVisible();
+  });
+
   it('should handle decimal calculations', async () => {
     // 清除显示
     await element(by.text('C')).tap();
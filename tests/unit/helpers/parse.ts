@@ -0,0 +1,18 @@
+/**
+ * 单元测试共用的表达式解析工具
+ */
+
+import { ExpressionModel } from '@/models/Expression';
+import { ASTNode, ExpressionType } from '@/types';
+
+/**
+ * 将输入解析为AST，functions 为已定义的函数名；解析失败时抛出错误
+ */
+export const parse = (input: string, functions: string[] = []): ASTNode => {
+  const expression = new ExpressionModel(input, ExpressionType.SCIENTIFIC);
+  expression.parse({ functions });
+  if (!expression.ast) {
+    throw new Error(expression.errorMessage ?? '解析失败');
+  }
+  return expression.ast;
+};
@@ -0,0 +1,231 @@
+/**
+ * Expression Model Unit Tests
+ *
+ * 表达式模型的词法和语法分析单元测试
+ */
+
+import { ExpressionModel } from '@/models/Expression';
+import { ASTNode } from '@/types';
+
+// 将AST还原为带完整括号的字符串，便于断言结构
+const print = (node: ASTNode | null | undefined): string => {
+  if (!node) return '';
+  switch (node.type) {
+    case 'binary':
+      return `(${print(node.children![0])} ${node.value} ${print(node.children![1])})`;
+    case 'unary':
+      return `(${node.value}${print(node.children![0])})`;
+    case 'function':
+      return `${node.value}(${node.children!.map(print).join(', ')})`;
+    case 'list':
+      return `{${node.children!.map(print).join(', ')}}`;
+    case 'matrix':
+      return `[${node.children!.map(print).join(', ')}]`;
+    case 'interval':
+      return `[${node.children!.map(print).join(' .. ')}]`;
+    default:
+      return String(node.value);
+  }
+};
+
+const parse = (input: string): ExpressionModel => {
+  const expression = new ExpressionModel(input);
+  expression.tokenize();
+  expression.parse();
+  return expression;
+};
+
+describe('ExpressionModel', () => {
+  describe('Operator Precedence', () => {
+    test('should bind multiplication tighter than addition', () => {
+      expect(print(parse('2+3*4').ast)).toBe('(2 + (3 * 4))');
+      expect(print(parse('2*3+4').ast)).toBe('((2 * 3) + 4)');
+    });
+
+    test('should be left-associative for subtraction and division', () => {
+      expect(print(parse('10-4-3').ast)).toBe('((10 - 4) - 3)');
+      expect(print(parse('8/4/2').ast)).toBe('((8 / 4) / 2)');
+    });
+
+    test('should parse % as modulo at the multiplicative level', () => {
+      expect(print(parse('2 + 7 % 3 * 2').ast)).toBe('(2 + ((7 % 3) * 2))');
+      expect(print(parse('10 % 4 % 3').ast)).toBe('((10 % 4) % 3)');
+    });
+
+    test('should be right-associative for powers', () => {
+      expect(print(parse('2^3^2').ast)).toBe('(2 ^ (3 ^ 2))');
+      expect(print(parse('2**3').ast)).toBe('(2 ^ 3)');
+    });
+
+    test('should handle nested parentheses', () => {
+      expect(print(parse('((1+2)*(3-4))/5').ast)).toBe(
+        '(((1 + 2) * (3 - 4)) / 5)'
+      );
+    });
+  });
+
+  describe('Unary Operators', () => {
+    test('should apply unary minus below powers', () => {
+      expect(print(parse('-x^2').ast)).toBe('(-(x ^ 2))');
+      expect(print(parse('2^-3').ast)).toBe('(2 ^ (-3))');
+      expect(print(parse('2*-3').ast)).toBe('(2 * (-3))');
+      expect(print(parse('+5').ast)).toBe('(+5)');
+      expect(print(parse('5 - -3').ast)).toBe('(5 - (-3))');
+      expect(print(parse('x - -x').ast)).toBe('(x - (-x))');
+    });
+
+    test('should reject consecutive additive operators', () => {
+      const expression = parse('2 + + 3');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorPosition).toBe(4);
+    });
+  });
+
+  describe('Functions and Constants', () => {
+    test('should parse multi-argument function calls', () => {
+      expect(print(parse('max(1, 2+3, x)').ast)).toBe('max(1, (2 + 3), x)');
+      expect(print(parse('pow(2, sin(x))').ast)).toBe('pow(2, sin(x))');
+    });
+
+    test('should parse constants', () => {
+      expect(parse('pi').ast).toMatchObject({ type: 'constant', value: 'π' });
+      expect(parse('e').ast).toMatchObject({ type: 'constant', value: 'e' });
+    });
+
+    test('should parse scientific notation numbers', () => {
+      expect(parse('1.5e-3').ast).toMatchObject({ type: 'number', value: 0.0015 });
+      expect(parse('.5').ast).toMatchObject({ type: 'number', value: 0.5 });
+    });
+  });
+
+  describe('Comparisons and Conditions', () => {
+    test('should bind comparisons looser than arithmetic and tighter than and/or', () => {
+      expect(print(parse('x + 1 >= 2*y').ast)).toBe('((x + 1) >= (2 * y))');
+      expect(print(parse('not x < 0 or x == 1 and y != 2').ast)).toBe('((not(x < 0)) or ((x == 1) and (y != 2)))');
+      expect(print(parse('0 < x <= 1').ast)).toBe('((0 < x) and (x <= 1))');
+    });
+
+    test('should flatten piecewise pieces into conditions and values', () => {
+      expect(print(parse('piecewise((x < 0, -x), (x + 1)^2)').ast)).toBe('piecewise((x < 0), (-x), ((x + 1) ^ 2))');
+
+      const expression = parse('piecewise((x < 0, -x), 1, 2)');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorMessage).toContain('piecewise 的每一段须写成 (条件, 值)');
+    });
+  });
+
+  describe('Uncertainty', () => {
+    test('should bind ± looser than addition', () => {
+      expect(print(parse('9.8 + 0.01 ± 0.02 * 2').ast)).toBe('((9.8 + 0.01) ± (0.02 * 2))');
+      expect(print(parse('sqrt(2 ± 0.1) * (3 ± 0.2)').ast)).toBe('(sqrt((2 ± 0.1)) * (3 ± 0.2))');
+    });
+  });
+
+  describe('Lists', () => {
+    test('should parse braces and brackets as list literals', () => {
+      expect(print(parse('{1, 2x, 3} * 2').ast)).toBe('({1, (2 * x), 3} * 2)');
+      expect(print(parse('mean([1, 2, 3])').ast)).toBe('mean({1, 2, 3})');
+      expect(parse('{}').ast).toMatchObject({ type: 'list', children: [] });
+    });
+
+    test('should parse brackets of lists as matrix literals', () => {
+      expect(print(parse('det([[1, 2], [3, x]]) * 2').ast)).toBe('(det([{1, 2}, {3, x}]) * 2)');
+      expect(parse('[[1, 2]]').ast).toMatchObject({ type: 'matrix', children: [{ type: 'list' }] });
+      expect(parse('[{1}, 2, 3]').ast).toMatchObject({ type: 'list' });
+      expect(parse('[[1, 2], [3]]').errorSpan).toEqual({ start: 9, end: 10 });
+    });
+
+    test('should parse two-element brackets as intervals', () => {
+      expect(print(parse('[1, 2] + {1, 2}').ast)).toBe('([1 .. 2] + {1, 2})');
+      expect(parse('[[1, 2], [3, 4]]').ast).toMatchObject({
+        type: 'matrix',
+        children: [{ type: 'list' }, { type: 'list' }],
+      });
+    });
+
+    test('should reject mismatched brackets', () => {
+      expect(new ExpressionModel('{1, 2)').errorSpan).toEqual({ start: 5, end: 6 });
+      expect(new ExpressionModel('{1, 2').errorSpan).toEqual({ start: 0, end: 1 });
+    });
+  });
+
+  describe('Statements', () => {
+    test('should parse := as an assignment', () => {
+      const ast = parse('rate := 2x + 1').ast;
+      expect(ast).toMatchObject({ type: 'assignment', value: 'rate' });
+      expect(print(ast?.children?.[0])).toBe('((2 * x) + 1)');
+    });
+
+    test('should parse a bare equals sign as an equation', () => {
+      expect(parse('r = 2').ast).toMatchObject({ type: 'equation', value: '=' });
+    });
+  });
+
+  describe('Implicit Multiplication', () => {
+    test('should multiply adjacent operands', () => {
+      expect(print(parse('2x').ast)).toBe('(2 * x)');
+      expect(print(parse('3(x+1)').ast)).toBe('(3 * (x + 1))');
+      expect(print(parse('2π').ast)).toBe('(2 * π)');
+      expect(print(parse('2sin(x)').ast)).toBe('(2 * sin(x))');
+      expect(print(parse('(x+1)(x-1)').ast)).toBe('((x + 1) * (x - 1))');
+    });
+
+    test('should keep powers tighter than implicit multiplication', () => {
+      expect(print(parse('2x^2').ast)).toBe('(2 * (x ^ 2))');
+    });
+
+    test('should reject calls to unknown functions instead of multiplying', () => {
+      const expression = parse('2 + sec(x)');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorMessage).toBe('未知函数: sec');
+      expect(expression.errorPosition).toBe(4);
+    });
+  });
+
+  describe('Error Positions', () => {
+    test('should report the position of the offending token', () => {
+      expect(parse('2 3').errorPosition).toBe(2);
+      expect(parse('2 *').errorPosition).toBe(3);
+      expect(parse('sin 2').errorPosition).toBe(4);
+      expect(parse('max(1,)').errorPosition).toBe(6);
+    });
+
+    test('should reject empty function arguments', () => {
+      const expression = parse('sqrt()');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorPosition).toBe(5);
+    });
+
+    test('should require a variable name as the index of a sum', () => {
+      const expression = parse('sum(k^2, 2, 1, n)');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorMessage).toContain('sum 的第二个参数必须是求和变量名');
+    });
+
+    test('should require a variable name as the second argument of limit', () => {
+      const expression = parse('limit(x^2, 2, 1)');
+      expect(expression.isValid).toBe(false);
+      expect(expression.errorMessage).toContain('limit 的第二个参数必须是变量名');
+    });
+
+    test('should report spans covering the offending token', () => {
+      expect(parse('2 + foo 3').errorSpan).toEqual({ start: 8, end: 9 });
+      expect(parse('2 *').errorSpan).toEqual({ start: 3, end: 3 });
+      expect(new ExpressionModel('(1 + 2))').errorSpan).toEqual({ start: 7, end: 8 });
+    });
+  });
+
+  describe('Notation Output', () => {
+    test('should serialize without mutating an unparsed expression', () => {
+      const expression = new ExpressionModel('1/2*x^2');
+
+      expect(expression.toLaTeX()).toBe('\\frac{1}{2} \\cdot x^{2}');
+      expect(expression.toUnicode()).toBe('1/2·x²');
+      expect(expression.ast).toBeNull();
+    });
+
+    test('should fall back to the raw input for invalid expressions', () => {
+      expect(new ExpressionModel('2 + + 3').toMathML()).toContain('<mtext>2 + + 3</mtext>');
+    });
+  });
+});
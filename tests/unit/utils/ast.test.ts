@@ -0,0 +1,71 @@
+/**
+ * AST Utils Unit Tests
+ *
+ * 抽象语法树工具单元测试
+ */
+
+import { ASTUtils } from '@/utils/ast';
+import { parse } from '../helpers/parse';
+
+const simplified = (input: string): string => ASTUtils.toString(ASTUtils.simplify(parse(input)));
+
+describe('ASTUtils', () => {
+  describe('toString', () => {
+    test('should print only the parentheses precedence requires', () => {
+      expect(ASTUtils.toString(parse('(a + b)*c'))).toBe('(a + b)*c');
+      expect(ASTUtils.toString(parse('a - (b - c)'))).toBe('a - (b - c)');
+      expect(ASTUtils.toString(parse('(a^b)^c'))).toBe('(a^b)^c');
+      expect(ASTUtils.toString(parse('a^b^c'))).toBe('a^b^c');
+      expect(ASTUtils.toString(parse('-x^2'))).toBe('-x^2');
+    });
+
+    test('should round-trip through the parser', () => {
+      const inputs = ['x/(y*z)', 'sin(x)^2 + cos(x)^2', '2*e^(-x) - ln(x + 1)', 'x - (-y)'];
+      for (const input of inputs) {
+        const printed = ASTUtils.toString(parse(input));
+        expect(ASTUtils.equals(parse(printed), parse(input))).toBe(true);
+      }
+    });
+
+    test('should print conditions with word operators and piecewise pairs', () => {
+      expect(ASTUtils.toString(parse('piecewise((x<0, -x), (x+1)^2)'))).toBe('piecewise((x < 0, -x), (x + 1)^2)');
+      expect(ASTUtils.toString(parse('(not a) + 1'))).toBe('(not a) + 1');
+      expect(ASTUtils.toString(parse('not (a and b) or c >= -1'))).toBe('not (a and b) or c >= -1');
+    });
+  });
+
+  describe('simplify', () => {
+    test('should fold constants and apply identities', () => {
+      expect(simplified('2 + 3*4')).toBe('14');
+      expect(simplified('0*x + 1*y')).toBe('y');
+      expect(simplified('x^1 + x^0')).toBe('x + 1');
+      expect(simplified('1/3')).toBe('1/3');
+    });
+
+    test('should collect numeric coefficients and cancel equal terms', () => {
+      expect(simplified('x*3*2')).toBe('6*x');
+      expect(simplified('x*x')).toBe('x^2');
+      expect(simplified('(x + 1) - (x + 1)')).toBe('0');
+      expect(simplified('(2*x)^3')).toBe('8*x^3');
+    });
+  });
+
+  describe('substitute', () => {
+    test('should replace variables with subtrees', () => {
+      const result = ASTUtils.substitute(parse('x^2 + y'), new Map([['x', parse('a + b')]]));
+      expect(ASTUtils.toString(result)).toBe('(a + b)^2 + y');
+    });
+
+    test('should not replace the bound variable of a sum', () => {
+      const series = parse('sum(k*x, k, 1, k)');
+      const result = ASTUtils.substitute(series, new Map([['k', parse('n')], ['x', parse('2')]]));
+      expect(ASTUtils.toString(result)).toBe('sum(k*2, k, 1, n)');
+      expect(ASTUtils.containsVariable(parse('sum(k^2, k, 1, 10)'), 'k')).toBe(false);
+      expect(ASTUtils.containsVariable(series, 'k')).toBe(true);
+    });
+
+    test('should list free variables outside bound scopes', () => {
+      expect([...ASTUtils.freeVariables(parse('sum(k*x, k, 1, n) + limit(t*y, t, 0)'))].sort()).toEqual(['n', 'x', 'y']);
+    });
+  });
+});
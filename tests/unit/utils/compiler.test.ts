@@ -0,0 +1,72 @@
+/**
+ * Compiler Utils Unit Tests
+ *
+ * 表达式编译工具单元测试
+ */
+
+import { ExpressionCompiler, CompileEnvironment } from '@/utils/compiler';
+import { AngleUnit, FunctionDefinition } from '@/types';
+import { parse } from '../helpers/parse';
+
+const environment = (overrides: Partial<CompileEnvironment> = {}): CompileEnvironment => ({
+  constants: new Map(),
+  functions: new Map(),
+  angleUnit: AngleUnit.RADIAN,
+  ...overrides,
+});
+
+describe('ExpressionCompiler', () => {
+  test('should bind parameters in the given order', () => {
+    const f = ExpressionCompiler.compile(parse('x - 2*y'), ['y', 'x'], environment());
+
+    expect(f(1, 5)).toBe(3);
+  });
+
+  test('should round halves away from zero like the evaluator', () => {
+    const f = ExpressionCompiler.compile(parse('round(x)'), ['x'], environment());
+
+    expect(f(-2.5)).toBe(-3);
+    expect(f(2.5)).toBe(3);
+  });
+
+  test('should inline user functions with their own parameters', () => {
+    const square: FunctionDefinition = {
+      name: 'sq',
+      parameters: ['t'],
+      body: 't^2',
+      ast: parse('t^2'),
+      createdAt: new Date(),
+    };
+    const f = ExpressionCompiler.compile(
+      parse('sq(x + 1) + c', ['sq']),
+      ['x'],
+      environment({ functions: new Map([['sq', square]]), constants: new Map([['c', 10]]) })
+    );
+
+    expect(f(2)).toBe(19);
+  });
+
+  test('should evaluate conditions to 1 or 0 and keep NaN outside the domain', () => {
+    const step = ExpressionCompiler.compile(parse('piecewise((x < 0, -1), (x == 0, 0), (x > 0 and x <= 1, 1))'), ['x'], environment());
+    expect([step(-2), step(0), step(0.5), step(2)]).toEqual([-1, 0, 1, NaN]);
+
+    const guarded = ExpressionCompiler.compile(parse('if(x >= 0 or not x > -1, sqrt(x), 0)'), ['x'], environment());
+    expect(guarded(4)).toBe(2);
+    expect(guarded(-0.5)).toBe(0);
+    expect(guarded(-4)).toBeNaN();
+  });
+
+  test('should take real odd roots of negative bases', () => {
+    const cube = ExpressionCompiler.compile(parse('x^(1/3)'), ['x'], environment());
+    const square = ExpressionCompiler.compile(parse('pow(x, 2/3)'), ['x'], environment());
+
+    expect(cube(-8)).toBeCloseTo(-2, 12);
+    expect(square(-8)).toBeCloseTo(4, 12);
+    expect(ExpressionCompiler.compile(parse('x^0.5'), ['x'], environment())(-4)).toBeNaN();
+  });
+
+  test('should report unsupported nodes at compile time', () => {
+    expect(() => ExpressionCompiler.compile(parse('x + y'), ['x'], environment())).toThrow('未定义的变量: y');
+    expect(() => ExpressionCompiler.compile(parse('pow(x)'), ['x'], environment())).toThrow('2个参数');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Complex Utils Unit Tests
+ *
+ * 复数运算工具单元测试
+ */
+
+import { Decimal } from 'decimal.js';
+import { ComplexMath } from '@/utils/complex';
+import { ComplexNumber } from '@/types';
+
+const parts = (z: ComplexNumber | Decimal): [number, number] =>
+  z instanceof Decimal
+    ? [z.toNumber(), 0]
+    : [z.real.toNumber(), z.imaginary.toNumber()];
+
+describe('ComplexMath', () => {
+  describe('Arithmetic', () => {
+    test('should multiply and divide complex numbers', () => {
+      const a = ComplexMath.create(1, 2);
+      const b = ComplexMath.create(3, -1);
+
+      expect(parts(ComplexMath.multiply(a, b))).toEqual([5, 5]);
+      expect(parts(ComplexMath.divide(ComplexMath.multiply(a, b), b))).toEqual([1, 2]);
+    });
+
+    test('should throw on division by zero', () => {
+      expect(() => ComplexMath.divide(ComplexMath.create(1), ComplexMath.create(0))).toThrow('除零错误');
+    });
+
+    test('should simplify results with zero imaginary part to reals', () => {
+      const i = ComplexMath.create(0, 1);
+      const square = ComplexMath.simplify(ComplexMath.multiply(i, i));
+
+      expect(square).toBeInstanceOf(Decimal);
+      expect(square).toEqual(new Decimal(-1));
+    });
+  });
+
+  describe('Principal Branches', () => {
+    test('should take principal square roots', () => {
+      expect(parts(ComplexMath.sqrt(ComplexMath.create(-4)))).toEqual([0, 2]);
+      expect(parts(ComplexMath.sqrt(ComplexMath.create(3, 4)))).toEqual([2, 1]);
+      expect(parts(ComplexMath.sqrt(ComplexMath.create(3, -4)))).toEqual([2, -1]);
+    });
+
+    test('should take the principal logarithm', () => {
+      const [real, imaginary] = parts(ComplexMath.ln(ComplexMath.create(-1)));
+      expect(real).toBe(0);
+      expect(imaginary).toBeCloseTo(Math.PI, 12);
+    });
+
+    test('should compute integer powers exactly and fractional powers on the principal branch', () => {
+      expect(parts(ComplexMath.pow(ComplexMath.create(1, 1), ComplexMath.create(2)))).toEqual([0, 2]);
+
+      const [real, imaginary] = parts(ComplexMath.pow(ComplexMath.create(-8), ComplexMath.create(1 / 3)));
+      expect(real).toBeCloseTo(1, 12);
+      expect(imaginary).toBeCloseTo(Math.sqrt(3), 12);
+    });
+
+    test('should invert sine outside the real domain', () => {
+      const z = ComplexMath.create(2);
+      const [real, imaginary] = parts(ComplexMath.sin(ComplexMath.asin(z)));
+      expect(real).toBeCloseTo(2, 12);
+      expect(imaginary).toBeCloseTo(0, 12);
+    });
+  });
+
+  describe('Serialization', () => {
+    test('should round-trip through toString and parse', () => {
+      const z = ComplexMath.create('-1.5e-20', '-2.25');
+      const text = ComplexMath.toString(z);
+
+      expect(text).toBe('-1.5e-20-2.25i');
+      expect(ComplexMath.parse(text)).toEqual(z);
+      expect(ComplexMath.parse('42')).toBeNull();
+    });
+  });
+});
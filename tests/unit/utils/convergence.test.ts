@@ -0,0 +1,37 @@
+/**
+ * Infinite Series Unit Tests
+ *
+ * 无穷级数数值求和与收敛判断单元测试
+ */
+
+import { InfiniteSum } from '@/utils/convergence';
+
+describe('InfiniteSum', () => {
+  test('should sum geometrically convergent series directly', () => {
+    const result = InfiniteSum.evaluate(k => Math.pow(0.5, k), 0);
+    expect(result.method).toBe('direct');
+    expect(result.converged).toBe(true);
+    expect(result.value).toBeCloseTo(2, 9);
+  });
+
+  test('should accelerate alternating series with the Euler transform', () => {
+    const result = InfiniteSum.evaluate(k => (k % 2 === 0 ? 1 : -1) / (2 * k + 1), 0);
+    expect(result.method).toBe('euler');
+    expect(result.terms).toBeLessThan(100);
+    expect(result.value).toBeCloseTo(Math.PI / 4, 12);
+  });
+
+  test('should extrapolate slowly convergent series', () => {
+    const result = InfiniteSum.evaluate(k => 1 / (k * k), 1);
+    expect(result.method).toBe('richardson');
+    expect(result.converged).toBe(true);
+    expect(result.value).toBeCloseTo(Math.PI ** 2 / 6, 11);
+    expect(InfiniteSum.evaluate(k => Math.pow(k, -1.5), 1).value).toBeCloseTo(2.612375348685488, 10);
+  });
+
+  test('should detect divergent series', () => {
+    expect(InfiniteSum.evaluate(k => 1 / k, 1).converged).toBe(false);
+    expect(InfiniteSum.evaluate(k => (k % 2 === 0 ? 1 : -1), 0).converged).toBe(false);
+    expect(() => InfiniteSum.evaluate(k => 1 / k, 0)).toThrow('级数在 0 处的项无定义');
+  });
+});
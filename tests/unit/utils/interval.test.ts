@@ -0,0 +1,44 @@
+/**
+ * Interval Utils Unit Tests
+ *
+ * 区间算术工具单元测试
+ */
+
+import { Decimal } from 'decimal.js';
+import { IntervalMath } from '@/utils/interval';
+import { RationalMath } from '@/utils/rational';
+import { Interval } from '@/types';
+
+const bounds = (interval: Interval): [string, string] => [interval.lower.toString(), interval.upper.toString()];
+
+describe('IntervalMath', () => {
+  test('should bound the four arithmetic operations', () => {
+    const a = IntervalMath.create(1, 2);
+    const b = IntervalMath.create(-3, 4);
+
+    expect(bounds(IntervalMath.add(a, b))).toEqual(['-2', '6']);
+    expect(bounds(IntervalMath.subtract(a, b))).toEqual(['-3', '5']);
+    expect(bounds(IntervalMath.multiply(a, b))).toEqual(['-6', '8']);
+    expect(bounds(IntervalMath.divide(b, a))).toEqual(['-3', '4']);
+    expect(() => IntervalMath.divide(a, b)).toThrow('除数区间包含 0');
+  });
+
+  test('should round endpoints outward', () => {
+    const third = IntervalMath.point(RationalMath.create(1n, 3n));
+    expect(third.lower.lessThan(third.upper)).toBe(true);
+    expect(IntervalMath.contains(IntervalMath.multiply(third, IntervalMath.point(new Decimal(3))), 1)).toBe(true);
+
+    const root = IntervalMath.power(IntervalMath.create(2, 2), IntervalMath.create('0.5', '0.5'));
+    expect(root.lower.times(root.lower).lessThan(2)).toBe(true);
+    expect(root.upper.times(root.upper).greaterThan(2)).toBe(true);
+  });
+
+  test('should handle even powers and sine extrema', () => {
+    expect(bounds(IntervalMath.power(IntervalMath.create(-2, 3), IntervalMath.create(2, 2)))).toEqual(['0', '9']);
+    expect(bounds(IntervalMath.power(IntervalMath.create(-2, -1), IntervalMath.create(3, 3)))).toEqual(['-8', '-1']);
+
+    const sine = IntervalMath.sin(IntervalMath.create(0, 3));
+    expect(bounds(sine)).toEqual(['0', '1']);
+    expect(bounds(IntervalMath.sin(IntervalMath.create(-10, 10)))).toEqual(['-1', '1']);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * LaTeX Utils Unit Tests
+ *
+ * LaTeX 输入解析工具单元测试
+ */
+
+import { LatexParser, LatexSyntaxError } from '@/utils/latex';
+import { ASTNode } from '@/types';
+import { parse as parseAST } from '../helpers/parse';
+
+// 去掉位置信息，只比较AST结构
+const shape = (node: ASTNode): unknown => ({
+  type: node.type,
+  value: node.value,
+  children: node.children?.map(shape),
+});
+
+const parse = (input: string, functions: string[] = []): unknown => shape(parseAST(input, functions));
+
+const latex = (input: string, functions: string[] = []): unknown =>
+  shape(LatexParser.parse(input, { functions }));
+
+describe('LatexParser', () => {
+  test('should produce the same AST as the infix parser', () => {
+    expect(latex('\\frac{a+1}{b}')).toEqual(parse('(a+1)/b'));
+    expect(latex('2\\pi r')).toEqual(parse('2*pi*r'));
+    expect(latex('e^{x} \\cdot 3')).toEqual(parse('e^x*3'));
+    expect(latex('\\left( x - 1 \\right)^2')).toEqual(parse('(x - 1)^2'));
+    expect(latex('x^23')).toEqual(parse('x^2*3'));
+  });
+
+  test('should read roots, powers of functions and inverse functions', () => {
+    expect(latex('\\sqrt{x}')).toEqual(parse('sqrt(x)'));
+    expect(latex('\\sqrt[3]{x+1}')).toEqual(parse('(x+1)^(1/3)'));
+    expect(latex('\\sin^2 x + \\cos^2 x')).toEqual(parse('sin(x)^2 + cos(x)^2'));
+    expect(latex('\\sin^{-1} x')).toEqual(parse('asin(x)'));
+    expect(latex('\\sin 2x \\cos x')).toEqual(parse('sin(2*x)*cos(x)'));
+  });
+
+  test('should read delimiters, subscripts and logarithm bases', () => {
+    expect(latex('\\left| x \\right| + |y|')).toEqual(parse('abs(x) + abs(y)'));
+    expect(latex('\\lfloor x_1 \\rfloor')).toEqual(parse('floor(x1)'));
+    expect(latex('\\log_{10} x')).toEqual(parse('log(x)'));
+    expect(latex('\\log_2 8')).toEqual(parse('ln(8)/ln(2)'));
+    expect(latex('f(\\theta)', ['f'])).toEqual(parse('f(theta)', ['f']));
+  });
+
+  test('should detect LaTeX input', () => {
+    expect(LatexParser.isLaTeX('\\frac{1}{2}')).toBe(true);
+    expect(LatexParser.isLaTeX('x^{2}')).toBe(true);
+    expect(LatexParser.isLaTeX('x^2 + 1')).toBe(false);
+  });
+
+  test('should report unsupported commands with their position', () => {
+    expect(() => LatexParser.parse('1 + \\sinh x')).toThrow('不支持的 LaTeX 命令: \\sinh');
+    try {
+      LatexParser.parse('1 + \\sinh x');
+    } catch (error) {
+      expect(error).toBeInstanceOf(LatexSyntaxError);
+      expect((error as LatexSyntaxError).position).toBe(4);
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Limit Utils Unit Tests
+ *
+ * 极限单元测试
+ */
+
+import { AngleUnit } from '@/types';
+import { ExpressionCompiler } from '@/utils/compiler';
+import { LimitDirection, LimitResult, LimitUtils } from '@/utils/limits';
+import { parse } from '../helpers/parse';
+
+const environment = { constants: new Map(), functions: new Map(), angleUnit: AngleUnit.RADIAN };
+
+const limit = (input: string, point: number, direction: LimitDirection = 'both'): LimitResult =>
+  LimitUtils.limit(parse(input), 'x', point, direction, (node, x) =>
+    ExpressionCompiler.compile(node, ['x'], environment)(x)
+  );
+
+describe('LimitUtils', () => {
+  test('should recognise standard limits and apply L\'Hôpital\'s rule', () => {
+    expect(limit('sin(x)/x', 0)).toMatchObject({ value: 1, method: 'standard' });
+    expect(limit('(1 - cos(x))/x^2', 0).value).toBe(0.5);
+    expect(limit('(x^2 - 1)/(x - 1)', 1)).toMatchObject({ value: 2, method: 'lhopital' });
+    expect(limit('(sin(x) - x)/x^3', 0).value).toBeCloseTo(-1 / 6, 12);
+    expect(limit('x*ln(x)', 0, 'right').value).toBe(0);
+  });
+
+  test('should use dominant terms and indeterminate powers at infinity', () => {
+    expect(limit('(3*x^2 + 1)/(x^2 - x)', Infinity)).toMatchObject({ value: 3, method: 'dominant' });
+    expect(limit('x^3 - 2*x', -Infinity).value).toBe(-Infinity);
+    expect(limit('(1 + 1/x)^x', Infinity).value).toBeCloseTo(Math.E, 12);
+    expect(limit('ln(x)/x', Infinity).value).toBe(0);
+  });
+
+  test('should compare one-sided limits', () => {
+    expect(limit('1/x', 0)).toMatchObject({ left: -Infinity, right: Infinity });
+    expect(limit('1/x', 0).value).toBeNaN();
+    expect(limit('1/x^2', 0).value).toBe(Infinity);
+    expect(limit('abs(x)/x', 0, 'left').value).toBeCloseTo(-1, 9);
+    expect(limit('sqrt(x)', 0, 'left').value).toBeNaN();
+  });
+
+  test('should take the one-sided limit when the other side is outside the domain', () => {
+    expect(limit('x*ln(x)', 0)).toMatchObject({ value: 0, left: null, right: 0 });
+    expect(limit('sqrt(x)', 0)).toMatchObject({ value: 0, left: null, right: 0 });
+    expect(limit('sqrt(-x)', 0)).toMatchObject({ value: 0, left: 0, right: null });
+    expect(limit('sqrt(x - 1)', 0)).toMatchObject({ left: null, right: null, reason: '函数在趋近点附近无定义' });
+  });
+
+  test('should squeeze bounded factors against vanishing ones', () => {
+    expect(limit('x*sin(1/x)', 0)).toMatchObject({ value: 0, method: 'squeeze' });
+    expect(limit('x^2*sin(1/x)', 0)).toMatchObject({ value: 0, left: 0, right: 0 });
+    expect(limit('sin(x)/x', Infinity)).toMatchObject({ value: 0, method: 'squeeze' });
+    expect(limit('(cos(x) + 2)/x^2', -Infinity).value).toBe(0);
+    expect(limit('(x + 1)*sin(1/x)', 0, 'right').value).toBeNaN();
+  });
+
+  test('should fall back to numeric extrapolation and detect oscillation', () => {
+    expect(limit('sqrt(x^2 + 1) - x', Infinity)).toMatchObject({ value: 0, method: 'numeric' });
+    expect(limit('sin(1/x)', 0, 'right').value).toBeNaN();
+    expect(limit('sin(x)', Infinity)).toMatchObject({ value: NaN, reason: '函数振荡，不趋于确定的值' });
+    expect(limit('1/x', 0).reason).toBe('左右极限不相等');
+    expect(limit('x*floor(1/x)', 0)).toMatchObject({ value: 1, method: 'numeric' });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * List Utils Unit Tests
+ *
+ * 列表按元素运算工具单元测试
+ */
+
+import { ListMath } from '@/utils/list';
+
+describe('ListMath', () => {
+  test('should repeat scalars across list elements', () => {
+    const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+    expect(ListMath.broadcast([ListMath.create([1, 2]), 10, ListMath.create([100, 200])], sum)).toEqual({
+      elements: [111, 212],
+    });
+    expect(ListMath.broadcast([1, 2], sum)).toBe(3);
+  });
+
+  test('should reject lists of different lengths', () => {
+    expect(() => ListMath.broadcast([ListMath.create([1]), ListMath.create([1, 2])], values => values[0])).toThrow(
+      '列表长度不一致: 1 与 2'
+    );
+  });
+});
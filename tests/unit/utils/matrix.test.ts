@@ -0,0 +1,53 @@
+/**
+ * Matrix Utils Unit Tests
+ *
+ * 矩阵运算工具单元测试
+ */
+
+import { Decimal } from 'decimal.js';
+import { MatrixMath, MatrixEntry } from '@/utils/matrix';
+import { RationalMath } from '@/utils/rational';
+import { Matrix } from '@/types';
+
+const exact = (rows: number[][]): Matrix<MatrixEntry> =>
+  MatrixMath.create(rows.map(row => row.map(value => RationalMath.create(BigInt(value)))));
+
+describe('MatrixMath', () => {
+  test('should keep rational entries exact', () => {
+    const m = exact([[1, 2], [3, 4]]);
+
+    expect(MatrixMath.determinant(m)).toEqual(RationalMath.create(-2n));
+    expect(MatrixMath.inverse(m).data).toEqual([
+      [RationalMath.create(-2n), RationalMath.create(1n)],
+      [RationalMath.create(3n, 2n), RationalMath.create(-1n, 2n)],
+    ]);
+    expect(MatrixMath.multiply(m, MatrixMath.inverse(m))).toEqual(MatrixMath.identity(2));
+    expect(MatrixMath.trace(m)).toEqual(RationalMath.create(5n));
+  });
+
+  test('should raise to integer powers', () => {
+    const fibonacci = exact([[1, 1], [1, 0]]);
+
+    expect(MatrixMath.power(fibonacci, 10n)).toEqual(exact([[89, 55], [55, 34]]));
+    expect(MatrixMath.power(fibonacci, 0n)).toEqual(MatrixMath.identity(2));
+    expect(MatrixMath.power(fibonacci, -1n)).toEqual(MatrixMath.inverse(fibonacci));
+  });
+
+  test('should detect singular matrices', () => {
+    const singular = exact([[1, 2], [2, 4]]);
+
+    expect(MatrixMath.rank(singular)).toBe(1);
+    expect(MatrixMath.determinant(singular)).toEqual(RationalMath.create(0n));
+    expect(() => MatrixMath.inverse(singular)).toThrow('矩阵不可逆');
+
+    // 小数元素的消元残差视为零
+    const third = new Decimal(1).dividedBy(3);
+    expect(MatrixMath.rank(MatrixMath.create([[third, new Decimal(1)], [new Decimal(1), new Decimal(3)]]))).toBe(1);
+  });
+
+  test('should reject mismatched shapes', () => {
+    expect(() => MatrixMath.create([[1, 2], [3]])).toThrow('矩阵各行的元素个数必须相同');
+    expect(() => MatrixMath.multiply(exact([[1, 2]]), exact([[1, 2]]))).toThrow('矩阵维度不匹配: 1×2 与 1×2 不能相乘');
+    expect(() => MatrixMath.determinant(exact([[1, 2]]))).toThrow('行列式只对方阵有定义');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Notation Utils Unit Tests
+ *
+ * 数学记法输出工具单元测试
+ */
+
+import { MathNotation } from '@/utils/notation';
+import { parse } from '../helpers/parse';
+
+describe('MathNotation', () => {
+  describe('toLaTeX', () => {
+    test('should use fractions, roots and superscripts with minimal parentheses', () => {
+      expect(MathNotation.toLaTeX(parse('(x + 1)/(2*x) - 3*x^2'))).toBe('\\frac{x + 1}{2x} - 3x^{2}');
+      expect(MathNotation.toLaTeX(parse('sqrt(x^2 + 1) * sin(2*x)'))).toBe(
+        '\\sqrt{x^{2} + 1} \\cdot \\sin\\left(2x\\right)'
+      );
+      expect(MathNotation.toLaTeX(parse('a - (b - c)'))).toBe('a - \\left(b - c\\right)');
+      expect(MathNotation.toLaTeX(parse('(a/b)^2'))).toBe('\\left(\\frac{a}{b}\\right)^{2}');
+    });
+
+    test('should map function and constant names', () => {
+      expect(MathNotation.toLaTeX(parse('asin(x)/pi'))).toBe('\\frac{\\arcsin\\left(x\\right)}{\\pi}');
+      expect(MathNotation.toLaTeX(parse('abs(x) + floor(x)'))).toBe(
+        '\\left| x \\right| + \\left\\lfloor x \\right\\rfloor'
+      );
+    });
+  });
+
+  test('should render lists with braces', () => {
+    expect(MathNotation.toLaTeX(parse('{1, x^2}'))).toBe('\\left\\{ 1, x^{2} \\right\\}');
+    expect(MathNotation.toUnicode(parse('[1, x^2, 3]'))).toBe('{1, x², 3}');
+  });
+
+  test('should render uncertainties and intervals', () => {
+    expect(MathNotation.toLaTeX(parse('(9.81 ± 0.02) * [1, x]'))).toBe(
+      '\\left(9.81 \\pm 0.02\\right) \\cdot \\left[ 1, x \\right]'
+    );
+    expect(MathNotation.toUnicode(parse('x + 1 ± 0.5'))).toBe('x + 1 ± 0.5');
+  });
+
+  test('should render sums and products with their bounds', () => {
+    expect(MathNotation.toLaTeX(parse('sum(1/k^2, k, 1, inf)'))).toBe('\\sum_{k = 1}^{\\infty} \\frac{1}{k^{2}}');
+    expect(MathNotation.toUnicode(parse('prod(k + 1, k, 1, n)'))).toBe('∏(k=1..n) (k + 1)');
+  });
+
+  test('should render limits with the approach point', () => {
+    expect(MathNotation.toLaTeX(parse('limit(sin(x)/x, x, 0)'))).toBe('\\lim_{x \\to 0} \\frac{\\sin\\left(x\\right)}{x}');
+    expect(MathNotation.toUnicode(parse('limit(1 + 1/n, n, inf)'))).toBe('lim(n→∞) (1 + 1/n)');
+  });
+
+  test('should render conditions and piecewise definitions as cases', () => {
+    expect(MathNotation.toLaTeX(parse('piecewise((x < 0, -x), (x >= 0, x^2))'))).toBe(
+      '\\begin{cases} -x & x < 0 \\\\ x^{2} & x \\ge 0 \\end{cases}'
+    );
+    expect(MathNotation.toUnicode(parse('if(x != 0 and not y, 1/x, 0)'))).toBe('{1/x if x ≠ 0 ∧ ¬y; 0 otherwise}');
+  });
+
+  test('should render matrix literals', () => {
+    expect(MathNotation.toLaTeX(parse('det([[1, x], [0, 1]])'))).toBe(
+      '\\det\\left(\\begin{pmatrix} 1 & x \\\\ 0 & 1 \\end{pmatrix}\\right)'
+    );
+  });
+
+  describe('toUnicode', () => {
+    test('should use superscripts where every character has one', () => {
+      expect(MathNotation.toUnicode(parse('-x^2 + 2^-1'))).toBe('−x² + 2⁻¹');
+      expect(MathNotation.toUnicode(parse('x^(n + 1)'))).toBe('x^(n + 1)');
+      expect(MathNotation.toUnicode(parse('1.5e-7*x'))).toBe('1.5×10⁻⁷x');
+    });
+  });
+
+  describe('toMathML', () => {
+    test('should emit presentation markup inside a math element', () => {
+      expect(MathNotation.toMathML(parse('1/x'))).toBe(
+        '<math xmlns="http://www.w3.org/1998/Math/MathML"><mrow>' +
+          '<mfrac><mrow><mn>1</mn></mrow><mrow><mi>x</mi></mrow></mfrac></mrow></math>'
+      );
+    });
+  });
+
+  test('should render mixed numbers and negative fractions', () => {
+    expect(MathNotation.rational({ numerator: -7n, denominator: 3n }, true, 'latex')).toBe('-2\\frac{1}{3}');
+    expect(MathNotation.rational({ numerator: 7n, denominator: 3n }, false, 'unicode')).toBe('7/3');
+  });
+});
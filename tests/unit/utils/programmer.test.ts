@@ -0,0 +1,74 @@
+/**
+ * Programmer Utils Unit Tests
+ *
+ * 程序员模式整数运算与表达式解析单元测试
+ */
+
+import { ProgrammerMath, ProgrammerParser, ProgrammerSyntaxError, WordOptions } from '@/utils/programmer';
+import { ASTNode } from '@/types';
+
+const int8: WordOptions = { wordSize: 8, signed: true };
+const uint8: WordOptions = { wordSize: 8, signed: false };
+
+// 将AST还原为带完整括号的字符串，便于断言优先级
+const print = (node: ASTNode): string => {
+  switch (node.type) {
+    case 'binary':
+      return `(${print(node.children![0]!)} ${node.value} ${print(node.children![1]!)})`;
+    case 'unary':
+      return `${node.value}${print(node.children![0]!)}`;
+    case 'function':
+      return `${node.value}(${node.children!.map(print).join(', ')})`;
+    default:
+      return String(node.value);
+  }
+};
+
+describe('ProgrammerMath', () => {
+  test('should wrap to the word size in two\'s complement', () => {
+    expect(ProgrammerMath.binary('+', 127n, 1n, int8)).toBe(-128n);
+    expect(ProgrammerMath.binary('+', 255n, 1n, uint8)).toBe(0n);
+    expect(ProgrammerMath.unary('~', 0n, uint8)).toBe(255n);
+    expect(ProgrammerMath.unary('-', 1n, { wordSize: 128, signed: false })).toBe(2n ** 128n - 1n);
+  });
+
+  test('should distinguish arithmetic and logical right shifts', () => {
+    expect(ProgrammerMath.binary('>>', -16n, 2n, int8)).toBe(-4n);
+    expect(ProgrammerMath.binary('>>>', -16n, 2n, int8)).toBe(60n);
+    expect(ProgrammerMath.binary('<<', 1n, 200n, int8)).toBe(0n);
+    expect(() => ProgrammerMath.binary('<<', 1n, -1n, int8)).toThrow('移位位数不能为负数');
+  });
+
+  test('should rotate within the word', () => {
+    expect(ProgrammerMath.rotateLeft(0x81n, 1n, uint8)).toBe(0x03n);
+    expect(ProgrammerMath.rotateRight(1n, 1n, uint8)).toBe(0x80n);
+    expect(ProgrammerMath.rotateLeft(1n, 9n, int8)).toBe(2n);
+  });
+
+  test('should format the bit pattern in every base', () => {
+    expect(ProgrammerMath.toBases(ProgrammerMath.create(-1n, int8))).toEqual({
+      hexadecimal: 'FF',
+      decimal: '-1',
+      octal: '377',
+      binary: '11111111',
+    });
+    expect(ProgrammerMath.format(-255n, 'hexadecimal')).toBe('-0xFF');
+  });
+});
+
+describe('ProgrammerParser', () => {
+  test('should follow C operator precedence', () => {
+    expect(print(ProgrammerParser.parse('1 | 2 ^ 3 & 4 << 5 + 6 * 7'))).toBe('(1 | (2 ^ (3 & (4 << (5 + (6 * 7))))))');
+    expect(print(ProgrammerParser.parse('~0xFF >>> rol(0b1, 0o7)'))).toBe('(~0xFF >>> rol(0b1, 0o7))');
+  });
+
+  test('should report invalid literals with their position', () => {
+    expect(() => ProgrammerParser.parse('1 + 0b102')).toThrow('无效的整数: 0b102');
+    try {
+      ProgrammerParser.parse('1 + 0b102');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProgrammerSyntaxError);
+      expect((error as ProgrammerSyntaxError).position).toBe(4);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Rational Utils Unit Tests
+ *
+ * 精确有理数运算工具单元测试
+ */
+
+import { Decimal } from 'decimal.js';
+import { RationalMath } from '@/utils/rational';
+
+describe('RationalMath', () => {
+  test('should normalize sign and reduce to lowest terms', () => {
+    expect(RationalMath.create(6n, -4n)).toEqual({ numerator: -3n, denominator: 2n });
+    expect(RationalMath.create(0n, 5n)).toEqual({ numerator: 0n, denominator: 1n });
+    expect(() => RationalMath.create(1n, 0n)).toThrow('除零错误');
+  });
+
+  test('should convert finite decimals exactly', () => {
+    expect(RationalMath.fromDecimal(new Decimal('-0.125'))).toEqual({ numerator: -1n, denominator: 8n });
+    expect(RationalMath.fromDecimal(new Decimal('1e-20'))).toEqual({ numerator: 1n, denominator: 10n ** 20n });
+    expect(RationalMath.simplify(RationalMath.create(3n, 8n))).toEqual(new Decimal('0.375'));
+    expect(RationalMath.simplify(RationalMath.create(1n, 3n))).toEqual({ numerator: 1n, denominator: 3n });
+  });
+
+  test('should round and take remainders like Decimal', () => {
+    const value = RationalMath.create(-7n, 2n);
+
+    expect(RationalMath.floor(value)).toEqual(RationalMath.create(-4n));
+    expect(RationalMath.ceil(value)).toEqual(RationalMath.create(-3n));
+    expect(RationalMath.round(value)).toEqual(RationalMath.create(-4n));
+    expect(RationalMath.modulo(value, RationalMath.create(2n))).toEqual(RationalMath.create(-3n, 2n));
+  });
+
+  test('should raise to exact rational powers only', () => {
+    const base = RationalMath.create(27n, 8n);
+
+    expect(RationalMath.pow(base, RationalMath.create(-2n, 3n))).toEqual({ numerator: 4n, denominator: 9n });
+    expect(RationalMath.pow(RationalMath.create(2n), RationalMath.create(1n, 2n))).toBeNull();
+    expect(RationalMath.pow(RationalMath.create(-8n), RationalMath.create(1n, 3n))).toBeNull();
+    expect(RationalMath.pow(RationalMath.create(3n), RationalMath.create(100000n))).toBeNull();
+  });
+
+  test('should format and parse fractions', () => {
+    expect(RationalMath.toMixedString(RationalMath.create(-11n, 4n))).toBe('-2 3/4');
+    expect(RationalMath.toMixedString(RationalMath.create(3n, 4n))).toBe('3/4');
+    expect(RationalMath.parse(RationalMath.toString(RationalMath.create(-5n, 6n)))).toEqual({
+      numerator: -5n,
+      denominator: 6n,
+    });
+    expect(RationalMath.parse('1.5')).toBeNull();
+  });
+});
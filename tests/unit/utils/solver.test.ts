@@ -0,0 +1,39 @@
+/**
+ * Solver Utils Unit Tests
+ *
+ * 数值求根工具单元测试
+ */
+
+import { NumericSolver } from '@/utils/solver';
+
+describe('NumericSolver', () => {
+  describe('brent', () => {
+    test('should converge inside a sign-changing bracket', () => {
+      const result = NumericSolver.brent(x => x * x - 2, 0, 2);
+
+      expect(result.converged).toBe(true);
+      expect(result.value).toBeCloseTo(Math.SQRT2, 12);
+    });
+
+    test('should reject brackets without a sign change', () => {
+      expect(() => NumericSolver.brent(x => x * x + 1, -1, 1)).toThrow('同号');
+    });
+  });
+
+  describe('findRoots', () => {
+    test('should return sorted, deduplicated roots with multiplicities', () => {
+      const { roots, diagnostics } = NumericSolver.findRoots(x => (x - 3) * (x + 1) ** 3, { min: -10, max: 10 });
+
+      expect(roots.map(root => Math.round(root.value * 1e6) / 1e6)).toEqual([-1, 3]);
+      expect(roots.map(root => root.multiplicity)).toEqual([3, 1]);
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    test('should skip points where the function is undefined', () => {
+      const { roots } = NumericSolver.findRoots(x => Math.log(x) - 1, { min: -5, max: 5 });
+
+      expect(roots).toHaveLength(1);
+      expect(roots[0]?.value).toBeCloseTo(Math.E, 12);
+    });
+  });
+});
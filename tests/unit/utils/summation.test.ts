@@ -0,0 +1,51 @@
+/**
+ * Summation Utils Unit Tests
+ *
+ * 求和与求积闭式单元测试
+ */
+
+import { ASTUtils } from '@/utils/ast';
+import { SimplificationUtils } from '@/utils/simplification';
+import { SummationUtils } from '@/utils/summation';
+import { parse } from '../helpers/parse';
+
+// 闭式经规范化简后的字符串
+const closedForm = (input: string): string | null => {
+  const result = SummationUtils.closedForm(parse(input));
+  return result ? ASTUtils.toString(SimplificationUtils.simplify(result)) : null;
+};
+
+describe('SummationUtils', () => {
+  test('should sum arithmetic series and power sums with symbolic bounds', () => {
+    expect(closedForm('sum(k, k, 1, n)')).toBe('n^2/2 + n/2');
+    expect(closedForm('sum(k^2, k, 1, n)')).toBe('n^3/3 + n^2/2 + n/6');
+    expect(closedForm('sum(3, k, 1, n)')).toBe('3*n');
+    expect(closedForm('sum(k^3, k, 1, 10)')).toBe('3025');
+  });
+
+  test('should sum geometric and telescoping series', () => {
+    expect(closedForm('sum(2^k, k, 0, n)')).toBe('2^(n + 1) - 1');
+    expect(closedForm('sum(1/2^k, k, 1, n)')).toBe('-2*(1/2)^(n + 1) + 1');
+    expect(closedForm('sum(1/k - 1/(k + 1), k, 1, n)')).toBe('-1/(n + 1) + 1');
+  });
+
+  test('should telescope rational terms after partial fraction decomposition', () => {
+    expect(closedForm('sum(1/(k*(k + 1)), k, 1, n)')).toBe('-1/(n + 1) + 1');
+    expect(closedForm('sum(1/(k*(k + 2)), k, 1, n)')).toBe('-1/(2*(n + 2)) - 1/(2*(n + 1)) + 3/4');
+    expect(closedForm('sum(3/(2*k*(k + 1)), k, 1, n)')).toBe('-3/(2*(n + 1)) + 3/2');
+    expect(closedForm('sum(1/((k + 1)*(k + 2)*(k + 3)), k, 0, n)')).toBe('1/(2*(n + 3)) - 1/(2*(n + 2)) + 1/4');
+    expect(closedForm('sum(1/(k*(k + 1/2)), k, 1, n)')).toBeNull();
+  });
+
+  test('should find closed forms of products', () => {
+    expect(closedForm('prod(2, k, 1, n)')).toBe('2^n');
+    expect(closedForm('prod((k + 1)/k, k, 1, n)')).toBe('n + 1');
+    expect(closedForm('prod(2^k, k, 1, n)')).toBe('2^(n^2/2 + n/2)');
+  });
+
+  test('should return null without a closed form or with infinite bounds', () => {
+    expect(closedForm('sum(1/k, k, 1, n)')).toBeNull();
+    expect(closedForm('prod(k, k, 1, n)')).toBeNull();
+    expect(closedForm('sum(1/2^k, k, 0, inf)')).toBeNull();
+  });
+});
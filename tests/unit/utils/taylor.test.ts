@@ -0,0 +1,52 @@
+/**
+ * Taylor Utils Unit Tests
+ *
+ * 泰勒展开单元测试
+ */
+
+import { AngleUnit } from '@/types';
+import { ASTUtils } from '@/utils/ast';
+import { ExpressionCompiler } from '@/utils/compiler';
+import { RationalMath } from '@/utils/rational';
+import { SimplificationUtils } from '@/utils/simplification';
+import { TaylorUtils } from '@/utils/taylor';
+import { parse } from '../helpers/parse';
+
+const environment = { constants: new Map(), functions: new Map(), angleUnit: AngleUnit.RADIAN };
+
+// 整数值视为精确值，其余保留符号形式
+const expand = (input: string, point: string, order: number): string => {
+  const expansion = TaylorUtils.expand(parse(input), 'x', parse(point), order, node => {
+    const value = ExpressionCompiler.compile(node, [], environment)();
+    if (!Number.isFinite(value)) {
+      throw new Error('无定义');
+    }
+    return Number.isInteger(value) ? RationalMath.create(BigInt(value)) : SimplificationUtils.simplify(node);
+  });
+  return ASTUtils.toString(expansion.polynomial);
+};
+
+describe('TaylorUtils', () => {
+  test('should expand Maclaurin series with exact rational coefficients', () => {
+    expect(expand('sin(x)', '0', 5)).toBe('x - x^3/6 + x^5/120');
+    expect(expand('e^x', '0', 3)).toBe('1 + x + x^2/2 + x^3/6');
+    expect(expand('1/(1 - x)', '0', 2)).toBe('1 + x + x^2');
+  });
+
+  test('should expand about other points in powers of x - a', () => {
+    expect(expand('ln(x)', '1', 3)).toBe('x - 1 - (x - 1)^2/2 + (x - 1)^3/3');
+    expect(expand('x^3', '2', 3)).toBe('8 + 12*(x - 2) + 6*(x - 2)^2 + (x - 2)^3');
+    expect(expand('sin(x)', '1', 1)).toBe('sin(1) + cos(1)*(x - 1)');
+  });
+
+  test('should divide the series of a quotient whose denominator vanishes', () => {
+    expect(expand('sin(x)/x', '0', 4)).toBe('1 - x^2/6 + x^4/120');
+    expect(expand('x/(e^x - 1)', '0', 2)).toBe('1 - x/2 + x^2/12');
+    expect(() => expand('cos(x)/x', '0', 2)).toThrow('函数在展开点的 0 阶导数无定义');
+  });
+
+  test('should reject invalid orders and undefined derivatives', () => {
+    expect(() => expand('sin(x)', '0', -1)).toThrow('展开阶数必须是 0 到 20 之间的整数');
+    expect(() => expand('sqrt(x)', '0', 2)).toThrow('函数在展开点的 1 阶导数无定义');
+  });
+});
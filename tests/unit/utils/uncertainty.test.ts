@@ -0,0 +1,37 @@
+/**
+ * Uncertainty Utils Unit Tests
+ *
+ * 测量不确定度传播工具单元测试
+ */
+
+import { Decimal } from 'decimal.js';
+import { UncertaintyMath } from '@/utils/uncertainty';
+
+const text = (u: { value: Decimal; uncertainty: Decimal }): string =>
+  `${u.value.toString()} ± ${u.uncertainty.toString()}`;
+
+describe('UncertaintyMath', () => {
+  test('should combine independent uncertainties in quadrature', () => {
+    const a = UncertaintyMath.create(2, 0.3);
+    const b = UncertaintyMath.create(3, 0.4);
+
+    expect(text(UncertaintyMath.subtract(b, a))).toBe('1 ± 0.5');
+    expect(text(UncertaintyMath.multiply(UncertaintyMath.create(2, 0.1), UncertaintyMath.create(3, 0.2)))).toBe('6 ± 0.5');
+    expect(() => UncertaintyMath.create(1, -0.1)).toThrow('不确定度不能为负数');
+  });
+
+  test('should propagate through arbitrary functions with numeric derivatives', () => {
+    const x = UncertaintyMath.create(16, 0.4);
+    const result = UncertaintyMath.propagate([x], ([value]) => (value as Decimal).sqrt());
+
+    expect(result.value.toString()).toBe('4');
+    expect(result.uncertainty.toDecimalPlaces(8).toString()).toBe('0.05');
+  });
+
+  test('should round to significant figures matching the uncertainty', () => {
+    expect(text(UncertaintyMath.round(UncertaintyMath.create('9.8123', '0.0234')))).toBe('9.81 ± 0.02');
+    expect(text(UncertaintyMath.round(UncertaintyMath.create('9.8123', '0.0143')))).toBe('9.812 ± 0.014');
+    expect(text(UncertaintyMath.round(UncertaintyMath.create(1234, 56)))).toBe('1230 ± 60');
+    expect(UncertaintyMath.decimalPlaces(UncertaintyMath.create(1234, 56))).toBe(-1);
+  });
+});
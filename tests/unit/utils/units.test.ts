@@ -0,0 +1,38 @@
+/**
+ * Unit Utils Unit Tests
+ *
+ * 单位与量纲分析工具单元测试
+ */
+
+import { UnitMath } from '@/utils/units';
+import { RationalMath } from '@/utils/rational';
+
+describe('UnitMath', () => {
+  test('should resolve prefixed and imperial symbols', () => {
+    expect(UnitMath.isUnit('km')).toBe(true);
+    expect(UnitMath.isUnit('mph')).toBe(true);
+    expect(UnitMath.isUnit('kft')).toBe(false);
+    expect(UnitMath.unitOf('km').magnitude).toEqual(RationalMath.create(1000n));
+    expect(UnitMath.unitOf('ft').magnitude).toEqual(RationalMath.create(381n, 1250n));
+  });
+
+  test('should combine units and fold compatible ones', () => {
+    const speed = UnitMath.combine({ km: 1 }, { h: 1 }, -1);
+    expect(UnitMath.format(speed)).toBe('km/h');
+    expect(UnitMath.combine(speed, { h: 1 })).toEqual({ km: 1 });
+    expect(UnitMath.combine({ km: 1 }, { m: 1 })).toEqual({ km: 2 });
+    expect(UnitMath.sameDimension(UnitMath.dimensionOf({ J: 1 }), UnitMath.dimensionOf({ N: 1, m: 1 }))).toBe(true);
+  });
+
+  test('should only allow powers that keep integer exponents', () => {
+    expect(UnitMath.power({ m: 2 }, RationalMath.create(1n, 2n))).toEqual({ m: 1 });
+    expect(UnitMath.power({ m: 1 }, RationalMath.create(1n, 2n))).toBeNull();
+  });
+
+  test('should round-trip formatted units', () => {
+    for (const text of ['m/s', 'kg·m^2/s^2', 's^-1', 'N·m/(kg·s)']) {
+      expect(UnitMath.format(UnitMath.parse(text) ?? {})).toBe(text);
+    }
+    expect(UnitMath.parse('furlong')).toBeNull();
+  });
+});
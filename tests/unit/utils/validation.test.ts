@@ -5,6 +5,7 @@
  */
 
 import { ValidationUtils } from '@/utils/validation';
+import { CalculatorType } from '@/types';
 
 describe('ValidationUtils', () => {
   describe('Number Validation', () => {
@@ -345,6 +346,25 @@ describe('ValidationUtils', () => {
     });
   });
 
+  describe('Diagnostics', () => {
+    test('should locate unknown functions and suggest replacements', () => {
+      const [diagnostic] = ValidationUtils.diagnoseExpression('1 + sine(30)', CalculatorType.SCIENTIFIC);
+
+      expect(diagnostic?.span).toEqual({ start: 4, end: 8 });
+      expect(diagnostic?.fixes.map(fix => fix.text)).toContain('sin');
+
+      const fix = diagnostic?.fixes.find(candidate => candidate.text === 'sin');
+      expect(fix && ValidationUtils.applyFix('1 + sine(30)', fix)).toBe('1 + sin(30)');
+    });
+
+    test('should offer to close unbalanced parentheses', () => {
+      const [diagnostic] = ValidationUtils.diagnoseExpression('sqrt((2 + 3) ');
+
+      expect(diagnostic?.span).toEqual({ start: 4, end: 5 });
+      expect(diagnostic?.fixes).toEqual([{ label: '补全右括号', span: { start: 12, end: 12 }, text: ')' }]);
+    });
+  });
+
   describe('Performance', () => {
     test('should validate expressions quickly', () => {
       const expressions = [